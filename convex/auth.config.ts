@@ -0,0 +1,16 @@
+/**
+ * Convex Authentication Configuration
+ *
+ * Trusts JWTs issued by Clerk's "convex" JWT template. Set
+ * CLERK_JWT_ISSUER_DOMAIN in the Convex dashboard to the issuer URL of
+ * your Clerk instance (e.g. https://your-app.clerk.accounts.dev).
+ */
+
+export default {
+  providers: [
+    {
+      domain: process.env.CLERK_JWT_ISSUER_DOMAIN,
+      applicationID: 'convex',
+    },
+  ],
+};
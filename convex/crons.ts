@@ -0,0 +1,52 @@
+/**
+ * Scheduled Jobs
+ *
+ * Recurring maintenance tasks for the FoodyLog backend.
+ */
+
+import { cronJobs } from 'convex/server';
+import { internal } from './_generated/api';
+
+const crons = cronJobs();
+
+// Remove stored files that no meal photo references
+crons.daily(
+  'collect orphaned photo files',
+  { hourUTC: 3, minuteUTC: 30 },
+  internal.functions.storage.collectOrphanedFiles,
+  {},
+);
+
+// Drop analytics cache entries past their expiry
+crons.daily(
+  'purge expired analytics cache',
+  { hourUTC: 4, minuteUTC: 0 },
+  internal.functions.analytics.purgeExpiredAnalytics,
+  {},
+);
+
+// Drop offline replay idempotency records past their retention period
+crons.daily(
+  'purge old sync operations',
+  { hourUTC: 4, minuteUTC: 30 },
+  internal.functions.sync.purgeSyncOperations,
+  {},
+);
+
+// Drop Stripe webhook idempotency records past their retention period
+crons.daily(
+  'purge old stripe events',
+  { hourUTC: 5, minuteUTC: 0 },
+  internal.functions.subscriptions.purgeStripeEvents,
+  {},
+);
+
+// Store today's exchange rates (published by the ECB around 16:00 CET)
+crons.daily(
+  'sync exchange rates',
+  { hourUTC: 16, minuteUTC: 30 },
+  internal.functions.exchangeRates.syncExchangeRates,
+  {},
+);
+
+export default crons;
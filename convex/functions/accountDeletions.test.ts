@@ -0,0 +1,312 @@
+/**
+ * Account Deletion Tests
+ *
+ * Requests a deletion, cancels it in the grace period or lets it run, and
+ * proves no row of the user is left in any table afterwards while other
+ * users keep their data. Also covers the signed receipt, the Clerk
+ * user.deleted webhook and the cancellation of the Stripe subscription.
+ */
+
+import { URL as NodeURL } from 'node:url';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { api, internal } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import { setupUsers, type TestConvex, type TestClient } from '../test.helpers';
+import { signSvixPayload } from '../lib/clerk';
+import { signStripePayload, type StripeEvent } from '../lib/stripe';
+import { sha256Hex } from '../lib/crypto';
+import {
+  ACCOUNT_DELETION_GRACE_PERIOD_MS,
+  EXTERNAL_DELETION_MAX_ATTEMPTS,
+  USER_DATA_TABLES,
+  takeUserRows,
+  verifyDeletionReceipt,
+} from '../lib/accountDeletion';
+import { createStripeFixtures } from '../../scripts/fixtures/stripeEvents';
+
+const receiptSecret = 'receipt_secret';
+const webhookSecret = `whsec_${btoa('clerk_webhook_secret')}`;
+const stripeWebhookSecret = 'whsec_stripe';
+
+/**
+ * Give a user a row in every table that holds user data
+ */
+async function populate(t: TestConvex, client: TestClient) {
+  await client.mutation(api.functions.budgets.createBudget, {
+    name: 'Eating out',
+    amount: 10,
+    currency: 'USD',
+    period: 'monthly',
+  });
+  const mealId = await client.mutation(api.functions.meals.createMeal, {
+    title: 'Ramen',
+    rating: 8,
+    mealType: 'dinner',
+    price: 20,
+    tags: ['noodles'],
+    location: { name: 'Ippudo' },
+    idempotencyKey: 'outbox-1',
+  });
+  const storageId = await t.run(async (ctx) => await ctx.storage.store(new Blob([new Uint8Array(512)], { type: 'image/jpeg' })));
+  await client.mutation(api.functions.photos.attachPhoto, { mealId, storageId, filename: 'ramen.jpg', mimeType: 'image/jpeg' });
+  await t.run(async (ctx) => {
+    const meal = await ctx.db.get(mealId);
+    await ctx.db.insert('analyticsCache', {
+      userId: meal!.userId,
+      cacheKey: 'weekly_test',
+      period: 'weekly',
+      startDate: 0,
+      endDate: 1,
+      data: {},
+      generatedAt: 0,
+      expiresAt: Date.now() + 1000,
+      version: '1',
+    });
+  });
+  const jobId = await client.mutation(api.functions.imports.createImportJob, { source: 'csv', filename: 'meals.csv' });
+  await client.mutation(api.functions.imports.addImportRows, { jobId, rows: [{ row: 2, error: 'Title is missing' }] });
+
+  return { storageId };
+}
+
+/**
+ * Rows the user still has in each table, including the user row
+ */
+async function countUserRows(t: TestConvex, userId: Id<'users'>) {
+  return await t.run(async (ctx) => {
+    const counts: Record<string, number> = {
+      users: (await ctx.db.get(userId)) ? 1 : 0,
+      accountDeletions: (await ctx.db.query('accountDeletions').withIndex('by_user', (q) => q.eq('userId', userId)).collect()).length,
+    };
+    for (const table of USER_DATA_TABLES) {
+      counts[table] = (await takeUserRows(ctx, table, userId, 1000)).length;
+    }
+    return counts;
+  });
+}
+
+async function deliverStripe(t: TestConvex, event: StripeEvent) {
+  const payload = JSON.stringify(event);
+  return await t.fetch('/stripe/webhook', {
+    method: 'POST',
+    headers: { 'Stripe-Signature': await signStripePayload(payload, stripeWebhookSecret) },
+    body: payload,
+  });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.stubEnv('DELETION_RECEIPT_SECRET', receiptSecret);
+  vi.stubEnv('CLERK_WEBHOOK_SECRET', webhookSecret);
+  // t.fetch parses the route with URL, which the DOM test setup mocks
+  vi.stubGlobal('URL', NodeURL);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('account deletion', () => {
+  it('keeps data during the grace period and can be canceled', async () => {
+    const { t, aliceId, alice } = await setupUsers();
+    await populate(t, alice);
+
+    const { scheduledFor } = await alice.mutation(api.functions.users.deleteUser, {});
+
+    expect(scheduledFor).toBe(Date.now() + ACCOUNT_DELETION_GRACE_PERIOD_MS);
+    expect(await alice.query(api.functions.users.getUserDeletion, {})).toMatchObject({ status: 'scheduled', scheduledFor, canCancel: true });
+
+    await alice.mutation(api.functions.users.cancelUserDeletion, {});
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(await alice.query(api.functions.users.getUserDeletion, {})).toBeNull();
+    const counts = await countUserRows(t, aliceId);
+    expect(counts).toMatchObject({ users: 1, meals: 1, mealPhotos: 1, accountDeletions: 0 });
+    await expect(alice.mutation(api.functions.users.cancelUserDeletion, {})).rejects.toThrow('No account deletion is scheduled');
+  });
+
+  it('deletes every row and file of the user after the grace period', async () => {
+    const { t, aliceId, bobId, alice, bob } = await setupUsers();
+    const { storageId } = await populate(t, alice);
+    await populate(t, bob);
+    const { accountDeletions, ...before } = await countUserRows(t, aliceId);
+    expect(accountDeletions).toBe(0);
+    expect(Object.entries(before).filter(([, count]) => count === 0)).toEqual([]);
+
+    const { receiptId } = await alice.mutation(api.functions.users.deleteUser, {});
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const after = await countUserRows(t, aliceId);
+    expect(Object.values(after).every(count => count === 0)).toBe(true);
+    expect(await t.run(async (ctx) => await ctx.storage.getUrl(storageId))).toBeNull();
+    expect(await countUserRows(t, bobId)).toEqual({ ...before, accountDeletions: 0 });
+
+    const receipt = await t.query(api.functions.accountDeletions.getDeletionReceipt, { receiptId });
+    expect(receipt).toMatchObject({
+      receiptId,
+      subject: await sha256Hex('user_alice'),
+      source: 'user',
+      deleted: { ...before, storage: 1 },
+    });
+    expect(await verifyDeletionReceipt(receipt!, receiptSecret)).toBe(true);
+    expect(await verifyDeletionReceipt({ ...receipt!, deleted: { meals: 0 } }, receiptSecret)).toBe(false);
+  });
+
+  it('deletes large accounts in batches', async () => {
+    const { t, aliceId, alice } = await setupUsers();
+    for (let i = 0; i < 5; i++) {
+      await alice.mutation(api.functions.meals.createMeal, { title: `Meal ${i}`, rating: 7, mealType: 'lunch', tags: [] });
+    }
+    await alice.mutation(api.functions.users.deleteUser, {});
+    const deletion = await t.run(async (ctx) => await ctx.db.query('accountDeletions').first());
+
+    const first = await t.mutation(internal.functions.accountDeletions.deleteAccountData, {
+      deletionId: deletion!._id,
+      batchSize: 3,
+    });
+
+    expect(first).toEqual({ isDone: false });
+    expect(await alice.query(api.functions.users.getUserDeletion, {})).toMatchObject({ status: 'deleting' });
+    await expect(alice.mutation(api.functions.users.cancelUserDeletion, {})).rejects.toThrow('already being deleted');
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(Object.values(await countUserRows(t, aliceId)).every(count => count === 0)).toBe(true);
+  });
+
+  it('retries removing the Clerk user with backoff', async () => {
+    const { t, alice } = await setupUsers();
+    vi.stubEnv('CLERK_SECRET_KEY', 'sk_test');
+    const fetch = vi.fn()
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValueOnce(new Response(null, { status: 503 }))
+      .mockResolvedValue(new Response(null, { status: 200 }));
+    vi.stubGlobal('fetch', fetch);
+
+    await alice.mutation(api.functions.users.deleteUser, {});
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(fetch).toHaveBeenLastCalledWith('https://api.clerk.com/v1/users/user_alice', expect.objectContaining({ method: 'DELETE' }));
+  });
+
+  it('stops retrying the Clerk user after the last attempt', async () => {
+    const { t, alice } = await setupUsers();
+    vi.stubEnv('CLERK_SECRET_KEY', 'sk_test');
+    const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 500 }));
+    vi.stubGlobal('fetch', fetch);
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await alice.mutation(api.functions.users.deleteUser, {});
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(fetch).toHaveBeenCalledTimes(EXTERNAL_DELETION_MAX_ATTEMPTS);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining('failed after 6 attempts'));
+    error.mockRestore();
+  });
+
+  it('cancels an active Stripe subscription and acknowledges its later webhooks', async () => {
+    const { t, alice } = await setupUsers();
+    vi.stubEnv('STRIPE_WEBHOOK_SECRET', stripeWebhookSecret);
+    vi.stubEnv('STRIPE_SECRET_KEY', 'sk_test');
+    const fixtures = createStripeFixtures({ clerkId: 'user_alice', now: Date.now() });
+    await deliverStripe(t, fixtures.checkoutCompleted);
+    await deliverStripe(t, fixtures.invoicePaid);
+    const fetch = vi.fn().mockResolvedValue(new Response(null, { status: 200 }));
+    vi.stubGlobal('fetch', fetch);
+
+    await alice.mutation(api.functions.users.deleteUser, {});
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(fetch).toHaveBeenCalledWith('https://api.stripe.com/v1/subscriptions/sub_fixture', expect.objectContaining({
+      method: 'DELETE',
+      headers: { Authorization: 'Bearer sk_test' },
+    }));
+    const response = await deliverStripe(t, fixtures.subscriptionDeleted);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, result: 'deleted_user' });
+  });
+
+  it('requires the receipt secret', async () => {
+    const { alice } = await setupUsers();
+    vi.stubEnv('DELETION_RECEIPT_SECRET', '');
+
+    await expect(alice.mutation(api.functions.users.deleteUser, {})).rejects.toThrow('Account deletion is not configured');
+  });
+});
+
+describe('clerk webhook', () => {
+  async function deliver(t: TestConvex, event: object, secret = webhookSecret) {
+    const payload = JSON.stringify(event);
+    const headers = await signSvixPayload(payload, secret, 'msg_1');
+    return await t.fetch('/clerk/webhook', {
+      method: 'POST',
+      headers: { 'svix-id': headers.id!, 'svix-timestamp': headers.timestamp!, 'svix-signature': headers.signature! },
+      body: payload,
+    });
+  }
+
+  it('starts the same deletion right away for user.deleted', async () => {
+    const { t, aliceId, alice } = await setupUsers();
+    await populate(t, alice);
+
+    const response = await deliver(t, { type: 'user.deleted', data: { id: 'user_alice', deleted: true } });
+
+    expect(await response.json()).toEqual({ received: true, result: 'scheduled' });
+    expect(await alice.query(api.functions.users.getUserDeletion, {})).toMatchObject({
+      status: 'scheduled',
+      scheduledFor: Date.now(),
+      canCancel: false,
+    });
+    await expect(alice.mutation(api.functions.users.cancelUserDeletion, {})).rejects.toThrow('already being deleted');
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(Object.values(await countUserRows(t, aliceId)).every(count => count === 0)).toBe(true);
+    const receipt = await t.run(async (ctx) => await ctx.db.query('deletionReceipts').first());
+    expect(receipt?.source).toBe('clerk');
+  });
+
+  it('ends the grace period of a pending deletion when Clerk deletes the user', async () => {
+    const { t, aliceId, alice } = await setupUsers();
+    const { receiptId } = await alice.mutation(api.functions.users.deleteUser, {});
+
+    await deliver(t, { type: 'user.deleted', data: { id: 'user_alice', deleted: true } });
+
+    expect(await alice.query(api.functions.users.getUserDeletion, {})).toMatchObject({ receiptId, scheduledFor: Date.now() });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    expect(await countUserRows(t, aliceId)).toMatchObject({ users: 0, accountDeletions: 0 });
+    const receipts = await t.run(async (ctx) => await ctx.db.query('deletionReceipts').collect());
+    expect(receipts).toMatchObject([{ receiptId, source: 'clerk' }]);
+  });
+
+  it('does not bring back a deleted account on a late user.updated', async () => {
+    const { t, alice } = await setupUsers();
+    const update = { type: 'user.updated', data: { id: 'user_alice', first_name: 'Alice' } };
+    await alice.mutation(api.functions.users.deleteUser, {});
+
+    const pending = await deliver(t, update);
+
+    expect(await pending.json()).toEqual({ received: true, result: 'ignored' });
+    expect(await alice.query(api.functions.users.getCurrentUser, {})).not.toHaveProperty('firstName');
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+    const late = await deliver(t, update);
+
+    expect(await late.json()).toEqual({ received: true, result: 'ignored' });
+    expect(await alice.query(api.functions.users.getCurrentUser, {})).toBeNull();
+  });
+
+  it('ignores unknown users and other events, and rejects bad signatures', async () => {
+    const { t } = await setupUsers();
+
+    const unknown = await deliver(t, { type: 'user.deleted', data: { id: 'user_carol' } });
+    const other = await deliver(t, { type: 'session.created', data: { id: 'sess_1' } });
+    const forged = await deliver(t, { type: 'user.deleted', data: { id: 'user_alice' } }, `whsec_${btoa('wrong')}`);
+
+    expect(await unknown.json()).toEqual({ received: true, result: 'ignored' });
+    expect(await other.json()).toEqual({ received: true, result: 'ignored' });
+    expect(forged.status).toBe(400);
+    expect(await t.run(async (ctx) => await ctx.db.query('accountDeletions').collect())).toEqual([]);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Account Deletion Functions
+ *
+ * Runs the account deletions scheduled by `users.deleteUser` and the
+ * Clerk webhook (see `lib/accountDeletion.ts`): deletes every row the
+ * user owns and their photo files, then the user, and signs a receipt.
+ *
+ * Key Features:
+ * - Batched cascade that reschedules itself until nothing is left
+ * - Signed deletion receipt, readable by its ID after the account is gone
+ * - Removal of the Clerk user when the deletion was requested in the app,
+ *   retried with backoff
+ * - Cancellation of an active Stripe subscription, retried with backoff
+ */
+
+import { internalAction, internalMutation, query } from '../_generated/server';
+import { internal } from '../_generated/api';
+import { v } from 'convex/values';
+import {
+  ACCOUNT_DELETION_BATCH_SIZE,
+  EXTERNAL_DELETION_MAX_ATTEMPTS,
+  EXTERNAL_DELETION_RETRY_BASE_MS,
+  USER_DATA_TABLES,
+  getDeletionReceiptSecret,
+  signDeletionReceipt,
+  takeUserRows,
+  type DeletionReceipt,
+} from '../lib/accountDeletion';
+import { sha256Hex } from '../lib/crypto';
+
+/**
+ * Get a deletion receipt by its ID
+ *
+ * The ID is given to the user when they request the deletion; the
+ * receipt exists once the deletion has completed.
+ */
+export const getDeletionReceipt = query({
+  args: {
+    receiptId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const receipt = await ctx.db
+      .query('deletionReceipts')
+      .withIndex('by_receipt_id', (q) => q.eq('receiptId', args.receiptId))
+      .first();
+
+    if (!receipt) {
+      return null;
+    }
+
+    const { _id, _creationTime, ...fields } = receipt;
+    return fields;
+  },
+});
+
+/**
+ * Delete the next batch of a user's data, and finish the deletion once
+ * nothing is left
+ *
+ * Scheduled when the grace period ends; reschedules itself after each
+ * batch. A canceled deletion has no row left and is skipped.
+ */
+export const deleteAccountData = internalMutation({
+  args: {
+    deletionId: v.id('accountDeletions'),
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const deletion = await ctx.db.get(args.deletionId);
+    if (!deletion) {
+      return { isDone: true };
+    }
+
+    const batchSize = args.batchSize ?? ACCOUNT_DELETION_BATCH_SIZE;
+    const deleted = { ...deletion.deleted };
+    const count = (key: string) => {
+      deleted[key] = (deleted[key] ?? 0) + 1;
+    };
+
+    let remaining = batchSize;
+    for (const table of USER_DATA_TABLES) {
+      const rows = await takeUserRows(ctx, table, deletion.userId, remaining);
+      for (const row of rows) {
+        if ('storageId' in row) {
+          const storageId = ctx.db.system.normalizeId('_storage', row.storageId);
+          if (storageId && await ctx.db.system.get(storageId)) {
+            await ctx.storage.delete(storageId);
+            count('storage');
+          }
+        }
+        await ctx.db.delete(row._id);
+        count(table);
+      }
+
+      remaining -= rows.length;
+      if (remaining === 0) {
+        await ctx.db.patch(deletion._id, { status: 'deleting', deleted });
+        await ctx.scheduler.runAfter(0, internal.functions.accountDeletions.deleteAccountData, args);
+        return { isDone: false };
+      }
+    }
+
+    // Everything the user owned is gone: remove the user and sign the receipt
+    const user = await ctx.db.get(deletion.userId);
+    const subscription = user?.subscription;
+    if (user) {
+      await ctx.db.delete(user._id);
+      count('users');
+    }
+    await ctx.db.delete(deletion._id);
+
+    const receipt: DeletionReceipt = {
+      receiptId: deletion.receiptId,
+      subject: await sha256Hex(deletion.clerkId),
+      source: deletion.source,
+      requestedAt: deletion.requestedAt,
+      completedAt: Date.now(),
+      deleted,
+    };
+    await ctx.db.insert('deletionReceipts', {
+      ...receipt,
+      signature: await signDeletionReceipt(receipt, getDeletionReceiptSecret()),
+      stripeCustomer: subscription?.stripeCustomerId ? await sha256Hex(subscription.stripeCustomerId) : undefined,
+    });
+
+    if (subscription?.stripeSubscriptionId && subscription.status !== 'canceled') {
+      await ctx.scheduler.runAfter(0, internal.functions.accountDeletions.cancelStripeSubscription, {
+        stripeSubscriptionId: subscription.stripeSubscriptionId,
+      });
+    }
+
+    if (deletion.source === 'user') {
+      await ctx.scheduler.runAfter(0, internal.functions.accountDeletions.deleteClerkUser, {
+        clerkId: deletion.clerkId,
+      });
+    }
+
+    return { isDone: true };
+  },
+});
+
+/**
+ * Send a DELETE request to an external API
+ *
+ * A missing resource counts as deleted.
+ *
+ * @returns Why the request failed, or null once it succeeded
+ */
+async function sendDelete(url: string, secretKey: string): Promise<string | null> {
+  try {
+    const response = await fetch(url, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${secretKey}` },
+    });
+    return response.ok || response.status === 404 ? null : `status ${response.status}`;
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+}
+
+/**
+ * Delete the user from Clerk after their data was deleted
+ *
+ * Skipped when CLERK_SECRET_KEY is not set (local development). Clerk then
+ * sends a user.deleted webhook, which finds no user and is ignored. Failed
+ * requests are retried with exponential backoff, up to
+ * EXTERNAL_DELETION_MAX_ATTEMPTS attempts.
+ */
+export const deleteClerkUser = internalAction({
+  args: {
+    clerkId: v.string(),
+    attempt: v.optional(v.number()), // 0-based
+  },
+  handler: async (ctx, args) => {
+    const secretKey = process.env.CLERK_SECRET_KEY;
+    if (!secretKey) {
+      return null;
+    }
+
+    const attempt = args.attempt ?? 0;
+    const error = await sendDelete(`https://api.clerk.com/v1/users/${encodeURIComponent(args.clerkId)}`, secretKey);
+    if (!error) {
+      return null;
+    }
+
+    if (attempt + 1 >= EXTERNAL_DELETION_MAX_ATTEMPTS) {
+      console.error(`Clerk user deletion failed after ${attempt + 1} attempts (${error})`);
+      return null;
+    }
+
+    await ctx.scheduler.runAfter(
+      EXTERNAL_DELETION_RETRY_BASE_MS * 2 ** attempt,
+      internal.functions.accountDeletions.deleteClerkUser,
+      { clerkId: args.clerkId, attempt: attempt + 1 },
+    );
+    return null;
+  },
+});
+
+/**
+ * Cancel the Stripe subscription of a deleted account
+ *
+ * Stops billing right away, without proration. Skipped when
+ * STRIPE_SECRET_KEY is not set (local development). The webhooks Stripe
+ * sends for the customer afterwards are acknowledged through the hash
+ * kept on the deletion receipt. Failed requests are retried with
+ * exponential backoff, up to EXTERNAL_DELETION_MAX_ATTEMPTS attempts.
+ */
+export const cancelStripeSubscription = internalAction({
+  args: {
+    stripeSubscriptionId: v.string(),
+    attempt: v.optional(v.number()), // 0-based
+  },
+  handler: async (ctx, args) => {
+    const secretKey = process.env.STRIPE_SECRET_KEY;
+    if (!secretKey) {
+      console.warn(`STRIPE_SECRET_KEY is not set; subscription ${args.stripeSubscriptionId} was not canceled`);
+      return null;
+    }
+
+    const attempt = args.attempt ?? 0;
+    const error = await sendDelete(
+      `https://api.stripe.com/v1/subscriptions/${encodeURIComponent(args.stripeSubscriptionId)}`,
+      secretKey,
+    );
+    if (!error) {
+      return null;
+    }
+
+    if (attempt + 1 >= EXTERNAL_DELETION_MAX_ATTEMPTS) {
+      console.error(`Stripe subscription ${args.stripeSubscriptionId} cancellation failed after ${attempt + 1} attempts (${error})`);
+      return null;
+    }
+
+    await ctx.scheduler.runAfter(
+      EXTERNAL_DELETION_RETRY_BASE_MS * 2 ** attempt,
+      internal.functions.accountDeletions.cancelStripeSubscription,
+      { stripeSubscriptionId: args.stripeSubscriptionId, attempt: attempt + 1 },
+    );
+    return null;
+  },
+});
@@ -0,0 +1,166 @@
+/**
+ * Analytics Function Tests
+ *
+ * Covers the period aggregates, the free tier history limit and the
+ * analyticsCache lifecycle: storing, serving, version invalidation on meal
+ * changes, expiry and purging.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { api, internal } from '../_generated/api';
+import { setupUsers } from '../test.helpers';
+import { ANALYTICS_CACHE_TTL_MS } from '../lib/analytics';
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK_START = Date.UTC(2025, 2, 3); // Monday
+
+const week = {
+  period: 'weekly' as const,
+  startDate: WEEK_START,
+  endDate: WEEK_START + 7 * DAY,
+  bucketStarts: Array.from({ length: 7 }, (_, day) => WEEK_START + day * DAY),
+};
+
+/**
+ * Provision a user with a few meals in the analysed week
+ *
+ * The week is long past, so the user is premium unless a test is about the
+ * free tier history limit.
+ */
+async function setup(tier: 'free' | 'premium' = 'premium') {
+  const { t, alice } = await setupUsers(tier);
+
+  const addMeal = (overrides: Record<string, unknown> = {}) =>
+    alice.mutation(api.functions.meals.createMeal, {
+      title: 'Meal',
+      rating: 8,
+      mealType: 'lunch',
+      tags: [],
+      mealDate: WEEK_START + 12 * 60 * 60 * 1000,
+      ...overrides,
+    });
+
+  await addMeal({ rating: 9, price: 12.5, tags: ['thai', 'spicy'], location: { name: 'Thai Garden' } });
+  await addMeal({ rating: 7, price: 8, mealType: 'breakfast', tags: ['thai'], mealDate: WEEK_START + 2 * DAY });
+  await addMeal({ rating: 4, price: 20, mealType: 'dinner', location: { name: 'Thai Garden' }, mealDate: WEEK_START + 2 * DAY + 1 });
+  // Outside the week
+  await addMeal({ rating: 1, price: 100, mealDate: WEEK_START - 1 });
+
+  const cacheRows = () => t.run(async (ctx) => await ctx.db.query('analyticsCache').collect());
+
+  return { t, alice, addMeal, cacheRows };
+}
+
+describe('analytics aggregates', () => {
+  it('computes counts, ratings, spend and top lists for the range', async () => {
+    const { alice } = await setup();
+
+    const { data, cached } = await alice.query(api.functions.analytics.getAnalytics, week);
+
+    expect(cached).toBe(false);
+    expect(data.totalMeals).toBe(3);
+    expect(data.averageRating).toBe(6.67);
+    expect(data.totalSpent).toBe(40.5);
+    expect(data.mealsByType).toEqual({ breakfast: 1, lunch: 1, dinner: 1, snack: 0 });
+    expect(data.ratingDistribution[3]).toBe(1);
+    expect(data.ratingDistribution[6]).toBe(1);
+    expect(data.ratingDistribution[8]).toBe(1);
+    expect(data.spendOverTime.map(bucket => bucket.totalSpent)).toEqual([12.5, 0, 28, 0, 0, 0, 0]);
+    expect(data.topTags).toEqual([{ tag: 'thai', count: 2 }, { tag: 'spicy', count: 1 }]);
+    expect(data.topPlaces).toEqual([{ name: 'Thai Garden', count: 2, averageRating: 6.5 }]);
+  });
+
+  it('rejects malformed ranges', async () => {
+    const { alice } = await setup();
+
+    await expect(alice.query(api.functions.analytics.getAnalytics, {
+      ...week,
+      bucketStarts: [week.startDate + DAY],
+    })).rejects.toThrow('first analytics bucket');
+  });
+});
+
+describe('analytics history limit', () => {
+  it('rejects ranges older than the free tier history with ANALYTICS_HISTORY_LIMIT', async () => {
+    const { alice } = await setup('free');
+
+    await expect(alice.query(api.functions.analytics.getAnalytics, week))
+      .rejects.toThrow('ANALYTICS_HISTORY_LIMIT');
+    await expect(alice.mutation(api.functions.analytics.refreshAnalytics, week))
+      .rejects.toThrow('ANALYTICS_HISTORY_LIMIT');
+  });
+
+  it('allows free users ranges within the history window', async () => {
+    const { alice } = await setup('free');
+    const startDate = Date.now() - 7 * DAY;
+
+    const { data } = await alice.query(api.functions.analytics.getAnalytics, {
+      period: 'weekly',
+      startDate,
+      endDate: startDate + 7 * DAY,
+      bucketStarts: [startDate],
+    });
+
+    expect(data.totalMeals).toBe(0);
+  });
+});
+
+describe('analytics cache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores results and serves them from the cache', async () => {
+    const { alice, cacheRows } = await setup();
+
+    expect(await alice.mutation(api.functions.analytics.refreshAnalytics, week)).toEqual({ refreshed: true });
+    expect(await alice.mutation(api.functions.analytics.refreshAnalytics, week)).toEqual({ refreshed: false });
+
+    const result = await alice.query(api.functions.analytics.getAnalytics, week);
+    expect(result.cached).toBe(true);
+    expect(result.data.totalMeals).toBe(3);
+    expect(await cacheRows()).toHaveLength(1);
+  });
+
+  it('caches ranges with different bucket boundaries separately', async () => {
+    const { alice, cacheRows } = await setup();
+    // Same range and bucket count, with days starting at 10:00 UTC
+    const shifted = { ...week, bucketStarts: week.bucketStarts.map((start, day) => day === 0 ? start : start + 10 * 60 * 60 * 1000) };
+    await alice.mutation(api.functions.analytics.refreshAnalytics, week);
+
+    expect(await alice.mutation(api.functions.analytics.refreshAnalytics, shifted)).toEqual({ refreshed: true });
+
+    const result = await alice.query(api.functions.analytics.getAnalytics, shifted);
+    expect(result.cached).toBe(true);
+    expect(result.data.spendOverTime.map(bucket => bucket.totalSpent)).toEqual([12.5, 28, 0, 0, 0, 0, 0]);
+    expect(await cacheRows()).toHaveLength(2);
+  });
+
+  it('invalidates cached results when a meal changes', async () => {
+    const { alice, addMeal, cacheRows } = await setup();
+    await alice.mutation(api.functions.analytics.refreshAnalytics, week);
+
+    await addMeal({ rating: 10 });
+
+    const stale = await alice.query(api.functions.analytics.getAnalytics, week);
+    expect(stale.cached).toBe(false);
+    expect(stale.data.totalMeals).toBe(4);
+
+    await alice.mutation(api.functions.analytics.refreshAnalytics, week);
+    expect((await alice.query(api.functions.analytics.getAnalytics, week)).cached).toBe(true);
+    expect(await cacheRows()).toHaveLength(1);
+  });
+
+  it('treats expired entries as missing and purges them', async () => {
+    const { t, alice, cacheRows } = await setup();
+    await alice.mutation(api.functions.analytics.refreshAnalytics, week);
+
+    vi.useFakeTimers();
+    vi.advanceTimersByTime(ANALYTICS_CACHE_TTL_MS.weekly + 1);
+
+    expect((await alice.query(api.functions.analytics.getAnalytics, week)).cached).toBe(false);
+
+    await t.mutation(internal.functions.analytics.purgeExpiredAnalytics, {});
+    expect(await cacheRows()).toHaveLength(0);
+  });
+});
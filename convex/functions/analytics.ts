@@ -0,0 +1,166 @@
+/**
+ * Analytics Functions
+ *
+ * Daily, weekly, monthly and yearly meal aggregates for the analytics
+ * dashboard: meal counts per type, rating distribution, spend over time and
+ * top tags and places.
+ *
+ * Results are stored in `analyticsCache`. `getAnalytics` serves a valid
+ * cache entry when one exists and otherwise computes the aggregates live;
+ * the client then calls `refreshAnalytics` to store them, so later reads
+ * only touch the cache row.
+ *
+ * Key Features:
+ * - Range reads through the by_user_date index
+ * - Expiry plus version invalidation on meal changes
+ * - Free tier history limit from `lib/entitlements.ts`
+ * - Daily purge of expired cache entries
+ */
+
+import { internalMutation, mutation, query } from '../_generated/server';
+import { internal } from '../_generated/api';
+import { v } from 'convex/values';
+import { requireUser } from '../lib/auth';
+import { assertEntitled, checkAnalyticsHistory } from '../lib/entitlements';
+import { getEffectiveTier } from '../lib/subscription';
+import {
+  ANALYTICS_CACHE_TTL_MS,
+  computeMealAnalytics,
+  getAnalyticsCacheKey,
+  getAnalyticsVersion,
+  getMealsInRange,
+  getValidAnalyticsCache,
+  validateAnalyticsRange,
+  type MealAnalytics,
+} from '../lib/analytics';
+
+const analyticsArgs = {
+  period: v.union(
+    v.literal('daily'),
+    v.literal('weekly'),
+    v.literal('monthly'),
+    v.literal('yearly'),
+  ),
+  startDate: v.number(), // timestamp, inclusive
+  endDate: v.number(), // timestamp, exclusive
+  bucketStarts: v.array(v.number()), // spend-over-time bucket boundaries
+};
+
+/**
+ * Get analytics for a period
+ *
+ * Returns cached aggregates when a valid entry exists, otherwise computes
+ * them from the user's meals. `cached` tells the client whether to call
+ * `refreshAnalytics`. Throws ANALYTICS_HISTORY_LIMIT for ranges older than
+ * the user's tier allows.
+ */
+export const getAnalytics = query({
+  args: analyticsArgs,
+  handler: async (ctx, args): Promise<{
+    data: MealAnalytics;
+    cached: boolean;
+    generatedAt: number;
+  }> => {
+    const user = await requireUser(ctx);
+
+    const rangeError = validateAnalyticsRange(args);
+    if (rangeError) {
+      throw new Error(rangeError);
+    }
+    assertEntitled(checkAnalyticsHistory(getEffectiveTier(user), args.startDate));
+
+    const cacheKey = getAnalyticsCacheKey(args.period, args);
+    const cached = await getValidAnalyticsCache(ctx, user, cacheKey);
+
+    if (cached) {
+      return { data: cached.data as MealAnalytics, cached: true, generatedAt: cached.generatedAt };
+    }
+
+    const meals = await getMealsInRange(ctx, user._id, args);
+
+    return {
+      data: computeMealAnalytics(meals, args),
+      cached: false,
+      generatedAt: Date.now(),
+    };
+  },
+});
+
+/**
+ * Compute analytics for a period and store them in analyticsCache
+ *
+ * Skips the work when a valid entry already exists.
+ */
+export const refreshAnalytics = mutation({
+  args: analyticsArgs,
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+
+    const rangeError = validateAnalyticsRange(args);
+    if (rangeError) {
+      throw new Error(rangeError);
+    }
+    assertEntitled(checkAnalyticsHistory(getEffectiveTier(user), args.startDate));
+
+    const cacheKey = getAnalyticsCacheKey(args.period, args);
+    if (await getValidAnalyticsCache(ctx, user, cacheKey)) {
+      return { refreshed: false };
+    }
+
+    const now = Date.now();
+    const meals = await getMealsInRange(ctx, user._id, args);
+    const entry = {
+      userId: user._id,
+      cacheKey,
+      period: args.period,
+      startDate: args.startDate,
+      endDate: args.endDate,
+      data: computeMealAnalytics(meals, args),
+      generatedAt: now,
+      expiresAt: now + ANALYTICS_CACHE_TTL_MS[args.period],
+      version: getAnalyticsVersion(user),
+    };
+
+    const existing = await ctx.db
+      .query('analyticsCache')
+      .withIndex('by_user_key', (q) => q.eq('userId', user._id).eq('cacheKey', cacheKey))
+      .first();
+
+    if (existing) {
+      await ctx.db.replace(existing._id, entry);
+    } else {
+      await ctx.db.insert('analyticsCache', entry);
+    }
+
+    return { refreshed: true };
+  },
+});
+
+/**
+ * Delete expired analytics cache entries
+ *
+ * Runs daily from crons.ts; deletes in batches and reschedules itself
+ * until no expired entries remain.
+ */
+export const purgeExpiredAnalytics = internalMutation({
+  args: {
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const batchSize = args.batchSize ?? 200;
+    const expired = await ctx.db
+      .query('analyticsCache')
+      .withIndex('by_expires', (q) => q.lte('expiresAt', Date.now()))
+      .take(batchSize);
+
+    for (const entry of expired) {
+      await ctx.db.delete(entry._id);
+    }
+
+    if (expired.length === batchSize) {
+      await ctx.scheduler.runAfter(0, internal.functions.analytics.purgeExpiredAnalytics, args);
+    }
+
+    return { deleted: expired.length };
+  },
+});
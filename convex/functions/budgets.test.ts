@@ -0,0 +1,177 @@
+/**
+ * Budget Function Tests
+ *
+ * Covers budget vs actual spending, scopes, threshold alerts, history and
+ * per-user scoping.
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { api } from '../_generated/api';
+import { setupUsers } from '../test.helpers';
+
+// Wednesday 2025-03-12 15:00 UTC
+const NOW = Date.UTC(2025, 2, 12, 15);
+
+const baseMeal = {
+  title: 'Lunch',
+  rating: 7,
+  mealType: 'lunch' as const,
+  currency: 'USD',
+  tags: [],
+  mealDate: NOW - 60 * 60 * 1000,
+};
+
+const monthlyBudget = {
+  name: 'Eating out',
+  amount: 100,
+  currency: 'USD',
+  period: 'monthly' as const,
+};
+
+async function setup() {
+  const { t, alice, bob } = await setupUsers();
+  await alice.mutation(api.functions.users.updateUserPreferences, { preferences: { timezone: 'UTC' } });
+
+  return { t, alice, bob };
+}
+
+describe('budgets', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports spending in the current period', async () => {
+    const { alice } = await setup();
+    await alice.mutation(api.functions.budgets.createBudget, monthlyBudget);
+
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 30 });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 12.5 });
+    // Last month, another currency and no price
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 50, mealDate: Date.UTC(2025, 1, 27) });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 8, currency: 'EUR' });
+    await alice.mutation(api.functions.meals.createMeal, baseMeal);
+
+    const [budget] = await alice.query(api.functions.budgets.getBudgets, {});
+    expect(budget.alertThresholds).toEqual([80, 100]);
+    expect(budget.status).toEqual({
+      start: Date.UTC(2025, 2, 1),
+      end: Date.UTC(2025, 3, 1),
+      spent: 42.5,
+      remaining: 57.5,
+      percentUsed: 42.5,
+      mealCount: 2,
+      otherCurrencyMealCount: 1,
+    });
+  });
+
+  it('only counts meals in the meal type and tag scope', async () => {
+    const { alice } = await setup();
+    await alice.mutation(api.functions.budgets.createBudget, { ...monthlyBudget, mealType: 'lunch', tag: ' Work ' });
+
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 15, tags: ['work'] });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 40 });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, mealType: 'dinner', price: 60, tags: ['work'] });
+
+    const [budget] = await alice.query(api.functions.budgets.getBudgets, {});
+    expect(budget.tag).toBe('work');
+    expect(budget.status.spent).toBe(15);
+  });
+
+  it('raises one alert per threshold and period', async () => {
+    const { alice } = await setup();
+    await alice.mutation(api.functions.budgets.createBudget, monthlyBudget);
+
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 50 });
+    expect(await alice.query(api.functions.budgets.getBudgetAlerts, {})).toEqual([]);
+
+    const mealId = await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 35 });
+    let alerts = await alice.query(api.functions.budgets.getBudgetAlerts, {});
+    expect(alerts).toEqual([expect.objectContaining({ threshold: 80, spent: 85, budgetName: 'Eating out' })]);
+
+    // Editing without crossing a new threshold does not alert again
+    await alice.mutation(api.functions.meals.updateMeal, { mealId, price: 36 });
+    expect(await alice.query(api.functions.budgets.getBudgetAlerts, {})).toHaveLength(1);
+
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 20 });
+    alerts = await alice.query(api.functions.budgets.getBudgetAlerts, {});
+    expect(alerts.map(alert => alert.threshold)).toEqual([100, 80]);
+
+    await alice.mutation(api.functions.budgets.dismissBudgetAlert, { alertId: alerts[0]._id });
+    expect((await alice.query(api.functions.budgets.getBudgetAlerts, {})).map(alert => alert.threshold)).toEqual([80]);
+  });
+
+  it('alerts on creation when spending already reaches a threshold', async () => {
+    const { alice } = await setup();
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 120 });
+
+    await alice.mutation(api.functions.budgets.createBudget, { ...monthlyBudget, alertThresholds: [100, 50, 50] });
+
+    const [budget] = await alice.query(api.functions.budgets.getBudgets, {});
+    expect(budget.alertThresholds).toEqual([50, 100]);
+    const alerts = await alice.query(api.functions.budgets.getBudgetAlerts, {});
+    expect(alerts.map(alert => alert.threshold)).toEqual([100]);
+  });
+
+  it('hides alerts from past periods', async () => {
+    const { alice } = await setup();
+    await alice.mutation(api.functions.budgets.createBudget, { ...monthlyBudget, period: 'weekly' });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 100 });
+    expect(await alice.query(api.functions.budgets.getBudgetAlerts, {})).toHaveLength(1);
+
+    vi.setSystemTime(Date.UTC(2025, 2, 17, 9));
+
+    expect(await alice.query(api.functions.budgets.getBudgetAlerts, {})).toEqual([]);
+  });
+
+  it('lists budget vs actual for past periods', async () => {
+    const { alice } = await setup();
+    const budgetId = await alice.mutation(api.functions.budgets.createBudget, monthlyBudget);
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 30 });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 70, mealDate: Date.UTC(2025, 0, 15) });
+
+    const history = await alice.query(api.functions.budgets.getBudgetHistory, { budgetId, periods: 3 });
+
+    expect(history).toEqual([
+      { start: Date.UTC(2025, 0, 1), end: Date.UTC(2025, 1, 1), spent: 70, amount: 100 },
+      { start: Date.UTC(2025, 1, 1), end: Date.UTC(2025, 2, 1), spent: 0, amount: 100 },
+      { start: Date.UTC(2025, 2, 1), end: Date.UTC(2025, 3, 1), spent: 30, amount: 100 },
+    ]);
+  });
+
+  it('updates, pauses and deletes budgets', async () => {
+    const { t, alice } = await setup();
+    const budgetId = await alice.mutation(api.functions.budgets.createBudget, { ...monthlyBudget, tag: 'work' });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 90 });
+
+    await alice.mutation(api.functions.budgets.updateBudget, { budgetId, tag: null, isActive: false });
+    let [budget] = await alice.query(api.functions.budgets.getBudgets, {});
+    expect(budget.tag).toBeUndefined();
+    expect(await alice.query(api.functions.budgets.getBudgetAlerts, {})).toEqual([]);
+
+    await alice.mutation(api.functions.budgets.updateBudget, { budgetId, isActive: true, amount: 80 });
+    [budget] = await alice.query(api.functions.budgets.getBudgets, {});
+    expect(budget.status.percentUsed).toBe(112.5);
+    expect(await alice.query(api.functions.budgets.getBudgetAlerts, {})).toHaveLength(1);
+
+    await alice.mutation(api.functions.budgets.deleteBudget, { budgetId });
+    expect(await alice.query(api.functions.budgets.getBudgets, {})).toEqual([]);
+    expect(await t.run(ctx => ctx.db.query('budgetAlerts').collect())).toEqual([]);
+  });
+
+  it('validates input and scopes budgets to their user', async () => {
+    const { alice, bob } = await setup();
+
+    await expect(alice.mutation(api.functions.budgets.createBudget, { ...monthlyBudget, amount: -5 }))
+      .rejects.toThrow('Budget amount');
+
+    const budgetId = await alice.mutation(api.functions.budgets.createBudget, monthlyBudget);
+    expect(await bob.query(api.functions.budgets.getBudgets, {})).toEqual([]);
+    await expect(bob.mutation(api.functions.budgets.deleteBudget, { budgetId }))
+      .rejects.toThrow('Access denied');
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * Budget Functions
+ *
+ * Weekly, monthly and yearly spending budgets with budget-vs-actual
+ * reporting and in-app threshold alerts. Spending is computed from the
+ * user's meals (see `lib/budgets.ts`); alerts are recorded by the meal
+ * mutations and when a budget is created or changed.
+ *
+ * Key Features:
+ * - Budgets scoped to a meal type and/or tag
+ * - Current period status and history of past periods
+ * - Configurable alert thresholds (80% and 100% by default)
+ * - Alerts listed until dismissed, for the current period only
+ */
+
+import { mutation, query, type QueryCtx } from '../_generated/server';
+import { v } from 'convex/values';
+import type { Doc, Id } from '../_generated/dataModel';
+import { requireUser } from '../lib/auth';
+import { normalizeTag, validateBudgetInput } from '../lib/validation';
+import {
+  DEFAULT_ALERT_THRESHOLDS,
+  computeBudgetSpending,
+  getBudgetPeriodRange,
+  getBudgetStatus,
+  getUserTimeZone,
+  recordBudgetAlerts,
+  type PeriodRange,
+} from '../lib/budgets';
+
+const DEFAULT_HISTORY_PERIODS = 6;
+const MAX_HISTORY_PERIODS = 24;
+
+const periodValidator = v.union(v.literal('weekly'), v.literal('monthly'), v.literal('yearly'));
+const mealTypeValidator = v.union(
+  v.literal('breakfast'),
+  v.literal('lunch'),
+  v.literal('dinner'),
+  v.literal('snack'),
+);
+
+/**
+ * Alert thresholds sorted ascending without duplicates
+ */
+function normalizeThresholds(thresholds: number[]) {
+  return [...new Set(thresholds)].sort((a, b) => a - b);
+}
+
+/**
+ * Get a budget owned by the user, or throw
+ */
+async function getOwnedBudget(ctx: QueryCtx, user: Doc<'users'>, budgetId: Id<'budgets'>) {
+  const budget = await ctx.db.get(budgetId);
+
+  if (!budget) {
+    throw new Error('Budget not found');
+  }
+  if (budget.userId !== user._id) {
+    throw new Error('Access denied: You can only access your own budgets');
+  }
+
+  return budget;
+}
+
+/**
+ * List the user's budgets with spending in the current period
+ *
+ * Budget vs actual for the dashboard: each budget comes with its `status`
+ * (spent, remaining and percent used). Inactive budgets are included and
+ * listed last.
+ */
+export const getBudgets = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireUser(ctx);
+    const now = Date.now();
+
+    const budgets = await ctx.db
+      .query('budgets')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .collect();
+
+    const results = [];
+    for (const budget of budgets) {
+      results.push({ ...budget, status: await getBudgetStatus(ctx, user, budget, now) });
+    }
+
+    return results.sort((a, b) => Number(b.isActive) - Number(a.isActive) || a.createdAt - b.createdAt);
+  },
+});
+
+/**
+ * Budget vs actual for the current and previous periods, oldest first
+ *
+ * @param periods - Number of periods including the current one (default 6, max 24)
+ */
+export const getBudgetHistory = query({
+  args: {
+    budgetId: v.id('budgets'),
+    periods: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const budget = await getOwnedBudget(ctx, user, args.budgetId);
+    const count = Math.min(Math.max(Math.floor(args.periods ?? DEFAULT_HISTORY_PERIODS), 1), MAX_HISTORY_PERIODS);
+    const timeZone = getUserTimeZone(user);
+
+    const ranges: PeriodRange[] = [getBudgetPeriodRange(budget.period, Date.now(), timeZone)];
+    while (ranges.length < count) {
+      ranges.unshift(getBudgetPeriodRange(budget.period, ranges[0].start - 1, timeZone));
+    }
+
+    const meals = await ctx.db
+      .query('meals')
+      .withIndex('by_user_date', (q) =>
+        q.eq('userId', user._id).gte('mealDate', ranges[0].start).lt('mealDate', ranges[ranges.length - 1].end),
+      )
+      .collect();
+
+    return ranges.map(range => {
+      const { spent } = computeBudgetSpending(
+        budget,
+        meals.filter(meal => meal.mealDate >= range.start && meal.mealDate < range.end),
+      );
+      return { ...range, spent, amount: budget.amount };
+    });
+  },
+});
+
+/**
+ * Create a budget
+ *
+ * An alert is recorded right away when spending this period already
+ * reaches one of the thresholds.
+ */
+export const createBudget = mutation({
+  args: {
+    name: v.string(),
+    amount: v.number(),
+    currency: v.string(),
+    period: periodValidator,
+    mealType: v.optional(mealTypeValidator),
+    tag: v.optional(v.string()),
+    alertThresholds: v.optional(v.array(v.number())), // percentages, default 80 and 100
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+
+    const validationError = validateBudgetInput(args);
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const now = Date.now();
+    const budgetId = await ctx.db.insert('budgets', {
+      userId: user._id,
+      name: args.name.trim(),
+      amount: args.amount,
+      currency: args.currency,
+      period: args.period,
+      mealType: args.mealType,
+      tag: args.tag !== undefined ? normalizeTag(args.tag) : undefined,
+      alertThresholds: normalizeThresholds(args.alertThresholds ?? DEFAULT_ALERT_THRESHOLDS),
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const budget = await ctx.db.get(budgetId);
+    if (budget) {
+      await recordBudgetAlerts(ctx, user, budget, now);
+    }
+
+    return budgetId;
+  },
+});
+
+/**
+ * Update a budget
+ *
+ * Omitted fields are left unchanged; `mealType` or `tag` set to null
+ * removes that scope. Pausing a budget (isActive false) stops its alerts.
+ */
+export const updateBudget = mutation({
+  args: {
+    budgetId: v.id('budgets'),
+    name: v.optional(v.string()),
+    amount: v.optional(v.number()),
+    currency: v.optional(v.string()),
+    period: v.optional(periodValidator),
+    mealType: v.optional(v.union(mealTypeValidator, v.null())),
+    tag: v.optional(v.union(v.string(), v.null())),
+    alertThresholds: v.optional(v.array(v.number())),
+    isActive: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const budget = await getOwnedBudget(ctx, user, args.budgetId);
+
+    const validationError = validateBudgetInput({ ...args, tag: args.tag ?? undefined });
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const now = Date.now();
+    const updates: Partial<Doc<'budgets'>> = { updatedAt: now };
+    if (args.name !== undefined) {
+      updates.name = args.name.trim();
+    }
+    if (args.amount !== undefined) {
+      updates.amount = args.amount;
+    }
+    if (args.currency !== undefined) {
+      updates.currency = args.currency;
+    }
+    if (args.period !== undefined) {
+      updates.period = args.period;
+    }
+    if (args.mealType !== undefined) {
+      updates.mealType = args.mealType ?? undefined;
+    }
+    if (args.tag !== undefined) {
+      updates.tag = args.tag !== null ? normalizeTag(args.tag) : undefined;
+    }
+    if (args.alertThresholds !== undefined) {
+      updates.alertThresholds = normalizeThresholds(args.alertThresholds);
+    }
+    if (args.isActive !== undefined) {
+      updates.isActive = args.isActive;
+    }
+
+    await ctx.db.patch(budget._id, updates);
+
+    const updated = await ctx.db.get(budget._id);
+    if (updated) {
+      await recordBudgetAlerts(ctx, user, updated, now);
+    }
+
+    return budget._id;
+  },
+});
+
+/**
+ * Delete a budget and its alerts
+ */
+export const deleteBudget = mutation({
+  args: {
+    budgetId: v.id('budgets'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const budget = await getOwnedBudget(ctx, user, args.budgetId);
+
+    const alerts = await ctx.db
+      .query('budgetAlerts')
+      .withIndex('by_budget_period', (q) => q.eq('budgetId', budget._id))
+      .collect();
+    for (const alert of alerts) {
+      await ctx.db.delete(alert._id);
+    }
+
+    await ctx.db.delete(budget._id);
+
+    return null;
+  },
+});
+
+/**
+ * List undismissed alerts for the current period of active budgets,
+ * newest first
+ */
+export const getBudgetAlerts = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireUser(ctx);
+    const now = Date.now();
+    const timeZone = getUserTimeZone(user);
+
+    const alerts = await ctx.db
+      .query('budgetAlerts')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .order('desc')
+      .collect();
+
+    const results = [];
+    for (const alert of alerts) {
+      if (alert.dismissedAt !== undefined) {
+        continue;
+      }
+      const budget = await ctx.db.get(alert.budgetId);
+      if (!budget?.isActive || getBudgetPeriodRange(budget.period, now, timeZone).start !== alert.periodStart) {
+        continue;
+      }
+      results.push({
+        ...alert,
+        budgetName: budget.name,
+        amount: budget.amount,
+        currency: budget.currency,
+        period: budget.period,
+      });
+    }
+
+    return results;
+  },
+});
+
+/**
+ * Dismiss a budget alert
+ */
+export const dismissBudgetAlert = mutation({
+  args: {
+    alertId: v.id('budgetAlerts'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const alert = await ctx.db.get(args.alertId);
+
+    if (!alert || alert.userId !== user._id) {
+      throw new Error('Budget alert not found');
+    }
+
+    await ctx.db.patch(alert._id, { dismissedAt: Date.now() });
+
+    return null;
+  },
+});
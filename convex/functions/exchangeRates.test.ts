@@ -0,0 +1,107 @@
+/**
+ * Exchange Rate Function Tests
+ *
+ * Syncs the fixture rates and checks that meal prices are converted to
+ * the home currency at the rate on the meal date, in stats, places and
+ * after the home currency changes.
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { api, internal } from '../_generated/api';
+import { setupUsers, type TestConvex } from '../test.helpers';
+
+const baseMeal = {
+  title: 'Croissant',
+  rating: 8,
+  mealType: 'breakfast' as const,
+  tags: [],
+  location: { name: 'Du Pain et des Idées' },
+};
+
+// Fixture rates (units per euro): USD 1.0321 from 2025-01-02, 1.0799 from 2025-04-01
+const JANUARY = Date.UTC(2025, 0, 5, 9);
+const APRIL = Date.UTC(2025, 3, 10, 9);
+
+async function syncFixtureRates(t: TestConvex) {
+  for (const date of ['2025-01-02', '2025-04-01']) {
+    await t.action(internal.functions.exchangeRates.syncExchangeRates, { date });
+  }
+}
+
+describe('exchange rates', () => {
+  beforeEach(() => {
+    vi.stubEnv('EXCHANGE_RATE_PROVIDER', 'fixture');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  it('stores synced rates once per currency and date', async () => {
+    const { t } = await setupUsers();
+
+    const date = await t.action(internal.functions.exchangeRates.syncExchangeRates, { date: '2025-01-05' });
+    await t.action(internal.functions.exchangeRates.syncExchangeRates, { date: '2025-01-02' });
+
+    expect(date).toBe('2025-01-02');
+    const usdRates = await t.run(async (ctx) =>
+      await ctx.db.query('exchangeRates').withIndex('by_currency_date', (q) => q.eq('currency', 'USD')).collect(),
+    );
+    expect(usdRates).toEqual([expect.objectContaining({ date: '2025-01-02', rate: 1.0321, source: 'fixture' })]);
+  });
+
+  it('converts spend to the home currency at the rate on the meal date', async () => {
+    const { t, alice } = await setupUsers();
+    await syncFixtureRates(t);
+
+    const mealId = await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      price: 10,
+      currency: 'EUR',
+      mealDate: JANUARY,
+    });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 10, currency: 'EUR', mealDate: APRIL });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 5, currency: 'USD', mealDate: APRIL });
+
+    const meal = await alice.query(api.functions.meals.getMeal, { mealId });
+    expect(meal).toMatchObject({ price: 10, currency: 'EUR', homePrice: 10.32, homeCurrency: 'USD' });
+
+    const stats = await alice.query(api.functions.users.getUserStats, {});
+    expect(stats?.totalSpent).toBe(26.12);
+    const [place] = await alice.query(api.functions.places.getMyPlaces, {});
+    expect(place.totalSpent).toBe(26.12);
+
+    // Moving the meal to April re-prices it at the April rate
+    await alice.mutation(api.functions.meals.updateMeal, { mealId, mealDate: APRIL });
+    expect(await alice.query(api.functions.meals.getMeal, { mealId })).toMatchObject({ homePrice: 10.8 });
+    expect((await alice.query(api.functions.users.getUserStats, {}))?.totalSpent).toBe(26.6);
+  });
+
+  it('counts meals in currencies without rates at their original price', async () => {
+    const { alice } = await setupUsers();
+
+    const mealId = await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 10, currency: 'EUR' });
+
+    const meal = await alice.query(api.functions.meals.getMeal, { mealId });
+    expect(meal.homePrice).toBeUndefined();
+    expect((await alice.query(api.functions.users.getUserStats, {}))?.totalSpent).toBe(10);
+  });
+
+  it('re-converts meals when the home currency changes', async () => {
+    vi.useFakeTimers();
+    const { t, alice } = await setupUsers();
+    await syncFixtureRates(t);
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 10, currency: 'EUR', mealDate: JANUARY });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, price: 5, currency: 'USD', mealDate: JANUARY });
+
+    await alice.mutation(api.functions.users.updateUserPreferences, { preferences: { currency: 'EUR' } });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const meals = await t.run(async (ctx) => await ctx.db.query('meals').collect());
+    expect(meals.map(meal => [meal.homePrice, meal.homeCurrency])).toEqual([[10, 'EUR'], [4.84, 'EUR']]);
+    expect((await alice.query(api.functions.users.getUserStats, {}))?.totalSpent).toBe(14.84);
+    const [place] = await alice.query(api.functions.places.getMyPlaces, {});
+    expect(place.totalSpent).toBe(14.84);
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Exchange Rate Functions
+ *
+ * Syncs daily reference rates into `exchangeRates` and converts meal
+ * prices to their owner's home currency (see `lib/exchangeRates.ts`).
+ * Meal mutations convert new and edited meals themselves; the
+ * conversion backfill here re-prices existing meals after the home
+ * currency changes or after rates for past dates were synced.
+ *
+ * Key Features:
+ * - Daily rate sync from the configured provider
+ * - Rates for any past date on demand
+ * - Batched re-conversion keeping stats and place totals in step
+ */
+
+import { internalAction, internalMutation } from '../_generated/server';
+import { internal } from '../_generated/api';
+import { v } from 'convex/values';
+import type { Id } from '../_generated/dataModel';
+import { getExchangeRateProvider, getHomePriceFields, toRateDate } from '../lib/exchangeRates';
+import { updateStatsForMealChange } from '../lib/stats';
+import { applyPlaceVisitChange } from '../lib/places';
+import { invalidateAnalytics } from '../lib/analytics';
+
+/**
+ * Fetch the reference rates for a date (default today) and store them
+ *
+ * Runs daily; rates for past dates can be synced by hand:
+ *
+ *   npx convex run functions/exchangeRates:syncExchangeRates '{"date": "2025-01-02"}'
+ *
+ * @returns The date the stored rates were published for, or null when the
+ * provider had none
+ */
+export const syncExchangeRates = internalAction({
+  args: {
+    date: v.optional(v.string()), // YYYY-MM-DD
+  },
+  handler: async (ctx, args): Promise<string | null> => {
+    const provider = getExchangeRateProvider();
+    const daily = await provider.getRates(args.date ?? toRateDate(Date.now()));
+
+    if (!daily) {
+      console.warn(`No exchange rates from ${provider.name} for ${args.date ?? 'today'}`);
+      return null;
+    }
+
+    await ctx.runMutation(internal.functions.exchangeRates.storeExchangeRates, {
+      date: daily.date,
+      rates: daily.rates,
+      source: provider.name,
+    });
+
+    return daily.date;
+  },
+});
+
+/**
+ * Store the rates published for a date, replacing any stored before
+ */
+export const storeExchangeRates = internalMutation({
+  args: {
+    date: v.string(),
+    rates: v.record(v.string(), v.number()),
+    source: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+
+    for (const [currency, rate] of Object.entries(args.rates)) {
+      const existing = await ctx.db
+        .query('exchangeRates')
+        .withIndex('by_currency_date', (q) => q.eq('currency', currency).eq('date', args.date))
+        .unique();
+
+      if (existing) {
+        await ctx.db.patch(existing._id, { rate, source: args.source, fetchedAt: now });
+      } else {
+        await ctx.db.insert('exchangeRates', {
+          date: args.date,
+          currency,
+          rate,
+          source: args.source,
+          fetchedAt: now,
+        });
+      }
+    }
+
+    return null;
+  },
+});
+
+/**
+ * Convert meal prices to their owner's home currency
+ *
+ * Meals whose home currency price changed are updated together with the
+ * owner's stats and place totals. Processes one batch per run and
+ * schedules the next until every meal has been visited. Scheduled for
+ * one user when they change their home currency; run it for everyone
+ * after syncing rates for past dates:
+ *
+ *   npx convex run functions/exchangeRates:convertMealPrices
+ *
+ * @param userId - Only convert this user's meals
+ */
+export const convertMealPrices = internalMutation({
+  args: {
+    userId: v.optional(v.id('users')),
+    batchSize: v.optional(v.number()),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const { userId } = args;
+    const query = userId
+      ? ctx.db.query('meals').withIndex('by_user', (q) => q.eq('userId', userId))
+      : ctx.db.query('meals');
+    const batch = await query.paginate({ numItems: args.batchSize ?? 100, cursor: args.cursor ?? null });
+
+    let updated = 0;
+    const changedUsers = new Set<Id<'users'>>();
+    for (const meal of batch.page) {
+      // Read the owner for every meal: each change updates their stats
+      const user = await ctx.db.get(meal.userId);
+      if (!user) {
+        continue;
+      }
+
+      const fields = await getHomePriceFields(ctx, user, meal);
+      if (fields.homePrice === meal.homePrice && fields.homeCurrency === meal.homeCurrency) {
+        continue;
+      }
+
+      await ctx.db.patch(meal._id, fields);
+      const converted = { ...meal, ...fields };
+      await updateStatsForMealChange(ctx, user, meal, converted);
+      await applyPlaceVisitChange(ctx, meal, converted);
+      changedUsers.add(user._id);
+      updated++;
+    }
+
+    for (const changedUserId of changedUsers) {
+      await invalidateAnalytics(ctx, changedUserId);
+    }
+
+    if (!batch.isDone) {
+      await ctx.scheduler.runAfter(0, internal.functions.exchangeRates.convertMealPrices, {
+        userId,
+        batchSize: args.batchSize,
+        cursor: batch.continueCursor,
+      });
+    }
+
+    return { updated, isDone: batch.isDone };
+  },
+});
@@ -0,0 +1,151 @@
+/**
+ * Data Export Function Tests
+ *
+ * Covers the CSV and JSON exports, the date range filter, paging through
+ * long histories and per-user scoping.
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { api } from '../_generated/api';
+import { setupUsers, type TestConvex } from '../test.helpers';
+import type { MealExportFile } from './exports';
+import {
+  EXPORT_FILE_TTL_MS,
+  EXPORT_FORMAT,
+  EXPORT_PAGE_SIZE,
+  EXPORT_VERSION,
+  type ExportArchive,
+} from '../lib/export';
+
+const baseMeal = {
+  title: 'Pho',
+  rating: 8,
+  mealType: 'lunch' as const,
+  tags: ['noodles'],
+  location: { name: 'Pho Bang' },
+};
+
+/**
+ * Content of the stored export file
+ */
+async function readExport(t: TestConvex, file: MealExportFile): Promise<string> {
+  const content = await t.run(async (ctx) => await (await ctx.storage.get(file.storageId))?.text());
+  return content!;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('exportMealHistory', () => {
+  it('exports a JSON archive with meals, photo metadata, tags and places', async () => {
+    const { t, alice, bob } = await setupUsers();
+    const mealId = await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      price: 12,
+      mealDate: Date.UTC(2025, 2, 1),
+    });
+    await t.run(async (ctx) => {
+      const meal = await ctx.db.get(mealId);
+      await ctx.db.insert('mealPhotos', {
+        mealId,
+        userId: meal!.userId,
+        storageId: 'storage_1',
+        filename: 'pho.jpg',
+        mimeType: 'image/jpeg',
+        size: 2048,
+        isPrimary: true,
+        order: 0,
+        processingStatus: 'ready',
+        createdAt: 0,
+        updatedAt: 0,
+      });
+    });
+    await bob.mutation(api.functions.meals.createMeal, { ...baseMeal, title: "Bob's lunch" });
+
+    const file = await alice.action(api.functions.exports.exportMealHistory, { format: 'json' });
+
+    expect(file.mimeType).toBe('application/json');
+    expect(file.filename).toMatch(/^foodylog-meals-\d{4}-\d{2}-\d{2}\.json$/);
+    expect(file.url).toEqual(expect.any(String));
+    const archive = JSON.parse(await readExport(t, file)) as ExportArchive;
+    expect(archive).toMatchObject({ format: EXPORT_FORMAT, version: EXPORT_VERSION, homeCurrency: 'USD' });
+    expect(archive.meals).toEqual([
+      expect.objectContaining({
+        id: mealId,
+        title: 'Pho',
+        price: 12,
+        photos: [expect.objectContaining({ filename: 'pho.jpg', size: 2048, isPrimary: true })],
+      }),
+    ]);
+    expect(archive.meals[0]).not.toHaveProperty('userId');
+    expect(archive.tags).toEqual([expect.objectContaining({ tag: 'noodles', usageCount: 1 })]);
+    expect(archive.places).toEqual([expect.objectContaining({ name: 'Pho Bang', visitCount: 1, totalSpent: 12 })]);
+  });
+
+  it('exports meals in the date range as CSV, oldest first', async () => {
+    const { t, alice } = await setupUsers();
+    for (const day of [1, 15, 31]) {
+      await alice.mutation(api.functions.meals.createMeal, {
+        ...baseMeal,
+        title: `Pho ${day}`,
+        mealDate: Date.UTC(2025, 2, day),
+      });
+    }
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, mealDate: Date.UTC(2025, 3, 1) });
+
+    const file = await alice.action(api.functions.exports.exportMealHistory, {
+      format: 'csv',
+      startDate: Date.UTC(2025, 2, 1),
+      endDate: Date.UTC(2025, 3, 1),
+    });
+
+    expect(file).toMatchObject({ mimeType: 'text/csv', mealCount: 3 });
+    const rows = (await readExport(t, file)).trim().split('\r\n');
+    expect(rows.slice(1).map(row => row.split(',')[1])).toEqual(['Pho 1', 'Pho 15', 'Pho 31']);
+  });
+
+  it('pages through long histories', async () => {
+    const { t, alice } = await setupUsers();
+    const count = EXPORT_PAGE_SIZE * 2 + 5;
+    for (let i = 0; i < count; i++) {
+      await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, title: `Pho ${i}`, mealDate: Date.UTC(2025, 0, 1) + i });
+    }
+
+    const csv = await alice.action(api.functions.exports.exportMealHistory, { format: 'csv' });
+    const json = await alice.action(api.functions.exports.exportMealHistory, { format: 'json' });
+
+    expect(csv.mealCount).toBe(count);
+    const rows = (await readExport(t, csv)).trim().split('\r\n');
+    expect(rows).toHaveLength(count + 1);
+    expect(rows[count].split(',')[1]).toBe(`Pho ${count - 1}`);
+    expect(json.mealCount).toBe(count);
+    const archive = JSON.parse(await readExport(t, json)) as ExportArchive;
+    expect(archive.meals.map(meal => meal.title)).toEqual(Array.from({ length: count }, (_, i) => `Pho ${i}`));
+    expect(archive.tags).toEqual([expect.objectContaining({ tag: 'noodles', usageCount: count })]);
+  });
+
+  it('deletes the stored file after its download window', async () => {
+    vi.useFakeTimers();
+    const { t, alice } = await setupUsers();
+    await alice.mutation(api.functions.meals.createMeal, baseMeal);
+
+    const file = await alice.action(api.functions.exports.exportMealHistory, { format: 'csv' });
+    expect(await readExport(t, file)).toContain('Pho');
+
+    vi.advanceTimersByTime(EXPORT_FILE_TTL_MS);
+    await t.finishInProgressScheduledFunctions();
+
+    expect(await t.run(async (ctx) => await ctx.storage.get(file.storageId) === null)).toBe(true);
+  });
+
+  it('rejects an empty date range', async () => {
+    const { alice } = await setupUsers();
+
+    await expect(alice.action(api.functions.exports.exportMealHistory, {
+      format: 'csv',
+      startDate: Date.UTC(2025, 3, 1),
+      endDate: Date.UTC(2025, 2, 1),
+    })).rejects.toThrow('Start date must be before end date');
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Data Export Functions
+ *
+ * Exports the signed-in user's meal history as CSV or as a versioned
+ * JSON archive (see `lib/export.ts`). The export action reads meals page
+ * by page through internal queries, which run as the same user, and
+ * writes the file to storage as it goes, so large histories never have to
+ * fit in one query or one function result.
+ *
+ * Key Features:
+ * - Meals with photo metadata, tags and places
+ * - Optional meal date range
+ * - Oldest meals first
+ * - Download URL, valid for an hour
+ */
+
+import { action, internalMutation, internalQuery } from '../_generated/server';
+import { internal } from '../_generated/api';
+import { paginationOptsValidator } from 'convex/server';
+import { v } from 'convex/values';
+import { requireIdentity, requireUser } from '../lib/auth';
+import { getHomeCurrency } from '../lib/exchangeRates';
+import type { Id } from '../_generated/dataModel';
+import {
+  EXPORT_FILE_TTL_MS,
+  EXPORT_FORMAT,
+  EXPORT_PAGE_SIZE,
+  EXPORT_VERSION,
+  getExportFilename,
+  getMealsCsvHeader,
+  splitArchiveJson,
+  toArchiveMealsJson,
+  toExportedMeal,
+  toExportedPlace,
+  toExportedTag,
+  toMealsCsvRows,
+  type ExportedMeal,
+  type ExportedPlace,
+  type ExportedTag,
+} from '../lib/export';
+
+export interface MealExportFile {
+  filename: string;
+  mimeType: string;
+  url: string; // valid for EXPORT_FILE_TTL_MS
+  storageId: Id<'_storage'>;
+  mealCount: number;
+}
+
+/**
+ * One page of the user's meals in a date range, oldest first
+ */
+export const getExportPage = internalQuery({
+  args: {
+    startDate: v.optional(v.number()),
+    endDate: v.optional(v.number()), // exclusive
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const { startDate, endDate } = args;
+
+    const result = await ctx.db
+      .query('meals')
+      .withIndex('by_user_date', (q) => {
+        const forUser = q.eq('userId', user._id);
+        const from = startDate !== undefined ? forUser.gte('mealDate', startDate) : forUser;
+        return endDate !== undefined ? from.lt('mealDate', endDate) : from;
+      })
+      .order('asc')
+      .paginate(args.paginationOpts);
+
+    const page: ExportedMeal[] = [];
+    for (const meal of result.page) {
+      const photos = await ctx.db
+        .query('mealPhotos')
+        .withIndex('by_meal', (q) => q.eq('mealId', meal._id))
+        .collect();
+      page.push(toExportedMeal(meal, photos));
+    }
+
+    return { page, isDone: result.isDone, continueCursor: result.continueCursor };
+  },
+});
+
+/**
+ * The user's home currency, tags and places
+ */
+export const getExportLookups = internalQuery({
+  args: {},
+  handler: async (ctx): Promise<{ homeCurrency: string; tags: ExportedTag[]; places: ExportedPlace[] }> => {
+    const user = await requireUser(ctx);
+
+    const tags = await ctx.db
+      .query('userTags')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .collect();
+    const places = await ctx.db
+      .query('places')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .collect();
+
+    return {
+      homeCurrency: getHomeCurrency(user),
+      tags: tags.map(toExportedTag).sort((a, b) => a.tag.localeCompare(b.tag)),
+      places: places.map(toExportedPlace).sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  },
+});
+
+/**
+ * Delete an export file once its download window has passed
+ */
+export const deleteExportFile = internalMutation({
+  args: {
+    storageId: v.id('_storage'),
+  },
+  handler: async (ctx, args) => {
+    if (await ctx.db.system.get(args.storageId)) {
+      await ctx.storage.delete(args.storageId);
+    }
+    return null;
+  },
+});
+
+/**
+ * Export the user's meal history
+ *
+ * Writes the file to storage page by page rather than returning it, so
+ * long histories are not bound by the size of a function result. The
+ * file is deleted after EXPORT_FILE_TTL_MS.
+ *
+ * @param format - 'csv' (one row per meal) or 'json' (full archive with
+ * tags and places)
+ * @param startDate - Earliest meal date to include (timestamp)
+ * @param endDate - Meals before this date are included (timestamp, exclusive)
+ * @returns The file name, MIME type and download URL of the export
+ */
+export const exportMealHistory = action({
+  args: {
+    format: v.union(v.literal('csv'), v.literal('json')),
+    startDate: v.optional(v.number()),
+    endDate: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<MealExportFile> => {
+    await requireIdentity(ctx);
+
+    if (args.startDate !== undefined && args.endDate !== undefined && args.startDate >= args.endDate) {
+      throw new Error('Start date must be before end date');
+    }
+
+    const exportedAt = Date.now();
+    const filename = getExportFilename(args.format, exportedAt);
+    const mimeType = args.format === 'csv' ? 'text/csv' : 'application/json';
+
+    let archive: { before: string; after: string } | null = null;
+    if (args.format === 'json') {
+      const { homeCurrency, tags, places } = await ctx.runQuery(internal.functions.exports.getExportLookups, {});
+      archive = splitArchiveJson({
+        format: EXPORT_FORMAT,
+        version: EXPORT_VERSION,
+        exportedAt,
+        range: { startDate: args.startDate, endDate: args.endDate },
+        homeCurrency,
+        tags,
+        places,
+      });
+    }
+
+    const parts: string[] = [archive ? archive.before : getMealsCsvHeader()];
+    let mealCount = 0;
+    let cursor: string | null = null;
+    let isDone = false;
+    while (!isDone) {
+      const result: { page: ExportedMeal[]; isDone: boolean; continueCursor: string } = await ctx.runQuery(
+        internal.functions.exports.getExportPage,
+        {
+          startDate: args.startDate,
+          endDate: args.endDate,
+          paginationOpts: { numItems: EXPORT_PAGE_SIZE, cursor },
+        },
+      );
+      parts.push(archive ? toArchiveMealsJson(result.page, mealCount === 0) : toMealsCsvRows(result.page));
+      mealCount += result.page.length;
+      cursor = result.continueCursor;
+      isDone = result.isDone;
+    }
+    if (archive) {
+      parts.push(archive.after);
+    }
+
+    const storageId = await ctx.storage.store(new Blob(parts, { type: mimeType }));
+    await ctx.scheduler.runAfter(EXPORT_FILE_TTL_MS, internal.functions.exports.deleteExportFile, { storageId });
+    const url = await ctx.storage.getUrl(storageId);
+    if (!url) {
+      throw new Error('Export file not found');
+    }
+
+    return { filename, mimeType, url, storageId, mealCount };
+  },
+});
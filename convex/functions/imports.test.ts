@@ -0,0 +1,157 @@
+/**
+ * Meal Import Function Tests
+ *
+ * Stages rows on an import job and runs the batched import: validation
+ * with tier limits, duplicate detection, the skipped-row report, resuming,
+ * canceling and per-user scoping.
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { api, internal } from '../_generated/api';
+import { setupUsers, type TestClient } from '../test.helpers';
+import { IMPORT_LIMITS } from '../lib/validation';
+import type { ImportRow } from '../lib/import';
+import type { Id } from '../_generated/dataModel';
+
+const baseMeal = {
+  title: 'Ramen',
+  rating: 8,
+  mealType: 'dinner' as const,
+  tags: ['noodles'],
+  location: { name: 'Ippudo' },
+  mealDate: Date.UTC(2025, 1, 1, 19),
+};
+
+async function stageImport(client: TestClient, rows: ImportRow[]): Promise<Id<'importJobs'>> {
+  const jobId = await client.mutation(api.functions.imports.createImportJob, { source: 'csv', filename: 'meals.csv' });
+  for (let i = 0; i < rows.length; i += IMPORT_LIMITS.stageBatchSize) {
+    await client.mutation(api.functions.imports.addImportRows, {
+      jobId,
+      rows: rows.slice(i, i + IMPORT_LIMITS.stageBatchSize),
+    });
+  }
+
+  return jobId;
+}
+
+describe('meal import', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('imports valid rows with stats, tags and places', async () => {
+    const { t, alice } = await setupUsers();
+    const jobId = await stageImport(alice, [
+      { row: 1, meal: baseMeal },
+      { row: 2, meal: { ...baseMeal, title: 'Gyoza', rating: 7, mealDate: Date.UTC(2025, 1, 2, 19) } },
+    ]);
+
+    await alice.mutation(api.functions.imports.startImport, { jobId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const job = await alice.query(api.functions.imports.getImportJob, { jobId });
+    expect(job).toMatchObject({ status: 'completed', totalRows: 2, processedRows: 2, importedCount: 2, skippedCount: 0 });
+    const meals = await t.run(async (ctx) => await ctx.db.query('meals').collect());
+    expect(meals.map(meal => meal.title).sort()).toEqual(['Gyoza', 'Ramen']);
+    const [user] = await t.run(async (ctx) => await ctx.db.query('users').collect());
+    expect(user.stats?.totalMeals).toBe(2);
+    const places = await t.run(async (ctx) => await ctx.db.query('places').collect());
+    expect(places).toEqual([expect.objectContaining({ name: 'Ippudo', visitCount: 2 })]);
+    const staged = await t.run(async (ctx) => await ctx.db.query('importRows').collect());
+    expect(staged).toEqual([]);
+  });
+
+  it('reports rows that fail validation or could not be parsed', async () => {
+    const { t, alice } = await setupUsers();
+    const jobId = await stageImport(alice, [
+      { row: 1, meal: { ...baseMeal, rating: 11 } },
+      { row: 2, title: 'Mystery', error: 'Date "yesterday" is not a valid date' },
+      { row: 3, meal: { ...baseMeal, title: 'Tonkotsu', cuisine: 'Japanese' } },
+      { row: 4, meal: { ...baseMeal, title: 'Udon' } },
+    ]);
+
+    await alice.mutation(api.functions.imports.startImport, { jobId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const job = await alice.query(api.functions.imports.getImportJob, { jobId });
+    expect(job).toMatchObject({ status: 'completed', importedCount: 1, skippedCount: 3 });
+    expect(job.skippedRows).toEqual([
+      { row: 1, title: 'Ramen', reason: expect.stringMatching(/rating/i) },
+      { row: 2, title: 'Mystery', reason: 'Date "yesterday" is not a valid date' },
+      // Extended details are a premium feature
+      { row: 3, title: 'Tonkotsu', reason: expect.any(String) },
+    ]);
+  });
+
+  it('skips duplicates of existing meals and within the file', async () => {
+    const { t, alice } = await setupUsers();
+    await alice.mutation(api.functions.meals.createMeal, baseMeal);
+    const jobId = await stageImport(alice, [
+      { row: 1, meal: { ...baseMeal, title: ' ramen ', location: { name: 'IPPUDO' } } },
+      { row: 2, meal: { ...baseMeal, title: 'Gyoza' } },
+      { row: 3, meal: { ...baseMeal, title: 'Gyoza' } },
+      { row: 4, meal: { ...baseMeal, location: { name: 'Ichiran' } } },
+    ]);
+
+    await alice.mutation(api.functions.imports.startImport, { jobId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const job = await alice.query(api.functions.imports.getImportJob, { jobId });
+    expect(job).toMatchObject({ importedCount: 2, duplicateCount: 2, skippedCount: 2 });
+    expect(job.skippedRows.map(row => row.row)).toEqual([1, 3]);
+  });
+
+  it('imports in batches and can be resumed', async () => {
+    const { t, alice } = await setupUsers();
+    const count = IMPORT_LIMITS.importBatchSize + 10;
+    const jobId = await stageImport(alice, Array.from({ length: count }, (_, i) => ({
+      row: i + 1,
+      meal: { ...baseMeal, mealDate: baseMeal.mealDate + i },
+    })));
+
+    // Run one batch as if the scheduled follow-up had been lost
+    await t.run(async (ctx) => await ctx.db.patch(jobId, { status: 'importing' }));
+    await t.mutation(internal.functions.imports.processImportBatch, { jobId });
+    let job = await alice.query(api.functions.imports.getImportJob, { jobId });
+    expect(job).toMatchObject({ status: 'importing', processedRows: IMPORT_LIMITS.importBatchSize });
+
+    await alice.mutation(api.functions.imports.resumeImport, { jobId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    job = await alice.query(api.functions.imports.getImportJob, { jobId });
+    expect(job).toMatchObject({ status: 'completed', processedRows: count, importedCount: count });
+  });
+
+  it('cancels an import and removes the staged rows', async () => {
+    const { t, alice } = await setupUsers();
+    const jobId = await stageImport(alice, [{ row: 1, meal: baseMeal }]);
+
+    await alice.mutation(api.functions.imports.cancelImport, { jobId });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const job = await alice.query(api.functions.imports.getImportJob, { jobId });
+    expect(job.status).toBe('canceled');
+    await expect(alice.mutation(api.functions.imports.startImport, { jobId })).rejects.toThrow('already started');
+    const staged = await t.run(async (ctx) => await ctx.db.query('importRows').collect());
+    expect(staged).toEqual([]);
+    expect(await t.run(async (ctx) => await ctx.db.query('meals').collect())).toEqual([]);
+  });
+
+  it('limits rows per call and keeps imports private', async () => {
+    const { alice, bob } = await setupUsers();
+    const jobId = await stageImport(alice, [{ row: 1, meal: baseMeal }]);
+
+    await expect(alice.mutation(api.functions.imports.addImportRows, {
+      jobId,
+      rows: Array.from({ length: IMPORT_LIMITS.stageBatchSize + 1 }, (_, i) => ({ row: i + 2, meal: baseMeal })),
+    })).rejects.toThrow(`at most ${IMPORT_LIMITS.stageBatchSize} rows`);
+    await expect(bob.query(api.functions.imports.getImportJob, { jobId })).rejects.toThrow('Import not found');
+    await expect(bob.mutation(api.functions.imports.startImport, { jobId })).rejects.toThrow('Import not found');
+    expect(await bob.query(api.functions.imports.getImportJobs, {})).toEqual([]);
+    expect(await alice.query(api.functions.imports.getImportJobs, {})).toHaveLength(1);
+  });
+});
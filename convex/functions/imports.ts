@@ -0,0 +1,281 @@
+/**
+ * Meal Import Functions
+ *
+ * Imports meals parsed by the import wizard (see `lib/import.ts`). The
+ * client creates a job, stages the parsed rows on it in chunks and starts
+ * it; the rows are then imported by a scheduled mutation that handles one
+ * batch per run and schedules the next. Progress is kept on the job, so
+ * an import interrupted by a failed batch can be resumed where it
+ * stopped.
+ *
+ * Key Features:
+ * - Every row validated like `createMeal`, with the user's tier limits
+ * - Duplicates (title + meal date + location) skipped
+ * - Report of skipped rows with the reason
+ * - Resume and cancel
+ */
+
+import { internalMutation, mutation, query, type QueryCtx } from '../_generated/server';
+import { internal } from '../_generated/api';
+import { v } from 'convex/values';
+import type { Doc, Id } from '../_generated/dataModel';
+import { requireUser } from '../lib/auth';
+import { getEffectiveTier } from '../lib/subscription';
+import { insertMeal } from '../lib/meals';
+import { IMPORT_LIMITS, validateImportedMeal } from '../lib/validation';
+import { hasDuplicateMeal, importRowValidator } from '../lib/import';
+
+const RECENT_JOBS_LIMIT = 5;
+
+/**
+ * Get an import job owned by the user, or throw
+ */
+async function getOwnedJob(ctx: QueryCtx, user: Doc<'users'>, jobId: Id<'importJobs'>) {
+  const job = await ctx.db.get(jobId);
+
+  if (!job || job.userId !== user._id) {
+    throw new Error('Import not found');
+  }
+
+  return job;
+}
+
+/**
+ * The user's most recent imports, newest first
+ */
+export const getImportJobs = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireUser(ctx);
+
+    return await ctx.db
+      .query('importJobs')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .order('desc')
+      .take(RECENT_JOBS_LIMIT);
+  },
+});
+
+/**
+ * An import job with its progress and report of skipped rows
+ */
+export const getImportJob = query({
+  args: {
+    jobId: v.id('importJobs'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+
+    return await getOwnedJob(ctx, user, args.jobId);
+  },
+});
+
+/**
+ * Create an import job to stage rows on
+ */
+export const createImportJob = mutation({
+  args: {
+    source: v.union(v.literal('csv'), v.literal('json')),
+    filename: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const now = Date.now();
+
+    return await ctx.db.insert('importJobs', {
+      userId: user._id,
+      source: args.source,
+      filename: args.filename,
+      status: 'staging',
+      totalRows: 0,
+      processedRows: 0,
+      importedCount: 0,
+      duplicateCount: 0,
+      skippedCount: 0,
+      skippedRows: [],
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Stage parsed rows on a job, at most IMPORT_LIMITS.stageBatchSize per call
+ */
+export const addImportRows = mutation({
+  args: {
+    jobId: v.id('importJobs'),
+    rows: v.array(importRowValidator),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const job = await getOwnedJob(ctx, user, args.jobId);
+
+    if (job.status !== 'staging') {
+      throw new Error('Rows can only be added before the import starts');
+    }
+    if (args.rows.length > IMPORT_LIMITS.stageBatchSize) {
+      throw new Error(`Add at most ${IMPORT_LIMITS.stageBatchSize} rows at a time`);
+    }
+    if (job.totalRows + args.rows.length > IMPORT_LIMITS.maxRows) {
+      throw new Error(`An import can have at most ${IMPORT_LIMITS.maxRows} rows`);
+    }
+
+    for (const row of args.rows) {
+      await ctx.db.insert('importRows', { jobId: job._id, userId: user._id, ...row });
+    }
+    await ctx.db.patch(job._id, { totalRows: job.totalRows + args.rows.length, updatedAt: Date.now() });
+
+    return null;
+  },
+});
+
+/**
+ * Start importing a job's staged rows
+ */
+export const startImport = mutation({
+  args: {
+    jobId: v.id('importJobs'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const job = await getOwnedJob(ctx, user, args.jobId);
+
+    if (job.status !== 'staging') {
+      throw new Error('This import has already started');
+    }
+
+    await ctx.db.patch(job._id, { status: 'importing', updatedAt: Date.now() });
+    await ctx.scheduler.runAfter(0, internal.functions.imports.processImportBatch, { jobId: job._id });
+
+    return null;
+  },
+});
+
+/**
+ * Resume an import that stopped before all rows were processed
+ *
+ * Safe to call while batches are still running: a batch only imports
+ * rows no earlier batch has removed.
+ */
+export const resumeImport = mutation({
+  args: {
+    jobId: v.id('importJobs'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const job = await getOwnedJob(ctx, user, args.jobId);
+
+    if (job.status !== 'importing') {
+      throw new Error('Only imports in progress can be resumed');
+    }
+
+    await ctx.scheduler.runAfter(0, internal.functions.imports.processImportBatch, { jobId: job._id });
+
+    return null;
+  },
+});
+
+/**
+ * Cancel an import; meals already imported are kept
+ */
+export const cancelImport = mutation({
+  args: {
+    jobId: v.id('importJobs'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const job = await getOwnedJob(ctx, user, args.jobId);
+
+    if (job.status === 'completed' || job.status === 'canceled') {
+      return null;
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(job._id, { status: 'canceled', updatedAt: now, completedAt: now });
+    // Staged rows are removed in batches
+    await ctx.scheduler.runAfter(0, internal.functions.imports.processImportBatch, { jobId: job._id });
+
+    return null;
+  },
+});
+
+/**
+ * Import the next batch of a job's staged rows and schedule the one after
+ *
+ * Rows of a canceled job are removed without being imported.
+ */
+export const processImportBatch = internalMutation({
+  args: {
+    jobId: v.id('importJobs'),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || (job.status !== 'importing' && job.status !== 'canceled')) {
+      return null;
+    }
+
+    const rows = await ctx.db
+      .query('importRows')
+      .withIndex('by_job_row', (q) => q.eq('jobId', job._id))
+      .take(IMPORT_LIMITS.importBatchSize);
+
+    if (job.status === 'canceled') {
+      for (const row of rows) {
+        await ctx.db.delete(row._id);
+      }
+    } else {
+      let { processedRows, importedCount, duplicateCount, skippedCount } = job;
+      const skippedRows = [...job.skippedRows];
+      const skip = (row: Doc<'importRows'>, reason: string) => {
+        skippedCount++;
+        if (skippedRows.length < IMPORT_LIMITS.reportMaxEntries) {
+          skippedRows.push({ row: row.row, title: row.meal?.title ?? row.title, reason });
+        }
+      };
+
+      for (const row of rows) {
+        // Read the user for every row: each import updates their stats
+        const user = await ctx.db.get(job.userId);
+        if (!user) {
+          return null;
+        }
+
+        const error = row.meal
+          ? row.error ?? validateImportedMeal(row.meal, getEffectiveTier(user))
+          : row.error ?? 'No meal found in this row';
+        if (error || !row.meal) {
+          skip(row, error ?? 'No meal found in this row');
+        } else if (await hasDuplicateMeal(ctx, user._id, row.meal)) {
+          duplicateCount++;
+          skip(row, 'Duplicate of a meal you already have');
+        } else {
+          await insertMeal(ctx, user, row.meal);
+          importedCount++;
+        }
+
+        processedRows++;
+        await ctx.db.delete(row._id);
+      }
+
+      const isDone = rows.length < IMPORT_LIMITS.importBatchSize;
+      const now = Date.now();
+      await ctx.db.patch(job._id, {
+        processedRows,
+        importedCount,
+        duplicateCount,
+        skippedCount,
+        skippedRows,
+        status: isDone ? 'completed' : 'importing',
+        completedAt: isDone ? now : undefined,
+        updatedAt: now,
+      });
+    }
+
+    if (rows.length === IMPORT_LIMITS.importBatchSize) {
+      await ctx.scheduler.runAfter(0, internal.functions.imports.processImportBatch, { jobId: job._id });
+    }
+
+    return null;
+  },
+});
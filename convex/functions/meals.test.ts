@@ -0,0 +1,459 @@
+/**
+ * Meal Function Tests
+ *
+ * Exercises the meal functions against convex-test with identities minted
+ * by the local issuer, covering authentication and per-user ownership.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { PaginationResult } from 'convex/server';
+import { api, internal } from '../_generated/api';
+import type { Doc } from '../_generated/dataModel';
+import { createTest, provisionUser, asUser } from '../test.helpers';
+
+const baseMeal = {
+  title: 'Margherita pizza',
+  rating: 8,
+  mealType: 'dinner' as const,
+  tags: ['pizza'],
+};
+
+describe('meal authentication', () => {
+  it('rejects unauthenticated requests', async () => {
+    const t = createTest();
+
+    await expect(t.mutation(api.functions.meals.createMeal, baseMeal)).rejects.toThrow(
+      'UNAUTHENTICATED',
+    );
+  });
+
+  it('rejects signed-in users without a users row', async () => {
+    const t = createTest();
+    const alice = asUser(t, 'user_alice');
+
+    await expect(alice.mutation(api.functions.meals.createMeal, baseMeal)).rejects.toThrow(
+      'USER_NOT_PROVISIONED',
+    );
+  });
+
+  it('attributes meals to the caller', async () => {
+    const t = createTest();
+    const aliceId = await provisionUser(t, 'user_alice');
+    const alice = asUser(t, 'user_alice');
+
+    const mealId = await alice.mutation(api.functions.meals.createMeal, baseMeal);
+    const meal = await alice.query(api.functions.meals.getMeal, { mealId });
+
+    expect(meal.userId).toBe(aliceId);
+  });
+
+  it('keeps meals private between users', async () => {
+    const t = createTest();
+    await provisionUser(t, 'user_alice');
+    await provisionUser(t, 'user_bob');
+    const alice = asUser(t, 'user_alice');
+    const bob = asUser(t, 'user_bob');
+
+    const mealId = await alice.mutation(api.functions.meals.createMeal, baseMeal);
+
+    await expect(bob.query(api.functions.meals.getMeal, { mealId })).rejects.toThrow(
+      'Access denied',
+    );
+    await expect(bob.mutation(api.functions.meals.deleteMeal, { mealId })).rejects.toThrow(
+      'Access denied',
+    );
+    const firstPage = { paginationOpts: { numItems: 10, cursor: null } };
+    expect((await bob.query(api.functions.meals.getUserMeals, firstPage)).page).toHaveLength(0);
+    expect((await alice.query(api.functions.meals.getUserMeals, firstPage)).page).toHaveLength(1);
+  });
+});
+
+describe('updateMeal', () => {
+  it('changes only the fields passed', async () => {
+    const t = createTest();
+    await provisionUser(t, 'user_alice');
+    const alice = asUser(t, 'user_alice');
+
+    const mealId = await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      description: 'Wood-fired',
+      price: 14,
+      currency: 'EUR',
+    });
+    await alice.mutation(api.functions.meals.updateMeal, { mealId, rating: 9 });
+
+    const meal = await alice.query(api.functions.meals.getMeal, { mealId });
+    expect(meal).toMatchObject({ title: 'Margherita pizza', rating: 9, description: 'Wood-fired', price: 14 });
+  });
+
+  it('clears optional fields passed as null', async () => {
+    const t = createTest();
+    await provisionUser(t, 'user_alice');
+    const alice = asUser(t, 'user_alice');
+
+    const mealId = await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      description: 'Wood-fired',
+      price: 14,
+      currency: 'EUR',
+      location: { name: 'Da Michele' },
+    });
+    await alice.mutation(api.functions.meals.updateMeal, {
+      mealId,
+      description: null,
+      price: null,
+      location: null,
+    });
+
+    const meal = await alice.query(api.functions.meals.getMeal, { mealId });
+    expect(meal.description).toBeUndefined();
+    expect(meal.price).toBeUndefined();
+    expect(meal.currency).toBeUndefined();
+    expect(meal.location).toBeUndefined();
+    expect(meal.searchText).toBe('Margherita pizza');
+  });
+});
+
+describe('meal entitlements', () => {
+  const tags = ['pizza', 'naples', 'cheese', 'tomato'];
+
+  async function setupWithSubscription(subscription?: Doc<'users'>['subscription']) {
+    const t = createTest();
+    const userId = await provisionUser(t, 'user_alice');
+    await t.run(ctx => ctx.db.patch(userId, { subscription }));
+    return asUser(t, 'user_alice');
+  }
+
+  it('rejects more tags than the free tier allows with TAG_LIMIT', async () => {
+    const alice = await setupWithSubscription();
+
+    await expect(alice.mutation(api.functions.meals.createMeal, { ...baseMeal, tags }))
+      .rejects.toThrow('TAG_LIMIT');
+  });
+
+  it('allows unlimited tags while premium is active', async () => {
+    const alice = await setupWithSubscription({ tier: 'premium', expiresAt: Date.now() + 60_000 });
+
+    const mealId = await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, tags });
+
+    expect((await alice.query(api.functions.meals.getMeal, { mealId })).tags).toHaveLength(4);
+  });
+
+  it('applies free limits once premium has expired', async () => {
+    const alice = await setupWithSubscription({ tier: 'premium', expiresAt: Date.now() - 1 });
+    const mealId = await alice.mutation(api.functions.meals.createMeal, baseMeal);
+
+    await expect(alice.mutation(api.functions.meals.updateMeal, { mealId, tags }))
+      .rejects.toThrow('TAG_LIMIT');
+  });
+
+  it('keeps extended details to premium with EXTENDED_MEAL_FIELDS', async () => {
+    const alice = await setupWithSubscription();
+
+    await expect(alice.mutation(api.functions.meals.createMeal, { ...baseMeal, cuisine: 'Italian' }))
+      .rejects.toThrow('EXTENDED_MEAL_FIELDS');
+  });
+
+  it('stores extended details for premium users and clears them with null', async () => {
+    const alice = await setupWithSubscription({ tier: 'premium', expiresAt: Date.now() + 60_000 });
+    const mealId = await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      cuisine: ' Italian ',
+      servingSize: 'sharing',
+      spiceLevel: 2,
+      companions: [' Sam ', 'Priya'],
+      wouldOrderAgain: true,
+    });
+
+    expect(await alice.query(api.functions.meals.getMeal, { mealId })).toMatchObject({
+      cuisine: 'Italian',
+      servingSize: 'sharing',
+      spiceLevel: 2,
+      companions: ['Sam', 'Priya'],
+      wouldOrderAgain: true,
+    });
+
+    await alice.mutation(api.functions.meals.updateMeal, { mealId, cuisine: null, companions: null });
+    const meal = await alice.query(api.functions.meals.getMeal, { mealId });
+    expect(meal.cuisine).toBeUndefined();
+    expect(meal.companions).toBeUndefined();
+  });
+
+  it('lets a lapsed premium user clear extended details', async () => {
+    const t = createTest();
+    const userId = await provisionUser(t, 'user_alice');
+    await t.run(ctx => ctx.db.patch(userId, { subscription: { tier: 'premium', expiresAt: Date.now() + 60_000 } }));
+    const alice = asUser(t, 'user_alice');
+    const mealId = await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, notes: 'Ask for extra basil' });
+    await t.run(ctx => ctx.db.patch(userId, { subscription: { tier: 'premium', expiresAt: Date.now() - 1 } }));
+
+    await expect(alice.mutation(api.functions.meals.updateMeal, { mealId, notes: 'Less salt' }))
+      .rejects.toThrow('EXTENDED_MEAL_FIELDS');
+    await alice.mutation(api.functions.meals.updateMeal, { mealId, notes: null });
+
+    expect((await alice.query(api.functions.meals.getMeal, { mealId })).notes).toBeUndefined();
+  });
+
+  it('rejects out of range extended details', async () => {
+    const alice = await setupWithSubscription({ tier: 'premium', expiresAt: Date.now() + 60_000 });
+
+    await expect(alice.mutation(api.functions.meals.createMeal, { ...baseMeal, valueForMoney: 6 }))
+      .rejects.toThrow('Value for money must be between 1 and 5');
+  });
+});
+
+describe('getUserMeals pagination', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const start = Date.UTC(2025, 0, 1);
+
+  /**
+   * Create one meal per day for `count` days, alternating lunch and dinner
+   */
+  async function seedMeals(count: number) {
+    const t = createTest();
+    await provisionUser(t, 'user_alice');
+    const alice = asUser(t, 'user_alice');
+
+    for (let day = 0; day < count; day++) {
+      await alice.mutation(api.functions.meals.createMeal, {
+        ...baseMeal,
+        title: `Meal ${day}`,
+        mealType: day % 2 === 0 ? 'lunch' : 'dinner',
+        mealDate: start + day * DAY,
+      });
+    }
+
+    return alice;
+  }
+
+  it('walks every meal newest first using the continuation cursor', async () => {
+    const alice = await seedMeals(7);
+
+    const titles: string[] = [];
+    let cursor: string | null = null;
+    let isDone = false;
+    while (!isDone) {
+      const result: PaginationResult<Doc<'meals'>> = await alice.query(
+        api.functions.meals.getUserMeals,
+        { paginationOpts: { numItems: 3, cursor } },
+      );
+      titles.push(...result.page.map(meal => meal.title));
+      cursor = result.continueCursor;
+      isDone = result.isDone;
+    }
+
+    expect(titles).toEqual(['Meal 6', 'Meal 5', 'Meal 4', 'Meal 3', 'Meal 2', 'Meal 1', 'Meal 0']);
+  });
+
+  it('applies the date range before taking a page', async () => {
+    const alice = await seedMeals(10);
+
+    const result = await alice.query(api.functions.meals.getUserMeals, {
+      paginationOpts: { numItems: 2, cursor: null },
+      startDate: start + 1 * DAY,
+      endDate: start + 3 * DAY,
+    });
+    const next = await alice.query(api.functions.meals.getUserMeals, {
+      paginationOpts: { numItems: 2, cursor: result.continueCursor },
+      startDate: start + 1 * DAY,
+      endDate: start + 3 * DAY,
+    });
+
+    expect(result.page.map(meal => meal.title)).toEqual(['Meal 3', 'Meal 2']);
+    expect(next.page.map(meal => meal.title)).toEqual(['Meal 1']);
+    expect(next.isDone).toBe(true);
+  });
+
+  it('filters by meal type within the date range', async () => {
+    const alice = await seedMeals(6);
+
+    const result = await alice.query(api.functions.meals.getUserMeals, {
+      paginationOpts: { numItems: 10, cursor: null },
+      mealType: 'dinner',
+      endDate: start + 4 * DAY,
+    });
+
+    expect(result.page.map(meal => meal.title)).toEqual(['Meal 3', 'Meal 1']);
+  });
+});
+
+describe('getMealDates', () => {
+  it('returns the dates of meals since the start date, newest first', async () => {
+    const t = createTest();
+    await provisionUser(t, 'user_alice');
+    const alice = asUser(t, 'user_alice');
+
+    for (const mealDate of [1_000, 3_000, 2_000]) {
+      await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, mealDate });
+    }
+
+    expect(await alice.query(api.functions.meals.getMealDates, { startDate: 2_000 })).toEqual([3_000, 2_000]);
+  });
+});
+
+describe('searchMeals', () => {
+  const page = { numItems: 10, cursor: null };
+
+  async function seedSearch() {
+    const t = createTest();
+    await provisionUser(t, 'user_alice');
+    const alice = asUser(t, 'user_alice');
+
+    const meals = [
+      { title: 'Late pizza night', rating: 9, price: 18, mealDate: Date.UTC(2025, 0, 5), tags: ['pizza'] },
+      { title: 'Cheap pizza slice', rating: 5, price: 4, mealDate: Date.UTC(2025, 0, 10), tags: ['pizza'] },
+      { title: 'Brunch pizza', rating: 7, mealDate: Date.UTC(2025, 1, 1), tags: ['brunch'], mealType: 'breakfast' as const },
+      {
+        title: 'Margherita',
+        description: 'wood fired pizza with basil',
+        rating: 8,
+        mealDate: Date.UTC(2025, 1, 2),
+        tags: ['italian'],
+      },
+      { title: 'Calzone', rating: 6, mealDate: Date.UTC(2025, 1, 3), tags: [], location: { name: 'pizza Napoli' } },
+    ];
+    for (const meal of meals) {
+      await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, ...meal });
+    }
+
+    return { t, alice };
+  }
+
+  const titles = (meals: Doc<'meals'>[]) => meals.map(meal => meal.title).sort();
+
+  it('searches titles, descriptions and location names', async () => {
+    const { alice } = await seedSearch();
+
+    const result = await alice.query(api.functions.meals.searchMeals, { paginationOpts: page, searchTerm: 'pizza' });
+
+    expect(titles(result.page)).toEqual([
+      'Brunch pizza',
+      'Calzone',
+      'Cheap pizza slice',
+      'Late pizza night',
+      'Margherita',
+    ]);
+  });
+
+  it('keeps searchText in sync with edits', async () => {
+    const { alice } = await seedSearch();
+    const result = await alice.query(api.functions.meals.searchMeals, { paginationOpts: page, searchTerm: 'Calzone' });
+
+    await alice.mutation(api.functions.meals.updateMeal, {
+      mealId: result.page[0]._id,
+      location: { name: 'Trattoria Roma' },
+    });
+
+    const before = await alice.query(api.functions.meals.searchMeals, { paginationOpts: page, searchTerm: 'Napoli' });
+    const after = await alice.query(api.functions.meals.searchMeals, { paginationOpts: page, searchTerm: 'Trattoria' });
+    expect(titles(before.page)).toEqual([]);
+    expect(titles(after.page)).toEqual(['Calzone']);
+  });
+
+  it('applies meal type, rating, price and date filters before paging', async () => {
+    const { alice } = await seedSearch();
+    const search = (filters: object) => alice.query(api.functions.meals.searchMeals, {
+      paginationOpts: { numItems: 1, cursor: null },
+      searchTerm: 'pizza',
+      ...filters,
+    });
+
+    expect(titles((await search({ mealType: 'breakfast' })).page)).toEqual(['Brunch pizza']);
+    expect(titles((await search({ minRating: 9 })).page)).toEqual(['Late pizza night']);
+    expect(titles((await search({ maxPrice: 10 })).page)).toEqual(['Cheap pizza slice']);
+    expect(titles((await search({
+      startDate: Date.UTC(2025, 0, 6),
+      endDate: Date.UTC(2025, 0, 31),
+    })).page)).toEqual(['Cheap pizza slice']);
+  });
+
+  it('pages through every match with the continuation cursor', async () => {
+    const { alice } = await seedSearch();
+
+    const found: string[] = [];
+    let cursor: string | null = null;
+    let isDone = false;
+    while (!isDone) {
+      const result: PaginationResult<Doc<'meals'>> = await alice.query(api.functions.meals.searchMeals, {
+        paginationOpts: { numItems: 2, cursor },
+        searchTerm: 'pizza',
+        minRating: 6,
+      });
+      found.push(...result.page.map(meal => meal.title));
+      cursor = result.continueCursor;
+      isDone = result.isDone;
+    }
+
+    expect(found.sort()).toEqual(['Brunch pizza', 'Calzone', 'Late pizza night', 'Margherita']);
+  });
+
+  it('returns recent meals matching the filters without a search term', async () => {
+    const { alice } = await seedSearch();
+
+    const tagged = await alice.query(api.functions.meals.searchMeals, {
+      paginationOpts: page,
+      searchTerm: ' ',
+      tags: ['Brunch'],
+    });
+    const recent = await alice.query(api.functions.meals.searchMeals, {
+      paginationOpts: { numItems: 2, cursor: null },
+      searchTerm: '',
+    });
+
+    expect(titles(tagged.page)).toEqual(['Brunch pizza']);
+    expect(recent.page.map(meal => meal.title)).toEqual(['Calzone', 'Margherita']);
+  });
+
+  it('searches and filters by extended details', async () => {
+    const { t, alice } = await seedSearch();
+    await t.run(async (ctx) => {
+      const user = await ctx.db.query('users').first();
+      await ctx.db.patch(user!._id, { subscription: { tier: 'premium' } });
+    });
+    await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      title: 'Dan dan noodles',
+      cuisine: 'Sichuan',
+      occasion: 'Birthday',
+      companions: ['Priya'],
+      spiceLevel: 5,
+      wouldOrderAgain: true,
+    });
+    await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      title: 'Mapo tofu',
+      cuisine: 'Sichuan',
+      spiceLevel: 3,
+      wouldOrderAgain: false,
+    });
+    const search = (filters: object) => alice.query(api.functions.meals.searchMeals, {
+      paginationOpts: page,
+      searchTerm: '',
+      ...filters,
+    });
+
+    const byCompanion = await alice.query(api.functions.meals.searchMeals, { paginationOpts: page, searchTerm: 'Priya' });
+    expect(titles(byCompanion.page)).toEqual(['Dan dan noodles']);
+    expect(titles((await search({ cuisine: 'sichuan' })).page)).toEqual(['Dan dan noodles', 'Mapo tofu']);
+    expect(titles((await search({ maxSpiceLevel: 4 })).page)).toEqual(['Mapo tofu']);
+    expect(titles((await search({ wouldOrderAgain: true })).page)).toEqual(['Dan dan noodles']);
+    expect(titles((await search({ occasion: 'birthday', companion: 'priya' })).page)).toEqual(['Dan dan noodles']);
+  });
+
+  it('backfills searchText for older meals', async () => {
+    vi.useFakeTimers();
+    const { t, alice } = await seedSearch();
+    const mealId = await t.run(async (ctx) => {
+      const meal = await ctx.db.query('meals').first();
+      await ctx.db.patch(meal!._id, { searchText: undefined });
+      return meal!._id;
+    });
+
+    await t.mutation(internal.functions.meals.backfillSearchText, { batchSize: 2 });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const meal = await alice.query(api.functions.meals.getMeal, { mealId });
+    expect(meal.searchText).toBe('Late pizza night');
+    vi.useRealTimers();
+  });
+});
@@ -10,33 +10,46 @@
  * - Freemium model enforcement (photo limits, tag limits)
  * - Real-time subscriptions for meal updates
  * - Search and filtering capabilities
- * - User statistics updates
+ * - User statistics, tag usage, place visit updates and budget alerts
+ * - Prices converted to the user's home currency at the meal date's rate
+ * - Idempotent replays and stale-edit detection for the offline outbox
  */
 
-import { mutation, query } from '../_generated/server';
+import { internalMutation, mutation, query } from '../_generated/server';
+import { internal } from '../_generated/api';
+import { paginationOptsValidator } from 'convex/server';
 import { v } from 'convex/values';
-
-/**
- * Helper function to get authenticated user from Convex context
- * For now, we'll use a mock user for testing purposes
- */
-async function requireAuth(_ctx: any) {
-  // TODO: Implement proper Clerk authentication
-  // For testing purposes, return a mock user
-  return {
-    subject: 'test-user-123',
-    email: 'test@foodylog.com',
-    given_name: 'Test',
-    family_name: 'User',
-  };
-}
+import { requireUser } from '../lib/auth';
+import { throwValidationIssue, validateMealInput } from '../lib/validation';
+import { updateStatsForMealChange } from '../lib/stats';
+import { invalidateAnalytics } from '../lib/analytics';
+import { getSyncOperation, recordSyncOperation } from '../lib/sync';
+import { buildMealSearchText } from '../lib/search';
+import { applyTagUsageChange } from '../lib/tags';
+import { getEffectiveTier } from '../lib/subscription';
+import { applyStorageUsageChange } from '../lib/storage';
+import { applyPlaceVisitChange, resolvePlace } from '../lib/places';
+import { checkBudgetAlertsForMeal } from '../lib/budgets';
+import { getHomePriceFields } from '../lib/exchangeRates';
+import { insertMeal, trimCompanions, trimDetail } from '../lib/meals';
+
+const servingSizeValidator = v.union(
+  v.literal('small'),
+  v.literal('medium'),
+  v.literal('large'),
+  v.literal('sharing'),
+);
 
 /**
  * Create a new meal entry
  * 
  * Creates a meal with validation and freemium model constraints.
  * Free users: max 3 tags, 1 photo per meal
- * Premium users: unlimited tags, up to 5 photos per meal
+ * Premium users: unlimited tags, up to 5 photos per meal and the extended
+ * details (cuisine, dish type, companions, etc.)
+ *
+ * Creates replayed from the offline outbox carry an `idempotencyKey`; a
+ * key that was already applied returns the meal created the first time.
  */
 export const createMeal = mutation({
   args: {
@@ -62,94 +75,47 @@ export const createMeal = mutation({
       placeId: v.optional(v.string()),
     })),
     mealDate: v.optional(v.number()), // timestamp, defaults to now
+
+    // Extended details (premium only)
+    cuisine: v.optional(v.string()),
+    dishType: v.optional(v.string()),
+    servingSize: v.optional(servingSizeValidator),
+    spiceLevel: v.optional(v.number()), // 1-5 scale
+    notes: v.optional(v.string()),
+    occasion: v.optional(v.string()),
+    companions: v.optional(v.array(v.string())),
+    isRecommended: v.optional(v.boolean()),
+    wouldOrderAgain: v.optional(v.boolean()),
+    valueForMoney: v.optional(v.number()), // 1-5 scale
+
+    idempotencyKey: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const identity = await requireAuth(ctx);
-
     // Get user from database to check subscription tier
-    const user = await ctx.db
-      .query('users')
-      .withIndex('by_clerk_id', (q) => q.eq('clerkId', identity.subject))
-      .first();
+    const user = await requireUser(ctx);
 
-    if (!user) {
-      throw new Error('User not found. Please sign up first.');
+    // Replayed create: return the meal created the first time
+    const previous = await getSyncOperation(ctx, user._id, args.idempotencyKey);
+    if (previous?.mealId) {
+      return previous.mealId;
     }
 
-    // Validate input
-    if (args.title.length > 100) {
-      throw new Error('Meal title must be 100 characters or less');
-    }
-
-    if (args.rating < 1 || args.rating > 10) {
-      throw new Error('Rating must be between 1 and 10');
-    }
+    // Validate input and enforce freemium model constraints
+    const validationErrors = validateMealInput(args, { tier: getEffectiveTier(user) });
 
-    if (args.description && args.description.length > 500) {
-      throw new Error('Description must be 500 characters or less');
+    if (validationErrors.length > 0) {
+      throwValidationIssue(validationErrors[0]);
     }
 
-    // Enforce freemium model constraints
-    const isFreeTier = user.subscription?.tier === 'free' || !user.subscription?.tier;
-    
-    if (isFreeTier && args.tags.length > 3) {
-      throw new Error('Free tier limited to 3 tags per meal. Upgrade to premium for unlimited tags.');
-    }
-
-    const now = Date.now();
-    const mealDate = args.mealDate || now;
-
-    // Create meal entry
-    const mealId = await ctx.db.insert('meals', {
+    // Create the meal with its stats, tag, place and budget bookkeeping
+    const { idempotencyKey, ...input } = args;
+    const mealId = await insertMeal(ctx, user, { ...input, mealDate: args.mealDate || Date.now() });
+    await recordSyncOperation(ctx, {
       userId: user._id,
-      title: args.title.trim(),
-      rating: args.rating,
-      mealType: args.mealType,
-      description: args.description?.trim(),
-      price: args.price,
-      currency: args.currency || user.preferences?.currency || 'USD',
-      tags: args.tags.map(tag => tag.trim().toLowerCase()),
-      location: args.location,
-      photos: [], // Photos will be added separately
-      
-      // Social features (default values)
-      isPublic: false,
-      allowComments: false,
-      likeCount: 0,
-      commentCount: 0,
-      shareCount: 0,
-      
-      // Sync status
-      syncStatus: 'synced',
-      lastSyncedAt: now,
-      
-      // Timestamps
-      mealDate: mealDate,
-      createdAt: now,
-      updatedAt: now,
-    });
-
-    // Update user statistics
-    const currentStats = user.stats || {
-      totalMeals: 0,
-      averageRating: 0,
-      totalSpent: 0,
-    };
-
-    const newTotalMeals = currentStats.totalMeals + 1;
-    const newTotalSpent = currentStats.totalSpent + (args.price || 0);
-    const newAverageRating = ((currentStats.averageRating * currentStats.totalMeals) + args.rating) / newTotalMeals;
-
-    await ctx.db.patch(user._id, {
-      stats: {
-        ...currentStats,
-        totalMeals: newTotalMeals,
-        averageRating: Math.round(newAverageRating * 100) / 100, // Round to 2 decimal places
-        totalSpent: newTotalSpent,
-        lastMealDate: mealDate,
-        favoriteRestaurant: args.location?.name || currentStats.favoriteRestaurant,
-      },
-      updatedAt: now,
+      idempotencyKey,
+      operation: 'create',
+      mealId,
+      status: 'applied',
     });
 
     console.log(`Created meal "${args.title}" for user ${user.email}`);
@@ -158,70 +124,75 @@ export const createMeal = mutation({
   },
 });
 /**
- * Ge
-t meals for the current user
+ * Get meals for the current user
  * 
- * Returns paginated list of meals for the authenticated user.
- * Supports filtering by meal type, date range, and search.
+ * Returns a page of meals for the authenticated user, newest first.
+ * The date range is applied on the by_user_date index so every page is
+ * drawn from matching meals only; pass the returned `continueCursor` back
+ * in `paginationOpts.cursor` to fetch the next page.
  */
 export const getUserMeals = query({
   args: {
-    limit: v.optional(v.number()), // Default 20
-    cursor: v.optional(v.string()), // For pagination
+    paginationOpts: paginationOptsValidator,
     mealType: v.optional(v.union(
       v.literal('breakfast'),
       v.literal('lunch'),
       v.literal('dinner'),
       v.literal('snack'),
     )),
-    startDate: v.optional(v.number()), // timestamp
-    endDate: v.optional(v.number()), // timestamp
+    startDate: v.optional(v.number()), // timestamp, inclusive
+    endDate: v.optional(v.number()), // timestamp, inclusive
   },
   handler: async (ctx, args) => {
-    const identity = await requireAuth(ctx);
-
     // Get user from database
-    const user = await ctx.db
-      .query('users')
-      .withIndex('by_clerk_id', (q) => q.eq('clerkId', identity.subject))
-      .first();
-
-    if (!user) {
-      throw new Error('User not found');
-    }
+    const user = await requireUser(ctx);
 
-    // Build query
-    let query = ctx.db
+    // Restrict the index range to the requested dates
+    let mealsQuery = ctx.db
       .query('meals')
-      .withIndex('by_user_date', (q) => q.eq('userId', user._id));
+      .withIndex('by_user_date', (q) => {
+        const byUser = q.eq('userId', user._id);
+        const fromStart = args.startDate !== undefined
+          ? byUser.gte('mealDate', args.startDate)
+          : byUser;
+        return args.endDate !== undefined
+          ? fromStart.lte('mealDate', args.endDate)
+          : fromStart;
+      });
 
-    // Apply filters
+    // Meal type is filtered within the date-ordered range
     if (args.mealType) {
-      query = ctx.db
-        .query('meals')
-        .withIndex('by_user_type', (q) => 
-          q.eq('userId', user._id).eq('mealType', args.mealType!)
-        );
+      const mealType = args.mealType;
+      mealsQuery = mealsQuery.filter((q) => q.eq(q.field('mealType'), mealType));
     }
 
     // Get meals (ordered by meal date, newest first)
-    const meals = await query
+    return await mealsQuery
       .order('desc')
-      .take(args.limit || 20);
-
-    // Filter by date range if specified
-    let filteredMeals = meals;
-    if (args.startDate || args.endDate) {
-      filteredMeals = meals.filter(meal => {
-        if (args.startDate && meal.mealDate < args.startDate) return false;
-        if (args.endDate && meal.mealDate > args.endDate) return false;
-        return true;
-      });
-    }
+      .paginate(args.paginationOpts);
+  },
+});
 
-    console.log(`Retrieved ${filteredMeals.length} meals for user ${user.email}`);
-    
-    return filteredMeals;
+/**
+ * Get the dates of the user's meals since a point in time
+ * 
+ * Returns meal timestamps newest first, without the rest of each meal.
+ * Used to count logging streaks in the user's local days.
+ */
+export const getMealDates = query({
+  args: {
+    startDate: v.number(), // timestamp, inclusive
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+
+    const meals = await ctx.db
+      .query('meals')
+      .withIndex('by_user_date', (q) => q.eq('userId', user._id).gte('mealDate', args.startDate))
+      .order('desc')
+      .collect();
+
+    return meals.map(meal => meal.mealDate);
   },
 });
 
@@ -235,17 +206,8 @@ export const getMeal = query({
     mealId: v.id('meals'),
   },
   handler: async (ctx, args) => {
-    const identity = await requireAuth(ctx);
-
     // Get user from database
-    const user = await ctx.db
-      .query('users')
-      .withIndex('by_clerk_id', (q) => q.eq('clerkId', identity.subject))
-      .first();
-
-    if (!user) {
-      throw new Error('User not found');
-    }
+    const user = await requireUser(ctx);
 
     // Get meal
     const meal = await ctx.db.get(args.mealId);
@@ -266,7 +228,14 @@ export const getMeal = query({
 /**
  * Update an existing meal
  * 
- * Updates meal information with validation and ownership checks.
+ * Updates meal information with validation and ownership checks. Only the
+ * fields passed are changed; `null` clears the description, price,
+ * location or an extended detail.
+ *
+ * Offline edits pass `expectedUpdatedAt`, the meal's `updatedAt` when the
+ * edit was made. If the meal has changed since, the edit is not applied:
+ * the meal is marked `conflict` and returned so the client can resolve it.
+ * Replays of an `idempotencyKey` return the outcome of the first attempt.
  */
 export const updateMeal = mutation({
   args: {
@@ -279,33 +248,39 @@ export const updateMeal = mutation({
       v.literal('dinner'),
       v.literal('snack'),
     )),
-    description: v.optional(v.string()),
-    price: v.optional(v.number()),
-    currency: v.optional(v.string()),
+    description: v.optional(v.union(v.string(), v.null())),
+    price: v.optional(v.union(v.number(), v.null())),
+    currency: v.optional(v.union(v.string(), v.null())),
     tags: v.optional(v.array(v.string())),
-    location: v.optional(v.object({
-      name: v.string(),
-      address: v.optional(v.string()),
-      coordinates: v.optional(v.object({
-        lat: v.number(),
-        lng: v.number(),
-      })),
-      placeId: v.optional(v.string()),
-    })),
+    location: v.optional(v.union(
+      v.object({
+        name: v.string(),
+        address: v.optional(v.string()),
+        coordinates: v.optional(v.object({
+          lat: v.number(),
+          lng: v.number(),
+        })),
+        placeId: v.optional(v.string()),
+      }),
+      v.null(),
+    )),
     mealDate: v.optional(v.number()),
+    cuisine: v.optional(v.union(v.string(), v.null())),
+    dishType: v.optional(v.union(v.string(), v.null())),
+    servingSize: v.optional(v.union(servingSizeValidator, v.null())),
+    spiceLevel: v.optional(v.union(v.number(), v.null())),
+    notes: v.optional(v.union(v.string(), v.null())),
+    occasion: v.optional(v.union(v.string(), v.null())),
+    companions: v.optional(v.union(v.array(v.string()), v.null())),
+    isRecommended: v.optional(v.union(v.boolean(), v.null())),
+    wouldOrderAgain: v.optional(v.union(v.boolean(), v.null())),
+    valueForMoney: v.optional(v.union(v.number(), v.null())),
+    expectedUpdatedAt: v.optional(v.number()),
+    idempotencyKey: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const identity = await requireAuth(ctx);
-
     // Get user from database
-    const user = await ctx.db
-      .query('users')
-      .withIndex('by_clerk_id', (q) => q.eq('clerkId', identity.subject))
-      .first();
-
-    if (!user) {
-      throw new Error('User not found');
-    }
+    const user = await requireUser(ctx);
 
     // Get existing meal
     const meal = await ctx.db.get(args.mealId);
@@ -319,46 +294,167 @@ export const updateMeal = mutation({
       throw new Error('Access denied: You can only update your own meals');
     }
 
-    // Validate updates
-    if (args.title && args.title.length > 100) {
-      throw new Error('Meal title must be 100 characters or less');
+    // Replayed update: report the outcome of the first attempt
+    const previous = await getSyncOperation(ctx, user._id, args.idempotencyKey);
+    if (previous) {
+      return previous.status === 'conflict'
+        ? { status: 'conflict' as const, mealId: args.mealId, meal }
+        : { status: 'updated' as const, mealId: args.mealId };
     }
 
-    if (args.rating && (args.rating < 1 || args.rating > 10)) {
-      throw new Error('Rating must be between 1 and 10');
-    }
+    // Stale edit: the meal changed after the client last saw it
+    if (args.expectedUpdatedAt !== undefined && args.expectedUpdatedAt !== meal.updatedAt) {
+      await ctx.db.patch(args.mealId, { syncStatus: 'conflict' });
+      await recordSyncOperation(ctx, {
+        userId: user._id,
+        idempotencyKey: args.idempotencyKey,
+        operation: 'update',
+        mealId: args.mealId,
+        status: 'conflict',
+      });
+
+      console.log(`Conflicting update for meal ${args.mealId} from user ${user.email}`);
 
-    if (args.description && args.description.length > 500) {
-      throw new Error('Description must be 500 characters or less');
+      return {
+        status: 'conflict' as const,
+        mealId: args.mealId,
+        meal: { ...meal, syncStatus: 'conflict' as const },
+      };
     }
 
-    // Enforce freemium model constraints for tags
-    const isFreeTier = user.subscription?.tier === 'free' || !user.subscription?.tier;
-    
-    if (args.tags && isFreeTier && args.tags.length > 3) {
-      throw new Error('Free tier limited to 3 tags per meal. Upgrade to premium for unlimited tags.');
+    // Validate updates and enforce freemium model constraints; clearing a
+    // premium detail is allowed on every tier
+    const validationErrors = validateMealInput({
+      ...args,
+      description: args.description ?? undefined,
+      price: args.price ?? undefined,
+      cuisine: args.cuisine ?? undefined,
+      dishType: args.dishType ?? undefined,
+      servingSize: args.servingSize ?? undefined,
+      spiceLevel: args.spiceLevel ?? undefined,
+      notes: args.notes ?? undefined,
+      occasion: args.occasion ?? undefined,
+      companions: args.companions ?? undefined,
+      isRecommended: args.isRecommended ?? undefined,
+      wouldOrderAgain: args.wouldOrderAgain ?? undefined,
+      valueForMoney: args.valueForMoney ?? undefined,
+    }, { tier: getEffectiveTier(user) });
+
+    if (validationErrors.length > 0) {
+      throwValidationIssue(validationErrors[0]);
     }
 
     // Build update object
+    const now = Date.now();
     const updates: any = {
-      updatedAt: Date.now(),
+      updatedAt: now,
+      syncStatus: 'synced',
+      lastSyncedAt: now,
     };
 
     if (args.title !== undefined) updates.title = args.title.trim();
     if (args.rating !== undefined) updates.rating = args.rating;
     if (args.mealType !== undefined) updates.mealType = args.mealType;
-    if (args.description !== undefined) updates.description = args.description?.trim();
-    if (args.price !== undefined) updates.price = args.price;
-    if (args.currency !== undefined) updates.currency = args.currency;
+    if (args.description !== undefined) {
+      updates.description = args.description?.trim() || undefined;
+    }
+    if (args.price !== undefined) {
+      updates.price = args.price ?? undefined;
+    }
+    if (args.currency !== undefined) {
+      updates.currency = args.currency ?? undefined;
+    }
+    if (args.price === null) {
+      updates.currency = undefined;
+    }
     if (args.tags !== undefined) updates.tags = args.tags.map(tag => tag.trim().toLowerCase());
-    if (args.location !== undefined) updates.location = args.location;
+    if (args.location !== undefined) {
+      updates.location = args.location ?? undefined;
+      updates.placeId = args.location ? await resolvePlace(ctx, user._id, args.location) : undefined;
+    }
     if (args.mealDate !== undefined) updates.mealDate = args.mealDate;
+    if (args.cuisine !== undefined) {
+      updates.cuisine = trimDetail(args.cuisine);
+    }
+    if (args.dishType !== undefined) {
+      updates.dishType = trimDetail(args.dishType);
+    }
+    if (args.servingSize !== undefined) {
+      updates.servingSize = args.servingSize ?? undefined;
+    }
+    if (args.spiceLevel !== undefined) {
+      updates.spiceLevel = args.spiceLevel ?? undefined;
+    }
+    if (args.notes !== undefined) {
+      updates.notes = trimDetail(args.notes);
+    }
+    if (args.occasion !== undefined) {
+      updates.occasion = trimDetail(args.occasion);
+    }
+    if (args.companions !== undefined) {
+      updates.companions = trimCompanions(args.companions);
+    }
+    if (args.isRecommended !== undefined) {
+      updates.isRecommended = args.isRecommended ?? undefined;
+    }
+    if (args.wouldOrderAgain !== undefined) {
+      updates.wouldOrderAgain = args.wouldOrderAgain ?? undefined;
+    }
+    if (args.valueForMoney !== undefined) {
+      updates.valueForMoney = args.valueForMoney ?? undefined;
+    }
+    updates.searchText = buildMealSearchText({ ...meal, ...updates });
+    Object.assign(updates, await getHomePriceFields(ctx, user, { ...meal, ...updates }));
 
     // Update meal
     await ctx.db.patch(args.mealId, updates);
 
+    // Update user statistics (rating, price, location or date may have changed)
+    const updatedMeal = await ctx.db.get(args.mealId);
+    await updateStatsForMealChange(ctx, user, meal, updatedMeal);
+    await applyTagUsageChange(ctx, user._id, meal.tags, updatedMeal?.tags ?? []);
+    await applyPlaceVisitChange(ctx, meal, updatedMeal);
+    await checkBudgetAlertsForMeal(ctx, user, updatedMeal);
+    await invalidateAnalytics(ctx, user._id);
+    await recordSyncOperation(ctx, {
+      userId: user._id,
+      idempotencyKey: args.idempotencyKey,
+      operation: 'update',
+      mealId: args.mealId,
+      status: 'applied',
+    });
+
     console.log(`Updated meal ${args.mealId} for user ${user.email}`);
     
+    return { status: 'updated' as const, mealId: args.mealId };
+  },
+});
+
+/**
+ * Resolve a sync conflict by keeping the server version of a meal
+ *
+ * Keeping the local version or a merge is done by calling updateMeal with
+ * `expectedUpdatedAt` set to the server version's `updatedAt`, which also
+ * clears the conflict.
+ */
+export const resolveMealConflict = mutation({
+  args: {
+    mealId: v.id('meals'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const meal = await ctx.db.get(args.mealId);
+
+    if (!meal) {
+      throw new Error('Meal not found');
+    }
+
+    if (meal.userId !== user._id) {
+      throw new Error('Access denied: You can only update your own meals');
+    }
+
+    await ctx.db.patch(args.mealId, { syncStatus: 'synced', lastSyncedAt: Date.now() });
+
     return args.mealId;
   },
 });
@@ -366,29 +462,29 @@ export const updateMeal = mutation({
 /**
  * Delete a meal
  * 
- * Deletes a meal and updates user statistics.
+ * Deletes a meal along with its photos (mealPhotos rows and stored files)
+ * and updates user statistics.
+ *
+ * Deletes replayed with an `idempotencyKey` succeed when the meal is
+ * already gone, so a delete applied before a dropped connection is not
+ * reported as a failure.
  */
 export const deleteMeal = mutation({
   args: {
     mealId: v.id('meals'),
+    idempotencyKey: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
-    const identity = await requireAuth(ctx);
-
     // Get user from database
-    const user = await ctx.db
-      .query('users')
-      .withIndex('by_clerk_id', (q) => q.eq('clerkId', identity.subject))
-      .first();
-
-    if (!user) {
-      throw new Error('User not found');
-    }
+    const user = await requireUser(ctx);
 
     // Get meal to delete
     const meal = await ctx.db.get(args.mealId);
 
     if (!meal) {
+      if (args.idempotencyKey) {
+        return { success: true };
+      }
       throw new Error('Meal not found');
     }
 
@@ -397,39 +493,33 @@ export const deleteMeal = mutation({
       throw new Error('Access denied: You can only delete your own meals');
     }
 
-    // Delete associated photos from storage
-    // TODO: Implement photo deletion from Convex file storage
-    // for (const photo of meal.photos) {
-    //   await ctx.storage.delete(photo.storageId);
-    // }
+    // Delete associated photos and their stored files
+    const photos = await ctx.db
+      .query('mealPhotos')
+      .withIndex('by_meal', (q) => q.eq('mealId', args.mealId))
+      .collect();
+
+    for (const photo of photos) {
+      await ctx.storage.delete(photo.storageId);
+      await ctx.db.delete(photo._id);
+    }
+    await applyStorageUsageChange(ctx, user, -photos.reduce((total, photo) => total + photo.size, 0));
 
     // Delete meal
     await ctx.db.delete(args.mealId);
 
     // Update user statistics
-    const currentStats = user.stats || {
-      totalMeals: 0,
-      averageRating: 0,
-      totalSpent: 0,
-    };
-
-    if (currentStats.totalMeals > 0) {
-      const newTotalMeals = currentStats.totalMeals - 1;
-      const newTotalSpent = Math.max(0, currentStats.totalSpent - (meal.price || 0));
-      
-      // Recalculate average rating (simplified - in production, we'd need to recalculate from all remaining meals)
-      const newAverageRating = newTotalMeals > 0 ? currentStats.averageRating : 0;
-
-      await ctx.db.patch(user._id, {
-        stats: {
-          ...currentStats,
-          totalMeals: newTotalMeals,
-          averageRating: newAverageRating,
-          totalSpent: newTotalSpent,
-        },
-        updatedAt: Date.now(),
-      });
-    }
+    await updateStatsForMealChange(ctx, user, meal, null);
+    await applyTagUsageChange(ctx, user._id, meal.tags, []);
+    await applyPlaceVisitChange(ctx, meal, null);
+    await invalidateAnalytics(ctx, user._id);
+    await recordSyncOperation(ctx, {
+      userId: user._id,
+      idempotencyKey: args.idempotencyKey,
+      operation: 'delete',
+      mealId: args.mealId,
+      status: 'applied',
+    });
 
     console.log(`Deleted meal ${args.mealId} for user ${user.email}`);
     
@@ -438,12 +528,23 @@ export const deleteMeal = mutation({
 });
 
 /**
- * Search meals by title and tags
+ * Search meals by title, description, location and extended details
  * 
- * Full-text search across meal titles with tag filtering.
+ * Full-text search over `searchText` with cursor pagination; pass the
+ * returned `continueCursor` back in `paginationOpts.cursor` for the next
+ * page. Without a search term the most recent meals are paged instead.
+ *
+ * The user and meal type are matched inside the search index and the
+ * rating, price, date, spice and value ranges, serving size and yes/no
+ * details are applied while the index is scanned, so pages only contain
+ * matching meals. Tags, companions and the case-insensitive cuisine, dish
+ * type and occasion matches are checked per page because index filters
+ * can only compare whole values; such a page may therefore hold fewer
+ * than `numItems` meals while more remain.
  */
 export const searchMeals = query({
   args: {
+    paginationOpts: paginationOptsValidator,
     searchTerm: v.string(),
     mealType: v.optional(v.union(
       v.literal('breakfast'),
@@ -452,45 +553,135 @@ export const searchMeals = query({
       v.literal('snack'),
     )),
     tags: v.optional(v.array(v.string())),
-    limit: v.optional(v.number()),
+    minRating: v.optional(v.number()),
+    maxRating: v.optional(v.number()),
+    minPrice: v.optional(v.number()),
+    maxPrice: v.optional(v.number()),
+    startDate: v.optional(v.number()), // timestamp, inclusive
+    endDate: v.optional(v.number()), // timestamp, inclusive
+    cuisine: v.optional(v.string()),
+    dishType: v.optional(v.string()),
+    occasion: v.optional(v.string()),
+    companion: v.optional(v.string()),
+    servingSize: v.optional(servingSizeValidator),
+    minSpiceLevel: v.optional(v.number()),
+    maxSpiceLevel: v.optional(v.number()),
+    minValueForMoney: v.optional(v.number()),
+    isRecommended: v.optional(v.boolean()),
+    wouldOrderAgain: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
-    const identity = await requireAuth(ctx);
-
     // Get user from database
-    const user = await ctx.db
-      .query('users')
-      .withIndex('by_clerk_id', (q) => q.eq('clerkId', identity.subject))
-      .first();
+    const user = await requireUser(ctx);
+    const searchTerm = args.searchTerm.trim();
+    const mealType = args.mealType;
 
-    if (!user) {
-      throw new Error('User not found');
+    // Use the search index for full-text search, or recent meals without a term
+    const mealsQuery = searchTerm
+      ? ctx.db
+        .query('meals')
+        .withSearchIndex('search_meals', (q) => {
+          const byUser = q.search('searchText', searchTerm).eq('userId', user._id);
+          return mealType ? byUser.eq('mealType', mealType) : byUser;
+        })
+      : ctx.db
+        .query('meals')
+        .withIndex('by_user_date', (q) => {
+          const byUser = q.eq('userId', user._id);
+          const fromStart = args.startDate !== undefined
+            ? byUser.gte('mealDate', args.startDate)
+            : byUser;
+          return args.endDate !== undefined
+            ? fromStart.lte('mealDate', args.endDate)
+            : fromStart;
+        })
+        .order('desc')
+        .filter((q) => (mealType ? q.eq(q.field('mealType'), mealType) : true));
+
+    // Range filters applied during the scan
+    const results = await mealsQuery
+      .filter((q) => q.and(
+        args.minRating !== undefined ? q.gte(q.field('rating'), args.minRating) : true,
+        args.maxRating !== undefined ? q.lte(q.field('rating'), args.maxRating) : true,
+        args.minPrice !== undefined ? q.gte(q.field('price'), args.minPrice) : true,
+        // Meals without a price compare below every number
+        args.maxPrice !== undefined
+          ? q.and(q.neq(q.field('price'), undefined), q.lte(q.field('price'), args.maxPrice))
+          : true,
+        args.startDate !== undefined ? q.gte(q.field('mealDate'), args.startDate) : true,
+        args.endDate !== undefined ? q.lte(q.field('mealDate'), args.endDate) : true,
+        args.servingSize !== undefined ? q.eq(q.field('servingSize'), args.servingSize) : true,
+        args.minSpiceLevel !== undefined ? q.gte(q.field('spiceLevel'), args.minSpiceLevel) : true,
+        args.maxSpiceLevel !== undefined
+          ? q.and(q.neq(q.field('spiceLevel'), undefined), q.lte(q.field('spiceLevel'), args.maxSpiceLevel))
+          : true,
+        args.minValueForMoney !== undefined ? q.gte(q.field('valueForMoney'), args.minValueForMoney) : true,
+        args.isRecommended !== undefined ? q.eq(q.field('isRecommended'), args.isRecommended) : true,
+        args.wouldOrderAgain !== undefined ? q.eq(q.field('wouldOrderAgain'), args.wouldOrderAgain) : true,
+      ))
+      .paginate(args.paginationOpts);
+
+    // Tag and companion membership and case-insensitive text matches
+    // cannot be expressed as index filters
+    const tags = args.tags?.map(tag => tag.trim().toLowerCase()) ?? [];
+    const textMatches = ([
+      ['cuisine', args.cuisine],
+      ['dishType', args.dishType],
+      ['occasion', args.occasion],
+    ] as const)
+      .map(([field, value]) => [field, value?.trim().toLowerCase()] as const)
+      .filter(([, value]) => value);
+    const companion = args.companion?.trim().toLowerCase();
+
+    if (tags.length === 0 && textMatches.length === 0 && !companion) {
+      return results;
     }
 
-    // Use search index for full-text search
-    const searchResults = await ctx.db
-      .query('meals')
-      .withSearchIndex('search_meals', (q) =>
-        q.search('title', args.searchTerm)
-         .eq('userId', user._id)
-      )
-      .take(args.limit || 20);
-
-    // Apply additional filters
-    let filteredResults = searchResults;
+    return {
+      ...results,
+      page: results.page.filter(meal =>
+        (tags.length === 0 || tags.some(tag => meal.tags.includes(tag))) &&
+        textMatches.every(([field, value]) => meal[field]?.toLowerCase() === value) &&
+        (!companion || (meal.companions ?? []).some(name => name.toLowerCase() === companion)),
+      ),
+    };
+  },
+});
 
-    if (args.mealType) {
-      filteredResults = filteredResults.filter(meal => meal.mealType === args.mealType);
+/**
+ * Fill in `searchText` for meals written before it existed
+ *
+ * Processes one batch per run and schedules the next until every meal has
+ * been visited:
+ *
+ *   npx convex run functions/meals:backfillSearchText
+ */
+export const backfillSearchText = internalMutation({
+  args: {
+    batchSize: v.optional(v.number()),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const batch = await ctx.db
+      .query('meals')
+      .paginate({ numItems: args.batchSize ?? 100, cursor: args.cursor ?? null });
+
+    let updated = 0;
+    for (const meal of batch.page) {
+      const searchText = buildMealSearchText(meal);
+      if (meal.searchText !== searchText) {
+        await ctx.db.patch(meal._id, { searchText });
+        updated++;
+      }
     }
 
-    if (args.tags && args.tags.length > 0) {
-      filteredResults = filteredResults.filter(meal =>
-        args.tags!.some(tag => meal.tags.includes(tag.toLowerCase()))
-      );
+    if (!batch.isDone) {
+      await ctx.scheduler.runAfter(0, internal.functions.meals.backfillSearchText, {
+        batchSize: args.batchSize,
+        cursor: batch.continueCursor,
+      });
     }
 
-    console.log(`Search "${args.searchTerm}" returned ${filteredResults.length} results for user ${user.email}`);
-    
-    return filteredResults;
+    return { updated, isDone: batch.isDone };
   },
-});
\ No newline at end of file
+});
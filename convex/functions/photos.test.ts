@@ -0,0 +1,207 @@
+/**
+ * Meal Photo Function Tests
+ *
+ * Exercises the photo pipeline against convex-test file storage: tier
+ * limits, server-side file verification, ordering and primary selection.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { api } from '../_generated/api';
+import { setupUsers } from '../test.helpers';
+import { ENTITLEMENTS } from '../lib/entitlements';
+
+/**
+ * Provision alice with one meal, optionally on the premium tier, and bob
+ */
+async function setup(tier: 'free' | 'premium' = 'free') {
+  const { t, alice, bob } = await setupUsers(tier);
+  const mealId = await alice.mutation(api.functions.meals.createMeal, {
+    title: 'Sushi platter',
+    rating: 9,
+    mealType: 'dinner',
+    tags: [],
+  });
+
+  /**
+   * Store a file directly in storage, as the upload URL would
+   */
+  const store = (size: number, type = 'image/jpeg') =>
+    t.run(async (ctx) => await ctx.storage.store(new Blob([new Uint8Array(size)], { type })));
+
+  /**
+   * Store and attach a photo to the meal
+   */
+  const attach = async (filename: string) => {
+    const storageId = await store(1024);
+    return await alice.mutation(api.functions.photos.attachPhoto, {
+      mealId,
+      storageId,
+      filename,
+      mimeType: 'image/jpeg',
+    });
+  };
+
+  return { t, alice, bob, mealId, store, attach };
+}
+
+describe('photo upload limits', () => {
+  it('issues an upload URL for an allowed photo', async () => {
+    const { alice, mealId } = await setup();
+
+    const url = await alice.mutation(api.functions.photos.generateUploadUrl, {
+      mealId,
+      size: 1024,
+      mimeType: 'image/jpeg',
+    });
+
+    expect(typeof url).toBe('string');
+  });
+
+  it('rejects files over the free tier size cap before upload', async () => {
+    const { alice, mealId } = await setup();
+
+    await expect(alice.mutation(api.functions.photos.generateUploadUrl, {
+      mealId,
+      size: ENTITLEMENTS.free.maxPhotoSize + 1,
+      mimeType: 'image/jpeg',
+    })).rejects.toThrow('PHOTO_SIZE_LIMIT');
+  });
+
+  it('rejects non-image uploads', async () => {
+    const { alice, mealId } = await setup();
+
+    await expect(alice.mutation(api.functions.photos.generateUploadUrl, {
+      mealId,
+      size: 1024,
+      mimeType: 'application/pdf',
+    })).rejects.toThrow('JPEG, PNG, WebP or HEIC');
+  });
+
+  it('limits free users to one photo per meal', async () => {
+    const { alice, mealId, attach } = await setup();
+
+    await attach('first.jpg');
+
+    await expect(attach('second.jpg')).rejects.toThrow('Free tier limited to 1 photo');
+    expect((await alice.query(api.functions.photos.getMealPhotos, { mealId }))).toHaveLength(1);
+  });
+
+  it('allows premium users up to five photos per meal', async () => {
+    const { attach } = await setup('premium');
+
+    for (let index = 0; index < ENTITLEMENTS.premium.maxPhotosPerMeal; index++) {
+      await attach(`photo-${index}.jpg`);
+    }
+
+    await expect(attach('extra.jpg')).rejects.toThrow('at most 5 photos');
+  });
+
+  it('verifies the stored size of the uploaded file', async () => {
+    const { alice, mealId, store } = await setup();
+    const storageId = await store(ENTITLEMENTS.free.maxPhotoSize + 1);
+
+    await expect(alice.mutation(api.functions.photos.attachPhoto, {
+      mealId,
+      storageId,
+      filename: 'huge.jpg',
+      mimeType: 'image/jpeg',
+    })).rejects.toThrow('5MB');
+
+    expect(await alice.query(api.functions.photos.getMealPhotos, { mealId })).toHaveLength(0);
+  });
+
+  it('does not let other users attach photos to a meal', async () => {
+    const { bob, mealId, store } = await setup();
+    const storageId = await store(1024);
+
+    await expect(bob.mutation(api.functions.photos.attachPhoto, {
+      mealId,
+      storageId,
+      filename: 'sneaky.jpg',
+      mimeType: 'image/jpeg',
+    })).rejects.toThrow('Access denied');
+  });
+
+  it('attaches an uploaded file only once', async () => {
+    const { alice, mealId, store } = await setup('premium');
+    const otherMealId = await alice.mutation(api.functions.meals.createMeal, {
+      title: 'Miso soup',
+      rating: 7,
+      mealType: 'lunch',
+      tags: [],
+    });
+    const storageId = await store(1024);
+    const photo = { storageId, filename: 'sushi.jpg', mimeType: 'image/jpeg' };
+
+    await alice.mutation(api.functions.photos.attachPhoto, { mealId, ...photo });
+
+    await expect(alice.mutation(api.functions.photos.attachPhoto, { mealId, ...photo }))
+      .rejects.toThrow('already attached');
+    await expect(alice.mutation(api.functions.photos.attachPhoto, { mealId: otherMealId, ...photo }))
+      .rejects.toThrow('already attached');
+    expect(await alice.query(api.functions.photos.getMealPhotos, { mealId })).toHaveLength(1);
+    expect(await alice.query(api.functions.photos.getMealPhotos, { mealId: otherMealId })).toHaveLength(0);
+  });
+});
+
+describe('photo management', () => {
+  it('mirrors attached photos onto the meal with the first as primary', async () => {
+    const { alice, mealId, attach } = await setup('premium');
+
+    await attach('a.jpg');
+    await attach('b.jpg');
+
+    const meal = await alice.query(api.functions.meals.getMeal, { mealId });
+    expect(meal.photos.map(photo => photo.isPrimary)).toEqual([true, false]);
+    expect(meal.photos.every(photo => typeof photo.url === 'string')).toBe(true);
+  });
+
+  it('reorders photos and rejects incomplete orderings', async () => {
+    const { alice, mealId, attach } = await setup('premium');
+    const first = await attach('a.jpg');
+    const second = await attach('b.jpg');
+    const third = await attach('c.jpg');
+
+    await alice.mutation(api.functions.photos.reorderPhotos, {
+      mealId,
+      photoIds: [third, first, second],
+    });
+
+    const photos = await alice.query(api.functions.photos.getMealPhotos, { mealId });
+    expect(photos.map(photo => photo.filename)).toEqual(['c.jpg', 'a.jpg', 'b.jpg']);
+
+    await expect(alice.mutation(api.functions.photos.reorderPhotos, {
+      mealId,
+      photoIds: [third, first],
+    })).rejects.toThrow('exactly once');
+  });
+
+  it('sets a single primary photo', async () => {
+    const { alice, mealId, attach } = await setup('premium');
+    await attach('a.jpg');
+    const second = await attach('b.jpg');
+
+    await alice.mutation(api.functions.photos.setPrimaryPhoto, { photoId: second });
+
+    const photos = await alice.query(api.functions.photos.getMealPhotos, { mealId });
+    expect(photos.map(photo => photo.isPrimary)).toEqual([false, true]);
+  });
+
+  it('deletes a photo from storage and promotes the next primary', async () => {
+    const { t, alice, mealId, attach } = await setup('premium');
+    const first = await attach('a.jpg');
+    await attach('b.jpg');
+    const storageId = (await alice.query(api.functions.photos.getMealPhotos, { mealId }))[0].storageId;
+
+    await alice.mutation(api.functions.photos.deletePhoto, { photoId: first });
+
+    const photos = await alice.query(api.functions.photos.getMealPhotos, { mealId });
+    expect(photos.map(photo => [photo.filename, photo.order, photo.isPrimary])).toEqual([
+      ['b.jpg', 0, true],
+    ]);
+    expect(await t.run(async (ctx) => await ctx.storage.getUrl(storageId))).toBeNull();
+
+    const meal = await alice.query(api.functions.meals.getMeal, { mealId });
+    expect(meal.photos).toHaveLength(1);
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Meal Photo Functions
+ *
+ * Photo upload pipeline for meals using Convex file storage.
+ * Each photo is stored as a `mealPhotos` row (metadata, order, primary flag)
+ * and mirrored into `meals.photos` so meal lists can render without an
+ * extra lookup.
+ *
+ * Upload flow:
+ * 1. `generateUploadUrl` checks limits and returns a short-lived upload URL
+ * 2. The client POSTs the file to that URL and receives a storage ID
+ * 3. `attachPhoto` verifies the stored file and links it to the meal
+ *
+ * Key Features:
+ * - Freemium photo limits and storage quota from `lib/entitlements.ts`
+ * - Per-user storage usage kept in step with uploads and deletes
+ * - Server-side verification of the uploaded file's size and type
+ * - Reordering, primary photo selection and deletion
+ */
+
+import { mutation, query, type MutationCtx, type QueryCtx } from '../_generated/server';
+import { v } from 'convex/values';
+import type { Doc, Id } from '../_generated/dataModel';
+import { requireUser } from '../lib/auth';
+import { throwValidationIssue, validatePhotoUpload } from '../lib/validation';
+import { getEffectiveTier } from '../lib/subscription';
+import { assertEntitled, checkStorageQuota } from '../lib/entitlements';
+import { applyStorageUsageChange, getStorageUsed } from '../lib/storage';
+
+/**
+ * Load a meal and check that the user owns it
+ */
+async function getOwnedMeal(ctx: QueryCtx, user: Doc<'users'>, mealId: Id<'meals'>) {
+  const meal = await ctx.db.get(mealId);
+
+  if (!meal) {
+    throw new Error('Meal not found');
+  }
+
+  if (meal.userId !== user._id) {
+    throw new Error('Access denied: You can only manage photos on your own meals');
+  }
+
+  return meal;
+}
+
+/**
+ * Load a photo and check that the user owns it
+ */
+async function getOwnedPhoto(ctx: QueryCtx, user: Doc<'users'>, photoId: Id<'mealPhotos'>) {
+  const photo = await ctx.db.get(photoId);
+
+  if (!photo) {
+    throw new Error('Photo not found');
+  }
+
+  if (photo.userId !== user._id) {
+    throw new Error('Access denied: You can only manage your own photos');
+  }
+
+  return photo;
+}
+
+/**
+ * Get a meal's photos in display order
+ */
+async function getOrderedPhotos(ctx: QueryCtx, mealId: Id<'meals'>) {
+  return await ctx.db
+    .query('mealPhotos')
+    .withIndex('by_meal_order', (q) => q.eq('mealId', mealId))
+    .order('asc')
+    .collect();
+}
+
+/**
+ * Rebuild `meals.photos` from the meal's `mealPhotos` rows
+ */
+async function syncMealPhotos(ctx: MutationCtx, mealId: Id<'meals'>) {
+  const photos = await getOrderedPhotos(ctx, mealId);
+
+  await ctx.db.patch(mealId, {
+    photos: await Promise.all(photos.map(async (photo) => ({
+      storageId: photo.storageId,
+      url: (await ctx.storage.getUrl(photo.storageId)) ?? undefined,
+      caption: photo.caption,
+      isPrimary: photo.isPrimary,
+    }))),
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Get photos for a meal
+ *
+ * Returns photos in display order with their current storage URLs.
+ */
+export const getMealPhotos = query({
+  args: {
+    mealId: v.id('meals'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    await getOwnedMeal(ctx, user, args.mealId);
+
+    const photos = await getOrderedPhotos(ctx, args.mealId);
+
+    return await Promise.all(photos.map(async (photo) => ({
+      ...photo,
+      url: await ctx.storage.getUrl(photo.storageId),
+    })));
+  },
+});
+
+/**
+ * Generate an upload URL for a meal photo
+ *
+ * Checks the declared file against the user's photo limits and storage
+ * quota before handing out a URL. The stored file is verified again in
+ * `attachPhoto`.
+ */
+export const generateUploadUrl = mutation({
+  args: {
+    mealId: v.id('meals'),
+    size: v.number(), // bytes
+    mimeType: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    await getOwnedMeal(ctx, user, args.mealId);
+
+    const tier = getEffectiveTier(user);
+    const existingPhotos = await getOrderedPhotos(ctx, args.mealId);
+    const issue = validatePhotoUpload(
+      { size: args.size, mimeType: args.mimeType, existingPhotoCount: existingPhotos.length },
+      { tier },
+    );
+
+    if (issue) {
+      throwValidationIssue(issue);
+    }
+    assertEntitled(checkStorageQuota(tier, await getStorageUsed(ctx, user), args.size));
+
+    return await ctx.storage.generateUploadUrl();
+  },
+});
+
+/**
+ * Attach an uploaded file to a meal
+ *
+ * Verifies the stored file's real size and content type against the photo
+ * limits and storage quota, then records it as the meal's next photo and
+ * adds it to the user's storage usage. The first photo becomes the primary photo.
+ * Each uploaded file can be attached once.
+ * A rejected file stays in storage unreferenced, since a failed mutation
+ * rolls back any cleanup it attempts.
+ */
+export const attachPhoto = mutation({
+  args: {
+    mealId: v.id('meals'),
+    storageId: v.id('_storage'),
+    filename: v.string(),
+    mimeType: v.string(), // used when storage did not record a content type
+    width: v.optional(v.number()),
+    height: v.optional(v.number()),
+    caption: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    await getOwnedMeal(ctx, user, args.mealId);
+
+    const file = await ctx.db.system.get(args.storageId);
+
+    if (!file) {
+      throw new Error('Uploaded file not found');
+    }
+
+    // A file belongs to one photo: a second link would charge its size twice
+    // and delete it from under the other photo
+    const linkedPhoto = await ctx.db
+      .query('mealPhotos')
+      .withIndex('by_storage', (q) => q.eq('storageId', args.storageId))
+      .first();
+
+    if (linkedPhoto) {
+      throw new Error('This file is already attached to a photo');
+    }
+
+    const tier = getEffectiveTier(user);
+    const existingPhotos = await getOrderedPhotos(ctx, args.mealId);
+    const mimeType = file.contentType ?? args.mimeType;
+    const issue = validatePhotoUpload(
+      { size: file.size, mimeType, existingPhotoCount: existingPhotos.length },
+      { tier },
+    );
+
+    if (issue) {
+      throwValidationIssue(issue);
+    }
+    assertEntitled(checkStorageQuota(tier, await getStorageUsed(ctx, user), file.size));
+
+    const now = Date.now();
+    const photoId = await ctx.db.insert('mealPhotos', {
+      mealId: args.mealId,
+      userId: user._id,
+      storageId: args.storageId,
+      filename: args.filename,
+      mimeType,
+      size: file.size,
+      width: args.width,
+      height: args.height,
+      caption: args.caption?.trim() || undefined,
+      isPrimary: existingPhotos.length === 0,
+      order: existingPhotos.length,
+      processingStatus: 'ready',
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await applyStorageUsageChange(ctx, user, file.size);
+    await syncMealPhotos(ctx, args.mealId);
+
+    return photoId;
+  },
+});
+
+/**
+ * Reorder a meal's photos
+ *
+ * `photoIds` must list every photo on the meal exactly once, in the new
+ * display order.
+ */
+export const reorderPhotos = mutation({
+  args: {
+    mealId: v.id('meals'),
+    photoIds: v.array(v.id('mealPhotos')),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    await getOwnedMeal(ctx, user, args.mealId);
+
+    const photos = await getOrderedPhotos(ctx, args.mealId);
+    const currentIds = new Set(photos.map(photo => photo._id));
+    const requestedIds = new Set(args.photoIds);
+
+    if (
+      requestedIds.size !== args.photoIds.length ||
+      requestedIds.size !== currentIds.size ||
+      args.photoIds.some(photoId => !currentIds.has(photoId))
+    ) {
+      throw new Error('Photo order must include each of the meal\'s photos exactly once');
+    }
+
+    const now = Date.now();
+    for (const [order, photoId] of args.photoIds.entries()) {
+      await ctx.db.patch(photoId, { order, updatedAt: now });
+    }
+
+    await syncMealPhotos(ctx, args.mealId);
+  },
+});
+
+/**
+ * Set a meal's primary photo
+ *
+ * The primary photo is shown on meal cards and lists.
+ */
+export const setPrimaryPhoto = mutation({
+  args: {
+    photoId: v.id('mealPhotos'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const photo = await getOwnedPhoto(ctx, user, args.photoId);
+
+    const now = Date.now();
+    const photos = await getOrderedPhotos(ctx, photo.mealId);
+    for (const other of photos) {
+      const isPrimary = other._id === photo._id;
+      if (other.isPrimary !== isPrimary) {
+        await ctx.db.patch(other._id, { isPrimary, updatedAt: now });
+      }
+    }
+
+    await syncMealPhotos(ctx, photo.mealId);
+  },
+});
+
+/**
+ * Delete a photo
+ *
+ * Removes the file from storage and the user's storage usage, closes the
+ * gap in the display order and promotes the first remaining photo if the
+ * primary photo was deleted.
+ */
+export const deletePhoto = mutation({
+  args: {
+    photoId: v.id('mealPhotos'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const photo = await getOwnedPhoto(ctx, user, args.photoId);
+
+    await ctx.storage.delete(photo.storageId);
+    await ctx.db.delete(photo._id);
+    await applyStorageUsageChange(ctx, user, -photo.size);
+
+    const now = Date.now();
+    const remaining = await getOrderedPhotos(ctx, photo.mealId);
+    for (const [order, other] of remaining.entries()) {
+      const isPrimary = photo.isPrimary ? order === 0 : other.isPrimary;
+      if (other.order !== order || other.isPrimary !== isPrimary) {
+        await ctx.db.patch(other._id, { order, isPrimary, updatedAt: now });
+      }
+    }
+
+    await syncMealPhotos(ctx, photo.mealId);
+  },
+});
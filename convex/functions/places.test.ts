@@ -0,0 +1,192 @@
+/**
+ * Place Function Tests
+ *
+ * Covers matching meal locations to places, visit statistics across meal
+ * writes, personal data on places and per-user scoping.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { api, internal } from '../_generated/api';
+import { setupUsers } from '../test.helpers';
+
+const baseMeal = {
+  title: 'Margherita pizza',
+  rating: 8,
+  mealType: 'dinner' as const,
+  tags: [],
+};
+
+// Two branches of the same chain, about 2km apart
+const soho = { lat: 40.7233, lng: -74.0030 };
+const chelsea = { lat: 40.7465, lng: -74.0014 };
+
+describe('place matching', () => {
+  it('links repeat visits to one place by normalized name', async () => {
+    const { alice } = await setupUsers();
+
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, location: { name: "Joe's Pizza" } });
+    await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      rating: 6,
+      price: 4.5,
+      location: { name: '  joes pizza', address: '7 Carmine St' },
+    });
+
+    const places = await alice.query(api.functions.places.getMyPlaces, {});
+    expect(places).toHaveLength(1);
+    expect(places[0]).toMatchObject({
+      name: "Joe's Pizza",
+      address: '7 Carmine St',
+      visitCount: 2,
+      averageRating: 7,
+      totalSpent: 4.5,
+    });
+  });
+
+  it('matches by Google Places ID before the name', async () => {
+    const { alice } = await setupUsers();
+
+    await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      location: { name: 'Katz Delicatessen', placeId: 'ChIJkatz' },
+    });
+    await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      location: { name: "Katz's Deli", placeId: 'ChIJkatz' },
+    });
+
+    expect(await alice.query(api.functions.places.getMyPlaces, {})).toHaveLength(1);
+  });
+
+  it('keeps same-name places far apart separate', async () => {
+    const { alice } = await setupUsers();
+
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, location: { name: 'Shake Shack', coordinates: soho } });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, location: { name: 'Shake Shack', coordinates: chelsea } });
+    await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      location: { name: 'Shake Shack', coordinates: { lat: soho.lat + 0.0005, lng: soho.lng } },
+    });
+
+    const places = await alice.query(api.functions.places.getMyPlaces, {});
+    expect(places.map(place => place.visitCount)).toEqual([2, 1]);
+  });
+
+  it('scopes places to their user', async () => {
+    const { alice, bob } = await setupUsers();
+
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, location: { name: 'Lucali' } });
+    await bob.mutation(api.functions.meals.createMeal, { ...baseMeal, location: { name: 'Lucali' } });
+
+    const [place] = await alice.query(api.functions.places.getMyPlaces, {});
+    expect(place.visitCount).toBe(1);
+    await expect(bob.query(api.functions.places.getPlace, { placeId: place._id }))
+      .rejects.toThrow('Access denied');
+  });
+});
+
+describe('place statistics', () => {
+  it('follows meal edits, moves and deletes', async () => {
+    const { alice } = await setupUsers();
+    const first = await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      price: 20,
+      mealDate: Date.UTC(2025, 0, 1),
+      location: { name: 'Lucali' },
+    });
+    const second = await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      rating: 10,
+      mealDate: Date.UTC(2025, 0, 5),
+      location: { name: 'Lucali' },
+    });
+
+    await alice.mutation(api.functions.meals.updateMeal, { mealId: first, rating: 6, price: 10 });
+    let [place] = await alice.query(api.functions.places.getMyPlaces, {});
+    expect(place).toMatchObject({ visitCount: 2, averageRating: 8, totalSpent: 10, lastVisitAt: Date.UTC(2025, 0, 5) });
+
+    await alice.mutation(api.functions.meals.updateMeal, { mealId: second, location: { name: 'Di Fara' } });
+    [place] = (await alice.query(api.functions.places.getMyPlaces, {})).filter(candidate => candidate.name === 'Lucali');
+    expect(place).toMatchObject({ visitCount: 1, lastVisitAt: Date.UTC(2025, 0, 1) });
+
+    await alice.mutation(api.functions.meals.deleteMeal, { mealId: first });
+    const names = (await alice.query(api.functions.places.getMyPlaces, {})).map(candidate => candidate.name);
+    expect(names).toEqual(['Di Fara']);
+  });
+
+  it('keeps a favorite place after its last meal is deleted', async () => {
+    const { alice } = await setupUsers();
+    const mealId = await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, location: { name: 'Lucali' } });
+    const [place] = await alice.query(api.functions.places.getMyPlaces, {});
+
+    await alice.mutation(api.functions.places.updatePlace, { placeId: place._id, isFavorite: true, notes: ' Go early ' });
+    await alice.mutation(api.functions.meals.deleteMeal, { mealId });
+
+    const favorites = await alice.query(api.functions.places.getMyPlaces, { favoritesOnly: true });
+    expect(favorites).toEqual([
+      expect.objectContaining({ name: 'Lucali', visitCount: 0, notes: 'Go early', isFavorite: true }),
+    ]);
+
+    await alice.mutation(api.functions.places.updatePlace, { placeId: place._id, isFavorite: false, notes: '' });
+    expect(await alice.query(api.functions.places.getMyPlaces, {})).toEqual([]);
+  });
+
+  it('sorts places and lists their meals newest first', async () => {
+    const { alice } = await setupUsers();
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, rating: 9, mealDate: Date.UTC(2025, 0, 1), location: { name: 'Lucali' } });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, rating: 5, mealDate: Date.UTC(2025, 0, 3), location: { name: 'Di Fara' } });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, title: 'Later', rating: 5, mealDate: Date.UTC(2025, 0, 2), location: { name: 'Di Fara' } });
+
+    const byRating = await alice.query(api.functions.places.getMyPlaces, { sortBy: 'rating' });
+    const byVisits = await alice.query(api.functions.places.getMyPlaces, {});
+    expect(byRating.map(place => place.name)).toEqual(['Lucali', 'Di Fara']);
+    expect(byVisits.map(place => place.name)).toEqual(['Di Fara', 'Lucali']);
+
+    const { meals } = await alice.query(api.functions.places.getPlace, { placeId: byVisits[0]._id });
+    expect(meals.map(meal => meal.mealDate)).toEqual([Date.UTC(2025, 0, 3), Date.UTC(2025, 0, 2)]);
+  });
+
+  it('backfills places for older meals', async () => {
+    vi.useFakeTimers();
+    const { t, alice } = await setupUsers();
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, location: { name: 'Lucali' } });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, location: { name: 'Lucali' } });
+    await t.run(async (ctx) => {
+      for (const meal of await ctx.db.query('meals').collect()) {
+        await ctx.db.patch(meal._id, { placeId: undefined });
+      }
+      for (const place of await ctx.db.query('places').collect()) {
+        await ctx.db.delete(place._id);
+      }
+    });
+
+    await t.mutation(internal.functions.places.backfillPlaces, { batchSize: 1 });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const places = await alice.query(api.functions.places.getMyPlaces, {});
+    expect(places).toEqual([expect.objectContaining({ name: 'Lucali', visitCount: 2 })]);
+    vi.useRealTimers();
+  });
+});
+
+describe('nearby places', () => {
+  it('lists visited places within the radius, nearest first', async () => {
+    const { alice, bob } = await setupUsers();
+    // About 60m and 2km from the Soho branch
+    const nearSoho = { lat: 40.7238, lng: -74.0030 };
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, location: { name: 'Soho Pizza', coordinates: soho } });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, location: { name: 'Corner Cafe', coordinates: nearSoho } });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, location: { name: 'Chelsea Pizza', coordinates: chelsea } });
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, location: { name: 'No coordinates' } });
+
+    const nearby = await alice.query(api.functions.places.getNearbyPlaces, { ...soho });
+    expect(nearby.map(place => place.name)).toEqual(['Soho Pizza', 'Corner Cafe']);
+    expect(nearby[0].distanceMeters).toBe(0);
+    expect(nearby[1].distanceMeters).toBeGreaterThan(50);
+
+    const wider = await alice.query(api.functions.places.getNearbyPlaces, { ...soho, radiusMeters: 5000 });
+    expect(wider.map(place => place.name)).toEqual(['Soho Pizza', 'Corner Cafe', 'Chelsea Pizza']);
+
+    expect(await bob.query(api.functions.places.getNearbyPlaces, soho)).toEqual([]);
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Place Functions
+ *
+ * The user's places in `places`: the "My Places" list, a place with its
+ * meals, and personal notes and favorites. Meals are linked to places
+ * and visit statistics are maintained by the meal mutations (see
+ * `lib/places.ts`).
+ *
+ * Key Features:
+ * - Places ordered by visits, most recent visit or average rating
+ * - Favorites filter
+ * - Visited places near a position, for location suggestions
+ * - Personal notes and favorite flag per place
+ * - Backfill linking meals written before places existed
+ */
+
+import { internalMutation, mutation, query, type QueryCtx } from '../_generated/server';
+import { internal } from '../_generated/api';
+import { v } from 'convex/values';
+import type { Doc, Id } from '../_generated/dataModel';
+import { requireUser } from '../lib/auth';
+import {
+  NEARBY_PLACES_RADIUS_METERS,
+  applyPlaceVisitChange,
+  getDistanceInMeters,
+  getPlaceAverageRating,
+  resolvePlace,
+} from '../lib/places';
+import { validatePlaceNotes } from '../lib/validation';
+
+const PLACE_MEALS_LIMIT = 20;
+const NEARBY_PLACES_LIMIT = 5;
+
+/**
+ * A place with its derived average rating
+ */
+function toPlaceSummary(place: Doc<'places'>) {
+  return { ...place, averageRating: getPlaceAverageRating(place) };
+}
+
+/**
+ * Get a place owned by the user, or throw
+ */
+async function getOwnedPlace(ctx: QueryCtx, user: Doc<'users'>, placeId: Id<'places'>) {
+  const place = await ctx.db.get(placeId);
+
+  if (!place) {
+    throw new Error('Place not found');
+  }
+  if (place.userId !== user._id) {
+    throw new Error('Access denied: You can only view your own places');
+  }
+
+  return place;
+}
+
+/**
+ * List the user's places
+ *
+ * Sorted by visit count (default), most recent visit or average rating;
+ * ties go to the alphabetically first name.
+ */
+export const getMyPlaces = query({
+  args: {
+    sortBy: v.optional(v.union(v.literal('visits'), v.literal('recent'), v.literal('rating'))),
+    favoritesOnly: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+
+    const places = await ctx.db
+      .query('places')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .collect();
+
+    const sortValue = (place: ReturnType<typeof toPlaceSummary>) => {
+      switch (args.sortBy) {
+        case 'recent':
+          return place.lastVisitAt ?? 0;
+        case 'rating':
+          return place.averageRating;
+        default:
+          return place.visitCount;
+      }
+    };
+
+    return places
+      .filter(place => !args.favoritesOnly || place.isFavorite)
+      .map(toPlaceSummary)
+      .sort((a, b) => sortValue(b) - sortValue(a) || a.name.localeCompare(b.name));
+  },
+});
+
+/**
+ * Get a place with its most recent meals
+ */
+export const getPlace = query({
+  args: {
+    placeId: v.id('places'),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const place = await getOwnedPlace(ctx, user, args.placeId);
+
+    const meals = await ctx.db
+      .query('meals')
+      .withIndex('by_place_date', (q) => q.eq('placeId', place._id))
+      .order('desc')
+      .take(PLACE_MEALS_LIMIT);
+
+    return { place: toPlaceSummary(place), meals };
+  },
+});
+
+/**
+ * List the user's places near a position, nearest first
+ *
+ * Only places with coordinates are considered. The radius defaults to
+ * NEARBY_PLACES_RADIUS_METERS.
+ */
+export const getNearbyPlaces = query({
+  args: {
+    lat: v.number(),
+    lng: v.number(),
+    radiusMeters: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const radius = args.radiusMeters ?? NEARBY_PLACES_RADIUS_METERS;
+
+    const places = await ctx.db
+      .query('places')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .collect();
+
+    return places
+      .flatMap(place => {
+        if (!place.coordinates) {
+          return [];
+        }
+        const distanceMeters = getDistanceInMeters({ lat: args.lat, lng: args.lng }, place.coordinates);
+        return distanceMeters <= radius ? [{ ...toPlaceSummary(place), distanceMeters }] : [];
+      })
+      .sort((a, b) => a.distanceMeters - b.distanceMeters)
+      .slice(0, NEARBY_PLACES_LIMIT);
+  },
+});
+
+/**
+ * Set a place's personal notes and/or favorite flag
+ *
+ * An empty string clears the notes; omitted fields are left unchanged.
+ */
+export const updatePlace = mutation({
+  args: {
+    placeId: v.id('places'),
+    notes: v.optional(v.string()),
+    isFavorite: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const place = await getOwnedPlace(ctx, user, args.placeId);
+
+    if (args.notes !== undefined) {
+      const validationError = validatePlaceNotes(args.notes);
+      if (validationError) {
+        throw new Error(validationError);
+      }
+    }
+
+    const updates: Partial<Pick<Doc<'places'>, 'notes' | 'isFavorite'>> & { updatedAt: number } = {
+      updatedAt: Date.now(),
+    };
+    if (args.notes !== undefined) {
+      updates.notes = args.notes.trim() || undefined;
+    }
+    if (args.isFavorite !== undefined) {
+      updates.isFavorite = args.isFavorite;
+    }
+
+    // A place without visits is only kept for its personal data
+    if (
+      place.visitCount === 0 &&
+      !(updates.isFavorite ?? place.isFavorite) &&
+      (args.notes !== undefined ? updates.notes : place.notes) === undefined
+    ) {
+      await ctx.db.delete(place._id);
+      return null;
+    }
+
+    await ctx.db.patch(place._id, updates);
+
+    return place._id;
+  },
+});
+
+/**
+ * Link meals written before places existed to their places
+ *
+ * Processes one batch per run and schedules the next until every meal has
+ * been visited:
+ *
+ *   npx convex run functions/places:backfillPlaces
+ */
+export const backfillPlaces = internalMutation({
+  args: {
+    batchSize: v.optional(v.number()),
+    cursor: v.optional(v.union(v.string(), v.null())),
+  },
+  handler: async (ctx, args) => {
+    const batch = await ctx.db
+      .query('meals')
+      .paginate({ numItems: args.batchSize ?? 100, cursor: args.cursor ?? null });
+
+    let linked = 0;
+    for (const meal of batch.page) {
+      if (!meal.location || meal.placeId) {
+        continue;
+      }
+
+      const placeId = await resolvePlace(ctx, meal.userId, meal.location);
+      await ctx.db.patch(meal._id, { placeId });
+      await applyPlaceVisitChange(ctx, null, { ...meal, placeId });
+      linked++;
+    }
+
+    if (!batch.isDone) {
+      await ctx.scheduler.runAfter(0, internal.functions.places.backfillPlaces, {
+        batchSize: args.batchSize,
+        cursor: batch.continueCursor,
+      });
+    }
+
+    return { linked, isDone: batch.isDone };
+  },
+});
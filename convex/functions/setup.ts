@@ -5,18 +5,36 @@
  * for development and testing purposes.
  */
 
-import { mutation, query } from '../_generated/server';
+import { mutation, query, type QueryCtx } from '../_generated/server';
+import { getOptionalIdentity } from '../lib/auth';
+
+/**
+ * Fallback Clerk ID used when no one is signed in
+ */
+const TEST_CLERK_ID = 'test-user-123';
+
+/**
+ * Resolve the Clerk ID to provision test data for
+ *
+ * Uses the signed-in identity when present so meal functions, which require
+ * a `users` row for the caller, work against the test user.
+ */
+async function getTestClerkId(ctx: QueryCtx): Promise<string> {
+  const identity = await getOptionalIdentity(ctx);
+  return identity?.subject ?? TEST_CLERK_ID;
+}
 
 /**
  * Create test user for development
  * 
- * Creates a test user that can be used for testing meal functions
- * when authentication is not fully set up.
+ * Creates a `users` row for the signed-in Clerk user (or the fallback
+ * test ID) so meal functions can be tested before user sync is set up.
  */
 export const createTestUser = mutation({
   args: {},
   handler: async (ctx) => {
-    const testClerkId = 'test-user-123';
+    const identity = await getOptionalIdentity(ctx);
+    const testClerkId = identity?.subject ?? TEST_CLERK_ID;
     
     // Check if test user already exists
     const existingUser = await ctx.db
@@ -33,10 +51,10 @@ export const createTestUser = mutation({
     const now = Date.now();
     const userId = await ctx.db.insert('users', {
       clerkId: testClerkId,
-      email: 'test@foodylog.com',
-      firstName: 'Test',
-      lastName: 'User',
-      profileImageUrl: 'https://via.placeholder.com/150',
+      email: identity?.email ?? 'test@foodylog.com',
+      firstName: identity?.givenName ?? 'Test',
+      lastName: identity?.familyName ?? 'User',
+      profileImageUrl: identity?.pictureUrl ?? 'https://via.placeholder.com/150',
 
       // Default preferences
       preferences: {
@@ -74,9 +92,10 @@ export const createTestUser = mutation({
 export const getTestUser = query({
   args: {},
   handler: async (ctx) => {
+    const testClerkId = await getTestClerkId(ctx);
     const testUser = await ctx.db
       .query('users')
-      .withIndex('by_clerk_id', (q) => q.eq('clerkId', 'test-user-123'))
+      .withIndex('by_clerk_id', (q) => q.eq('clerkId', testClerkId))
       .first();
 
     return testUser;
@@ -93,9 +112,10 @@ export const resetTestData = mutation({
   args: {},
   handler: async (ctx) => {
     // Delete all meals for test user
+    const testClerkId = await getTestClerkId(ctx);
     const testUser = await ctx.db
       .query('users')
-      .withIndex('by_clerk_id', (q) => q.eq('clerkId', 'test-user-123'))
+      .withIndex('by_clerk_id', (q) => q.eq('clerkId', testClerkId))
       .first();
 
     if (testUser) {
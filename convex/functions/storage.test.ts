@@ -0,0 +1,211 @@
+/**
+ * Storage Maintenance Tests
+ *
+ * Covers storage usage accounting and the quota, the meal delete cascade
+ * and the orphaned file collector, including dry-run reports and batched
+ * scans.
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { api, internal } from '../_generated/api';
+import { setupUsers } from '../test.helpers';
+import { ENTITLEMENTS } from '../lib/entitlements';
+
+/**
+ * Provision a premium user with one meal and helpers to store files
+ */
+async function setup() {
+  const { t, aliceId: userId, alice } = await setupUsers('premium');
+  const mealId = await alice.mutation(api.functions.meals.createMeal, {
+    title: 'Tacos',
+    rating: 8,
+    mealType: 'lunch',
+    tags: [],
+  });
+
+  const store = () =>
+    t.run(async (ctx) => await ctx.storage.store(new Blob([new Uint8Array(256)])));
+
+  const attach = async () => {
+    const storageId = await store();
+    await alice.mutation(api.functions.photos.attachPhoto, {
+      mealId,
+      storageId,
+      filename: 'tacos.jpg',
+      mimeType: 'image/jpeg',
+    });
+    return storageId;
+  };
+
+  const fileExists = async (storageId: string) =>
+    (await t.run(async (ctx) => await ctx.storage.getUrl(storageId))) !== null;
+
+  return { t, alice, userId, mealId, store, attach, fileExists };
+}
+
+describe('storage usage', () => {
+  it('adds attached photos and releases deleted ones', async () => {
+    const { t, alice, mealId, attach } = await setup();
+    await attach();
+    await attach();
+
+    expect((await alice.query(api.functions.storage.getStorageUsage, {})).used).toBe(512);
+
+    const [photo] = await t.run(async (ctx) => await ctx.db.query('mealPhotos').collect());
+    await alice.mutation(api.functions.photos.deletePhoto, { photoId: photo._id });
+    expect((await alice.query(api.functions.storage.getStorageUsage, {})).used).toBe(256);
+
+    await alice.mutation(api.functions.meals.deleteMeal, { mealId });
+    expect((await alice.query(api.functions.storage.getStorageUsage, {})).used).toBe(0);
+  });
+
+  it('breaks usage down per meal, largest first', async () => {
+    const { alice, mealId, attach, store } = await setup();
+    await attach();
+    const otherMealId = await alice.mutation(api.functions.meals.createMeal, {
+      title: 'Burrito',
+      rating: 7,
+      mealType: 'dinner',
+      tags: [],
+    });
+    for (let index = 0; index < 2; index++) {
+      await alice.mutation(api.functions.photos.attachPhoto, {
+        mealId: otherMealId,
+        storageId: await store(),
+        filename: `burrito-${index}.jpg`,
+        mimeType: 'image/jpeg',
+      });
+    }
+
+    const usage = await alice.query(api.functions.storage.getStorageUsage, {});
+
+    expect(usage.quota).toBeNull();
+    expect(usage.mealCount).toBe(2);
+    expect(usage.meals.map(meal => [meal.mealId, meal.photoCount, meal.bytes])).toEqual([
+      [otherMealId, 2, 512],
+      [mealId, 1, 256],
+    ]);
+  });
+
+  it('computes usage for users from before the counter existed', async () => {
+    const { t, alice, userId, attach } = await setup();
+    await attach();
+    await t.run(async (ctx) => await ctx.db.patch(userId, { storageUsed: undefined }));
+
+    expect((await alice.query(api.functions.storage.getStorageUsage, {})).used).toBe(256);
+
+    await attach();
+    expect(await t.run(async (ctx) => (await ctx.db.get(userId))?.storageUsed)).toBe(512);
+  });
+
+  it('rejects uploads past the free tier quota with STORAGE_QUOTA', async () => {
+    const { t, alice, userId, mealId } = await setup();
+    const quota = ENTITLEMENTS.free.storageQuota ?? 0;
+    await t.run(async (ctx) => await ctx.db.patch(userId, {
+      subscription: { tier: 'free' },
+      storageUsed: quota - 1024,
+    }));
+
+    await expect(alice.mutation(api.functions.photos.generateUploadUrl, {
+      mealId,
+      size: 2048,
+      mimeType: 'image/jpeg',
+    })).rejects.toThrow('STORAGE_QUOTA');
+    expect(await alice.mutation(api.functions.photos.generateUploadUrl, {
+      mealId,
+      size: 1024,
+      mimeType: 'image/jpeg',
+    })).toEqual(expect.any(String));
+  });
+});
+
+describe('deleteMeal photo cascade', () => {
+  it('removes mealPhotos rows and their stored files', async () => {
+    const { t, alice, mealId, attach, fileExists } = await setup();
+    const first = await attach();
+    const second = await attach();
+
+    await alice.mutation(api.functions.meals.deleteMeal, { mealId });
+
+    expect(await fileExists(first)).toBe(false);
+    expect(await fileExists(second)).toBe(false);
+    const remaining = await t.run(async (ctx) => await ctx.db.query('mealPhotos').collect());
+    expect(remaining).toHaveLength(0);
+  });
+});
+
+describe('collectOrphanedFiles', () => {
+  /**
+   * Move the clock past the creation time of everything stored so far
+   */
+  const passTime = () => {
+    vi.useFakeTimers();
+    vi.advanceTimersByTime(1000);
+  };
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reports orphans without deleting them in dry-run mode', async () => {
+    const { t, attach, store, fileExists } = await setup();
+    await attach();
+    const orphan = await store();
+    passTime();
+
+    const report = await t.mutation(internal.functions.storage.collectOrphanedFiles, {
+      dryRun: true,
+      minAgeMs: 0,
+    });
+
+    expect(report.orphans.map(file => file.storageId)).toEqual([orphan]);
+    expect(report.totals).toEqual({ scanned: 2, orphaned: 1, orphanedBytes: 256 });
+    expect(await fileExists(orphan)).toBe(true);
+  });
+
+  it('deletes unreferenced files and keeps referenced ones', async () => {
+    const { t, attach, store, fileExists } = await setup();
+    const referenced = await attach();
+    const orphan = await store();
+    passTime();
+
+    await t.mutation(internal.functions.storage.collectOrphanedFiles, { minAgeMs: 0 });
+
+    expect(await fileExists(referenced)).toBe(true);
+    expect(await fileExists(orphan)).toBe(false);
+  });
+
+  it('skips files that may still be mid-upload', async () => {
+    const { t, store, fileExists } = await setup();
+    const recent = await store();
+
+    const report = await t.mutation(internal.functions.storage.collectOrphanedFiles, {});
+
+    expect(report.orphans).toHaveLength(0);
+    expect(await fileExists(recent)).toBe(true);
+  });
+
+  it('continues across batches through the scheduler', async () => {
+    const { t, attach, store, fileExists } = await setup();
+    // Interleave so each batch of two holds one orphan and one referenced file
+    const firstOrphan = await store();
+    const firstReferenced = await attach();
+    const secondOrphan = await store();
+    const secondReferenced = await attach();
+    passTime();
+
+    const firstBatch = await t.mutation(internal.functions.storage.collectOrphanedFiles, {
+      batchSize: 2,
+      minAgeMs: 0,
+    });
+    expect(firstBatch.isDone).toBe(false);
+    expect(firstBatch.orphans.map(file => file.storageId)).toEqual([firstOrphan]);
+
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    expect(await fileExists(firstOrphan)).toBe(false);
+    expect(await fileExists(secondOrphan)).toBe(false);
+    expect(await fileExists(firstReferenced)).toBe(true);
+    expect(await fileExists(secondReferenced)).toBe(true);
+  });
+});
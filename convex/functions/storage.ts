@@ -0,0 +1,164 @@
+/**
+ * Storage Functions
+ *
+ * Photo storage usage for the Settings usage meter, and garbage collection
+ * for Convex file storage. Files are referenced by
+ * `mealPhotos` rows (mirrored into `meals.photos`); any stored file that no
+ * row references is an orphan, e.g. an upload rejected by `attachPhoto`
+ * or one whose meal was removed before photo cleanup existed.
+ *
+ * The collector walks `_storage` in batches, scheduling itself for the next
+ * batch so large stores stay within mutation limits. It runs daily from
+ * `crons.ts` and can be run by hand in dry-run mode to report orphans
+ * without deleting them:
+ *
+ *   npx convex run functions/storage:collectOrphanedFiles '{"dryRun": true}'
+ */
+
+import { internalMutation, query } from '../_generated/server';
+import { internal } from '../_generated/api';
+import { v } from 'convex/values';
+import type { Id } from '../_generated/dataModel';
+import { requireUser } from '../lib/auth';
+import { getEntitlements } from '../lib/entitlements';
+import { getEffectiveTier } from '../lib/subscription';
+
+const DEFAULT_BATCH_SIZE = 100;
+
+// Meals listed in the usage breakdown, largest first
+const USAGE_BREAKDOWN_SIZE = 50;
+
+// Files younger than this may be mid-upload (uploaded but not yet attached)
+const DEFAULT_MIN_AGE_MS = 60 * 60 * 1000;
+
+/**
+ * Get the current user's photo storage usage
+ *
+ * Returns bytes used, the tier's quota (null when unlimited) and the meals
+ * using the most storage, so users can see where to free space.
+ */
+export const getStorageUsage = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireUser(ctx);
+    const photos = await ctx.db
+      .query('mealPhotos')
+      .withIndex('by_user', (q) => q.eq('userId', user._id))
+      .collect();
+
+    const usageByMeal = new Map<Id<'meals'>, { bytes: number; photoCount: number }>();
+    for (const photo of photos) {
+      const usage = usageByMeal.get(photo.mealId) ?? { bytes: 0, photoCount: 0 };
+      usage.bytes += photo.size;
+      usage.photoCount += 1;
+      usageByMeal.set(photo.mealId, usage);
+    }
+
+    const largest = [...usageByMeal.entries()]
+      .sort(([, a], [, b]) => b.bytes - a.bytes)
+      .slice(0, USAGE_BREAKDOWN_SIZE);
+
+    const meals = [];
+    for (const [mealId, usage] of largest) {
+      const meal = await ctx.db.get(mealId);
+      if (meal) {
+        meals.push({ mealId, title: meal.title, mealDate: meal.mealDate, ...usage });
+      }
+    }
+
+    return {
+      used: user.storageUsed ?? photos.reduce((total, photo) => total + photo.size, 0),
+      quota: getEntitlements(getEffectiveTier(user)).storageQuota,
+      mealCount: usageByMeal.size,
+      meals,
+    };
+  },
+});
+
+/**
+ * Find and delete stored files that no meal photo references
+ *
+ * Processes one batch of `_storage` per run and schedules the next batch
+ * until the whole store has been scanned. Running totals are carried
+ * between batches and logged when the scan completes.
+ */
+export const collectOrphanedFiles = internalMutation({
+  args: {
+    dryRun: v.optional(v.boolean()),
+    batchSize: v.optional(v.number()),
+    minAgeMs: v.optional(v.number()),
+    cursor: v.optional(v.union(v.string(), v.null())),
+    totals: v.optional(v.object({
+      scanned: v.number(),
+      orphaned: v.number(),
+      orphanedBytes: v.number(),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const dryRun = args.dryRun ?? false;
+    const cutoff = Date.now() - (args.minAgeMs ?? DEFAULT_MIN_AGE_MS);
+
+    const batch = await ctx.db.system
+      .query('_storage')
+      .paginate({
+        numItems: args.batchSize ?? DEFAULT_BATCH_SIZE,
+        cursor: args.cursor ?? null,
+      });
+
+    const orphans = [];
+    for (const file of batch.page) {
+      if (file._creationTime > cutoff) {
+        continue;
+      }
+
+      const reference = await ctx.db
+        .query('mealPhotos')
+        .withIndex('by_storage', (q) => q.eq('storageId', file._id))
+        .first();
+
+      if (!reference) {
+        orphans.push({
+          storageId: file._id,
+          size: file.size,
+          contentType: file.contentType,
+          createdAt: file._creationTime,
+        });
+      }
+    }
+
+    if (!dryRun) {
+      for (const orphan of orphans) {
+        await ctx.storage.delete(orphan.storageId);
+      }
+    }
+
+    const totals = {
+      scanned: (args.totals?.scanned ?? 0) + batch.page.length,
+      orphaned: (args.totals?.orphaned ?? 0) + orphans.length,
+      orphanedBytes: (args.totals?.orphanedBytes ?? 0) +
+        orphans.reduce((sum, orphan) => sum + orphan.size, 0),
+    };
+
+    if (batch.isDone) {
+      console.log(
+        `${dryRun ? '[dry run] Found' : 'Deleted'} ${totals.orphaned} orphaned files ` +
+        `(${totals.orphanedBytes} bytes) out of ${totals.scanned} stored files`,
+      );
+    } else {
+      await ctx.scheduler.runAfter(0, internal.functions.storage.collectOrphanedFiles, {
+        dryRun,
+        batchSize: args.batchSize,
+        minAgeMs: args.minAgeMs,
+        cursor: batch.continueCursor,
+        totals,
+      });
+    }
+
+    return {
+      dryRun,
+      orphans,
+      totals,
+      isDone: batch.isDone,
+    };
+  },
+});
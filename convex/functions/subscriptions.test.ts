@@ -0,0 +1,225 @@
+/**
+ * Subscription Tests
+ *
+ * Replays signed Stripe fixtures against the `/stripe/webhook` route and
+ * checks the resulting tier, including expiry without a webhook.
+ */
+
+import { URL as NodeURL } from 'node:url';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { api, internal } from '../_generated/api';
+import { setupUsers, type TestConvex } from '../test.helpers';
+import { signStripePayload, STRIPE_EVENT_RETENTION_MS, type StripeEvent } from '../lib/stripe';
+import { createStripeFixtures } from '../../scripts/fixtures/stripeEvents';
+
+const secret = 'whsec_test';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function deliver(t: TestConvex, event: StripeEvent, signingSecret = secret) {
+  const payload = JSON.stringify(event);
+  return await t.fetch('/stripe/webhook', {
+    method: 'POST',
+    headers: { 'Stripe-Signature': await signStripePayload(payload, signingSecret) },
+    body: payload,
+  });
+}
+
+beforeEach(() => {
+  vi.stubEnv('STRIPE_WEBHOOK_SECRET', secret);
+  // t.fetch parses the route with URL, which the DOM test setup mocks
+  vi.stubGlobal('URL', NodeURL);
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('stripe webhook', () => {
+  it('upgrades on checkout and renews with each paid invoice', async () => {
+    const { t, alice } = await setupUsers();
+    const now = Date.now();
+    const fixtures = createStripeFixtures({ clerkId: 'user_alice', now });
+
+    const response = await deliver(t, fixtures.checkoutCompleted);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, result: 'applied' });
+    expect(await alice.query(api.functions.subscriptions.getSubscription, {})).toMatchObject({
+      tier: 'premium',
+      status: 'active',
+    });
+
+    await deliver(t, fixtures.invoicePaid);
+    await deliver(t, fixtures.invoiceRenewed);
+
+    const subscription = await alice.query(api.functions.subscriptions.getSubscription, {});
+    expect(subscription?.tier).toBe('premium');
+    expect(subscription?.expiresAt).toBe(Math.floor(now / 1000) * 1000 + 60 * DAY_MS);
+  });
+
+  it('keeps premium after a failed payment until cancellation', async () => {
+    const { t, alice } = await setupUsers();
+    const fixtures = createStripeFixtures({ clerkId: 'user_alice' });
+
+    await deliver(t, fixtures.checkoutCompleted);
+    await deliver(t, fixtures.invoicePaid);
+    await deliver(t, fixtures.paymentFailed);
+
+    expect(await alice.query(api.functions.subscriptions.getSubscription, {})).toMatchObject({
+      tier: 'premium',
+      status: 'past_due',
+    });
+
+    await deliver(t, fixtures.subscriptionDeleted);
+
+    expect(await alice.query(api.functions.subscriptions.getSubscription, {})).toMatchObject({
+      tier: 'free',
+      status: 'canceled',
+    });
+  });
+
+  it('falls back to free once the paid period ends', async () => {
+    vi.useFakeTimers();
+    const { t, alice } = await setupUsers();
+    const fixtures = createStripeFixtures({ clerkId: 'user_alice' });
+    await deliver(t, fixtures.checkoutCompleted);
+    await deliver(t, fixtures.invoicePaid);
+
+    expect((await alice.query(api.functions.subscriptions.getSubscription, {}))?.tier).toBe('premium');
+
+    vi.advanceTimersByTime(31 * DAY_MS);
+
+    expect((await alice.query(api.functions.subscriptions.getSubscription, {}))?.tier).toBe('free');
+  });
+
+  it('rejects requests with an invalid signature', async () => {
+    const { t, alice } = await setupUsers();
+    const fixtures = createStripeFixtures({ clerkId: 'user_alice' });
+
+    const response = await deliver(t, fixtures.checkoutCompleted, 'whsec_other');
+
+    expect(response.status).toBe(400);
+    expect((await alice.query(api.functions.subscriptions.getSubscription, {}))?.tier).toBe('free');
+  });
+
+  it('applies a redelivered event once', async () => {
+    const { t } = await setupUsers();
+    const fixtures = createStripeFixtures({ clerkId: 'user_alice' });
+
+    await deliver(t, fixtures.checkoutCompleted);
+    const response = await deliver(t, fixtures.checkoutCompleted);
+
+    expect(await response.json()).toEqual({ received: true, result: 'duplicate' });
+    const events = await t.run(ctx => ctx.db.query('stripeEvents').collect());
+    expect(events).toHaveLength(1);
+  });
+
+  it('ignores events older than the last one applied', async () => {
+    const { t, alice } = await setupUsers();
+    const fixtures = createStripeFixtures({ clerkId: 'user_alice' });
+
+    await deliver(t, fixtures.checkoutCompleted);
+    await deliver(t, fixtures.subscriptionDeleted);
+    const response = await deliver(t, fixtures.invoiceRenewed);
+
+    expect(await response.json()).toEqual({ received: true, result: 'stale' });
+    expect((await alice.query(api.functions.subscriptions.getSubscription, {}))?.tier).toBe('free');
+  });
+
+  it('asks Stripe to retry events for unknown customers until checkout links them', async () => {
+    const { t, alice } = await setupUsers();
+    const fixtures = createStripeFixtures({ clerkId: 'user_alice', customerId: 'cus_unknown' });
+
+    const early = await deliver(t, fixtures.invoicePaid);
+
+    expect(early.status).toBe(409);
+    expect(await early.json()).toEqual({ received: false, result: 'unknown_user' });
+    expect(await t.run(ctx => ctx.db.query('stripeEvents').collect())).toHaveLength(0);
+
+    await deliver(t, fixtures.checkoutCompleted);
+    const retried = await deliver(t, fixtures.invoicePaid);
+
+    expect(fixtures.invoicePaid.created).toBeLessThan(fixtures.checkoutCompleted.created);
+    expect(await retried.json()).toEqual({ received: true, result: 'applied' });
+    expect(await alice.query(api.functions.subscriptions.getSubscription, {})).toMatchObject({
+      tier: 'premium',
+      status: 'active',
+      expiresAt: fixtures.invoicePaid.created * 1000 + 30 * DAY_MS,
+    });
+  });
+
+  it('does not extend a canceled subscription with an older invoice', async () => {
+    const { t, alice } = await setupUsers();
+    const fixtures = createStripeFixtures({ clerkId: 'user_alice' });
+
+    await deliver(t, fixtures.checkoutCompleted);
+    await deliver(t, fixtures.subscriptionDeleted);
+    const response = await deliver(t, fixtures.invoicePaid);
+
+    expect(await response.json()).toEqual({ received: true, result: 'stale' });
+    expect((await alice.query(api.functions.subscriptions.getSubscription, {}))?.expiresAt)
+      .toBe(fixtures.subscriptionDeleted.created * 1000);
+  });
+
+  it('upgrades a returning subscriber whose previous subscription has ended', async () => {
+    vi.useFakeTimers();
+    const { t, alice } = await setupUsers();
+    const first = createStripeFixtures({ clerkId: 'user_alice', now: Date.now() });
+    await deliver(t, first.checkoutCompleted);
+    await deliver(t, first.invoicePaid);
+    await deliver(t, first.subscriptionDeleted);
+
+    vi.advanceTimersByTime(90 * DAY_MS);
+    const second = createStripeFixtures({ clerkId: 'user_alice', now: Date.now(), subscriptionId: 'sub_second' });
+    await deliver(t, second.checkoutCompleted);
+
+    const subscription = await alice.query(api.functions.subscriptions.getSubscription, {});
+    expect(subscription).toMatchObject({ tier: 'premium', status: 'active' });
+    expect(subscription?.expiresAt).toBeUndefined();
+
+    await deliver(t, second.invoicePaid);
+
+    expect(await alice.query(api.functions.subscriptions.getSubscription, {})).toMatchObject({
+      tier: 'premium',
+      expiresAt: second.invoicePaid.created * 1000 + 30 * DAY_MS,
+    });
+  });
+
+  it('keeps the period of a first invoice that arrives before checkout', async () => {
+    const { t, alice } = await setupUsers();
+    const first = createStripeFixtures({ clerkId: 'user_alice', now: Date.now() - 90 * DAY_MS });
+    await deliver(t, first.checkoutCompleted);
+    await deliver(t, first.subscriptionDeleted);
+    const second = createStripeFixtures({ clerkId: 'user_alice', subscriptionId: 'sub_second' });
+
+    await deliver(t, second.invoicePaid);
+    await deliver(t, second.checkoutCompleted);
+
+    expect(await alice.query(api.functions.subscriptions.getSubscription, {})).toMatchObject({
+      tier: 'premium',
+      expiresAt: second.invoicePaid.created * 1000 + 30 * DAY_MS,
+    });
+  });
+});
+
+describe('purgeStripeEvents', () => {
+  it('deletes only records past the retention period', async () => {
+    const { t } = await setupUsers();
+    const now = Date.now();
+    await t.run(async (ctx) => {
+      await ctx.db.insert('stripeEvents', {
+        eventId: 'evt_old',
+        type: 'invoice.paid',
+        processedAt: now - STRIPE_EVENT_RETENTION_MS - 1,
+      });
+      await ctx.db.insert('stripeEvents', { eventId: 'evt_new', type: 'invoice.paid', processedAt: now });
+    });
+
+    const result = await t.mutation(internal.functions.subscriptions.purgeStripeEvents, {});
+
+    expect(result.deleted).toBe(1);
+    const remaining = await t.run(ctx => ctx.db.query('stripeEvents').collect());
+    expect(remaining.map(event => event.eventId)).toEqual(['evt_new']);
+  });
+});
@@ -0,0 +1,223 @@
+/**
+ * Subscription Functions
+ *
+ * Keeps `users.subscription` in step with Stripe. Stripe calls the
+ * `/stripe/webhook` HTTP route (see `http.ts`) for checkout, renewal,
+ * cancellation and failed payments; each verified event is applied once
+ * and recorded in `stripeEvents`.
+ *
+ * Whether a user is premium is always derived through `getEffectiveTier`
+ * (see `lib/subscription.ts`), so a subscription whose paid period ended
+ * without a cancellation webhook still counts as free.
+ */
+
+import { httpAction, internalMutation, query } from '../_generated/server';
+import { internal } from '../_generated/api';
+import { v } from 'convex/values';
+import { getOptionalUser, getUserByClerkId } from '../lib/auth';
+import {
+  STRIPE_EVENT_RETENTION_MS,
+  toSubscriptionChange,
+  verifyStripeSignature,
+  type StripeEvent,
+} from '../lib/stripe';
+import { getEffectiveTier } from '../lib/subscription';
+import { isDeletedStripeCustomer } from '../lib/accountDeletion';
+
+/**
+ * Get the current user's subscription
+ *
+ * Returns null when signed out or not provisioned. `tier` is the
+ * effective tier, so an expired premium subscription reads as free.
+ */
+export const getSubscription = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getOptionalUser(ctx);
+
+    if (!user) {
+      return null;
+    }
+
+    return {
+      tier: getEffectiveTier(user),
+      status: user.subscription?.status,
+      expiresAt: user.subscription?.expiresAt,
+    };
+  },
+});
+
+/**
+ * Apply a subscription change from a verified Stripe event
+ *
+ * Skips events already applied (Stripe retries deliveries) and events
+ * older than the last one applied to the user (Stripe does not guarantee
+ * delivery order), except that a paid invoice still extends the paid
+ * period. Events for an unknown customer are not recorded, so they apply
+ * when Stripe retries them after checkout. Events for the customer of a
+ * deleted account have nothing left to apply to.
+ */
+export const applyStripeEvent = internalMutation({
+  args: {
+    eventId: v.string(),
+    eventType: v.string(),
+    eventCreated: v.number(),
+    stripeCustomerId: v.string(),
+    clerkId: v.optional(v.string()),
+    stripeSubscriptionId: v.optional(v.string()),
+    tier: v.optional(v.union(v.literal('free'), v.literal('premium'))),
+    status: v.optional(v.union(
+      v.literal('active'),
+      v.literal('past_due'),
+      v.literal('canceled'),
+    )),
+    expiresAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const processed = await ctx.db
+      .query('stripeEvents')
+      .withIndex('by_event_id', (q) => q.eq('eventId', args.eventId))
+      .first();
+
+    if (processed) {
+      return { result: 'duplicate' as const };
+    }
+
+    const user = args.clerkId
+      ? await getUserByClerkId(ctx, args.clerkId)
+      : await ctx.db
+        .query('users')
+        .withIndex('by_stripe_customer', (q) => q.eq('subscription.stripeCustomerId', args.stripeCustomerId))
+        .first();
+
+    if (!user) {
+      if (await isDeletedStripeCustomer(ctx, args.stripeCustomerId)) {
+        return { result: 'deleted_user' as const };
+      }
+      console.warn(`No user for Stripe customer ${args.stripeCustomerId} (${args.eventType} ${args.eventId})`);
+      return { result: 'unknown_user' as const };
+    }
+
+    await ctx.db.insert('stripeEvents', {
+      eventId: args.eventId,
+      type: args.eventType,
+      processedAt: Date.now(),
+    });
+
+    const current = user.subscription;
+    const paidUntil = args.eventType === 'invoice.paid' ? args.expiresAt : undefined;
+    if (current?.updatedAt !== undefined && args.eventCreated < current.updatedAt) {
+      // Stripe creates the first invoice before checkout completes: its
+      // paid period still counts unless the subscription was canceled since
+      const extendsPaidPeriod = paidUntil !== undefined
+        && current.status !== 'canceled'
+        && paidUntil > (current.expiresAt ?? 0);
+      if (!extendsPaidPeriod) {
+        return { result: 'stale' as const };
+      }
+
+      await ctx.db.patch(user._id, {
+        subscription: { ...current, expiresAt: paidUntil },
+        updatedAt: Date.now(),
+      });
+      return { result: 'applied' as const };
+    }
+
+    let expiresAt = args.expiresAt ?? current?.expiresAt;
+    if (paidUntil !== undefined && current?.expiresAt !== undefined) {
+      expiresAt = Math.max(paidUntil, current.expiresAt);
+    }
+    // A new checkout drops the end of a previous subscription, but keeps a
+    // period its first invoice already paid for
+    if (args.eventType === 'checkout.session.completed' && (current?.expiresAt ?? 0) <= args.eventCreated) {
+      expiresAt = undefined;
+    }
+
+    await ctx.db.patch(user._id, {
+      subscription: {
+        tier: args.tier ?? current?.tier ?? 'free',
+        expiresAt,
+        stripeCustomerId: args.stripeCustomerId,
+        stripeSubscriptionId: args.stripeSubscriptionId ?? current?.stripeSubscriptionId,
+        status: args.status ?? current?.status,
+        updatedAt: args.eventCreated,
+      },
+      updatedAt: Date.now(),
+    });
+
+    return { result: 'applied' as const };
+  },
+});
+
+/**
+ * Stripe webhook endpoint
+ *
+ * Verifies the Stripe-Signature header against STRIPE_WEBHOOK_SECRET
+ * (set in the Convex dashboard) before reading the event. Events the app
+ * does not act on are acknowledged so Stripe stops retrying them. Events
+ * for a customer no user is linked to yet are answered with a 409, so
+ * Stripe retries them (with backoff, for up to three days) until checkout
+ * has linked the customer; those of a deleted account are acknowledged.
+ */
+export const stripeWebhook = httpAction(async (ctx, request) => {
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('STRIPE_WEBHOOK_SECRET is not set');
+    return new Response('Webhook not configured', { status: 500 });
+  }
+
+  const payload = await request.text();
+  const isValid = await verifyStripeSignature(payload, request.headers.get('Stripe-Signature'), secret);
+  if (!isValid) {
+    return new Response('Invalid signature', { status: 400 });
+  }
+
+  let event: StripeEvent;
+  try {
+    event = JSON.parse(payload) as StripeEvent;
+  } catch {
+    return new Response('Invalid payload', { status: 400 });
+  }
+
+  const change = toSubscriptionChange(event);
+  if (!change) {
+    return Response.json({ received: true, result: 'ignored' });
+  }
+
+  const { result } = await ctx.runMutation(internal.functions.subscriptions.applyStripeEvent, change);
+  if (result === 'unknown_user') {
+    return Response.json({ received: false, result }, { status: 409 });
+  }
+
+  return Response.json({ received: true, result });
+});
+
+/**
+ * Delete webhook idempotency records past the retention period
+ *
+ * Runs daily from crons.ts; deletes in batches and reschedules itself
+ * until no old records remain.
+ */
+export const purgeStripeEvents = internalMutation({
+  args: {
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const batchSize = args.batchSize ?? 200;
+    const cutoff = Date.now() - STRIPE_EVENT_RETENTION_MS;
+    const expired = await ctx.db
+      .query('stripeEvents')
+      .withIndex('by_processed', (q) => q.lt('processedAt', cutoff))
+      .take(batchSize);
+
+    for (const event of expired) {
+      await ctx.db.delete(event._id);
+    }
+
+    if (expired.length === batchSize) {
+      await ctx.scheduler.runAfter(0, internal.functions.subscriptions.purgeStripeEvents, args);
+    }
+
+    return { deleted: expired.length };
+  },
+});
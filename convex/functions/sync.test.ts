@@ -0,0 +1,172 @@
+/**
+ * Offline Sync Tests
+ *
+ * Covers idempotent replays of meal operations, stale-edit detection
+ * through `expectedUpdatedAt`, and conflict resolution.
+ */
+
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { api, internal } from '../_generated/api';
+import { setupUsers } from '../test.helpers';
+import { SYNC_OPERATION_RETENTION_MS } from '../lib/sync';
+
+const baseMeal = {
+  title: 'Ramen',
+  rating: 9,
+  mealType: 'dinner' as const,
+  tags: ['noodles'],
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('idempotent replays', () => {
+  it('creates a meal once per idempotency key', async () => {
+    const { t, alice } = await setupUsers();
+
+    const first = await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      idempotencyKey: 'create-1',
+    });
+    const second = await alice.mutation(api.functions.meals.createMeal, {
+      ...baseMeal,
+      idempotencyKey: 'create-1',
+    });
+
+    expect(second).toBe(first);
+    const meals = await t.run(ctx => ctx.db.query('meals').collect());
+    expect(meals).toHaveLength(1);
+    const user = await t.query(internal.functions.users.getUserByClerkId, { clerkId: 'user_alice' });
+    expect(user?.stats?.totalMeals).toBe(1);
+  });
+
+  it('applies a replayed update only once', async () => {
+    const { alice } = await setupUsers();
+    const mealId = await alice.mutation(api.functions.meals.createMeal, baseMeal);
+    const { updatedAt } = await alice.query(api.functions.meals.getMeal, { mealId });
+
+    vi.useFakeTimers();
+    vi.advanceTimersByTime(1000);
+    const update = { mealId, rating: 7, expectedUpdatedAt: updatedAt, idempotencyKey: 'update-1' };
+    const first = await alice.mutation(api.functions.meals.updateMeal, update);
+    const second = await alice.mutation(api.functions.meals.updateMeal, update);
+
+    expect(first.status).toBe('updated');
+    expect(second.status).toBe('updated');
+    const meal = await alice.query(api.functions.meals.getMeal, { mealId });
+    expect(meal.rating).toBe(7);
+    expect(meal.syncStatus).toBe('synced');
+  });
+
+  it('treats a replayed delete of a missing meal as done', async () => {
+    const { alice } = await setupUsers();
+    const mealId = await alice.mutation(api.functions.meals.createMeal, baseMeal);
+
+    await alice.mutation(api.functions.meals.deleteMeal, { mealId, idempotencyKey: 'delete-1' });
+
+    await expect(
+      alice.mutation(api.functions.meals.deleteMeal, { mealId, idempotencyKey: 'delete-1' }),
+    ).resolves.toEqual({ success: true });
+    await expect(alice.mutation(api.functions.meals.deleteMeal, { mealId })).rejects.toThrow(
+      'Meal not found',
+    );
+  });
+});
+
+describe('stale edits', () => {
+  it('marks the meal as conflicting instead of applying a stale edit', async () => {
+    const { alice } = await setupUsers();
+    const mealId = await alice.mutation(api.functions.meals.createMeal, baseMeal);
+    const { updatedAt: staleUpdatedAt } = await alice.query(api.functions.meals.getMeal, { mealId });
+
+    // Another device edits the meal first
+    vi.useFakeTimers();
+    vi.advanceTimersByTime(1000);
+    await alice.mutation(api.functions.meals.updateMeal, { mealId, title: 'Tonkotsu ramen' });
+
+    const result = await alice.mutation(api.functions.meals.updateMeal, {
+      mealId,
+      rating: 4,
+      expectedUpdatedAt: staleUpdatedAt,
+      idempotencyKey: 'stale-1',
+    });
+
+    expect(result.status).toBe('conflict');
+    if (result.status === 'conflict') {
+      expect(result.meal.title).toBe('Tonkotsu ramen');
+    }
+    const meal = await alice.query(api.functions.meals.getMeal, { mealId });
+    expect(meal.rating).toBe(9);
+    expect(meal.syncStatus).toBe('conflict');
+
+    // Replaying the same operation reports the same conflict
+    const replay = await alice.mutation(api.functions.meals.updateMeal, {
+      mealId,
+      rating: 4,
+      expectedUpdatedAt: staleUpdatedAt,
+      idempotencyKey: 'stale-1',
+    });
+    expect(replay.status).toBe('conflict');
+  });
+
+  it('clears a conflict when the local version is re-applied on top of the server one', async () => {
+    const { alice } = await setupUsers();
+    const mealId = await alice.mutation(api.functions.meals.createMeal, baseMeal);
+    const { updatedAt: staleUpdatedAt } = await alice.query(api.functions.meals.getMeal, { mealId });
+
+    vi.useFakeTimers();
+    vi.advanceTimersByTime(1000);
+    await alice.mutation(api.functions.meals.updateMeal, { mealId, title: 'Tonkotsu ramen' });
+    await alice.mutation(api.functions.meals.updateMeal, {
+      mealId,
+      rating: 4,
+      expectedUpdatedAt: staleUpdatedAt,
+    });
+
+    const server = await alice.query(api.functions.meals.getMeal, { mealId });
+    vi.advanceTimersByTime(1000);
+    const result = await alice.mutation(api.functions.meals.updateMeal, {
+      mealId,
+      rating: 4,
+      expectedUpdatedAt: server.updatedAt,
+      idempotencyKey: 'resolve-1',
+    });
+
+    expect(result.status).toBe('updated');
+    const meal = await alice.query(api.functions.meals.getMeal, { mealId });
+    expect(meal).toMatchObject({ title: 'Tonkotsu ramen', rating: 4, syncStatus: 'synced' });
+  });
+
+  it('keeps the server version through resolveMealConflict', async () => {
+    const { alice } = await setupUsers();
+    const mealId = await alice.mutation(api.functions.meals.createMeal, baseMeal);
+
+    await alice.mutation(api.functions.meals.updateMeal, {
+      mealId,
+      rating: 4,
+      expectedUpdatedAt: 1,
+    });
+    await alice.mutation(api.functions.meals.resolveMealConflict, { mealId });
+
+    const meal = await alice.query(api.functions.meals.getMeal, { mealId });
+    expect(meal).toMatchObject({ rating: 9, syncStatus: 'synced' });
+  });
+});
+
+describe('purgeSyncOperations', () => {
+  it('removes records past the retention period', async () => {
+    const { t, alice } = await setupUsers();
+    vi.useFakeTimers();
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, idempotencyKey: 'old' });
+
+    vi.advanceTimersByTime(SYNC_OPERATION_RETENTION_MS + 1000);
+    await alice.mutation(api.functions.meals.createMeal, { ...baseMeal, idempotencyKey: 'new' });
+
+    const result = await t.mutation(internal.functions.sync.purgeSyncOperations, {});
+
+    expect(result.deleted).toBe(1);
+    const remaining = await t.run(ctx => ctx.db.query('syncOperations').collect());
+    expect(remaining.map(operation => operation.idempotencyKey)).toEqual(['new']);
+  });
+});
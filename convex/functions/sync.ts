@@ -0,0 +1,41 @@
+/**
+ * Offline Sync Maintenance Functions
+ *
+ * Housekeeping for the idempotency records written when the client's
+ * offline outbox replays meal operations (see `lib/sync.ts`).
+ */
+
+import { internalMutation } from '../_generated/server';
+import { internal } from '../_generated/api';
+import { v } from 'convex/values';
+import { SYNC_OPERATION_RETENTION_MS } from '../lib/sync';
+
+/**
+ * Delete idempotency records past the retention period
+ *
+ * Runs daily from crons.ts; deletes in batches and reschedules itself
+ * until no old records remain.
+ */
+export const purgeSyncOperations = internalMutation({
+  args: {
+    batchSize: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const batchSize = args.batchSize ?? 200;
+    const cutoff = Date.now() - SYNC_OPERATION_RETENTION_MS;
+    const expired = await ctx.db
+      .query('syncOperations')
+      .withIndex('by_created', (q) => q.lt('createdAt', cutoff))
+      .take(batchSize);
+
+    for (const operation of expired) {
+      await ctx.db.delete(operation._id);
+    }
+
+    if (expired.length === batchSize) {
+      await ctx.scheduler.runAfter(0, internal.functions.sync.purgeSyncOperations, args);
+    }
+
+    return { deleted: expired.length };
+  },
+});
@@ -0,0 +1,139 @@
+/**
+ * Tag Function Tests
+ *
+ * Covers tag autocomplete ordering, prefix matching and per-user scoping.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { api } from '../_generated/api';
+import { setupUsers, type TestClient } from '../test.helpers';
+
+async function setup() {
+  const { t, aliceId, bobId, alice } = await setupUsers();
+
+  await t.run(async (ctx) => {
+    const now = Date.now();
+    const tags = [
+      { userId: aliceId, tag: 'spicy', usageCount: 3 },
+      { userId: aliceId, tag: 'sushi', usageCount: 9 },
+      { userId: aliceId, tag: 'pizza', usageCount: 5 },
+      { userId: bobId, tag: 'soup', usageCount: 20 },
+    ];
+    for (const tag of tags) {
+      await ctx.db.insert('userTags', { ...tag, lastUsedAt: now, createdAt: now, updatedAt: now });
+    }
+  });
+
+  return alice;
+}
+
+describe('getTagSuggestions', () => {
+  it('orders the caller\'s tags by usage', async () => {
+    const alice = await setup();
+
+    const suggestions = await alice.query(api.functions.tags.getTagSuggestions, {});
+
+    expect(suggestions.map(suggestion => suggestion.tag)).toEqual(['sushi', 'pizza', 'spicy']);
+  });
+
+  it('matches a case-insensitive prefix and respects the limit', async () => {
+    const alice = await setup();
+
+    const suggestions = await alice.query(api.functions.tags.getTagSuggestions, {
+      prefix: 'S',
+      limit: 1,
+    });
+
+    expect(suggestions.map(suggestion => suggestion.tag)).toEqual(['sushi']);
+  });
+});
+
+describe('tag usage', () => {
+  const meal = { title: 'Curry', rating: 8, mealType: 'dinner' as const };
+
+  async function usage(alice: TestClient) {
+    const tags = await alice.query(api.functions.tags.getUserTags, {});
+    return Object.fromEntries(tags.map(tag => [tag.tag, tag.usageCount]));
+  }
+
+  it('counts tags on create, update and delete', async () => {
+    const { alice } = await setupUsers();
+
+    const first = await alice.mutation(api.functions.meals.createMeal, { ...meal, tags: ['Spicy', 'thai'] });
+    await alice.mutation(api.functions.meals.createMeal, { ...meal, tags: ['spicy'] });
+    expect(await usage(alice)).toEqual({ spicy: 2, thai: 1 });
+
+    await alice.mutation(api.functions.meals.updateMeal, { mealId: first, tags: ['spicy', 'curry'] });
+    expect(await usage(alice)).toEqual({ spicy: 2, curry: 1 });
+
+    await alice.mutation(api.functions.meals.deleteMeal, { mealId: first });
+    expect(await usage(alice)).toEqual({ spicy: 1 });
+  });
+
+  it('keeps customized tags when they fall out of use', async () => {
+    const { alice } = await setupUsers();
+    const mealId = await alice.mutation(api.functions.meals.createMeal, { ...meal, tags: ['thai'] });
+
+    await alice.mutation(api.functions.tags.updateTag, { tag: 'thai', color: '#FF8800', category: 'Cuisine' });
+    await alice.mutation(api.functions.meals.deleteMeal, { mealId });
+
+    const [tag] = await alice.query(api.functions.tags.getUserTags, {});
+    expect(tag).toMatchObject({ tag: 'thai', usageCount: 0, color: '#ff8800', category: 'Cuisine' });
+  });
+
+  it('rejects invalid colors', async () => {
+    const { alice } = await setupUsers();
+    await alice.mutation(api.functions.meals.createMeal, { ...meal, tags: ['thai'] });
+
+    await expect(
+      alice.mutation(api.functions.tags.updateTag, { tag: 'thai', color: 'orange' }),
+    ).rejects.toThrow('hex colors');
+  });
+
+  it('renames a tag on every meal', async () => {
+    const { t, alice } = await setupUsers();
+    await alice.mutation(api.functions.meals.createMeal, { ...meal, tags: ['spicey', 'thai'] });
+    await alice.mutation(api.functions.meals.createMeal, { ...meal, tags: ['spicey'] });
+    await alice.mutation(api.functions.tags.updateTag, { tag: 'spicey', color: '#ff0000' });
+
+    const result = await alice.mutation(api.functions.tags.renameTag, { from: 'spicey', to: 'Spicy' });
+
+    expect(result.mealsUpdated).toBe(2);
+    const meals = await t.run(ctx => ctx.db.query('meals').collect());
+    expect(meals.map(row => row.tags)).toEqual([['spicy', 'thai'], ['spicy']]);
+    const tags = await alice.query(api.functions.tags.getUserTags, {});
+    expect(tags.find(tag => tag.tag === 'spicy')).toMatchObject({ usageCount: 2, color: '#ff0000' });
+    expect(tags.find(tag => tag.tag === 'spicey')).toBeUndefined();
+  });
+
+  it('merges tags without duplicating them on a meal', async () => {
+    const { t, alice } = await setupUsers();
+    await alice.mutation(api.functions.meals.createMeal, { ...meal, tags: ['hot', 'spicy'] });
+    await alice.mutation(api.functions.meals.createMeal, { ...meal, tags: ['chili'] });
+    await alice.mutation(api.functions.meals.createMeal, { ...meal, tags: ['sweet'] });
+
+    const result = await alice.mutation(api.functions.tags.mergeTags, {
+      sources: ['hot', 'chili'],
+      target: 'spicy',
+    });
+
+    expect(result.mealsUpdated).toBe(2);
+    const meals = await t.run(ctx => ctx.db.query('meals').collect());
+    expect(meals.map(row => row.tags)).toEqual([['spicy'], ['spicy'], ['sweet']]);
+    expect(await usage(alice)).toEqual({ spicy: 2, sweet: 1 });
+  });
+
+  it('rebuilds counts from meals', async () => {
+    const { t, alice } = await setupUsers();
+    await alice.mutation(api.functions.meals.createMeal, { ...meal, tags: ['thai'] });
+    await t.run(async (ctx) => {
+      for (const tag of await ctx.db.query('userTags').collect()) {
+        await ctx.db.delete(tag._id);
+      }
+    });
+
+    await alice.mutation(api.functions.tags.recomputeTags, {});
+
+    expect(await usage(alice)).toEqual({ thai: 1 });
+  });
+});
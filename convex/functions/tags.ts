@@ -0,0 +1,191 @@
+/**
+ * Tag Functions
+ *
+ * The user's personal tag list in `userTags`: autocomplete and tag
+ * management. Usage counts are maintained by the meal mutations (see
+ * `lib/tags.ts`).
+ *
+ * Key Features:
+ * - Suggestions ordered by usage (most used first) via by_user_usage
+ * - Optional prefix matching on the tag text
+ * - Recolor and categorize tags
+ * - Rename and merge tags, rewriting every affected meal in one mutation
+ */
+
+import { mutation, query } from '../_generated/server';
+import { v } from 'convex/values';
+import { requireUser } from '../lib/auth';
+import { invalidateAnalytics } from '../lib/analytics';
+import { getUserTag, recomputeTagUsage, rewriteTags } from '../lib/tags';
+import { normalizeTag, validateTagMetadata, validateTagName } from '../lib/validation';
+
+const DEFAULT_SUGGESTION_LIMIT = 8;
+
+/**
+ * Suggest tags for autocomplete
+ *
+ * Walks the user's tags from most to least used and returns the first
+ * `limit` that start with `prefix` (case-insensitive).
+ */
+export const getTagSuggestions = query({
+  args: {
+    prefix: v.optional(v.string()),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const prefix = args.prefix?.trim().toLowerCase() ?? '';
+    const limit = args.limit ?? DEFAULT_SUGGESTION_LIMIT;
+
+    const suggestions = [];
+    for await (const tag of ctx.db
+      .query('userTags')
+      .withIndex('by_user_usage', (q) => q.eq('userId', user._id))
+      .order('desc')) {
+      if (tag.tag.startsWith(prefix)) {
+        suggestions.push({ tag: tag.tag, usageCount: tag.usageCount, color: tag.color });
+      }
+      if (suggestions.length >= limit) {
+        break;
+      }
+    }
+
+    return suggestions;
+  },
+});
+
+/**
+ * List all of the user's tags, most used first
+ */
+export const getUserTags = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireUser(ctx);
+
+    return await ctx.db
+      .query('userTags')
+      .withIndex('by_user_usage', (q) => q.eq('userId', user._id))
+      .order('desc')
+      .collect();
+  },
+});
+
+/**
+ * Set a tag's color and/or category
+ *
+ * An empty string clears the value; omitted fields are left unchanged.
+ */
+export const updateTag = mutation({
+  args: {
+    tag: v.string(),
+    color: v.optional(v.string()),
+    category: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const validationError = validateTagMetadata(args);
+
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const existing = await getUserTag(ctx, user._id, normalizeTag(args.tag));
+    if (!existing) {
+      throw new Error('Tag not found');
+    }
+
+    const updates: { color?: string; category?: string; updatedAt: number } = { updatedAt: Date.now() };
+    if (args.color !== undefined) {
+      updates.color = args.color ? args.color.toLowerCase() : undefined;
+    }
+    if (args.category !== undefined) {
+      updates.category = args.category.trim() || undefined;
+    }
+    await ctx.db.patch(existing._id, updates);
+
+    return existing._id;
+  },
+});
+
+/**
+ * Rename a tag on every meal that uses it
+ *
+ * Renaming to a tag that already exists merges the two.
+ */
+export const renameTag = mutation({
+  args: {
+    from: v.string(),
+    to: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const validationError = validateTagName(args.to);
+
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const from = normalizeTag(args.from);
+    const to = normalizeTag(args.to);
+    if (!(await getUserTag(ctx, user._id, from))) {
+      throw new Error('Tag not found');
+    }
+    if (from === to) {
+      return { mealsUpdated: 0 };
+    }
+
+    const mealsUpdated = await rewriteTags(ctx, user._id, [from], to);
+    await invalidateAnalytics(ctx, user._id);
+
+    console.log(`Renamed tag "${from}" to "${to}" on ${mealsUpdated} meals for user ${user.email}`);
+
+    return { mealsUpdated };
+  },
+});
+
+/**
+ * Merge several tags into one on every meal that uses them
+ */
+export const mergeTags = mutation({
+  args: {
+    sources: v.array(v.string()),
+    target: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const user = await requireUser(ctx);
+    const validationError = validateTagName(args.target);
+
+    if (validationError) {
+      throw new Error(validationError);
+    }
+
+    const target = normalizeTag(args.target);
+    const sources = Array.from(new Set(args.sources.map(normalizeTag))).filter(source => source !== target);
+    if (sources.length === 0) {
+      throw new Error('Choose at least one tag to merge');
+    }
+
+    const mealsUpdated = await rewriteTags(ctx, user._id, sources, target);
+    await invalidateAnalytics(ctx, user._id);
+
+    console.log(`Merged ${sources.length} tags into "${target}" on ${mealsUpdated} meals for user ${user.email}`);
+
+    return { mealsUpdated };
+  },
+});
+
+/**
+ * Rebuild the current user's tag usage counts from their meals
+ *
+ * Repairs counts for meals written before tag usage was tracked.
+ */
+export const recomputeTags = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireUser(ctx);
+
+    await recomputeTagUsage(ctx, user._id);
+
+    return { success: true };
+  },
+});
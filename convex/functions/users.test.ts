@@ -0,0 +1,303 @@
+/**
+ * User Function Tests
+ *
+ * Proves the incremental statistics kept by the meal mutations always match
+ * a full recomputation, across randomized create, update and delete runs.
+ * Also covers profile sync from Clerk user.* webhooks and getCurrentUser.
+ */
+
+import { URL as NodeURL } from 'node:url';
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { api } from '../_generated/api';
+import type { Id } from '../_generated/dataModel';
+import { setupUsers, createTest, asUser, type TestConvex } from '../test.helpers';
+import { signSvixPayload } from '../lib/clerk';
+
+const webhookSecret = `whsec_${btoa('clerk_webhook_secret')}`;
+
+const RESTAURANTS = ['Noodle Bar', 'Taco Stand', 'Corner Bistro', undefined];
+
+/**
+ * Small deterministic PRNG (mulberry32) so failures are reproducible
+ */
+function createRandom(seed: number) {
+  let state = seed;
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let value = Math.imul(state ^ (state >>> 15), 1 | state);
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value;
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+  const int = (min: number, max: number) => min + Math.floor(next() * (max - min + 1));
+  const pick = <T,>(items: T[]) => items[int(0, items.length - 1)];
+
+  return { next, int, pick };
+}
+
+/**
+ * Provision a user and return a client acting as them
+ */
+async function setup() {
+  const { t, aliceId: userId, alice } = await setupUsers();
+
+  const getStats = () => t.run(async (ctx) => (await ctx.db.get(userId))?.stats);
+
+  return { t, userId, alice, getStats };
+}
+
+describe('user statistics', () => {
+  it('tracks averages and favorite restaurant across create, update and delete', async () => {
+    const { alice, getStats } = await setup();
+
+    const first = await alice.mutation(api.functions.meals.createMeal, {
+      title: 'Ramen',
+      rating: 6,
+      mealType: 'dinner',
+      price: 15,
+      tags: [],
+      location: { name: 'Noodle Bar' },
+      mealDate: 1_000,
+    });
+    await alice.mutation(api.functions.meals.createMeal, {
+      title: 'Tacos',
+      rating: 10,
+      mealType: 'lunch',
+      price: 9.5,
+      tags: [],
+      location: { name: 'Taco Stand' },
+      mealDate: 2_000,
+    });
+    await alice.mutation(api.functions.meals.updateMeal, {
+      mealId: first,
+      rating: 8,
+      location: { name: 'Taco Stand' },
+    });
+
+    expect(await getStats()).toMatchObject({
+      totalMeals: 2,
+      averageRating: 9,
+      totalSpent: 24.5,
+      favoriteRestaurant: 'Taco Stand',
+      lastMealDate: 2_000,
+    });
+
+    await alice.mutation(api.functions.meals.deleteMeal, { mealId: first });
+
+    expect(await getStats()).toMatchObject({
+      totalMeals: 1,
+      averageRating: 10,
+      totalSpent: 9.5,
+      lastMealDate: 2_000,
+    });
+  });
+
+  it('rebuilds legacy approximate stats on the next meal change', async () => {
+    const { t, userId, alice, getStats } = await setup();
+    await t.run(async (ctx) => {
+      await ctx.db.patch(userId, {
+        stats: { totalMeals: 3, averageRating: 4.2, totalSpent: 99, favoriteRestaurant: 'Gone' },
+      });
+    });
+
+    await alice.mutation(api.functions.meals.createMeal, {
+      title: 'Salad',
+      rating: 7,
+      mealType: 'lunch',
+      tags: [],
+    });
+
+    const stats = await getStats();
+    expect(stats).toMatchObject({ totalMeals: 1, averageRating: 7, totalSpent: 0 });
+    expect(stats?.favoriteRestaurant).toBeUndefined();
+  });
+
+  it('agrees with recomputeUserStats after every randomized change', async () => {
+    const { alice, getStats } = await setup();
+    const random = createRandom(20240601);
+    const mealIds: Id<'meals'>[] = [];
+
+    const randomFields = () => {
+      const restaurant = random.pick(RESTAURANTS);
+      return {
+        rating: random.int(1, 10),
+        price: random.next() < 0.8 ? random.int(0, 5000) / 100 : undefined,
+        location: restaurant ? { name: restaurant } : undefined,
+        mealDate: random.int(1, 1_000_000),
+      };
+    };
+
+    for (let step = 0; step < 60; step++) {
+      const roll = random.next();
+
+      if (mealIds.length === 0 || roll < 0.45) {
+        const fields = randomFields();
+        mealIds.push(await alice.mutation(api.functions.meals.createMeal, {
+          title: `Meal ${step}`,
+          mealType: 'dinner',
+          tags: [],
+          ...fields,
+        }));
+      } else if (roll < 0.8) {
+        const mealId = random.pick(mealIds);
+        const fields = randomFields();
+        await alice.mutation(api.functions.meals.updateMeal, {
+          mealId,
+          rating: fields.rating,
+          ...(fields.price !== undefined && { price: fields.price }),
+          ...(fields.location && { location: fields.location }),
+          ...(random.next() < 0.5 && { mealDate: fields.mealDate }),
+        });
+      } else {
+        const index = random.int(0, mealIds.length - 1);
+        const [mealId] = mealIds.splice(index, 1);
+        await alice.mutation(api.functions.meals.deleteMeal, { mealId });
+      }
+
+      const incremental = await getStats();
+      const recomputed = await alice.mutation(api.functions.users.recomputeUserStats, {});
+
+      expect(incremental, `after step ${step}`).toEqual(recomputed);
+      expect(incremental?.totalMeals).toBe(mealIds.length);
+    }
+  });
+});
+
+describe('getUserStats', () => {
+  it('returns null for signed-in users without a users row', async () => {
+    const t = createTest();
+    const bob = asUser(t, 'user_bob');
+
+    expect(await bob.query(api.functions.users.getUserStats, {})).toBeNull();
+  });
+
+  it('returns empty stats before the first meal and stored stats after', async () => {
+    const { alice } = await setup();
+
+    expect(await alice.query(api.functions.users.getUserStats, {})).toMatchObject({ totalMeals: 0 });
+
+    await alice.mutation(api.functions.meals.createMeal, {
+      title: 'Ramen',
+      rating: 8,
+      mealType: 'dinner',
+      tags: [],
+      mealDate: 1_000,
+    });
+
+    expect(await alice.query(api.functions.users.getUserStats, {})).toMatchObject({
+      totalMeals: 1,
+      averageRating: 8,
+    });
+  });
+});
+
+describe('getCurrentUser', () => {
+  it('returns null when signed out or not synced yet', async () => {
+    const t = createTest();
+
+    expect(await t.query(api.functions.users.getCurrentUser, {})).toBeNull();
+    expect(await asUser(t, 'user_bob').query(api.functions.users.getCurrentUser, {})).toBeNull();
+  });
+
+  it('returns the stored document with preferences, subscription and stats', async () => {
+    const { userId, alice } = await setup();
+    await alice.mutation(api.functions.users.updateUserPreferences, { preferences: { theme: 'dark' } });
+    await alice.mutation(api.functions.meals.createMeal, { title: 'Ramen', rating: 8, mealType: 'dinner', tags: [] });
+
+    expect(await alice.query(api.functions.users.getCurrentUser, {})).toMatchObject({
+      _id: userId,
+      clerkId: 'user_alice',
+      email: 'user_alice@foodylog.local',
+      preferences: { theme: 'dark' },
+      subscription: { tier: 'free' },
+      stats: { totalMeals: 1, averageRating: 8 },
+    });
+  });
+});
+
+describe('clerk user sync', () => {
+  beforeEach(() => {
+    vi.stubEnv('CLERK_WEBHOOK_SECRET', webhookSecret);
+    // t.fetch parses the route with URL, which the DOM test setup mocks
+    vi.stubGlobal('URL', NodeURL);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  async function deliver(t: TestConvex, event: object, secret = webhookSecret) {
+    const payload = JSON.stringify(event);
+    const headers = await signSvixPayload(payload, secret, 'msg_1');
+    return await t.fetch('/clerk/webhook', {
+      method: 'POST',
+      headers: { 'svix-id': headers.id!, 'svix-timestamp': headers.timestamp!, 'svix-signature': headers.signature! },
+      body: payload,
+    });
+  }
+
+  function clerkUser(overrides: Record<string, unknown> = {}) {
+    return {
+      id: 'user_carol',
+      first_name: 'Carol',
+      last_name: null,
+      image_url: 'https://img.clerk.com/carol.png',
+      primary_email_address_id: 'idn_2',
+      email_addresses: [
+        { id: 'idn_1', email_address: 'old@foodylog.local', verification: { status: 'verified' } },
+        { id: 'idn_2', email_address: 'carol@foodylog.local', verification: { status: 'verified' } },
+      ],
+      ...overrides,
+    };
+  }
+
+  it('creates the user on user.created and updates the profile on user.updated', async () => {
+    const t = createTest();
+    const carol = asUser(t, 'user_carol');
+
+    const created = await deliver(t, { type: 'user.created', data: clerkUser() });
+
+    expect(await created.json()).toEqual({ received: true, result: 'upserted' });
+    expect(await carol.query(api.functions.users.getCurrentUser, {})).toMatchObject({
+      clerkId: 'user_carol',
+      email: 'carol@foodylog.local',
+      firstName: 'Carol',
+      profileImageUrl: 'https://img.clerk.com/carol.png',
+      subscription: { tier: 'free' },
+      stats: { totalMeals: 0 },
+    });
+    await carol.mutation(api.functions.users.updateUserPreferences, { preferences: { currency: 'USD', theme: 'light' } });
+
+    await deliver(t, { type: 'user.updated', data: clerkUser({ last_name: 'Jones', primary_email_address_id: 'idn_1' }) });
+
+    const users = await t.run(async (ctx) => await ctx.db.query('users').collect());
+    expect(users).toHaveLength(1);
+    expect(users[0]).toMatchObject({
+      email: 'old@foodylog.local',
+      firstName: 'Carol',
+      lastName: 'Jones',
+      preferences: { theme: 'light' },
+    });
+  });
+
+  it('stores no email until the user verifies one', async () => {
+    const t = createTest();
+    const carol = asUser(t, 'user_carol');
+    const unverified = { id: 'idn_1', email_address: 'carol@foodylog.local', verification: { status: 'unverified' } };
+
+    await deliver(t, { type: 'user.created', data: clerkUser({ primary_email_address_id: 'idn_1', email_addresses: [unverified] }) });
+
+    expect(await carol.query(api.functions.users.getCurrentUser, {})).not.toHaveProperty('email');
+  });
+
+  it('ignores events without a user and rejects bad signatures', async () => {
+    const t = createTest();
+
+    const missing = await deliver(t, { type: 'user.created', data: {} });
+    const forged = await deliver(t, { type: 'user.created', data: clerkUser() }, `whsec_${btoa('wrong')}`);
+
+    expect(await missing.json()).toEqual({ received: true, result: 'ignored' });
+    expect(forged.status).toBe(400);
+    expect(await t.run(async (ctx) => await ctx.db.query('users').collect())).toEqual([]);
+  });
+});
@@ -6,54 +6,37 @@
  * Clerk (authentication) and Convex (application data).
  * 
  * Key Features:
- * - User profile synchronization with Clerk
+ * - User profile synchronization with Clerk (user.* webhooks)
  * - User preferences management
  * - Subscription tier handling (freemium model)
  * - User statistics tracking
+ * - Account deletion, with a grace period when requested in the app
  */
 
-import { mutation, query } from 'convex/_generated/server';
+import { httpAction, internalMutation, internalQuery, mutation, query } from '../_generated/server';
+import { internal } from '../_generated/api';
 import { v } from 'convex/values';
-
-/**
- * Helper function to get authenticated user from Convex context
- * For now, we'll use a mock user for testing purposes
- */
-async function requireAuth(_ctx: any) {
-  // TODO: Implement proper Clerk authentication
-  // For testing purposes, return a mock user
-  return {
-    subject: 'test-user-123',
-    email: 'test@foodylog.com',
-    given_name: 'Test',
-    family_name: 'User',
-  };
-}
-
-/**
- * Helper function to get optional authenticated user
- */
-async function getOptionalAuth(_ctx: any) {
-  // TODO: Implement proper Clerk authentication
-  // For testing purposes, return a mock user
-  return {
-    subject: 'test-user-123',
-    email: 'test@foodylog.com',
-    given_name: 'Test',
-    family_name: 'User',
-  };
-}
+import { getOptionalUser, requireUser } from '../lib/auth';
+import { EMPTY_STATS, recomputeStatsForUser } from '../lib/stats';
+import { getHomeCurrency } from '../lib/exchangeRates';
+import { getPendingDeletion, isDeletedClerkUser, scheduleAccountDeletion } from '../lib/accountDeletion';
+import { getClerkUserProfile, verifySvixSignature, type ClerkWebhookEvent } from '../lib/clerk';
 
 /**
  * Create or update user profile
  * 
- * This function is called when a user signs up or when their Clerk profile
- * is updated. It ensures our Convex database has the latest user information.
+ * Called by the Clerk webhook when a user signs up or when their Clerk
+ * profile is updated. It ensures our Convex database has the latest user
+ * information. Internal, so profiles can only come from verified Clerk
+ * deliveries.
+ *
+ * Returns null without changes for users whose account deletion is
+ * pending or done, so a late delivery cannot bring the account back.
  */
-export const upsertUser = mutation({
+export const upsertUser = internalMutation({
   args: {
     clerkId: v.string(),
-    email: v.string(),
+    email: v.optional(v.string()),
     firstName: v.optional(v.string()),
     lastName: v.optional(v.string()),
     profileImageUrl: v.optional(v.string()),
@@ -65,6 +48,13 @@ export const upsertUser = mutation({
       .withIndex('by_clerk_id', (q) => q.eq('clerkId', args.clerkId))
       .first();
 
+    const isDeleted = existingUser
+      ? await getPendingDeletion(ctx, existingUser._id) !== null
+      : await isDeletedClerkUser(ctx, args.clerkId);
+    if (isDeleted) {
+      return null;
+    }
+
     const now = Date.now();
 
     if (existingUser) {
@@ -117,25 +107,14 @@ export const upsertUser = mutation({
 /**
  * Get current user profile
  * 
- * Returns the current authenticated user's profile information.
+ * Returns the current authenticated user's stored document, including
+ * preferences, subscription and stats. Returns null when signed out or
+ * when the Clerk user has not been synced by the webhook yet.
  */
 export const getCurrentUser = query({
+  args: {},
   handler: async (ctx) => {
-    const identity = await getOptionalAuth(ctx);
-
-    if (!identity) {
-      return null;
-    }
-
-    // Extract user info from Clerk identity
-    return {
-      _id: identity.subject,
-      clerkId: identity.subject,
-      email: identity.email || 'user@example.com',
-      firstName: identity.given_name || 'User',
-      lastName: identity.family_name || '',
-      profileImageUrl: 'https://via.placeholder.com/150',
-    };
+    return await getOptionalUser(ctx);
   },
 });
 
@@ -143,6 +122,8 @@ export const getCurrentUser = query({
  * Update user preferences
  * 
  * Allows users to update their app preferences like theme, currency, etc.
+ * Changing the currency (the home currency spend is reported in) schedules
+ * the re-conversion of the user's meal prices.
  */
 export const updateUserPreferences = mutation({
   args: {
@@ -159,16 +140,7 @@ export const updateUserPreferences = mutation({
     }),
   },
   handler: async (ctx, args) => {
-    const identity = await requireAuth(ctx);
-
-    const user = await ctx.db
-      .query('users')
-      .withIndex('by_clerk_id', (q) => q.eq('clerkId', identity.subject))
-      .first();
-
-    if (!user) {
-      throw new Error('User not found');
-    }
+    const user = await requireUser(ctx);
 
     // Merge new preferences with existing ones
     const updatedPreferences = {
@@ -182,48 +154,46 @@ export const updateUserPreferences = mutation({
       updatedAt: Date.now(),
     });
 
+    if (updatedPreferences.currency && updatedPreferences.currency !== getHomeCurrency(user)) {
+      await ctx.scheduler.runAfter(0, internal.functions.exchangeRates.convertMealPrices, { userId: user._id });
+    }
+
     return updatedPreferences;
   },
 });
 
 /**
- * Update user statistics
+ * Recompute user statistics
  * 
- * Internal function to update user statistics when meals are added/updated.
- * This is called by other functions, not directly by the frontend.
+ * Rebuilds the current user's stats from all of their meals. Meal
+ * mutations keep stats up to date incrementally; this repairs stats
+ * written before that, or after data was changed outside the app.
  */
-export const updateUserStats = mutation({
-  args: {
-    userId: v.id('users'),
-    totalMeals: v.optional(v.number()),
-    averageRating: v.optional(v.number()),
-    totalSpent: v.optional(v.number()),
-    favoriteRestaurant: v.optional(v.string()),
-    lastMealDate: v.optional(v.number()),
+export const recomputeUserStats = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireUser(ctx);
+
+    return await recomputeStatsForUser(ctx, user._id);
   },
-  handler: async (ctx, args) => {
-    const user = await ctx.db.get(args.userId);
+});
+
+/**
+ * Get the current user's meal statistics
+ * 
+ * Returns null when the signed-in user has no users row yet, so the
+ * dashboard can show its empty state instead of an error.
+ */
+export const getUserStats = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getOptionalUser(ctx);
 
     if (!user) {
-      throw new Error('User not found');
+      return null;
     }
 
-    // Merge new stats with existing ones
-    const updatedStats = {
-      ...user.stats,
-      totalMeals: args.totalMeals ?? user.stats?.totalMeals ?? 0,
-      averageRating: args.averageRating ?? user.stats?.averageRating ?? 0,
-      totalSpent: args.totalSpent ?? user.stats?.totalSpent ?? 0,
-      favoriteRestaurant: args.favoriteRestaurant ?? user.stats?.favoriteRestaurant,
-      lastMealDate: args.lastMealDate ?? user.stats?.lastMealDate,
-    };
-
-    await ctx.db.patch(args.userId, {
-      stats: updatedStats,
-      updatedAt: Date.now(),
-    });
-
-    return updatedStats;
+    return user.stats ?? EMPTY_STATS;
   },
 });
 
@@ -233,7 +203,7 @@ export const updateUserStats = mutation({
  * Helper function to get user by their Clerk ID.
  * Used internally by other functions.
  */
-export const getUserByClerkId = query({
+export const getUserByClerkId = internalQuery({
   args: {
     clerkId: v.string(),
   },
@@ -245,34 +215,157 @@ export const getUserByClerkId = query({
   },
 });
 
+/**
+ * Get the current user's pending account deletion
+ *
+ * Returns null when no deletion is scheduled.
+ */
+export const getUserDeletion = query({
+  args: {},
+  handler: async (ctx) => {
+    const user = await getOptionalUser(ctx);
+    const deletion = user && await getPendingDeletion(ctx, user._id);
+
+    if (!deletion) {
+      return null;
+    }
+
+    return {
+      status: deletion.status,
+      receiptId: deletion.receiptId,
+      requestedAt: deletion.requestedAt,
+      scheduledFor: deletion.scheduledFor,
+      canCancel: deletion.status === 'scheduled' && deletion.source === 'user',
+    };
+  },
+});
+
 /**
  * Delete user account
  * 
- * Handles user account deletion. This will also need to clean up
- * all associated data (meals, photos, etc.).
+ * Schedules the deletion of the account and all associated data (meals,
+ * photos and their files, tags, places, budgets, imports, analytics
+ * cache, sync records) after a grace period, during which it can be
+ * canceled with `cancelUserDeletion`. An active Stripe subscription is
+ * canceled when the data is deleted. The returned receipt ID reads the
+ * signed deletion receipt once the deletion has completed.
  */
 export const deleteUser = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const user = await requireUser(ctx);
+    const deletion = await scheduleAccountDeletion(ctx, user, 'user');
+
+    return { receiptId: deletion.receiptId, scheduledFor: deletion.scheduledFor };
+  },
+});
+
+/**
+ * Cancel a pending account deletion
+ * 
+ * Only possible during the grace period of a deletion requested in the
+ * app; once data is being deleted the deletion runs to completion.
+ */
+export const cancelUserDeletion = mutation({
+  args: {},
   handler: async (ctx) => {
-    const identity = await requireAuth(ctx);
+    const user = await requireUser(ctx);
+    const deletion = await getPendingDeletion(ctx, user._id);
+
+    if (!deletion) {
+      throw new Error('No account deletion is scheduled');
+    }
+    if (deletion.status !== 'scheduled' || deletion.source === 'clerk') {
+      throw new Error('Your account is already being deleted');
+    }
+
+    if (deletion.scheduledFunctionId) {
+      await ctx.scheduler.cancel(deletion.scheduledFunctionId);
+    }
+    await ctx.db.delete(deletion._id);
 
+    return null;
+  },
+});
+
+/**
+ * Schedule the deletion of a user Clerk reported as deleted
+ * 
+ * Runs the same flow as `deleteUser`, without the grace period: the user
+ * can no longer sign in to cancel. Unknown users are ignored: they were
+ * never provisioned, or their data is already deleted.
+ */
+export const deleteUserFromClerk = internalMutation({
+  args: {
+    clerkId: v.string(),
+  },
+  handler: async (ctx, args) => {
     const user = await ctx.db
       .query('users')
-      .withIndex('by_clerk_id', (q) => q.eq('clerkId', identity.subject))
+      .withIndex('by_clerk_id', (q) => q.eq('clerkId', args.clerkId))
       .first();
-
     if (!user) {
-      throw new Error('User not found');
+      return { result: 'ignored' as const };
     }
 
-    // TODO: In a complete implementation, we would also need to:
-    // 1. Delete all user's meals
-    // 2. Delete all user's photos from storage
-    // 3. Delete all user's tags
-    // 4. Delete all user's analytics cache
-    // For now, we'll just delete the user record
+    await scheduleAccountDeletion(ctx, user, 'clerk');
+    return { result: 'scheduled' as const };
+  },
+});
 
-    await ctx.db.delete(user._id);
+/**
+ * Receive Clerk webhooks
+ * 
+ * Deliveries are signed by Svix and verified with CLERK_WEBHOOK_SECRET.
+ * user.created and user.updated events upsert the user's profile, and a
+ * user.deleted event schedules the user's account deletion; other events
+ * are acknowledged and ignored.
+ */
+export const clerkWebhook = httpAction(async (ctx, request) => {
+  const secret = process.env.CLERK_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('CLERK_WEBHOOK_SECRET is not set');
+    return new Response('Webhook not configured', { status: 500 });
+  }
+
+  const payload = await request.text();
+  const isValid = await verifySvixSignature(payload, {
+    id: request.headers.get('svix-id'),
+    timestamp: request.headers.get('svix-timestamp'),
+    signature: request.headers.get('svix-signature'),
+  }, secret);
+  if (!isValid) {
+    return new Response('Invalid signature', { status: 400 });
+  }
+
+  let event: ClerkWebhookEvent;
+  try {
+    event = JSON.parse(payload) as ClerkWebhookEvent;
+  } catch {
+    return new Response('Invalid payload', { status: 400 });
+  }
+
+  switch (event.type) {
+    case 'user.created':
+    case 'user.updated': {
+      const profile = getClerkUserProfile(event.data ?? {});
+      if (!profile) {
+        break;
+      }
+
+      const userId = await ctx.runMutation(internal.functions.users.upsertUser, profile);
+      return Response.json({ received: true, result: userId ? 'upserted' : 'ignored' });
+    }
+    case 'user.deleted': {
+      const clerkId = typeof event.data?.id === 'string' ? event.data.id : undefined;
+      if (!clerkId) {
+        break;
+      }
+
+      const { result } = await ctx.runMutation(internal.functions.users.deleteUserFromClerk, { clerkId });
+      return Response.json({ received: true, result });
+    }
+  }
 
-    return { success: true };
-  },
-});
\ No newline at end of file
+  return Response.json({ received: true, result: 'ignored' });
+});
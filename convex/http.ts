@@ -0,0 +1,26 @@
+/**
+ * HTTP Routes
+ *
+ * Endpoints called by third-party services, served from the deployment's
+ * `.convex.site` URL.
+ */
+
+import { httpRouter } from 'convex/server';
+import { stripeWebhook } from './functions/subscriptions';
+import { clerkWebhook } from './functions/users';
+
+const http = httpRouter();
+
+http.route({
+  path: '/stripe/webhook',
+  method: 'POST',
+  handler: stripeWebhook,
+});
+
+http.route({
+  path: '/clerk/webhook',
+  method: 'POST',
+  handler: clerkWebhook,
+});
+
+export default http;
@@ -0,0 +1,224 @@
+/**
+ * Account Deletion
+ *
+ * Deleting an account from Settings is scheduled after a grace period,
+ * during which the user can cancel it. When Clerk reports the user was
+ * deleted, the user can no longer sign in to cancel, so the deletion
+ * starts right away. `deleteAccountData` then removes every row the user
+ * owns, table by table in batches, along with their photo files in
+ * storage, and then the `users` row itself. An active Stripe subscription
+ * is canceled with it, so billing stops with the account.
+ *
+ * A signed receipt is kept as proof of the deletion. It holds no personal
+ * data: the user is identified only by a SHA-256 hash of their Clerk ID,
+ * so the receipt can be matched to a request without storing the ID. The
+ * signature is HMAC-SHA256 over the receipt's canonical JSON, keyed with
+ * DELETION_RECEIPT_SECRET.
+ */
+
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import type { Doc, Id } from '../_generated/dataModel';
+import { internal } from '../_generated/api';
+import { hmacSha256, sha256Hex, timingSafeEqual, toHex } from './crypto';
+
+export const ACCOUNT_DELETION_GRACE_PERIOD_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Rows deleted per scheduled run of the cascade
+export const ACCOUNT_DELETION_BATCH_SIZE = 100;
+
+// Removing the Clerk user and canceling the Stripe subscription are retried
+// with exponential backoff: 1, 2, 4, 8 and 16 minutes
+export const EXTERNAL_DELETION_MAX_ATTEMPTS = 6;
+export const EXTERNAL_DELETION_RETRY_BASE_MS = 60 * 1000;
+
+/**
+ * Tables holding a user's data, in deletion order: rows are deleted
+ * before the rows they reference
+ */
+export const USER_DATA_TABLES = [
+  'importRows',
+  'importJobs',
+  'budgetAlerts',
+  'budgets',
+  'analyticsCache',
+  'syncOperations',
+  'userTags',
+  'mealPhotos',
+  'meals',
+  'places',
+] as const;
+
+export type UserDataTable = typeof USER_DATA_TABLES[number];
+
+export type AccountDeletionSource = Doc<'accountDeletions'>['source'];
+
+/**
+ * A deletion receipt without its signature
+ */
+export interface DeletionReceipt {
+  receiptId: string;
+  subject: string; // SHA-256 of the Clerk user ID, hex
+  source: AccountDeletionSource;
+  requestedAt: number;
+  completedAt: number;
+  deleted: Record<string, number>; // rows deleted per table, plus storage files
+}
+
+/**
+ * Read the receipt signing secret, or throw when it is not configured
+ *
+ * Checked when a deletion is requested, so a deletion never runs without
+ * a way to sign its receipt.
+ */
+export function getDeletionReceiptSecret(): string {
+  const secret = process.env.DELETION_RECEIPT_SECRET;
+  if (!secret) {
+    throw new Error('Account deletion is not configured');
+  }
+  return secret;
+}
+
+/**
+ * The user's pending deletion, if any
+ */
+export async function getPendingDeletion(ctx: QueryCtx, userId: Id<'users'>) {
+  return await ctx.db
+    .query('accountDeletions')
+    .withIndex('by_user', (q) => q.eq('userId', userId))
+    .first();
+}
+
+/**
+ * Whether the account of a Clerk user was deleted
+ *
+ * Matches the deletion receipts, which identify the user by the hash of
+ * their Clerk ID.
+ */
+export async function isDeletedClerkUser(ctx: QueryCtx, clerkId: string): Promise<boolean> {
+  const subject = await sha256Hex(clerkId);
+  const receipt = await ctx.db
+    .query('deletionReceipts')
+    .withIndex('by_subject', (q) => q.eq('subject', subject))
+    .first();
+  return receipt !== null;
+}
+
+/**
+ * Whether a Stripe customer belonged to a deleted account
+ *
+ * Receipts keep only the hash of the customer ID, so webhooks Stripe sends
+ * after the deletion can still be acknowledged.
+ */
+export async function isDeletedStripeCustomer(ctx: QueryCtx, stripeCustomerId: string): Promise<boolean> {
+  const stripeCustomer = await sha256Hex(stripeCustomerId);
+  const receipt = await ctx.db
+    .query('deletionReceipts')
+    .withIndex('by_stripe_customer', (q) => q.eq('stripeCustomer', stripeCustomer))
+    .first();
+  return receipt !== null;
+}
+
+/**
+ * Schedule the deletion of a user's account
+ *
+ * Deletions requested in the app wait for the grace period; deletions
+ * reported by Clerk start right away. A user who already has a pending
+ * deletion keeps it, unless Clerk deletes the user during its grace
+ * period: the deletion then starts right away.
+ */
+export async function scheduleAccountDeletion(
+  ctx: MutationCtx,
+  user: Doc<'users'>,
+  source: AccountDeletionSource,
+): Promise<Doc<'accountDeletions'>> {
+  getDeletionReceiptSecret();
+
+  const now = Date.now();
+  const existing = await getPendingDeletion(ctx, user._id);
+  if (existing) {
+    if (source !== 'clerk' || existing.source === 'clerk' || existing.status !== 'scheduled') {
+      return existing;
+    }
+
+    if (existing.scheduledFunctionId) {
+      await ctx.scheduler.cancel(existing.scheduledFunctionId);
+    }
+    const scheduledFunctionId = await ctx.scheduler.runAfter(
+      0,
+      internal.functions.accountDeletions.deleteAccountData,
+      { deletionId: existing._id },
+    );
+    await ctx.db.patch(existing._id, { source, scheduledFor: now, scheduledFunctionId });
+    return (await ctx.db.get(existing._id))!;
+  }
+
+  const scheduledFor = source === 'clerk' ? now : now + ACCOUNT_DELETION_GRACE_PERIOD_MS;
+  const deletionId = await ctx.db.insert('accountDeletions', {
+    userId: user._id,
+    clerkId: user.clerkId,
+    source,
+    status: 'scheduled',
+    receiptId: crypto.randomUUID(),
+    requestedAt: now,
+    scheduledFor,
+    deleted: {},
+  });
+  const scheduledFunctionId = await ctx.scheduler.runAt(
+    scheduledFor,
+    internal.functions.accountDeletions.deleteAccountData,
+    { deletionId },
+  );
+  await ctx.db.patch(deletionId, { scheduledFunctionId });
+
+  return (await ctx.db.get(deletionId))!;
+}
+
+/**
+ * Take up to `limit` of a user's rows from one of their tables
+ */
+export async function takeUserRows(
+  ctx: QueryCtx,
+  table: UserDataTable,
+  userId: Id<'users'>,
+  limit: number,
+): Promise<Doc<UserDataTable>[]> {
+  switch (table) {
+    case 'analyticsCache':
+    case 'syncOperations':
+      return await ctx.db.query(table).withIndex('by_user_key', (q) => q.eq('userId', userId)).take(limit);
+    default:
+      return await ctx.db.query(table).withIndex('by_user', (q) => q.eq('userId', userId)).take(limit);
+  }
+}
+
+/**
+ * Canonical JSON of a receipt: fixed key order, tables sorted by name
+ */
+function toCanonicalJson(receipt: DeletionReceipt): string {
+  const deleted = Object.fromEntries(Object.entries(receipt.deleted).sort(([a], [b]) => a.localeCompare(b)));
+  return JSON.stringify({
+    receiptId: receipt.receiptId,
+    subject: receipt.subject,
+    source: receipt.source,
+    requestedAt: receipt.requestedAt,
+    completedAt: receipt.completedAt,
+    deleted,
+  });
+}
+
+/**
+ * Sign a receipt, returning the HMAC-SHA256 signature as hex
+ */
+export async function signDeletionReceipt(receipt: DeletionReceipt, secret: string): Promise<string> {
+  return toHex(await hmacSha256(secret, toCanonicalJson(receipt)));
+}
+
+/**
+ * Check a receipt's signature
+ */
+export async function verifyDeletionReceipt(
+  receipt: DeletionReceipt & { signature: string },
+  secret: string,
+): Promise<boolean> {
+  return timingSafeEqual(receipt.signature, await signDeletionReceipt(receipt, secret));
+}
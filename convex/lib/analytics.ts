@@ -0,0 +1,228 @@
+/**
+ * Meal Analytics
+ *
+ * Aggregates a user's meals over a period (day, week, month or year) and
+ * manages the `analyticsCache` entries that store the results.
+ *
+ * Cache entries are valid until they expire or until the user's meals
+ * change: every meal mutation bumps `users.analyticsVersion`, and an entry
+ * only matches when its `version` equals the current one. Bumping
+ * ANALYTICS_FORMAT_VERSION invalidates every entry when the data shape
+ * changes.
+ */
+
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import type { Doc, Id } from '../_generated/dataModel';
+import { getMealSpend } from './exchangeRates';
+
+export const ANALYTICS_FORMAT_VERSION = 2;
+
+export type AnalyticsPeriod = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+type MealType = Doc<'meals'>['mealType'];
+
+/**
+ * How long a cache entry stays valid without meal changes
+ */
+export const ANALYTICS_CACHE_TTL_MS: Record<AnalyticsPeriod, number> = {
+  daily: 60 * 60 * 1000,
+  weekly: 6 * 60 * 60 * 1000,
+  monthly: 12 * 60 * 60 * 1000,
+  yearly: 24 * 60 * 60 * 1000,
+};
+
+const TOP_LIST_SIZE = 5;
+
+/**
+ * Time range analysed, split into buckets for the spend-over-time series
+ *
+ * Buckets are supplied by the client so day and month boundaries follow
+ * the user's local calendar.
+ */
+export interface AnalyticsRange {
+  startDate: number; // inclusive
+  endDate: number; // exclusive
+  bucketStarts: number[]; // ascending, first equals startDate
+}
+
+export interface MealAnalytics {
+  totalMeals: number;
+  averageRating: number;
+  totalSpent: number; // in the user's home currency
+  mealsByType: Record<MealType, number>;
+  ratingDistribution: number[]; // index 0 holds rating 1, index 9 rating 10
+  spendOverTime: { start: number; totalSpent: number; mealCount: number }[];
+  topTags: { tag: string; count: number }[];
+  topPlaces: { name: string; count: number; averageRating: number }[];
+}
+
+/**
+ * Check that a range is well formed, returning an error message if not
+ */
+export function validateAnalyticsRange(range: AnalyticsRange): string | null {
+  const { startDate, endDate, bucketStarts } = range;
+
+  if (endDate <= startDate) {
+    return 'Analytics range must end after it starts';
+  }
+  if (bucketStarts.length === 0 || bucketStarts.length > 31) {
+    return 'Analytics range must have between 1 and 31 buckets';
+  }
+  if (bucketStarts[0] !== startDate) {
+    return 'The first analytics bucket must start at the range start';
+  }
+  for (let index = 1; index < bucketStarts.length; index++) {
+    if (bucketStarts[index] <= bucketStarts[index - 1] || bucketStarts[index] >= endDate) {
+      return 'Analytics buckets must be ascending and inside the range';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Rank entries by count, ties broken alphabetically
+ */
+function topByCount<T extends { count: number }>(entries: T[], getName: (_entry: T) => string) {
+  return [...entries]
+    .sort((a, b) => b.count - a.count || getName(a).localeCompare(getName(b)))
+    .slice(0, TOP_LIST_SIZE);
+}
+
+/**
+ * Aggregate meals that fall inside a range
+ *
+ * @param meals - Meals to aggregate; meals outside the range are ignored
+ * @param range - Range and bucket boundaries
+ */
+export function computeMealAnalytics(meals: Doc<'meals'>[], range: AnalyticsRange): MealAnalytics {
+  const inRange = meals.filter(meal =>
+    meal.mealDate >= range.startDate && meal.mealDate < range.endDate,
+  );
+
+  const mealsByType: Record<MealType, number> = { breakfast: 0, lunch: 0, dinner: 0, snack: 0 };
+  const ratingDistribution = Array.from({ length: 10 }, () => 0);
+  const spendOverTime = range.bucketStarts.map(start => ({ start, totalSpent: 0, mealCount: 0 }));
+  const tagCounts = new Map<string, number>();
+  const places = new Map<string, { count: number; ratingSum: number }>();
+  let ratingSum = 0;
+  let spentCents = 0;
+
+  for (const meal of inRange) {
+    const priceCents = Math.round(getMealSpend(meal) * 100);
+
+    ratingSum += meal.rating;
+    spentCents += priceCents;
+    mealsByType[meal.mealType] += 1;
+
+    const ratingIndex = Math.min(9, Math.max(0, Math.round(meal.rating) - 1));
+    ratingDistribution[ratingIndex] += 1;
+
+    // Last bucket starting at or before the meal
+    let bucketIndex = 0;
+    while (
+      bucketIndex + 1 < range.bucketStarts.length &&
+      range.bucketStarts[bucketIndex + 1] <= meal.mealDate
+    ) {
+      bucketIndex++;
+    }
+    const bucket = spendOverTime[bucketIndex];
+    bucket.totalSpent = (Math.round(bucket.totalSpent * 100) + priceCents) / 100;
+    bucket.mealCount += 1;
+
+    for (const tag of meal.tags) {
+      tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+    }
+
+    const placeName = meal.location?.name.trim();
+    if (placeName) {
+      const place = places.get(placeName) ?? { count: 0, ratingSum: 0 };
+      places.set(placeName, { count: place.count + 1, ratingSum: place.ratingSum + meal.rating });
+    }
+  }
+
+  return {
+    totalMeals: inRange.length,
+    averageRating: inRange.length > 0 ? Math.round((ratingSum / inRange.length) * 100) / 100 : 0,
+    totalSpent: spentCents / 100,
+    mealsByType,
+    ratingDistribution,
+    spendOverTime,
+    topTags: topByCount(
+      Array.from(tagCounts, ([tag, count]) => ({ tag, count })),
+      entry => entry.tag,
+    ),
+    topPlaces: topByCount(
+      Array.from(places, ([name, place]) => ({
+        name,
+        count: place.count,
+        averageRating: Math.round((place.ratingSum / place.count) * 100) / 100,
+      })),
+      entry => entry.name,
+    ),
+  };
+}
+
+/**
+ * Cache key for a period and range
+ *
+ * Includes every bucket boundary (as base-36 offsets from the start), since
+ * ranges with the same start and end are bucketed differently by timezone
+ * and week start.
+ */
+export function getAnalyticsCacheKey(period: AnalyticsPeriod, range: AnalyticsRange): string {
+  const offsets = range.bucketStarts.map(start => (start - range.startDate).toString(36));
+  return `${period}:${range.startDate}:${range.endDate}:${offsets.join(',')}`;
+}
+
+/**
+ * Cache version matching the user's current meal data
+ */
+export function getAnalyticsVersion(user: Doc<'users'>): string {
+  return `${ANALYTICS_FORMAT_VERSION}.${user.analyticsVersion ?? 0}`;
+}
+
+/**
+ * Read meals in a range through the by_user_date index
+ */
+export async function getMealsInRange(ctx: QueryCtx, userId: Id<'users'>, range: AnalyticsRange) {
+  return await ctx.db
+    .query('meals')
+    .withIndex('by_user_date', (q) =>
+      q.eq('userId', userId).gte('mealDate', range.startDate).lt('mealDate', range.endDate),
+    )
+    .collect();
+}
+
+/**
+ * Find a cache entry that is unexpired and matches the user's data version
+ */
+export async function getValidAnalyticsCache(
+  ctx: QueryCtx,
+  user: Doc<'users'>,
+  cacheKey: string,
+) {
+  const entry = await ctx.db
+    .query('analyticsCache')
+    .withIndex('by_user_key', (q) => q.eq('userId', user._id).eq('cacheKey', cacheKey))
+    .first();
+
+  if (!entry || entry.expiresAt <= Date.now() || entry.version !== getAnalyticsVersion(user)) {
+    return null;
+  }
+
+  return entry;
+}
+
+/**
+ * Invalidate every cached analytics entry for a user
+ *
+ * Call from any mutation that creates, changes or deletes a meal.
+ */
+export async function invalidateAnalytics(ctx: MutationCtx, userId: Id<'users'>) {
+  const user = await ctx.db.get(userId);
+
+  if (user) {
+    await ctx.db.patch(userId, { analyticsVersion: (user.analyticsVersion ?? 0) + 1 });
+  }
+}
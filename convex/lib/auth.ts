@@ -0,0 +1,106 @@
+/**
+ * Authentication Helpers
+ *
+ * Shared helpers for resolving the signed-in Clerk identity inside Convex
+ * functions and mapping it to a row in the `users` table.
+ *
+ * Clerk issues a JWT (template "convex") that Convex validates against the
+ * provider configured in convex/auth.config.ts. The JWT `sub` claim is the
+ * Clerk user ID, which is stored as `users.clerkId`.
+ *
+ * Errors are thrown as `AuthError` (a ConvexError) so the client can read a
+ * stable `code` from `error.data` instead of parsing messages.
+ */
+
+import { ConvexError } from 'convex/values';
+import type { UserIdentity } from 'convex/server';
+import type { ActionCtx, QueryCtx } from '../_generated/server';
+import type { Doc } from '../_generated/dataModel';
+
+/**
+ * Error codes surfaced to the client for authentication failures
+ */
+export type AuthErrorCode = 'UNAUTHENTICATED' | 'USER_NOT_PROVISIONED';
+
+/**
+ * Structured authentication error
+ *
+ * - UNAUTHENTICATED: no valid Clerk token was sent with the request
+ * - USER_NOT_PROVISIONED: the token is valid but no `users` row exists yet
+ */
+export class AuthError extends ConvexError<{ code: AuthErrorCode; message: string }> {
+  constructor(code: AuthErrorCode, message: string) {
+    super({ code, message });
+    this.name = 'AuthError';
+  }
+}
+
+/**
+ * Get the current identity, or null when the request is unauthenticated
+ */
+export async function getOptionalIdentity(
+  ctx: QueryCtx | ActionCtx,
+): Promise<UserIdentity | null> {
+  return await ctx.auth.getUserIdentity();
+}
+
+/**
+ * Get the current identity, throwing UNAUTHENTICATED when there is none
+ */
+export async function requireIdentity(
+  ctx: QueryCtx | ActionCtx,
+): Promise<UserIdentity> {
+  const identity = await ctx.auth.getUserIdentity();
+
+  if (!identity) {
+    throw new AuthError('UNAUTHENTICATED', 'You must be signed in to do that');
+  }
+
+  return identity;
+}
+
+/**
+ * Look up the `users` row for a Clerk user ID
+ */
+export async function getUserByClerkId(
+  ctx: QueryCtx,
+  clerkId: string,
+): Promise<Doc<'users'> | null> {
+  return await ctx.db
+    .query('users')
+    .withIndex('by_clerk_id', (q) => q.eq('clerkId', clerkId))
+    .first();
+}
+
+/**
+ * Get the current user's `users` row, or null when signed out or not provisioned
+ */
+export async function getOptionalUser(ctx: QueryCtx): Promise<Doc<'users'> | null> {
+  const identity = await getOptionalIdentity(ctx);
+
+  if (!identity) {
+    return null;
+  }
+
+  return await getUserByClerkId(ctx, identity.subject);
+}
+
+/**
+ * Get the current user's `users` row
+ *
+ * Throws UNAUTHENTICATED when signed out and USER_NOT_PROVISIONED when the
+ * Clerk user has not been synced into the `users` table yet.
+ */
+export async function requireUser(ctx: QueryCtx): Promise<Doc<'users'>> {
+  const identity = await requireIdentity(ctx);
+  const user = await getUserByClerkId(ctx, identity.subject);
+
+  if (!user) {
+    throw new AuthError(
+      'USER_NOT_PROVISIONED',
+      'User not found. Please sign up first.',
+    );
+  }
+
+  return user;
+}
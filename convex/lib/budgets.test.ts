@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { computeBudgetSpending, getBudgetPeriodRange } from './budgets';
+
+describe('getBudgetPeriodRange', () => {
+  // Wednesday 2025-03-12 15:00 UTC
+  const wednesday = Date.UTC(2025, 2, 12, 15);
+
+  it('starts weeks on Monday and months and years on the 1st', () => {
+    expect(getBudgetPeriodRange('weekly', wednesday, 'UTC')).toEqual({
+      start: Date.UTC(2025, 2, 10),
+      end: Date.UTC(2025, 2, 17),
+    });
+    expect(getBudgetPeriodRange('monthly', wednesday, 'UTC')).toEqual({
+      start: Date.UTC(2025, 2, 1),
+      end: Date.UTC(2025, 3, 1),
+    });
+    expect(getBudgetPeriodRange('yearly', Date.UTC(2025, 11, 31, 23), 'UTC')).toEqual({
+      start: Date.UTC(2025, 0, 1),
+      end: Date.UTC(2026, 0, 1),
+    });
+  });
+
+  it('follows the local calendar of the timezone, across DST changes', () => {
+    // 2025-03-01 03:00 UTC is still February 28th in New York (UTC-5)
+    expect(getBudgetPeriodRange('monthly', Date.UTC(2025, 2, 1, 3), 'America/New_York')).toEqual({
+      start: Date.UTC(2025, 1, 1, 5),
+      end: Date.UTC(2025, 2, 1, 5),
+    });
+    // The week of the March 9th switch to UTC-4 ends at midnight EDT
+    expect(getBudgetPeriodRange('weekly', Date.UTC(2025, 2, 5, 12), 'America/New_York')).toEqual({
+      start: Date.UTC(2025, 2, 3, 5),
+      end: Date.UTC(2025, 2, 10, 4),
+    });
+  });
+});
+
+describe('computeBudgetSpending', () => {
+  const meals = [
+    { price: 12.1, currency: 'USD', mealType: 'lunch' as const, tags: ['work'] },
+    { price: 20.2, currency: 'USD', mealType: 'dinner' as const, tags: [] },
+    { price: 9, currency: 'EUR', mealType: 'lunch' as const, tags: ['work'] },
+    { price: undefined, currency: 'USD', mealType: 'lunch' as const, tags: ['work'] },
+  ];
+
+  it('sums priced meals in the budget currency', () => {
+    expect(computeBudgetSpending({ currency: 'USD' }, meals)).toEqual({
+      spent: 32.3,
+      mealCount: 2,
+      otherCurrencyMealCount: 1,
+    });
+  });
+
+  it('counts meals converted to the budget currency at their converted price', () => {
+    const withConverted = [
+      ...meals,
+      { price: 10, currency: 'EUR', homePrice: 11.74, homeCurrency: 'USD', mealType: 'dinner' as const, tags: [] },
+    ];
+
+    expect(computeBudgetSpending({ currency: 'USD' }, withConverted)).toEqual({
+      spent: 44.04,
+      mealCount: 3,
+      otherCurrencyMealCount: 1,
+    });
+    expect(computeBudgetSpending({ currency: 'EUR' }, withConverted)).toEqual({
+      spent: 19,
+      mealCount: 2,
+      otherCurrencyMealCount: 2,
+    });
+  });
+
+  it('applies the meal type and tag scope', () => {
+    expect(computeBudgetSpending({ currency: 'USD', mealType: 'lunch', tag: 'work' }, meals).spent).toBe(12.1);
+    expect(computeBudgetSpending({ currency: 'USD', tag: 'date-night' }, meals).spent).toBe(0);
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Budget Tracking
+ *
+ * Computes spending against the user's budgets and records threshold
+ * alerts. Spending is not stored: it is summed from the meals in the
+ * budget's current period, so edits, deletes and backdated meals are
+ * always reflected.
+ *
+ * Periods follow the user's calendar in their preferred timezone: weeks
+ * start on Monday, months on the 1st and years on January 1st. A meal
+ * counts towards a budget when it matches its meal type and tag scope, if
+ * any, and its price is known in the budget's currency: budgets in the
+ * home currency count every meal converted to it (see
+ * `lib/exchangeRates.ts`), others only meals paid in their currency.
+ *
+ * Alerts: after a meal write, each budget the meal counts towards gets an
+ * alert for the highest threshold its spending has reached, unless an
+ * alert for that or a higher threshold already exists for the period.
+ */
+
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import type { Doc } from '../_generated/dataModel';
+import type { BudgetPeriod } from './validation';
+
+export const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+
+export interface PeriodRange {
+  start: number; // inclusive
+  end: number; // exclusive
+}
+
+/**
+ * Spending against a budget in one period
+ */
+export interface BudgetStatus extends PeriodRange {
+  spent: number;
+  remaining: number; // negative when over budget
+  percentUsed: number; // rounded to one decimal
+  mealCount: number;
+  otherCurrencyMealCount: number; // in-scope meals skipped for their currency
+}
+
+type BudgetScope = Pick<Doc<'budgets'>, 'currency' | 'mealType' | 'tag'>;
+
+type BudgetMealInput = Pick<Doc<'meals'>, 'price' | 'currency' | 'homePrice' | 'homeCurrency' | 'mealType' | 'tags'>;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * The user's timezone, falling back to UTC when unset or unknown
+ */
+export function getUserTimeZone(user: Doc<'users'>): string {
+  const timeZone = user.preferences?.timezone;
+  if (!timeZone) {
+    return 'UTC';
+  }
+
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Calendar date and time of a timestamp in a timezone
+ */
+function getZonedParts(timestamp: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(timestamp));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+/**
+ * Offset of a timezone from UTC at a timestamp, in milliseconds
+ */
+function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const wholeSeconds = Math.floor(timestamp / 1000) * 1000;
+  const parts = getZonedParts(wholeSeconds, timeZone);
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - wholeSeconds;
+}
+
+/**
+ * Timestamp of local midnight on a date; days past the end of the month
+ * roll over like Date.UTC
+ *
+ * @param month - 1-based month
+ */
+function getZonedMidnight(year: number, month: number, day: number, timeZone: string): number {
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  // Correct twice so dates where the offset changes (DST) land on local midnight
+  const guess = utcMidnight - getTimeZoneOffset(utcMidnight, timeZone);
+  return utcMidnight - getTimeZoneOffset(guess, timeZone);
+}
+
+/**
+ * The budget period containing a timestamp
+ */
+export function getBudgetPeriodRange(period: BudgetPeriod, timestamp: number, timeZone: string): PeriodRange {
+  const { year, month, day } = getZonedParts(timestamp, timeZone);
+
+  switch (period) {
+    case 'weekly': {
+      const daysSinceMonday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+      return {
+        start: getZonedMidnight(year, month, day - daysSinceMonday, timeZone),
+        end: getZonedMidnight(year, month, day - daysSinceMonday + 7, timeZone),
+      };
+    }
+    case 'monthly':
+      return {
+        start: getZonedMidnight(year, month, 1, timeZone),
+        end: getZonedMidnight(year, month + 1, 1, timeZone),
+      };
+    case 'yearly':
+      return {
+        start: getZonedMidnight(year, 1, 1, timeZone),
+        end: getZonedMidnight(year + 1, 1, 1, timeZone),
+      };
+  }
+}
+
+/**
+ * Whether a meal matches a budget's meal type and tag scope
+ */
+function isMealInScope(budget: BudgetScope, meal: BudgetMealInput): boolean {
+  return (!budget.mealType || meal.mealType === budget.mealType) &&
+    (!budget.tag || meal.tags.includes(budget.tag));
+}
+
+/**
+ * A meal's price in a currency: its home currency price when converted to
+ * that currency, else its original price when paid in it
+ */
+function getMealSpendIn(currency: string, meal: BudgetMealInput): number | undefined {
+  if (meal.homePrice !== undefined && meal.homeCurrency === currency) {
+    return meal.homePrice;
+  }
+  if (meal.price !== undefined && (meal.currency === undefined || meal.currency === currency)) {
+    return meal.price;
+  }
+
+  return undefined;
+}
+
+/**
+ * Sum the spending of meals against a budget
+ *
+ * Meals without a price are not counted. Meals whose price is not known
+ * in the budget's currency are counted separately so the UI can say they
+ * were left out.
+ */
+export function computeBudgetSpending(budget: BudgetScope, meals: BudgetMealInput[]) {
+  let cents = 0;
+  let mealCount = 0;
+  let otherCurrencyMealCount = 0;
+
+  for (const meal of meals) {
+    if (meal.price === undefined || !isMealInScope(budget, meal)) {
+      continue;
+    }
+    const amount = getMealSpendIn(budget.currency, meal);
+    if (amount === undefined) {
+      otherCurrencyMealCount++;
+      continue;
+    }
+    cents += toCents(amount);
+    mealCount++;
+  }
+
+  return { spent: cents / 100, mealCount, otherCurrencyMealCount };
+}
+
+/**
+ * Spending against a budget in the period containing `timestamp`
+ */
+export async function getBudgetStatus(
+  ctx: QueryCtx,
+  user: Doc<'users'>,
+  budget: Doc<'budgets'>,
+  timestamp: number = Date.now(),
+): Promise<BudgetStatus> {
+  const range = getBudgetPeriodRange(budget.period, timestamp, getUserTimeZone(user));
+
+  const meals = await ctx.db
+    .query('meals')
+    .withIndex('by_user_date', (q) =>
+      q.eq('userId', user._id).gte('mealDate', range.start).lt('mealDate', range.end),
+    )
+    .collect();
+
+  const { spent, mealCount, otherCurrencyMealCount } = computeBudgetSpending(budget, meals);
+
+  return {
+    ...range,
+    spent,
+    remaining: (toCents(budget.amount) - toCents(spent)) / 100,
+    percentUsed: Math.round(spent / budget.amount * 1000) / 10,
+    mealCount,
+    otherCurrencyMealCount,
+  };
+}
+
+/**
+ * Record an alert for the highest threshold a budget has reached this period
+ *
+ * Nothing is recorded when an alert for that or a higher threshold already
+ * exists, so each threshold alerts at most once per period.
+ */
+export async function recordBudgetAlerts(
+  ctx: MutationCtx,
+  user: Doc<'users'>,
+  budget: Doc<'budgets'>,
+  now: number = Date.now(),
+) {
+  if (!budget.isActive) {
+    return;
+  }
+
+  const status = await getBudgetStatus(ctx, user, budget, now);
+  const reached = budget.alertThresholds.filter(threshold => status.spent * 100 >= threshold * budget.amount);
+  if (reached.length === 0) {
+    return;
+  }
+
+  const threshold = Math.max(...reached);
+  const existing = await ctx.db
+    .query('budgetAlerts')
+    .withIndex('by_budget_period', (q) => q.eq('budgetId', budget._id).eq('periodStart', status.start))
+    .collect();
+  if (existing.some(alert => alert.threshold >= threshold)) {
+    return;
+  }
+
+  await ctx.db.insert('budgetAlerts', {
+    userId: user._id,
+    budgetId: budget._id,
+    periodStart: status.start,
+    threshold,
+    spent: status.spent,
+    createdAt: now,
+  });
+}
+
+/**
+ * Check the user's budgets for alerts after a meal write
+ *
+ * Only budgets the meal counts towards in their current period are
+ * checked; removing or lowering spending never raises an alert.
+ *
+ * @param meal - The meal after the change, or null for a delete
+ */
+export async function checkBudgetAlertsForMeal(
+  ctx: MutationCtx,
+  user: Doc<'users'>,
+  meal: Doc<'meals'> | null,
+) {
+  if (!meal || meal.price === undefined) {
+    return;
+  }
+
+  const now = Date.now();
+  const timeZone = getUserTimeZone(user);
+  const budgets = await ctx.db
+    .query('budgets')
+    .withIndex('by_user', (q) => q.eq('userId', user._id))
+    .collect();
+
+  for (const budget of budgets) {
+    if (!budget.isActive || getMealSpendIn(budget.currency, meal) === undefined || !isMealInScope(budget, meal)) {
+      continue;
+    }
+    const range = getBudgetPeriodRange(budget.period, now, timeZone);
+    if (meal.mealDate >= range.start && meal.mealDate < range.end) {
+      await recordBudgetAlerts(ctx, user, budget, now);
+    }
+  }
+}
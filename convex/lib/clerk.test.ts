@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { getClerkUserProfile, signSvixPayload, SVIX_SIGNATURE_TOLERANCE_SECONDS, verifySvixSignature } from './clerk';
+
+const secret = `whsec_${btoa('clerk_test_secret')}`;
+const now = Date.UTC(2025, 2, 14);
+const timestamp = now / 1000;
+const payload = JSON.stringify({ type: 'user.deleted', data: { id: 'user_1' } });
+
+describe('verifySvixSignature', () => {
+  it('accepts a payload signed with the secret', async () => {
+    const headers = await signSvixPayload(payload, secret, 'msg_1', timestamp);
+
+    expect(await verifySvixSignature(payload, headers, secret, now)).toBe(true);
+  });
+
+  it('accepts any matching v1 signature', async () => {
+    const headers = await signSvixPayload(payload, secret, 'msg_1', timestamp);
+    const rotated = { ...headers, signature: `v1,c2lnbmF0dXJl ${headers.signature}` };
+
+    expect(await verifySvixSignature(payload, rotated, secret, now)).toBe(true);
+  });
+
+  it('rejects a wrong secret, a modified payload, another message id or missing headers', async () => {
+    const headers = await signSvixPayload(payload, secret, 'msg_1', timestamp);
+
+    expect(await verifySvixSignature(payload, headers, `whsec_${btoa('other')}`, now)).toBe(false);
+    expect(await verifySvixSignature(`${payload} `, headers, secret, now)).toBe(false);
+    expect(await verifySvixSignature(payload, { ...headers, id: 'msg_2' }, secret, now)).toBe(false);
+    expect(await verifySvixSignature(payload, { ...headers, signature: null }, secret, now)).toBe(false);
+  });
+
+  it('rejects timestamps outside the tolerance', async () => {
+    const headers = await signSvixPayload(payload, secret, 'msg_1', timestamp - SVIX_SIGNATURE_TOLERANCE_SECONDS - 1);
+
+    expect(await verifySvixSignature(payload, headers, secret, now)).toBe(false);
+  });
+});
+
+describe('getClerkUserProfile', () => {
+  it('reads the profile with the verified primary email address', () => {
+    expect(getClerkUserProfile({
+      id: 'user_1',
+      first_name: 'Ada',
+      last_name: '',
+      image_url: 'https://img.clerk.com/ada.png',
+      primary_email_address_id: 'idn_2',
+      email_addresses: [
+        { id: 'idn_1', email_address: 'ada@old.example', verification: { status: 'verified' } },
+        { id: 'idn_2', email_address: 'ada@example.com', verification: { status: 'verified' } },
+      ],
+    })).toEqual({
+      clerkId: 'user_1',
+      email: 'ada@example.com',
+      firstName: 'Ada',
+      lastName: undefined,
+      profileImageUrl: 'https://img.clerk.com/ada.png',
+    });
+  });
+
+  it('falls back to the first verified email address, or none, and needs a user ID', () => {
+    expect(getClerkUserProfile({
+      id: 'user_1',
+      primary_email_address_id: 'idn_1',
+      email_addresses: [
+        { id: 'idn_1', email_address: 'a@example.com', verification: { status: 'unverified' } },
+        { id: 'idn_2', email_address: 'b@example.com', verification: null },
+        { id: 'idn_3', email_address: 'c@example.com', verification: { status: 'verified' } },
+      ],
+    })).toMatchObject({ email: 'c@example.com' });
+    expect(getClerkUserProfile({ id: 'user_1', email_addresses: [{ id: 'idn_1', email_address: 'a@example.com' }] }))
+      .toEqual(expect.objectContaining({ email: undefined }));
+    expect(getClerkUserProfile({ id: 'user_1', phone_numbers: [] })).toEqual(expect.objectContaining({ email: undefined }));
+    expect(getClerkUserProfile({ first_name: 'Ada' })).toBeNull();
+  });
+});
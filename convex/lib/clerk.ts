@@ -0,0 +1,135 @@
+/**
+ * Clerk Webhook Helpers
+ *
+ * Clerk delivers webhooks through Svix. Each delivery carries `svix-id`,
+ * `svix-timestamp` and `svix-signature` headers; the signature is
+ * HMAC-SHA256 over "<id>.<timestamp>.<body>" keyed with the endpoint's
+ * signing secret (whsec_<base64 key>). Verification uses Web Crypto, so
+ * no Svix SDK is required.
+ */
+
+import { fromBase64, hmacSha256, timingSafeEqual, toBase64 } from './crypto';
+
+// Signed timestamps further than this from now are rejected (replay protection)
+export const SVIX_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+/**
+ * The Svix headers of a webhook delivery
+ */
+export interface SvixHeaders {
+  id: string | null;
+  timestamp: string | null;
+  signature: string | null;
+}
+
+/**
+ * Minimal shape of a Clerk webhook event
+ */
+export interface ClerkWebhookEvent {
+  type: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Profile fields of a Clerk user, as stored in the `users` table
+ */
+export interface ClerkUserProfile {
+  clerkId: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+  profileImageUrl?: string;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+/**
+ * Read the profile of a user.created / user.updated event
+ *
+ * Uses the primary email address when it is verified, falling back to
+ * the first verified one. Users signed up by phone, or who have not
+ * verified an address yet, get no email. Returns null when the payload
+ * has no user ID.
+ */
+export function getClerkUserProfile(data: Record<string, unknown>): ClerkUserProfile | null {
+  const clerkId = optionalString(data.id);
+  if (!clerkId) {
+    return null;
+  }
+
+  const addresses = Array.isArray(data.email_addresses)
+    ? (data.email_addresses as Array<{ id?: unknown; email_address?: unknown; verification?: { status?: unknown } | null }>)
+    : [];
+  const verified = addresses.filter(address => address.verification?.status === 'verified');
+  const email = verified.find(address => address.id === data.primary_email_address_id) ?? verified[0];
+
+  return {
+    clerkId,
+    email: optionalString(email?.email_address),
+    firstName: optionalString(data.first_name),
+    lastName: optionalString(data.last_name),
+    profileImageUrl: optionalString(data.image_url) ?? optionalString(data.profile_image_url),
+  };
+}
+
+function getSigningKey(secret: string): Uint8Array<ArrayBuffer> {
+  return fromBase64(secret.startsWith('whsec_') ? secret.slice('whsec_'.length) : secret);
+}
+
+/**
+ * Build the Svix headers for a payload
+ *
+ * Used by tests to sign deliveries the way Svix does.
+ */
+export async function signSvixPayload(
+  payload: string,
+  secret: string,
+  id: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): Promise<SvixHeaders> {
+  const signature = toBase64(await hmacSha256(getSigningKey(secret), `${id}.${timestamp}.${payload}`));
+  return { id, timestamp: String(timestamp), signature: `v1,${signature}` };
+}
+
+/**
+ * Check the Svix headers of a delivery against the raw request body
+ *
+ * The signature header is a space-separated list of `v1,<base64>`
+ * signatures; any match is accepted while the timestamp is within the
+ * tolerance.
+ *
+ * @param payload - Raw request body, exactly as received
+ * @param headers - Values of the svix-id, svix-timestamp and svix-signature headers
+ * @param secret - Endpoint signing secret (whsec_...)
+ * @param now - Current time in milliseconds
+ */
+export async function verifySvixSignature(
+  payload: string,
+  headers: SvixHeaders,
+  secret: string,
+  now: number = Date.now(),
+): Promise<boolean> {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature) {
+    return false;
+  }
+
+  const seconds = Number(timestamp);
+  if (!Number.isFinite(seconds) || Math.abs(now / 1000 - seconds) > SVIX_SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  let expected: string;
+  try {
+    expected = toBase64(await hmacSha256(getSigningKey(secret), `${id}.${timestamp}.${payload}`));
+  } catch {
+    return false; // secret is not valid base64
+  }
+
+  return signature
+    .split(' ')
+    .map(part => part.split(',', 2))
+    .some(([version, value]) => version === 'v1' && value !== undefined && timingSafeEqual(value, expected));
+}
@@ -0,0 +1,59 @@
+/**
+ * Crypto Helpers
+ *
+ * HMAC signing and hashing on Web Crypto, which is available in the
+ * default Convex runtime, for webhook signature checks and deletion
+ * receipts.
+ */
+
+const encoder = new TextEncoder();
+
+/**
+ * HMAC-SHA256 of a payload
+ *
+ * @param key - Secret, as text or raw bytes
+ */
+export async function hmacSha256(key: string | Uint8Array<ArrayBuffer>, payload: string): Promise<Uint8Array> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    typeof key === 'string' ? encoder.encode(key) : key,
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  return new Uint8Array(await crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(payload)));
+}
+
+/**
+ * SHA-256 of a text, as hex
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(text))));
+}
+
+export function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+export function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+/**
+ * Compare two strings without exiting early on the first difference
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assertEntitled,
+  checkAnalyticsHistory,
+  checkExtendedMealFields,
+  checkPhotoLimit,
+  checkPhotoSize,
+  checkStorageQuota,
+  checkTagLimit,
+  ENTITLEMENTS,
+  EntitlementError,
+} from './entitlements';
+
+const DAY = 24 * 60 * 60 * 1000;
+const MB = 1024 * 1024;
+
+describe('tier limits', () => {
+  it('limits tags on the free tier only', () => {
+    expect(checkTagLimit('free', 3)).toBeNull();
+    expect(checkTagLimit('free', 4)).toMatchObject({ code: 'TAG_LIMIT', upgradable: true });
+    expect(checkTagLimit('premium', 50)).toBeNull();
+  });
+
+  it('limits photos per meal, with no upgrade past premium', () => {
+    expect(checkPhotoLimit('free', 0)).toBeNull();
+    expect(checkPhotoLimit('free', 1)).toMatchObject({ code: 'PHOTO_LIMIT', upgradable: true });
+    expect(checkPhotoLimit('premium', 4)).toBeNull();
+    expect(checkPhotoLimit('premium', 5)).toMatchObject({ code: 'PHOTO_LIMIT', upgradable: false });
+  });
+
+  it('caps photo file sizes per tier', () => {
+    expect(checkPhotoSize('free', 5 * MB)).toBeNull();
+    expect(checkPhotoSize('free', 5 * MB + 1)?.message).toContain('5MB');
+    expect(checkPhotoSize('premium', 10 * MB + 1)).toMatchObject({ code: 'PHOTO_SIZE_LIMIT', upgradable: false });
+  });
+
+  it('limits free analytics to the history window', () => {
+    const now = Date.UTC(2025, 2, 14);
+
+    expect(checkAnalyticsHistory('free', now - 30 * DAY, now)).toBeNull();
+    expect(checkAnalyticsHistory('free', now - 32 * DAY, now)).toMatchObject({ code: 'ANALYTICS_HISTORY_LIMIT' });
+    expect(checkAnalyticsHistory('premium', 0, now)).toBeNull();
+  });
+
+  it('enforces the free storage quota', () => {
+    const quota = ENTITLEMENTS.free.storageQuota ?? 0;
+
+    expect(checkStorageQuota('free', quota - 10, 10)).toBeNull();
+    expect(checkStorageQuota('free', quota - 10, 11)).toMatchObject({ code: 'STORAGE_QUOTA' });
+    expect(checkStorageQuota('premium', quota * 10, quota)).toBeNull();
+  });
+
+  it('keeps extended meal details to premium', () => {
+    expect(checkExtendedMealFields('free', [])).toBeNull();
+    expect(checkExtendedMealFields('free', ['cuisine'])).toMatchObject({ code: 'EXTENDED_MEAL_FIELDS', upgradable: true });
+    expect(checkExtendedMealFields('premium', ['cuisine', 'notes'])).toBeNull();
+  });
+});
+
+describe('assertEntitled', () => {
+  it('throws violations as an EntitlementError carrying the code', () => {
+    expect(() => assertEntitled(null)).not.toThrow();
+
+    try {
+      assertEntitled(checkTagLimit('free', 10));
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(EntitlementError);
+      expect((error as EntitlementError).data.code).toBe('TAG_LIMIT');
+    }
+  });
+});
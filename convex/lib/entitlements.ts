@@ -0,0 +1,241 @@
+/**
+ * Entitlements
+ *
+ * What each subscription tier is allowed to do, in one table shared by the
+ * Convex functions and the React UI. Every freemium limit is checked
+ * through the `check*` helpers below. Each one returns a violation with a
+ * stable code, and functions throw it as an `EntitlementError`. The client
+ * uses the same helpers to warn before a request is sent, and maps the
+ * codes to an upgrade prompt.
+ *
+ * Kept free of Convex server imports so the client can bundle it.
+ */
+
+import { ConvexError } from 'convex/values';
+import type { SubscriptionTier } from './subscription';
+
+const MEGABYTE = 1024 * 1024;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Limits for one tier; null means unlimited
+ */
+export interface Entitlements {
+  maxTagsPerMeal: number | null;
+  maxPhotosPerMeal: number;
+  maxPhotoSize: number; // bytes
+  analyticsHistoryDays: number | null; // how far back analytics can reach
+  storageQuota: number | null; // bytes of photos across all meals
+  extendedMealFields: boolean; // cuisine, dish type, companions and the other PRD extras
+}
+
+/**
+ * Entitlements per tier (PRD: free gets 3 tags and 1 photo of up to 5MB per
+ * meal, 30 days of analytics and 100MB of storage; premium gets 5 photos of
+ * up to 10MB, the extended meal details and no other limits)
+ */
+export const ENTITLEMENTS: Record<SubscriptionTier, Entitlements> = {
+  free: {
+    maxTagsPerMeal: 3,
+    maxPhotosPerMeal: 1,
+    maxPhotoSize: 5 * MEGABYTE,
+    analyticsHistoryDays: 30,
+    storageQuota: 100 * MEGABYTE,
+    extendedMealFields: false,
+  },
+  premium: {
+    maxTagsPerMeal: null,
+    maxPhotosPerMeal: 5,
+    maxPhotoSize: 10 * MEGABYTE,
+    analyticsHistoryDays: null,
+    storageQuota: null,
+    extendedMealFields: true,
+  },
+};
+
+/**
+ * Codes for limits a tier runs into
+ *
+ * - TAG_LIMIT: too many tags on a meal
+ * - PHOTO_LIMIT: too many photos on a meal
+ * - PHOTO_SIZE_LIMIT: photo file too large
+ * - ANALYTICS_HISTORY_LIMIT: analytics range reaches too far back
+ * - STORAGE_QUOTA: photos would exceed the storage quota
+ * - EXTENDED_MEAL_FIELDS: extended meal details set on a tier without them
+ */
+export const ENTITLEMENT_ERROR_CODES = [
+  'TAG_LIMIT',
+  'PHOTO_LIMIT',
+  'PHOTO_SIZE_LIMIT',
+  'ANALYTICS_HISTORY_LIMIT',
+  'STORAGE_QUOTA',
+  'EXTENDED_MEAL_FIELDS',
+] as const;
+
+export type EntitlementErrorCode = typeof ENTITLEMENT_ERROR_CODES[number];
+
+/**
+ * A limit check that failed
+ *
+ * `upgradable` is true when premium lifts or raises the limit, so the UI
+ * knows whether an upgrade prompt makes sense.
+ */
+export type EntitlementViolation = {
+  code: EntitlementErrorCode;
+  message: string;
+  upgradable: boolean;
+};
+
+/**
+ * Structured entitlement error thrown by Convex functions
+ */
+export class EntitlementError extends ConvexError<EntitlementViolation> {
+  constructor(violation: EntitlementViolation) {
+    super(violation);
+    this.name = 'EntitlementError';
+  }
+}
+
+/**
+ * Get the entitlements of a tier
+ */
+export function getEntitlements(tier: SubscriptionTier): Entitlements {
+  return ENTITLEMENTS[tier];
+}
+
+/**
+ * Throw a violation as an EntitlementError, if there is one
+ */
+export function assertEntitled(violation: EntitlementViolation | null): void {
+  if (violation) {
+    throw new EntitlementError(violation);
+  }
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / MEGABYTE)}MB`;
+}
+
+/**
+ * Check the number of tags on a meal
+ */
+export function checkTagLimit(tier: SubscriptionTier, tagCount: number): EntitlementViolation | null {
+  const limit = ENTITLEMENTS[tier].maxTagsPerMeal;
+
+  if (limit === null || tagCount <= limit) {
+    return null;
+  }
+
+  return {
+    code: 'TAG_LIMIT',
+    message: `Free tier limited to ${limit} tags per meal. Upgrade to premium for unlimited tags.`,
+    upgradable: true,
+  };
+}
+
+/**
+ * Check whether a meal with `existingPhotoCount` photos can take another
+ */
+export function checkPhotoLimit(tier: SubscriptionTier, existingPhotoCount: number): EntitlementViolation | null {
+  const limit = ENTITLEMENTS[tier].maxPhotosPerMeal;
+
+  if (existingPhotoCount < limit) {
+    return null;
+  }
+
+  return tier === 'free'
+    ? {
+      code: 'PHOTO_LIMIT',
+      message: `Free tier limited to ${limit} photo per meal. Upgrade to premium for up to ${ENTITLEMENTS.premium.maxPhotosPerMeal} photos.`,
+      upgradable: true,
+    }
+    : { code: 'PHOTO_LIMIT', message: `Meals can have at most ${limit} photos`, upgradable: false };
+}
+
+/**
+ * Check the size of a photo file
+ */
+export function checkPhotoSize(tier: SubscriptionTier, size: number): EntitlementViolation | null {
+  const limit = ENTITLEMENTS[tier].maxPhotoSize;
+
+  if (size <= limit) {
+    return null;
+  }
+
+  return tier === 'free'
+    ? {
+      code: 'PHOTO_SIZE_LIMIT',
+      message: `Free tier photos must be ${formatMegabytes(limit)} or smaller. Upgrade to premium for photos up to ${formatMegabytes(ENTITLEMENTS.premium.maxPhotoSize)}.`,
+      upgradable: true,
+    }
+    : { code: 'PHOTO_SIZE_LIMIT', message: `Photos must be ${formatMegabytes(limit)} or smaller`, upgradable: false };
+}
+
+/**
+ * Check how far back an analytics range reaches
+ *
+ * The history window gets an extra day because the server does not know
+ * the user's timezone: a range starting at local midnight `historyDays`
+ * days ago must still pass.
+ *
+ * @param startDate - Range start timestamp
+ * @param now - Current time
+ */
+export function checkAnalyticsHistory(
+  tier: SubscriptionTier,
+  startDate: number,
+  now: number = Date.now(),
+): EntitlementViolation | null {
+  const historyDays = ENTITLEMENTS[tier].analyticsHistoryDays;
+
+  if (historyDays === null || startDate >= now - (historyDays + 1) * DAY_MS) {
+    return null;
+  }
+
+  return {
+    code: 'ANALYTICS_HISTORY_LIMIT',
+    message: `Free tier analytics cover the last ${historyDays} days. Upgrade to premium for your full history.`,
+    upgradable: true,
+  };
+}
+
+/**
+ * Check whether `additionalBytes` more photos fit in the storage quota
+ *
+ * @param usedBytes - Bytes of photos the user already stores
+ * @param additionalBytes - Size of the new upload
+ */
+export function checkStorageQuota(
+  tier: SubscriptionTier,
+  usedBytes: number,
+  additionalBytes: number,
+): EntitlementViolation | null {
+  const quota = ENTITLEMENTS[tier].storageQuota;
+
+  if (quota === null || usedBytes + additionalBytes <= quota) {
+    return null;
+  }
+
+  return {
+    code: 'STORAGE_QUOTA',
+    message: `Free tier storage is limited to ${formatMegabytes(quota)}. Delete some photos or upgrade to premium for unlimited storage.`,
+    upgradable: true,
+  };
+}
+
+/**
+ * Check whether extended meal details may be set
+ *
+ * @param fields - Names of the extended fields the input sets
+ */
+export function checkExtendedMealFields(tier: SubscriptionTier, fields: string[]): EntitlementViolation | null {
+  if (ENTITLEMENTS[tier].extendedMealFields || fields.length === 0) {
+    return null;
+  }
+
+  return {
+    code: 'EXTENDED_MEAL_FIELDS',
+    message: 'Cuisine, companions and the other extended meal details are a premium feature. Upgrade to premium to record them.',
+    upgradable: true,
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createFixtureExchangeRateProvider,
+  createFrankfurterExchangeRateProvider,
+  getMealSpend,
+  toRateDate,
+} from './exchangeRates';
+
+describe('createFixtureExchangeRateProvider', () => {
+  const provider = createFixtureExchangeRateProvider([
+    { date: '2025-04-01', rates: { USD: 1.08 } },
+    { date: '2025-01-02', rates: { USD: 1.03 } },
+  ]);
+
+  it('serves the latest fixture on or before the date', async () => {
+    expect(await provider.getRates('2025-01-02')).toEqual({ date: '2025-01-02', rates: { USD: 1.03 } });
+    expect(await provider.getRates('2025-06-30')).toEqual({ date: '2025-04-01', rates: { USD: 1.08 } });
+    expect(await provider.getRates('2024-12-31')).toBeNull();
+  });
+
+  it('loads the bundled fixture file by default', async () => {
+    const rates = await createFixtureExchangeRateProvider().getRates('2025-01-02');
+
+    expect(rates?.rates).toEqual(expect.objectContaining({ USD: expect.any(Number), GBP: expect.any(Number) }));
+  });
+});
+
+describe('createFrankfurterExchangeRateProvider', () => {
+  it('requests euro rates for the date', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      amount: 1,
+      base: 'EUR',
+      date: '2025-01-03',
+      rates: { USD: 1.0299 },
+    })));
+    const provider = createFrankfurterExchangeRateProvider(fetchImpl);
+
+    expect(await provider.getRates('2025-01-04')).toEqual({ date: '2025-01-03', rates: { USD: 1.0299 } });
+    expect(fetchImpl).toHaveBeenCalledWith('https://api.frankfurter.dev/v1/2025-01-04?base=EUR');
+  });
+
+  it('returns null for dates without rates and throws on errors', async () => {
+    const notFound = createFrankfurterExchangeRateProvider(vi.fn().mockResolvedValue(new Response('', { status: 404 })));
+    const failing = createFrankfurterExchangeRateProvider(vi.fn().mockResolvedValue(new Response('', { status: 500 })));
+
+    expect(await notFound.getRates('1990-01-01')).toBeNull();
+    await expect(failing.getRates('2025-01-02')).rejects.toThrow('status 500');
+  });
+});
+
+describe('toRateDate', () => {
+  it('uses the UTC calendar date', () => {
+    expect(toRateDate(Date.UTC(2025, 0, 2, 23, 59))).toBe('2025-01-02');
+  });
+});
+
+describe('getMealSpend', () => {
+  it('prefers the home currency price', () => {
+    expect(getMealSpend({ price: 10, homePrice: 11.74 })).toBe(11.74);
+    expect(getMealSpend({ price: 10, homePrice: undefined })).toBe(10);
+    expect(getMealSpend({ price: undefined, homePrice: undefined })).toBe(0);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Exchange Rates and Currency Conversion
+ *
+ * Daily reference rates are stored in `exchangeRates` as units of each
+ * currency per euro, the base the European Central Bank publishes in, so
+ * any pair converts through the euro. Rates are fetched by an
+ * `ExchangeRateProvider`: Frankfurter (ECB data, no API key) in
+ * production, or fixture rates when `EXCHANGE_RATE_PROVIDER=fixture`.
+ *
+ * Meals keep the price and currency they were logged in. Their
+ * `homePrice` is the price converted to the user's home currency
+ * (`preferences.currency`) at the rate on the meal date, and is what the
+ * spend aggregates (stats, places, analytics, budgets) add up. Meals are
+ * converted at the latest rate on or before their date (the earliest
+ * rate for meals older than every stored one); a meal whose currency has
+ * no rates has no `homePrice` and counts at its original price.
+ */
+
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import type { Doc } from '../_generated/dataModel';
+import { EXCHANGE_RATE_FIXTURES } from './fixtures/exchangeRates';
+
+export const RATE_BASE_CURRENCY = 'EUR';
+
+export const DEFAULT_HOME_CURRENCY = 'USD';
+
+/**
+ * Reference rates published for one day
+ */
+export interface DailyRates {
+  date: string; // YYYY-MM-DD
+  rates: Record<string, number>; // units of each currency per euro
+}
+
+/**
+ * Source of daily reference rates
+ */
+export interface ExchangeRateProvider {
+  name: string;
+  /**
+   * Rates for a date, or the latest published before it (no rates are
+   * published on weekends and holidays); null when none are available
+   */
+  getRates(_date: string): Promise<DailyRates | null>;
+}
+
+type MealPriceInput = Pick<Doc<'meals'>, 'price' | 'currency' | 'mealDate'>;
+
+/**
+ * Meal fields that hold the price in the user's home currency
+ */
+export type HomePriceFields = Pick<Doc<'meals'>, 'homePrice' | 'homeCurrency'>;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * UTC calendar date of a timestamp, as rates are keyed
+ */
+export function toRateDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Provider serving the fixture rates, for offline use
+ *
+ * @param fixtures - Daily rates, defaults to `fixtures/exchangeRates.ts`
+ */
+export function createFixtureExchangeRateProvider(
+  fixtures: DailyRates[] = EXCHANGE_RATE_FIXTURES,
+): ExchangeRateProvider {
+  const sorted = [...fixtures].sort((a, b) => a.date.localeCompare(b.date));
+
+  return {
+    name: 'fixture',
+    async getRates(date) {
+      return sorted.filter(day => day.date <= date).pop() ?? null;
+    },
+  };
+}
+
+/**
+ * Provider backed by the Frankfurter API (ECB reference rates)
+ */
+export function createFrankfurterExchangeRateProvider(
+  fetchImpl: typeof fetch = fetch,
+): ExchangeRateProvider {
+  return {
+    name: 'frankfurter',
+    async getRates(date) {
+      const response = await fetchImpl(`https://api.frankfurter.dev/v1/${date}?base=${RATE_BASE_CURRENCY}`);
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Exchange rate request failed with status ${response.status}`);
+      }
+
+      const body = await response.json() as { date: string; rates: Record<string, number> };
+      return { date: body.date, rates: body.rates };
+    },
+  };
+}
+
+/**
+ * The provider selected by the EXCHANGE_RATE_PROVIDER environment variable
+ */
+export function getExchangeRateProvider(): ExchangeRateProvider {
+  return process.env.EXCHANGE_RATE_PROVIDER === 'fixture'
+    ? createFixtureExchangeRateProvider()
+    : createFrankfurterExchangeRateProvider();
+}
+
+/**
+ * The user's home currency, which spend is reported in
+ */
+export function getHomeCurrency(user: Doc<'users'>): string {
+  return user.preferences?.currency || DEFAULT_HOME_CURRENCY;
+}
+
+/**
+ * Units of a currency per euro on a date
+ *
+ * Uses the latest stored rate on or before the date, else the earliest
+ * after it; null when the currency has no stored rates.
+ */
+export async function getRateToBase(ctx: QueryCtx, currency: string, date: string): Promise<number | null> {
+  if (currency === RATE_BASE_CURRENCY) {
+    return 1;
+  }
+
+  const onOrBefore = await ctx.db
+    .query('exchangeRates')
+    .withIndex('by_currency_date', (q) => q.eq('currency', currency).lte('date', date))
+    .order('desc')
+    .first();
+  if (onOrBefore) {
+    return onOrBefore.rate;
+  }
+
+  const after = await ctx.db
+    .query('exchangeRates')
+    .withIndex('by_currency_date', (q) => q.eq('currency', currency).gt('date', date))
+    .first();
+
+  return after?.rate ?? null;
+}
+
+/**
+ * Convert an amount between currencies at the rates on a date, rounded to
+ * cents; null when either currency has no rate
+ */
+export async function convertAmount(
+  ctx: QueryCtx,
+  amount: number,
+  from: string,
+  to: string,
+  timestamp: number,
+): Promise<number | null> {
+  if (from === to) {
+    return amount;
+  }
+
+  const date = toRateDate(timestamp);
+  const fromRate = await getRateToBase(ctx, from, date);
+  const toRate = await getRateToBase(ctx, to, date);
+  if (fromRate === null || toRate === null) {
+    return null;
+  }
+
+  return toCents(amount / fromRate * toRate) / 100;
+}
+
+/**
+ * A meal's price in the user's home currency, as stored on the meal
+ *
+ * Both fields are undefined for meals without a price or whose currency
+ * could not be converted.
+ */
+export async function getHomePriceFields(
+  ctx: MutationCtx,
+  user: Doc<'users'>,
+  meal: MealPriceInput,
+): Promise<HomePriceFields> {
+  if (meal.price === undefined) {
+    return { homePrice: undefined, homeCurrency: undefined };
+  }
+
+  const homeCurrency = getHomeCurrency(user);
+  const homePrice = await convertAmount(ctx, meal.price, meal.currency ?? homeCurrency, homeCurrency, meal.mealDate);
+
+  return homePrice === null
+    ? { homePrice: undefined, homeCurrency: undefined }
+    : { homePrice, homeCurrency };
+}
+
+/**
+ * What a meal adds to spend aggregates: its home currency price, or the
+ * original price when it could not be converted
+ */
+export function getMealSpend(meal: Pick<Doc<'meals'>, 'price' | 'homePrice'>): number {
+  return meal.homePrice ?? meal.price ?? 0;
+}
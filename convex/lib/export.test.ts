@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  buildMealsCsv,
+  getExportFilename,
+  splitArchiveJson,
+  toArchiveMealsJson,
+  toCsvField,
+  type ExportArchive,
+  type ExportedMeal,
+} from './export';
+
+const meal: ExportedMeal = {
+  id: 'meal_1',
+  title: 'Fish, chips & "mushy" peas',
+  rating: 8,
+  mealType: 'dinner',
+  price: 14.5,
+  currency: 'GBP',
+  tags: ['pub', 'friday'],
+  location: { name: 'The Golden Hind', coordinates: { lat: 51.5186, lng: -0.1527 } },
+  notes: 'Ask for\nextra vinegar',
+  photos: [
+    { filename: 'plate.jpg', mimeType: 'image/jpeg', size: 1024, isPrimary: true, order: 0, createdAt: 0 },
+  ],
+  mealDate: Date.UTC(2025, 2, 14, 19, 30),
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+describe('toCsvField', () => {
+  it('quotes fields with commas, quotes or line breaks', () => {
+    expect(toCsvField('plain')).toBe('plain');
+    expect(toCsvField('a, b')).toBe('"a, b"');
+    expect(toCsvField('say "hi"')).toBe('"say ""hi"""');
+    expect(toCsvField('two\nlines')).toBe('"two\nlines"');
+    expect(toCsvField(undefined)).toBe('');
+    expect(toCsvField(false)).toBe('false');
+  });
+});
+
+describe('buildMealsCsv', () => {
+  it('writes a header and one row per meal', () => {
+    const [header, row, end] = buildMealsCsv([meal]).split('\r\n');
+
+    expect(header.startsWith('date,title,meal_type,rating,price,currency,')).toBe(true);
+    expect(row).toBe(
+      '2025-03-14T19:30:00.000Z,"Fish, chips & ""mushy"" peas",dinner,8,14.5,GBP,,,The Golden Hind,,51.5186,-0.1527,' +
+      'pub; friday,,,,,,,,,,,"Ask for\nextra vinegar",1,plate.jpg',
+    );
+    expect(end).toBe('');
+  });
+});
+
+describe('splitArchiveJson', () => {
+  const archive: ExportArchive = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: 0,
+    range: {},
+    homeCurrency: 'GBP',
+    meals: [],
+    tags: [],
+    places: [],
+  };
+
+  it('writes the same archive when meals come page by page', () => {
+    const meals = [meal, { ...meal, id: 'meal_2' }, { ...meal, id: 'meal_3' }];
+    const { before, after } = splitArchiveJson(archive);
+
+    const text = before + toArchiveMealsJson(meals.slice(0, 2), true) + toArchiveMealsJson(meals.slice(2), false) + after;
+
+    expect(text).toBe(JSON.stringify({ ...archive, meals }, null, 2));
+  });
+
+  it('writes an archive without meals', () => {
+    const { before, after } = splitArchiveJson(archive);
+
+    expect(JSON.parse(before + after)).toEqual(archive);
+  });
+});
+
+describe('getExportFilename', () => {
+  it('dates the file', () => {
+    expect(getExportFilename('json', Date.UTC(2025, 2, 14, 12))).toBe('foodylog-meals-2025-03-14.json');
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Meal History Export
+ *
+ * Shapes a user's data for export: a versioned JSON archive with meals
+ * (including photo metadata), tags and places, and a CSV with one row per
+ * meal. Internal fields (user IDs, search text, sync state, storage IDs)
+ * are left out. Bump EXPORT_VERSION when the archive shape changes so
+ * importers can tell versions apart.
+ *
+ * CSV follows RFC 4180: comma separated, CRLF line endings, fields with
+ * commas, quotes or line breaks quoted. List fields (tags, companions,
+ * photo files) are joined with "; ".
+ */
+
+import type { Doc } from '../_generated/dataModel';
+import { getPlaceAverageRating } from './places';
+
+export const EXPORT_FORMAT = 'foodylog-export';
+export const EXPORT_VERSION = 1;
+
+export type ExportFileFormat = 'csv' | 'json';
+
+export const CSV_LIST_SEPARATOR = '; ';
+
+// Meals read per query while exporting
+export const EXPORT_PAGE_SIZE = 100;
+
+// How long the stored export file stays available for download
+export const EXPORT_FILE_TTL_MS = 60 * 60 * 1000;
+
+export interface ExportedPhoto {
+  filename: string;
+  mimeType: string;
+  size: number; // bytes
+  width?: number;
+  height?: number;
+  caption?: string;
+  isPrimary: boolean;
+  order: number;
+  createdAt: number;
+}
+
+export interface ExportedMeal {
+  id: string;
+  title: string;
+  rating: number;
+  mealType: Doc<'meals'>['mealType'];
+  description?: string;
+  price?: number;
+  currency?: string;
+  homePrice?: number;
+  homeCurrency?: string;
+  tags: string[];
+  location?: Doc<'meals'>['location'];
+  cuisine?: string;
+  dishType?: string;
+  servingSize?: Doc<'meals'>['servingSize'];
+  spiceLevel?: number;
+  notes?: string;
+  occasion?: string;
+  companions?: string[];
+  isRecommended?: boolean;
+  wouldOrderAgain?: boolean;
+  valueForMoney?: number;
+  photos: ExportedPhoto[];
+  mealDate: number; // timestamp
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ExportedTag {
+  tag: string;
+  usageCount: number;
+  lastUsedAt: number;
+  color?: string;
+  category?: string;
+}
+
+export interface ExportedPlace {
+  name: string;
+  address?: string;
+  coordinates?: { lat: number; lng: number };
+  googlePlaceId?: string;
+  visitCount: number;
+  averageRating: number;
+  totalSpent: number; // in the home currency
+  lastVisitAt?: number;
+  notes?: string;
+  isFavorite: boolean;
+}
+
+/**
+ * The JSON export archive
+ */
+export interface ExportArchive {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exportedAt: number;
+  range: { startDate?: number; endDate?: number }; // meal dates, end exclusive
+  homeCurrency: string;
+  meals: ExportedMeal[];
+  tags: ExportedTag[];
+  places: ExportedPlace[];
+}
+
+/**
+ * Export a meal with the metadata of its photos, in display order
+ */
+export function toExportedMeal(meal: Doc<'meals'>, photos: Doc<'mealPhotos'>[]): ExportedMeal {
+  return {
+    id: meal._id,
+    title: meal.title,
+    rating: meal.rating,
+    mealType: meal.mealType,
+    description: meal.description,
+    price: meal.price,
+    currency: meal.currency,
+    homePrice: meal.homePrice,
+    homeCurrency: meal.homeCurrency,
+    tags: meal.tags,
+    location: meal.location,
+    cuisine: meal.cuisine,
+    dishType: meal.dishType,
+    servingSize: meal.servingSize,
+    spiceLevel: meal.spiceLevel,
+    notes: meal.notes,
+    occasion: meal.occasion,
+    companions: meal.companions,
+    isRecommended: meal.isRecommended,
+    wouldOrderAgain: meal.wouldOrderAgain,
+    valueForMoney: meal.valueForMoney,
+    photos: [...photos]
+      .sort((a, b) => a.order - b.order)
+      .map(photo => ({
+        filename: photo.filename,
+        mimeType: photo.mimeType,
+        size: photo.size,
+        width: photo.width,
+        height: photo.height,
+        caption: photo.caption,
+        isPrimary: photo.isPrimary,
+        order: photo.order,
+        createdAt: photo.createdAt,
+      })),
+    mealDate: meal.mealDate,
+    createdAt: meal.createdAt,
+    updatedAt: meal.updatedAt,
+  };
+}
+
+export function toExportedTag(tag: Doc<'userTags'>): ExportedTag {
+  return {
+    tag: tag.tag,
+    usageCount: tag.usageCount,
+    lastUsedAt: tag.lastUsedAt,
+    color: tag.color,
+    category: tag.category,
+  };
+}
+
+export function toExportedPlace(place: Doc<'places'>): ExportedPlace {
+  return {
+    name: place.name,
+    address: place.address,
+    coordinates: place.coordinates,
+    googlePlaceId: place.googlePlaceId,
+    visitCount: place.visitCount,
+    averageRating: getPlaceAverageRating(place),
+    totalSpent: place.totalSpent,
+    lastVisitAt: place.lastVisitAt,
+    notes: place.notes,
+    isFavorite: place.isFavorite,
+  };
+}
+
+type CsvValue = string | number | boolean | undefined;
+
+/**
+ * CSV columns, in order, with how each is read from a meal
+ */
+export const MEAL_CSV_COLUMNS: { header: string; value: (_meal: ExportedMeal) => CsvValue }[] = [
+  { header: 'date', value: meal => new Date(meal.mealDate).toISOString() },
+  { header: 'title', value: meal => meal.title },
+  { header: 'meal_type', value: meal => meal.mealType },
+  { header: 'rating', value: meal => meal.rating },
+  { header: 'price', value: meal => meal.price },
+  { header: 'currency', value: meal => meal.currency },
+  { header: 'home_price', value: meal => meal.homePrice },
+  { header: 'home_currency', value: meal => meal.homeCurrency },
+  { header: 'location_name', value: meal => meal.location?.name },
+  { header: 'location_address', value: meal => meal.location?.address },
+  { header: 'latitude', value: meal => meal.location?.coordinates?.lat },
+  { header: 'longitude', value: meal => meal.location?.coordinates?.lng },
+  { header: 'tags', value: meal => meal.tags.join(CSV_LIST_SEPARATOR) },
+  { header: 'description', value: meal => meal.description },
+  { header: 'cuisine', value: meal => meal.cuisine },
+  { header: 'dish_type', value: meal => meal.dishType },
+  { header: 'serving_size', value: meal => meal.servingSize },
+  { header: 'spice_level', value: meal => meal.spiceLevel },
+  { header: 'value_for_money', value: meal => meal.valueForMoney },
+  { header: 'would_order_again', value: meal => meal.wouldOrderAgain },
+  { header: 'is_recommended', value: meal => meal.isRecommended },
+  { header: 'occasion', value: meal => meal.occasion },
+  { header: 'companions', value: meal => meal.companions?.join(CSV_LIST_SEPARATOR) },
+  { header: 'notes', value: meal => meal.notes },
+  { header: 'photo_count', value: meal => meal.photos.length },
+  { header: 'photo_files', value: meal => meal.photos.map(photo => photo.filename).join(CSV_LIST_SEPARATOR) },
+];
+
+/**
+ * Format one CSV field, quoting it when needed
+ */
+export function toCsvField(value: CsvValue): string {
+  if (value === undefined) {
+    return '';
+  }
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV header row
+ */
+export function getMealsCsvHeader(): string {
+  return MEAL_CSV_COLUMNS.map(column => column.header).join(',') + '\r\n';
+}
+
+/**
+ * CSV rows of meals, without the header, so a long history can be written
+ * page by page
+ */
+export function toMealsCsvRows(meals: ExportedMeal[]): string {
+  return meals.map(meal => MEAL_CSV_COLUMNS.map(column => toCsvField(column.value(meal))).join(',') + '\r\n').join('');
+}
+
+/**
+ * CSV of meals with a header row
+ */
+export function buildMealsCsv(meals: ExportedMeal[]): string {
+  return getMealsCsvHeader() + toMealsCsvRows(meals);
+}
+
+const ARCHIVE_MEALS_MARKER = '__meals__';
+
+/**
+ * Text of a JSON archive before and after its meals array, so the meals
+ * can be written page by page (see `toArchiveMealsJson`)
+ */
+export function splitArchiveJson(archive: Omit<ExportArchive, 'meals'>): { before: string; after: string } {
+  const { format, version, exportedAt, range, homeCurrency, tags, places } = archive;
+  const text = JSON.stringify(
+    { format, version, exportedAt, range, homeCurrency, meals: ARCHIVE_MEALS_MARKER, tags, places },
+    null,
+    2,
+  );
+  const [before, after] = text.split(`"${ARCHIVE_MEALS_MARKER}"`);
+
+  return { before: `${before}[`, after: `\n  ]${after}` };
+}
+
+/**
+ * A page of meals inside the archive's meals array
+ *
+ * @param isFirstPage - Whether no meal was written before this page
+ */
+export function toArchiveMealsJson(meals: ExportedMeal[], isFirstPage: boolean): string {
+  return meals
+    .map((meal, index) => {
+      const separator = isFirstPage && index === 0 ? '\n' : ',\n';
+      return `${separator}    ${JSON.stringify(meal, null, 2).replace(/\n/g, '\n    ')}`;
+    })
+    .join('');
+}
+
+/**
+ * Download file name, e.g. foodylog-meals-2025-03-12.csv
+ */
+export function getExportFilename(format: ExportFileFormat, exportedAt: number): string {
+  return `foodylog-meals-${new Date(exportedAt).toISOString().slice(0, 10)}.${format}`;
+}
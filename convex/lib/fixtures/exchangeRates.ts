@@ -0,0 +1,29 @@
+/**
+ * Exchange Rate Fixtures
+ *
+ * Euro reference rates for a few dates in 2025, rounded from the ECB's
+ * published rates. Served by the fixture exchange rate provider so rates
+ * can be synced and meals converted without network access (local
+ * development, tests, CI).
+ */
+
+import type { DailyRates } from '../exchangeRates';
+
+export const EXCHANGE_RATE_FIXTURES: DailyRates[] = [
+  {
+    date: '2025-01-02',
+    rates: { USD: 1.0321, GBP: 0.8284, CAD: 1.4846, AUD: 1.6615, JPY: 162.72, CHF: 0.9389, CNY: 7.5528 },
+  },
+  {
+    date: '2025-04-01',
+    rates: { USD: 1.0799, GBP: 0.8364, CAD: 1.5475, AUD: 1.7273, JPY: 161.41, CHF: 0.953, CNY: 7.8409 },
+  },
+  {
+    date: '2025-07-01',
+    rates: { USD: 1.1787, GBP: 0.859, CAD: 1.6055, AUD: 1.7984, JPY: 169.53, CHF: 0.9356, CNY: 8.4374 },
+  },
+  {
+    date: '2025-10-01',
+    rates: { USD: 1.1741, GBP: 0.8727, CAD: 1.6343, AUD: 1.78, JPY: 173.76, CHF: 0.9351, CNY: 8.3626 },
+  },
+];
@@ -0,0 +1,60 @@
+/**
+ * Meal Import
+ *
+ * Rules shared by the import wizard and the import functions. The client
+ * parses a CSV (through a column mapping) or a FoodyLog JSON export into
+ * rows of `createMeal` input and stages them on an import job; the
+ * server then imports the staged rows in batches (see
+ * `functions/imports.ts`).
+ *
+ * Each row is validated like `createMeal` input, including the tier's
+ * limits, and skipped when it duplicates a meal the user already has:
+ * same title (ignoring case and surrounding spaces), same meal date and
+ * same location name (see normalizePlaceName). Skipped rows are listed in
+ * the job's report with the reason. Row limits and the validation itself
+ * live in `validation.ts`, which the client bundles for the preview.
+ */
+
+import { v, type Infer } from 'convex/values';
+import type { QueryCtx } from '../_generated/server';
+import type { Id } from '../_generated/dataModel';
+import { newMealValidator, type NewMeal } from './validators';
+import { normalizePlaceName } from './places';
+
+/**
+ * A staged row: the meal parsed from it, or why it could not be parsed
+ */
+export const importRowValidator = v.object({
+  row: v.number(), // 1-based row in the source file
+  title: v.optional(v.string()), // for the report when the row could not be parsed
+  meal: v.optional(newMealValidator),
+  error: v.optional(v.string()),
+});
+
+export type ImportRow = Infer<typeof importRowValidator>;
+
+export type ImportSource = 'csv' | 'json';
+
+/**
+ * Key two meals share when one duplicates the other
+ */
+export function getMealDedupeKey(meal: Pick<NewMeal, 'title' | 'mealDate' | 'location'>): string {
+  return [
+    meal.title.trim().toLowerCase(),
+    meal.mealDate,
+    normalizePlaceName(meal.location?.name ?? ''),
+  ].join('|');
+}
+
+/**
+ * Whether the user already has a meal with the same dedupe key
+ */
+export async function hasDuplicateMeal(ctx: QueryCtx, userId: Id<'users'>, meal: NewMeal): Promise<boolean> {
+  const sameDate = await ctx.db
+    .query('meals')
+    .withIndex('by_user_date', (q) => q.eq('userId', userId).eq('mealDate', meal.mealDate))
+    .collect();
+
+  const key = getMealDedupeKey(meal);
+  return sameDate.some(existing => getMealDedupeKey(existing) === key);
+}
@@ -0,0 +1,88 @@
+/**
+ * Local JWT Issuer Stand-in
+ *
+ * Offline replacement for Clerk's JWT issuer, used by tests and local
+ * tooling. It builds the same claims the Clerk "convex" JWT template emits
+ * and maps them to the identity Convex derives from a validated token, so
+ * functions can be exercised with several distinct users without network
+ * access (e.g. through convex-test's `withIdentity`).
+ */
+
+import type { UserIdentityAttributes } from 'convex/server';
+
+/**
+ * Default issuer used for locally minted identities
+ */
+export const LOCAL_ISSUER = 'https://clerk.foodylog.local';
+
+/**
+ * Claims carried by a Clerk session token for the "convex" template
+ */
+export interface LocalJwtClaims {
+  iss: string;
+  sub: string;
+  aud: 'convex';
+  iat: number;
+  exp: number;
+  email?: string;
+  given_name?: string;
+  family_name?: string;
+  picture?: string;
+}
+
+/**
+ * Optional profile claims for a locally issued user
+ */
+export type LocalUserProfile = Partial<
+  Pick<LocalJwtClaims, 'email' | 'given_name' | 'family_name' | 'picture'>
+>;
+
+/**
+ * Create a local issuer that mints claims and identities for test users
+ *
+ * @param issuer - Issuer URL, defaults to LOCAL_ISSUER
+ * @param ttlSeconds - Token lifetime used for the `exp` claim
+ */
+export function createLocalIssuer(issuer: string = LOCAL_ISSUER, ttlSeconds: number = 3600) {
+  /**
+   * Build the raw JWT claims for a subject (Clerk user ID)
+   */
+  const claims = (subject: string, profile: LocalUserProfile = {}): LocalJwtClaims => {
+    const issuedAt = Math.floor(Date.now() / 1000);
+
+    return {
+      iss: issuer,
+      sub: subject,
+      aud: 'convex',
+      iat: issuedAt,
+      exp: issuedAt + ttlSeconds,
+      email: profile.email ?? `${subject}@foodylog.local`,
+      given_name: profile.given_name,
+      family_name: profile.family_name,
+      picture: profile.picture,
+    };
+  };
+
+  /**
+   * Map claims to the identity attributes Convex exposes via ctx.auth
+   */
+  const identity = (subject: string, profile: LocalUserProfile = {}): UserIdentityAttributes => {
+    const token = claims(subject, profile);
+
+    return {
+      issuer: token.iss,
+      subject: token.sub,
+      email: token.email,
+      givenName: token.given_name,
+      familyName: token.family_name,
+      pictureUrl: token.picture,
+    };
+  };
+
+  /**
+   * Token identifier Convex assigns to the subject (`iss|sub`)
+   */
+  const tokenIdentifier = (subject: string): string => `${issuer}|${subject}`;
+
+  return { issuer, claims, identity, tokenIdentifier };
+}
@@ -0,0 +1,111 @@
+/**
+ * Meal Creation
+ *
+ * Inserts a validated meal and applies the bookkeeping every meal write
+ * needs: user stats, tag usage, place visits, budget alerts and the
+ * analytics cache. Shared by `createMeal` and the meal import, so an
+ * imported meal is stored exactly like one logged in the app.
+ */
+
+import type { MutationCtx } from '../_generated/server';
+import type { Doc, Id } from '../_generated/dataModel';
+import { updateStatsForMealChange } from './stats';
+import { invalidateAnalytics } from './analytics';
+import { buildMealSearchText } from './search';
+import { applyTagUsageChange } from './tags';
+import { applyPlaceVisitChange, resolvePlace } from './places';
+import { checkBudgetAlertsForMeal } from './budgets';
+import { getHomePriceFields } from './exchangeRates';
+import type { NewMeal } from './validators';
+
+/**
+ * Trim an optional text detail; blank or cleared (null) values are unset
+ */
+export function trimDetail(value: string | null | undefined): string | undefined {
+  return value?.trim() || undefined;
+}
+
+/**
+ * Trim companion names; an empty list is unset
+ */
+export function trimCompanions(companions: string[] | null | undefined): string[] | undefined {
+  const names = companions?.map(name => name.trim());
+  return names && names.length > 0 ? names : undefined;
+}
+
+/**
+ * Insert a meal for a user and update everything derived from meals
+ *
+ * The input must already be validated with `validateMealInput`. Stats
+ * are updated from the given user document, so read it fresh before
+ * each insert.
+ *
+ * @returns The new meal's ID
+ */
+export async function insertMeal(ctx: MutationCtx, user: Doc<'users'>, input: NewMeal): Promise<Id<'meals'>> {
+  const now = Date.now();
+  const title = input.title.trim();
+  const description = input.description?.trim();
+  const details = {
+    cuisine: trimDetail(input.cuisine),
+    dishType: trimDetail(input.dishType),
+    servingSize: input.servingSize,
+    spiceLevel: input.spiceLevel,
+    notes: trimDetail(input.notes),
+    occasion: trimDetail(input.occasion),
+    companions: trimCompanions(input.companions),
+    isRecommended: input.isRecommended,
+    wouldOrderAgain: input.wouldOrderAgain,
+    valueForMoney: input.valueForMoney,
+  };
+
+  // Match the location to one of the user's places
+  const placeId = input.location ? await resolvePlace(ctx, user._id, input.location) : undefined;
+
+  // Price in the user's home currency, for spend totals
+  const currency = input.currency || user.preferences?.currency || 'USD';
+  const homePrice = await getHomePriceFields(ctx, user, { price: input.price, currency, mealDate: input.mealDate });
+
+  const mealId = await ctx.db.insert('meals', {
+    userId: user._id,
+    title,
+    rating: input.rating,
+    mealType: input.mealType,
+    description,
+    price: input.price,
+    currency,
+    ...homePrice,
+    tags: input.tags.map(tag => tag.trim().toLowerCase()),
+    location: input.location,
+    placeId,
+    ...details,
+    photos: [], // Photos will be added separately
+    searchText: buildMealSearchText({ title, description, location: input.location, ...details }),
+
+    // Social features (default values)
+    isPublic: false,
+    allowComments: false,
+    likeCount: 0,
+    commentCount: 0,
+    shareCount: 0,
+
+    // Sync status
+    syncStatus: 'synced',
+    lastSyncedAt: now,
+
+    // Timestamps
+    mealDate: input.mealDate,
+    createdAt: now,
+    updatedAt: now,
+  });
+
+  // Update user statistics
+  const meal = await ctx.db.get(mealId);
+  await updateStatsForMealChange(ctx, user, null, meal);
+  await applyTagUsageChange(ctx, user._id, [], meal?.tags ?? []);
+  await applyPlaceVisitChange(ctx, null, meal);
+  await checkBudgetAlertsForMeal(ctx, user, meal);
+  await invalidateAnalytics(ctx, user._id);
+
+  return mealId;
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { getDistanceInMeters, normalizePlaceName } from './places';
+
+describe('normalizePlaceName', () => {
+  it('ignores case, accents, punctuation and a leading "the"', () => {
+    expect(normalizePlaceName("  Joe's  Pizza ")).toBe('joes pizza');
+    expect(normalizePlaceName('Joe’s Pizza')).toBe('joes pizza');
+    expect(normalizePlaceName('Joes-Pizza!')).toBe('joes pizza');
+    expect(normalizePlaceName('Café Sabarsky')).toBe('cafe sabarsky');
+    expect(normalizePlaceName('The Spotted Pig')).toBe('spotted pig');
+    expect(normalizePlaceName('Fish & Chips')).toBe('fish and chips');
+  });
+});
+
+describe('getDistanceInMeters', () => {
+  it('measures great-circle distances', () => {
+    const distance = getDistanceInMeters({ lat: 51.5007, lng: -0.1246 }, { lat: 48.8584, lng: 2.2945 });
+
+    expect(distance).toBeGreaterThan(340_000);
+    expect(distance).toBeLessThan(342_000);
+    expect(getDistanceInMeters({ lat: 1, lng: 1 }, { lat: 1, lng: 1 })).toBe(0);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Place Bookkeeping
+ *
+ * Matches meal locations to rows of the `places` table and keeps each
+ * place's visit statistics in step with its meals.
+ *
+ * Matching, per user:
+ * - A location with a Google Places ID matches the place with that ID
+ * - Otherwise it matches a place with the same normalized name, unless
+ *   both have coordinates further apart than PLACE_MATCH_RADIUS_METERS
+ *   (two branches of a chain are different places)
+ * - Anything else creates a new place
+ *
+ * Meal writes pass the meal before and after the change, like the tag
+ * and stats bookkeeping. A place whose visits drop to zero is removed
+ * unless the user marked it a favorite or wrote notes about it.
+ */
+
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import type { Doc, Id } from '../_generated/dataModel';
+import { getMealSpend } from './exchangeRates';
+
+// Same-name locations closer than this are the same place
+export const PLACE_MATCH_RADIUS_METERS = 150;
+
+// Visited places within this distance are suggested when logging a meal
+export const NEARBY_PLACES_RADIUS_METERS = 500;
+
+const EARTH_RADIUS_METERS = 6_371_000;
+
+type MealLocation = NonNullable<Doc<'meals'>['location']>;
+type Coordinates = NonNullable<MealLocation['coordinates']>;
+
+/**
+ * Meal fields that contribute to place statistics
+ */
+export type MealPlaceInput = Pick<Doc<'meals'>, 'placeId' | 'rating' | 'price' | 'homePrice'>;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Name used to match places: lowercase, without accents, apostrophes,
+ * other punctuation, a leading "the" or repeated whitespace
+ */
+export function normalizePlaceName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/['’`]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+    .replace(/^the /, '');
+}
+
+/**
+ * Great-circle distance between two points (haversine)
+ */
+export function getDistanceInMeters(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Find the user's place a meal location belongs to
+ */
+export async function findMatchingPlace(
+  ctx: QueryCtx,
+  userId: Id<'users'>,
+  location: MealLocation,
+): Promise<Doc<'places'> | null> {
+  if (location.placeId) {
+    const byGoogleId = await ctx.db
+      .query('places')
+      .withIndex('by_user_google_place', (q) => q.eq('userId', userId).eq('googlePlaceId', location.placeId))
+      .first();
+    if (byGoogleId) {
+      return byGoogleId;
+    }
+  }
+
+  const normalizedName = normalizePlaceName(location.name);
+  if (!normalizedName) {
+    return null;
+  }
+
+  const sameName = await ctx.db
+    .query('places')
+    .withIndex('by_user_name', (q) => q.eq('userId', userId).eq('normalizedName', normalizedName))
+    .collect();
+
+  const coordinates = location.coordinates;
+  if (!coordinates) {
+    return sameName[0] ?? null;
+  }
+
+  // Nearest same-name place within the radius, or one without coordinates
+  let match: { place: Doc<'places'>; distance: number } | null = null;
+  for (const place of sameName) {
+    if (location.placeId && place.googlePlaceId && place.googlePlaceId !== location.placeId) {
+      continue;
+    }
+    const distance = place.coordinates ? getDistanceInMeters(coordinates, place.coordinates) : Infinity;
+    if (place.coordinates && distance > PLACE_MATCH_RADIUS_METERS) {
+      continue;
+    }
+    if (!match || distance < match.distance) {
+      match = { place, distance };
+    }
+  }
+
+  return match?.place ?? null;
+}
+
+/**
+ * Resolve a meal location to a place, creating the place if it is new
+ *
+ * Details the matched place lacks (address, coordinates, Google Places ID)
+ * are filled in from the location.
+ */
+export async function resolvePlace(
+  ctx: MutationCtx,
+  userId: Id<'users'>,
+  location: MealLocation,
+): Promise<Id<'places'>> {
+  const now = Date.now();
+  const existing = await findMatchingPlace(ctx, userId, location);
+
+  if (existing) {
+    if (
+      (!existing.address && location.address) ||
+      (!existing.coordinates && location.coordinates) ||
+      (!existing.googlePlaceId && location.placeId)
+    ) {
+      await ctx.db.patch(existing._id, {
+        address: existing.address ?? location.address,
+        coordinates: existing.coordinates ?? location.coordinates,
+        googlePlaceId: existing.googlePlaceId ?? location.placeId,
+        updatedAt: now,
+      });
+    }
+    return existing._id;
+  }
+
+  return await ctx.db.insert('places', {
+    userId,
+    name: location.name.trim(),
+    normalizedName: normalizePlaceName(location.name),
+    address: location.address,
+    coordinates: location.coordinates,
+    googlePlaceId: location.placeId,
+    visitCount: 0,
+    ratingSum: 0,
+    totalSpent: 0,
+    isFavorite: false,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Whether the user kept personal data on a place, so it is kept without visits
+ */
+function isPersonalized(place: Doc<'places'>) {
+  return place.isFavorite || place.notes !== undefined;
+}
+
+interface VisitDelta {
+  visits: number;
+  rating: number;
+  cents: number;
+}
+
+/**
+ * Contribution of one meal to its place, negated for removal
+ */
+function toVisitDelta(meal: MealPlaceInput, direction: 1 | -1): VisitDelta {
+  return {
+    visits: direction,
+    rating: direction * meal.rating,
+    cents: direction * toCents(getMealSpend(meal)),
+  };
+}
+
+/**
+ * Apply a visit delta to a place, removing it when no visits remain
+ */
+async function adjustPlaceVisits(ctx: MutationCtx, placeId: Id<'places'>, delta: VisitDelta) {
+  const place = await ctx.db.get(placeId);
+  if (!place) {
+    return;
+  }
+
+  const visitCount = Math.max(0, place.visitCount + delta.visits);
+  if (visitCount === 0 && !isPersonalized(place)) {
+    await ctx.db.delete(place._id);
+    return;
+  }
+
+  const latestMeal = await ctx.db
+    .query('meals')
+    .withIndex('by_place_date', (q) => q.eq('placeId', place._id))
+    .order('desc')
+    .first();
+
+  await ctx.db.patch(place._id, {
+    visitCount,
+    ratingSum: visitCount === 0 ? 0 : place.ratingSum + delta.rating,
+    totalSpent: visitCount === 0 ? 0 : (toCents(place.totalSpent) + delta.cents) / 100,
+    lastVisitAt: latestMeal?.mealDate,
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Update place statistics for a meal write
+ *
+ * Called after the meal itself was written, so the place's latest visit
+ * can be read from its meals. An edit that stays at the same place is
+ * applied as one change, so the place is not removed in between.
+ *
+ * @param before - The meal before the change, or null for a create
+ * @param after - The meal after the change, or null for a delete
+ */
+export async function applyPlaceVisitChange(
+  ctx: MutationCtx,
+  before: MealPlaceInput | null,
+  after: MealPlaceInput | null,
+) {
+  const deltas = new Map<Id<'places'>, VisitDelta>();
+  const add = (meal: MealPlaceInput | null, direction: 1 | -1) => {
+    if (!meal?.placeId) {
+      return;
+    }
+    const current = deltas.get(meal.placeId) ?? { visits: 0, rating: 0, cents: 0 };
+    const delta = toVisitDelta(meal, direction);
+    deltas.set(meal.placeId, {
+      visits: current.visits + delta.visits,
+      rating: current.rating + delta.rating,
+      cents: current.cents + delta.cents,
+    });
+  };
+
+  add(before, -1);
+  add(after, 1);
+
+  for (const [placeId, delta] of deltas) {
+    await adjustPlaceVisits(ctx, placeId, delta);
+  }
+}
+
+/**
+ * Average rating of a place's meals, rounded to two decimals
+ */
+export function getPlaceAverageRating(place: Doc<'places'>): number {
+  return place.visitCount > 0 ? Math.round(place.ratingSum / place.visitCount * 100) / 100 : 0;
+}
@@ -0,0 +1,34 @@
+/**
+ * Meal Search Helpers
+ *
+ * Builds the `searchText` field indexed by `search_meals`. A search index
+ * covers a single field, so the title, description, location name and the
+ * extended text details (cuisine, dish type, occasion, companions, notes)
+ * are combined into one string whenever a meal is written.
+ */
+
+import type { Doc } from '../_generated/dataModel';
+
+type SearchableMeal = Pick<
+  Doc<'meals'>,
+  'title' | 'description' | 'location' | 'cuisine' | 'dishType' | 'occasion' | 'companions' | 'notes'
+>;
+
+/**
+ * Text indexed for full-text search
+ */
+export function buildMealSearchText(meal: SearchableMeal): string {
+  return [
+    meal.title,
+    meal.description,
+    meal.location?.name,
+    meal.cuisine,
+    meal.dishType,
+    meal.occasion,
+    ...(meal.companions ?? []),
+    meal.notes,
+  ]
+    .map(part => part?.trim())
+    .filter(Boolean)
+    .join(' ');
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyMealChangeToStats,
+  computeUserStats,
+  EMPTY_STATS,
+  type MealStatsInput,
+} from './stats';
+
+const meal = (overrides: Partial<MealStatsInput> = {}): MealStatsInput => ({
+  rating: 8,
+  mealDate: 1_000,
+  ...overrides,
+});
+
+describe('computeUserStats', () => {
+  it('returns empty stats for no meals', () => {
+    expect(computeUserStats([])).toEqual({ ...EMPTY_STATS, lastMealDate: undefined });
+  });
+
+  it('computes exact averages, totals and the latest meal date', () => {
+    const stats = computeUserStats([
+      meal({ rating: 7, price: 0.1, mealDate: 3_000 }),
+      meal({ rating: 8, price: 0.2, mealDate: 1_000 }),
+      meal({ rating: 10, mealDate: 2_000 }),
+    ]);
+
+    expect(stats.totalMeals).toBe(3);
+    expect(stats.averageRating).toBe(8.33);
+    expect(stats.totalSpent).toBe(0.3);
+    expect(stats.lastMealDate).toBe(3_000);
+  });
+
+  it('picks the most visited restaurant rather than the latest', () => {
+    const stats = computeUserStats([
+      meal({ location: { name: 'Noodle Bar' } }),
+      meal({ location: { name: 'Noodle Bar' } }),
+      meal({ location: { name: 'Taco Stand' } }),
+    ]);
+
+    expect(stats.favoriteRestaurant).toBe('Noodle Bar');
+  });
+
+  it('breaks restaurant ties alphabetically', () => {
+    const stats = computeUserStats([
+      meal({ location: { name: 'Zen Sushi' } }),
+      meal({ location: { name: 'Amber Cafe' } }),
+    ]);
+
+    expect(stats.favoriteRestaurant).toBe('Amber Cafe');
+  });
+});
+
+describe('applyMealChangeToStats', () => {
+  it('undoes a meal exactly when it is removed', () => {
+    const kept = meal({ rating: 6, price: 12.34, location: { name: 'Diner' } });
+    const removed = meal({ rating: 9, price: 45.67, location: { name: 'Bistro' } });
+
+    const withBoth = applyMealChangeToStats(applyMealChangeToStats(EMPTY_STATS, null, kept), null, removed);
+    const afterRemoval = applyMealChangeToStats(withBoth, removed, null);
+
+    expect(afterRemoval).toEqual({ ...computeUserStats([kept]), lastMealDate: undefined });
+  });
+
+  it('moves a meal between restaurants on update', () => {
+    const before = meal({ location: { name: 'Diner' } });
+    const after = meal({ location: { name: 'Bistro' } });
+
+    const stats = applyMealChangeToStats(computeUserStats([before]), before, after);
+
+    expect(stats.favoriteRestaurant).toBe('Bistro');
+    expect(stats.restaurantCounts).toEqual([{ name: 'Bistro', count: 1 }]);
+  });
+});
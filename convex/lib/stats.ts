@@ -0,0 +1,220 @@
+/**
+ * User Statistics Engine
+ *
+ * Single source of truth for `users.stats`. Meal mutations apply each
+ * change incrementally through `applyMealChangeToStats`, and
+ * `computeUserStats` rebuilds the same numbers from scratch; both paths
+ * share the arithmetic below so they always agree.
+ *
+ * Exactness:
+ * - Ratings are kept as a running `ratingSum`; the average is derived
+ * - Spend is accumulated in whole cents to avoid floating point drift, in
+ *   the user's home currency (see `lib/exchangeRates.ts`)
+ * - `favoriteRestaurant` is the location with the most meals (ties go to
+ *   the alphabetically first name), tracked through `restaurantCounts`
+ * - `lastMealDate` is read from the by_user_date index after each change
+ */
+
+import type { MutationCtx } from '../_generated/server';
+import type { Doc, Id } from '../_generated/dataModel';
+import { getMealSpend } from './exchangeRates';
+
+export type UserStats = NonNullable<Doc<'users'>['stats']>;
+
+/**
+ * Meal fields that contribute to user statistics
+ */
+export type MealStatsInput = Pick<Doc<'meals'>, 'rating' | 'price' | 'homePrice' | 'location' | 'mealDate'>;
+
+export const EMPTY_STATS: UserStats = {
+  totalMeals: 0,
+  averageRating: 0,
+  totalSpent: 0,
+  ratingSum: 0,
+  restaurantCounts: [],
+};
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+const roundRating = (rating: number) => Math.round(rating * 100) / 100;
+
+/**
+ * Location name a meal counts towards, if any
+ */
+function getRestaurantName(meal: MealStatsInput): string | undefined {
+  const name = meal.location?.name.trim();
+  return name ? name : undefined;
+}
+
+/**
+ * Pick the most frequent restaurant, ties broken alphabetically
+ */
+function pickFavoriteRestaurant(counts: UserStats['restaurantCounts'] = []): string | undefined {
+  let favorite: { name: string; count: number } | undefined;
+
+  for (const entry of counts) {
+    if (
+      !favorite ||
+      entry.count > favorite.count ||
+      (entry.count === favorite.count && entry.name < favorite.name)
+    ) {
+      favorite = entry;
+    }
+  }
+
+  return favorite?.name;
+}
+
+/**
+ * Add (direction 1) or remove (direction -1) one meal's contribution
+ *
+ * `lastMealDate` is left untouched; callers resolve it from the meals
+ * themselves since removing the latest meal cannot be undone arithmetically.
+ */
+function addMealToStats(stats: UserStats, meal: MealStatsInput, direction: 1 | -1): UserStats {
+  const totalMeals = stats.totalMeals + direction;
+  const ratingSum = (stats.ratingSum ?? 0) + direction * meal.rating;
+  const totalSpent = (toCents(stats.totalSpent) + direction * toCents(getMealSpend(meal))) / 100;
+
+  const restaurantCounts = [...(stats.restaurantCounts ?? [])];
+  const restaurant = getRestaurantName(meal);
+  if (restaurant) {
+    const index = restaurantCounts.findIndex(entry => entry.name === restaurant);
+    const count = (index >= 0 ? restaurantCounts[index].count : 0) + direction;
+
+    if (index >= 0) {
+      restaurantCounts.splice(index, 1);
+    }
+    if (count > 0) {
+      restaurantCounts.push({ name: restaurant, count });
+    }
+    restaurantCounts.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  return {
+    ...stats,
+    totalMeals,
+    ratingSum,
+    averageRating: totalMeals > 0 ? roundRating(ratingSum / totalMeals) : 0,
+    totalSpent,
+    restaurantCounts,
+    favoriteRestaurant: pickFavoriteRestaurant(restaurantCounts),
+  };
+}
+
+/**
+ * Compute statistics from a complete list of a user's meals
+ *
+ * @param meals - Every meal the user owns
+ * @returns Statistics equal to applying each meal incrementally
+ */
+export function computeUserStats(meals: MealStatsInput[]): UserStats {
+  let stats = EMPTY_STATS;
+  let lastMealDate: number | undefined;
+
+  for (const meal of meals) {
+    stats = addMealToStats(stats, meal, 1);
+    lastMealDate = Math.max(lastMealDate ?? meal.mealDate, meal.mealDate);
+  }
+
+  return { ...stats, lastMealDate };
+}
+
+/**
+ * Apply a change to a user's statistics
+ *
+ * @param stats - Current statistics
+ * @param before - Meal before the change, or null when it was created
+ * @param after - Meal after the change, or null when it was deleted
+ * @returns Updated statistics (without `lastMealDate` resolution)
+ */
+export function applyMealChangeToStats(
+  stats: UserStats,
+  before: MealStatsInput | null,
+  after: MealStatsInput | null,
+): UserStats {
+  let next = stats;
+
+  if (before) {
+    next = addMealToStats(next, before, -1);
+  }
+  if (after) {
+    next = addMealToStats(next, after, 1);
+  }
+
+  return next;
+}
+
+/**
+ * Whether stored statistics carry enough detail for exact incremental updates
+ *
+ * Stats written before `ratingSum` and `restaurantCounts` existed are rebuilt
+ * from the user's meals instead.
+ */
+function canUpdateIncrementally(stats: Doc<'users'>['stats']): stats is UserStats {
+  if (!stats) {
+    return false;
+  }
+
+  return stats.totalMeals === 0 || (
+    stats.ratingSum !== undefined && stats.restaurantCounts !== undefined
+  );
+}
+
+/**
+ * Date of the user's most recent meal, read from the by_user_date index
+ */
+async function getLastMealDate(ctx: MutationCtx, userId: Id<'users'>) {
+  const latest = await ctx.db
+    .query('meals')
+    .withIndex('by_user_date', (q) => q.eq('userId', userId))
+    .order('desc')
+    .first();
+
+  return latest?.mealDate;
+}
+
+/**
+ * Rebuild a user's statistics from all of their meals and save them
+ *
+ * @returns The recomputed statistics
+ */
+export async function recomputeStatsForUser(ctx: MutationCtx, userId: Id<'users'>) {
+  const meals = await ctx.db
+    .query('meals')
+    .withIndex('by_user', (q) => q.eq('userId', userId))
+    .collect();
+
+  const stats = computeUserStats(meals);
+  await ctx.db.patch(userId, { stats, updatedAt: Date.now() });
+
+  return stats;
+}
+
+/**
+ * Update a user's statistics after a meal was created, updated or deleted
+ *
+ * Call after the meal write so `lastMealDate` reflects the new state.
+ *
+ * @param before - Meal before the change, or null when it was created
+ * @param after - Meal after the change, or null when it was deleted
+ * @returns The updated statistics
+ */
+export async function updateStatsForMealChange(
+  ctx: MutationCtx,
+  user: Doc<'users'>,
+  before: MealStatsInput | null,
+  after: MealStatsInput | null,
+) {
+  if (!canUpdateIncrementally(user.stats)) {
+    return await recomputeStatsForUser(ctx, user._id);
+  }
+
+  const stats = {
+    ...applyMealChangeToStats(user.stats, before, after),
+    lastMealDate: await getLastMealDate(ctx, user._id),
+  };
+  await ctx.db.patch(user._id, { stats, updatedAt: Date.now() });
+
+  return stats;
+}
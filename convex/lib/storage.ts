@@ -0,0 +1,55 @@
+/**
+ * Storage Usage Accounting
+ *
+ * Keeps `users.storageUsed` equal to the total size of the user's
+ * `mealPhotos`. Every mutation that attaches or deletes photos adjusts the
+ * counter in the same transaction, so quota checks read one field instead
+ * of summing photos. Users from before the counter existed have it
+ * computed from their photos on first use.
+ */
+
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import type { Doc } from '../_generated/dataModel';
+
+/**
+ * Sum the sizes of a user's photos
+ */
+async function sumPhotoSizes(ctx: QueryCtx, user: Doc<'users'>): Promise<number> {
+  const photos = await ctx.db
+    .query('mealPhotos')
+    .withIndex('by_user', (q) => q.eq('userId', user._id))
+    .collect();
+
+  return photos.reduce((total, photo) => total + photo.size, 0);
+}
+
+/**
+ * Bytes of photo storage the user currently uses
+ */
+export async function getStorageUsed(ctx: QueryCtx, user: Doc<'users'>): Promise<number> {
+  return user.storageUsed ?? await sumPhotoSizes(ctx, user);
+}
+
+/**
+ * Add `deltaBytes` (negative when photos are deleted) to the user's usage
+ *
+ * Call after the photo rows have been inserted or deleted: a counter that
+ * has not been initialized yet is computed from the rows, which already
+ * include the change.
+ */
+export async function applyStorageUsageChange(
+  ctx: MutationCtx,
+  user: Doc<'users'>,
+  deltaBytes: number,
+): Promise<void> {
+  const current = await ctx.db.get(user._id);
+  if (!current) {
+    return;
+  }
+
+  const storageUsed = current.storageUsed === undefined
+    ? await sumPhotoSizes(ctx, current)
+    : Math.max(0, current.storageUsed + deltaBytes);
+
+  await ctx.db.patch(user._id, { storageUsed });
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  signStripePayload,
+  STRIPE_SIGNATURE_TOLERANCE_SECONDS,
+  toSubscriptionChange,
+  verifyStripeSignature,
+} from './stripe';
+import { getEffectiveTier } from './subscription';
+import { createStripeFixtures } from '../../scripts/fixtures/stripeEvents';
+
+const secret = 'whsec_test';
+const now = Date.UTC(2025, 2, 14);
+const timestamp = now / 1000;
+const payload = JSON.stringify({ id: 'evt_1' });
+
+describe('verifyStripeSignature', () => {
+  it('accepts a payload signed with the secret', async () => {
+    const header = await signStripePayload(payload, secret, timestamp);
+
+    expect(await verifyStripeSignature(payload, header, secret, now)).toBe(true);
+  });
+
+  it('accepts any matching v1 signature', async () => {
+    const header = await signStripePayload(payload, secret, timestamp);
+    const rotated = header.replace('v1=', 'v1=deadbeef,v1=');
+
+    expect(await verifyStripeSignature(payload, rotated, secret, now)).toBe(true);
+  });
+
+  it('rejects a wrong secret, a modified payload or a missing header', async () => {
+    const header = await signStripePayload(payload, secret, timestamp);
+
+    expect(await verifyStripeSignature(payload, header, 'whsec_other', now)).toBe(false);
+    expect(await verifyStripeSignature(`${payload} `, header, secret, now)).toBe(false);
+    expect(await verifyStripeSignature(payload, null, secret, now)).toBe(false);
+    expect(await verifyStripeSignature(payload, 'garbage', secret, now)).toBe(false);
+  });
+
+  it('rejects timestamps outside the tolerance', async () => {
+    const header = await signStripePayload(payload, secret, timestamp - STRIPE_SIGNATURE_TOLERANCE_SECONDS - 1);
+
+    expect(await verifyStripeSignature(payload, header, secret, now)).toBe(false);
+  });
+});
+
+describe('toSubscriptionChange', () => {
+  const fixtures = createStripeFixtures({ clerkId: 'user_alice', now });
+
+  it('links the customer to the Clerk user on checkout', () => {
+    expect(toSubscriptionChange(fixtures.checkoutCompleted)).toMatchObject({
+      clerkId: 'user_alice',
+      stripeCustomerId: 'cus_fixture',
+      stripeSubscriptionId: 'sub_fixture',
+      tier: 'premium',
+      status: 'active',
+    });
+  });
+
+  it('extends premium to the end of the paid period', () => {
+    const change = toSubscriptionChange(fixtures.invoiceRenewed);
+
+    expect(change).toMatchObject({ tier: 'premium', status: 'active' });
+    expect(change?.expiresAt).toBe(now + 60 * 24 * 60 * 60 * 1000);
+  });
+
+  it('marks failed payments past due without changing the tier', () => {
+    const change = toSubscriptionChange(fixtures.paymentFailed);
+
+    expect(change).toMatchObject({ status: 'past_due' });
+    expect(change?.tier).toBeUndefined();
+    expect(change?.expiresAt).toBeUndefined();
+  });
+
+  it('reads the period end from subscription items', () => {
+    const change = toSubscriptionChange(fixtures.subscriptionCanceledAtPeriodEnd);
+
+    expect(change).toMatchObject({ tier: 'premium', expiresAt: now + 60 * 24 * 60 * 60 * 1000 });
+  });
+
+  it('downgrades on subscription deletion', () => {
+    expect(toSubscriptionChange(fixtures.subscriptionDeleted)).toMatchObject({ tier: 'free', status: 'canceled' });
+  });
+
+  it('ignores other events and one-off checkouts', () => {
+    const checkout = fixtures.checkoutCompleted;
+
+    expect(toSubscriptionChange({ ...checkout, type: 'charge.refunded' })).toBeNull();
+    expect(toSubscriptionChange({
+      ...checkout,
+      data: { object: { ...checkout.data.object, mode: 'payment' } },
+    })).toBeNull();
+  });
+});
+
+describe('getEffectiveTier', () => {
+  it('is free without a premium subscription', () => {
+    expect(getEffectiveTier({}, now)).toBe('free');
+    expect(getEffectiveTier({ subscription: { tier: 'free' } }, now)).toBe('free');
+  });
+
+  it('is premium until the subscription expires', () => {
+    const subscription = { tier: 'premium' as const, expiresAt: now + 1 };
+
+    expect(getEffectiveTier({ subscription }, now)).toBe('premium');
+    expect(getEffectiveTier({ subscription }, now + 1)).toBe('free');
+    expect(getEffectiveTier({ subscription: { tier: 'premium' } }, now)).toBe('premium');
+  });
+});
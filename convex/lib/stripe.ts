@@ -0,0 +1,244 @@
+/**
+ * Stripe Webhook Helpers
+ *
+ * Signature verification and the mapping from Stripe events to changes
+ * of `users.subscription`. Only the handful of fields the app needs are
+ * read from event payloads, so no Stripe SDK is required; verification
+ * uses Web Crypto, which is available in the default Convex runtime.
+ */
+
+import type { Subscription } from './subscription';
+import { hmacSha256, timingSafeEqual, toHex } from './crypto';
+
+// Signed timestamps further than this from now are rejected (replay protection)
+export const STRIPE_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+// Webhook idempotency records older than this are purged
+export const STRIPE_EVENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Minimal shape of a Stripe event
+ */
+export interface StripeEvent {
+  id: string;
+  type: string;
+  created: number; // seconds
+  data: {
+    object: Record<string, unknown>;
+  };
+}
+
+/**
+ * A subscription change derived from a Stripe event
+ *
+ * The user is found by `clerkId` when the event carries it (checkout),
+ * otherwise by `stripeCustomerId`. Fields left undefined are kept as they
+ * are on the user.
+ */
+export interface SubscriptionChange {
+  eventId: string;
+  eventType: string;
+  eventCreated: number; // milliseconds
+  stripeCustomerId: string;
+  clerkId?: string;
+  stripeSubscriptionId?: string;
+  tier?: Subscription['tier'];
+  status?: NonNullable<Subscription['status']>;
+  expiresAt?: number;
+}
+
+/**
+ * Build a `Stripe-Signature` header for a payload
+ *
+ * Used by tests and the local fixture replayer to sign events the way
+ * Stripe does.
+ */
+export async function signStripePayload(
+  payload: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000),
+): Promise<string> {
+  const signature = toHex(await hmacSha256(secret, `${timestamp}.${payload}`));
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Check a `Stripe-Signature` header against the raw request body
+ *
+ * The header is `t=<timestamp>,v1=<signature>[,v1=...]`; any v1 signature
+ * matching HMAC-SHA256(secret, "<timestamp>.<payload>") is accepted while
+ * the timestamp is within the tolerance.
+ *
+ * @param payload - Raw request body, exactly as received
+ * @param header - Value of the Stripe-Signature header
+ * @param secret - Endpoint signing secret (whsec_...)
+ * @param now - Current time in milliseconds
+ */
+export async function verifyStripeSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  now: number = Date.now(),
+): Promise<boolean> {
+  if (!header) {
+    return false;
+  }
+
+  let timestamp: number | undefined;
+  const signatures: string[] = [];
+  for (const part of header.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key === 't') {
+      timestamp = Number(value);
+    } else if (key === 'v1' && value) {
+      signatures.push(value);
+    }
+  }
+
+  if (timestamp === undefined || !Number.isFinite(timestamp) || signatures.length === 0) {
+    return false;
+  }
+
+  if (Math.abs(now / 1000 - timestamp) > STRIPE_SIGNATURE_TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = toHex(await hmacSha256(secret, `${timestamp}.${payload}`));
+  return signatures.some(signature => timingSafeEqual(signature, expected));
+}
+
+function getString(object: Record<string, unknown>, key: string): string | undefined {
+  const value = object[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Id of an expandable Stripe field, which is either an id or an object
+ */
+function getId(object: Record<string, unknown>, key: string): string | undefined {
+  const value = object[key];
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (value && typeof value === 'object' && 'id' in value && typeof value.id === 'string') {
+    return value.id;
+  }
+  return undefined;
+}
+
+function toMilliseconds(seconds: unknown): number | undefined {
+  return typeof seconds === 'number' ? seconds * 1000 : undefined;
+}
+
+/**
+ * Latest period end across an invoice's line items
+ */
+function getInvoicePeriodEnd(invoice: Record<string, unknown>): number | undefined {
+  const lines = invoice.lines as { data?: Array<{ period?: { end?: number } }> } | undefined;
+  const ends = (lines?.data ?? [])
+    .map(line => line.period?.end)
+    .filter((end): end is number => typeof end === 'number');
+
+  return ends.length > 0 ? Math.max(...ends) * 1000 : toMilliseconds(invoice.period_end);
+}
+
+/**
+ * Current period end of a subscription
+ *
+ * Newer API versions moved `current_period_end` onto subscription items.
+ */
+function getSubscriptionPeriodEnd(subscription: Record<string, unknown>): number | undefined {
+  const items = subscription.items as { data?: Array<{ current_period_end?: number }> } | undefined;
+  return toMilliseconds(subscription.current_period_end ?? items?.data?.[0]?.current_period_end);
+}
+
+/**
+ * Map a Stripe event to a subscription change
+ *
+ * - checkout.session.completed: links the Stripe customer to the user and
+ *   starts premium
+ * - invoice.paid: a (re)newed billing period; premium until it ends
+ * - invoice.payment_failed: marks the subscription past due; premium stays
+ *   until the paid period ends and Stripe's retries decide the rest
+ * - customer.subscription.updated: follows the subscription's status and
+ *   period end
+ * - customer.subscription.deleted: back to free
+ *
+ * @returns The change, or null for events the app does not act on
+ */
+export function toSubscriptionChange(event: StripeEvent): SubscriptionChange | null {
+  const object = event.data.object;
+  const stripeCustomerId = getId(object, 'customer');
+  if (!stripeCustomerId) {
+    return null;
+  }
+
+  const base = {
+    eventId: event.id,
+    eventType: event.type,
+    eventCreated: event.created * 1000,
+    stripeCustomerId,
+  };
+
+  switch (event.type) {
+    case 'checkout.session.completed':
+      if (getString(object, 'mode') !== 'subscription') {
+        return null;
+      }
+      return {
+        ...base,
+        clerkId: getString(object, 'client_reference_id'),
+        stripeSubscriptionId: getId(object, 'subscription'),
+        tier: 'premium',
+        status: 'active',
+      };
+
+    case 'invoice.paid':
+      return {
+        ...base,
+        stripeSubscriptionId: getId(object, 'subscription'),
+        tier: 'premium',
+        status: 'active',
+        expiresAt: getInvoicePeriodEnd(object),
+      };
+
+    case 'invoice.payment_failed':
+      return {
+        ...base,
+        stripeSubscriptionId: getId(object, 'subscription'),
+        status: 'past_due',
+      };
+
+    case 'customer.subscription.updated': {
+      const status = getString(object, 'status');
+      const change = {
+        ...base,
+        stripeSubscriptionId: getId(object, 'id'),
+        expiresAt: getSubscriptionPeriodEnd(object),
+      };
+
+      if (status === 'active' || status === 'trialing') {
+        return { ...change, tier: 'premium', status: 'active' };
+      }
+      if (status === 'past_due') {
+        return { ...change, status: 'past_due' };
+      }
+      if (status === 'canceled' || status === 'unpaid' || status === 'incomplete_expired') {
+        return { ...change, tier: 'free', status: 'canceled' };
+      }
+      return null;
+    }
+
+    case 'customer.subscription.deleted':
+      return {
+        ...base,
+        stripeSubscriptionId: getId(object, 'id'),
+        tier: 'free',
+        status: 'canceled',
+        expiresAt: toMilliseconds(object.ended_at) ?? base.eventCreated,
+      };
+
+    default:
+      return null;
+  }
+}
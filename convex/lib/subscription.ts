@@ -0,0 +1,37 @@
+/**
+ * Subscription Tiers
+ *
+ * `users.subscription` records what Stripe last told us; the tier a user
+ * actually gets is derived from it here. Every free/premium check goes
+ * through `getEffectiveTier`, so an expired premium subscription falls
+ * back to free even if no webhook arrived to downgrade it.
+ */
+
+import type { Doc } from '../_generated/dataModel';
+
+export type SubscriptionTier = 'free' | 'premium';
+
+export type Subscription = NonNullable<Doc<'users'>['subscription']>;
+
+/**
+ * Tier in effect for a user at `now`
+ *
+ * Premium without `expiresAt` (e.g. between checkout and the first
+ * invoice) is treated as active.
+ */
+export function getEffectiveTier(
+  user: Pick<Doc<'users'>, 'subscription'>,
+  now: number = Date.now(),
+): SubscriptionTier {
+  const subscription = user.subscription;
+
+  if (subscription?.tier !== 'premium') {
+    return 'free';
+  }
+
+  if (subscription.expiresAt !== undefined && subscription.expiresAt <= now) {
+    return 'free';
+  }
+
+  return 'premium';
+}
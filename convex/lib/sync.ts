@@ -0,0 +1,58 @@
+/**
+ * Offline Sync Helpers
+ *
+ * Idempotency bookkeeping for operations replayed from the client's
+ * offline outbox. Each replayed create, update or delete carries an
+ * idempotency key; the first time a key is seen its outcome is recorded in
+ * `syncOperations`, and later attempts with the same key return that
+ * outcome without touching the meal again.
+ */
+
+import type { MutationCtx } from '../_generated/server';
+import type { Doc, Id } from '../_generated/dataModel';
+
+// Idempotency records older than this are purged
+export const SYNC_OPERATION_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Find the recorded outcome of an idempotency key, if any
+ */
+export async function getSyncOperation(
+  ctx: MutationCtx,
+  userId: Id<'users'>,
+  idempotencyKey: string | undefined,
+): Promise<Doc<'syncOperations'> | null> {
+  if (!idempotencyKey) {
+    return null;
+  }
+
+  return await ctx.db
+    .query('syncOperations')
+    .withIndex('by_user_key', (q) => q.eq('userId', userId).eq('idempotencyKey', idempotencyKey))
+    .first();
+}
+
+/**
+ * Record the outcome of an operation carrying an idempotency key
+ *
+ * Operations without a key (regular online calls) are not recorded.
+ */
+export async function recordSyncOperation(
+  ctx: MutationCtx,
+  operation: Pick<Doc<'syncOperations'>, 'userId' | 'operation' | 'mealId' | 'status'> & {
+    idempotencyKey: string | undefined;
+  },
+) {
+  if (!operation.idempotencyKey) {
+    return;
+  }
+
+  await ctx.db.insert('syncOperations', {
+    userId: operation.userId,
+    idempotencyKey: operation.idempotencyKey,
+    operation: operation.operation,
+    mealId: operation.mealId,
+    status: operation.status,
+    createdAt: Date.now(),
+  });
+}
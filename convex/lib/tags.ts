@@ -0,0 +1,227 @@
+/**
+ * User Tag Bookkeeping
+ *
+ * Keeps `userTags` in step with the tags on a user's meals. Every meal
+ * write passes the tags before and after the change; tags that appear gain
+ * a use and tags that disappear lose one. A tag row whose count drops to
+ * zero is removed unless the user gave it a color or category.
+ *
+ * Rename and merge rewrite the `tags` array of every affected meal and
+ * fold the source rows into the target in the same mutation.
+ */
+
+import type { MutationCtx, QueryCtx } from '../_generated/server';
+import type { Doc, Id } from '../_generated/dataModel';
+
+/**
+ * Look up a user's row for a tag
+ */
+export async function getUserTag(ctx: QueryCtx, userId: Id<'users'>, tag: string) {
+  return await ctx.db
+    .query('userTags')
+    .withIndex('by_user_tag', (q) => q.eq('userId', userId).eq('tag', tag))
+    .first();
+}
+
+/**
+ * Whether the user customized a tag, so it is kept without uses
+ */
+function isCustomized(tag: Doc<'userTags'>) {
+  return tag.color !== undefined || tag.category !== undefined;
+}
+
+/**
+ * Add `delta` uses to a tag, creating or removing its row as needed
+ */
+async function adjustTagUsage(
+  ctx: MutationCtx,
+  userId: Id<'users'>,
+  tag: string,
+  delta: number,
+  now: number,
+) {
+  const existing = await getUserTag(ctx, userId, tag);
+
+  if (!existing) {
+    if (delta > 0) {
+      await ctx.db.insert('userTags', {
+        userId,
+        tag,
+        usageCount: delta,
+        lastUsedAt: now,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+    return;
+  }
+
+  const usageCount = Math.max(0, existing.usageCount + delta);
+  if (usageCount === 0 && !isCustomized(existing)) {
+    await ctx.db.delete(existing._id);
+    return;
+  }
+
+  await ctx.db.patch(existing._id, {
+    usageCount,
+    lastUsedAt: delta > 0 ? now : existing.lastUsedAt,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Update tag usage after a meal's tags changed
+ *
+ * @param before - Tags before the write (empty when the meal was created)
+ * @param after - Tags after the write (empty when the meal was deleted)
+ */
+export async function applyTagUsageChange(
+  ctx: MutationCtx,
+  userId: Id<'users'>,
+  before: string[],
+  after: string[],
+) {
+  const previous = new Set(before);
+  const next = new Set(after);
+  const now = Date.now();
+
+  for (const tag of next) {
+    if (!previous.has(tag)) {
+      await adjustTagUsage(ctx, userId, tag, 1, now);
+    }
+  }
+  for (const tag of previous) {
+    if (!next.has(tag)) {
+      await adjustTagUsage(ctx, userId, tag, -1, now);
+    }
+  }
+}
+
+/**
+ * Replace `sources` with `target` on every meal of the user
+ *
+ * Used for both rename (one source) and merge (several). Usage counts are
+ * recounted from the rewritten meals; the target keeps its own color and
+ * category, falling back to the first source that has them.
+ *
+ * @returns Number of meals rewritten
+ */
+export async function rewriteTags(
+  ctx: MutationCtx,
+  userId: Id<'users'>,
+  sources: string[],
+  target: string,
+) {
+  const sourceSet = new Set(sources.filter(source => source !== target));
+  const now = Date.now();
+  let mealsUpdated = 0;
+  let targetUses = 0;
+  let lastUsedAt = 0;
+
+  const meals = await ctx.db
+    .query('meals')
+    .withIndex('by_user', (q) => q.eq('userId', userId))
+    .collect();
+
+  for (const meal of meals) {
+    const hasSource = meal.tags.some(tag => sourceSet.has(tag));
+    if (hasSource) {
+      const tags = Array.from(new Set(meal.tags.map(tag => (sourceSet.has(tag) ? target : tag))));
+      await ctx.db.patch(meal._id, { tags, updatedAt: now });
+      mealsUpdated++;
+    }
+    if (hasSource || meal.tags.includes(target)) {
+      targetUses++;
+      lastUsedAt = Math.max(lastUsedAt, meal.updatedAt);
+    }
+  }
+
+  // Fold the source rows into the target row
+  const existingTarget = await getUserTag(ctx, userId, target);
+  let color = existingTarget?.color;
+  let category = existingTarget?.category;
+  for (const source of sourceSet) {
+    const row = await getUserTag(ctx, userId, source);
+    if (row) {
+      color = color ?? row.color;
+      category = category ?? row.category;
+      lastUsedAt = Math.max(lastUsedAt, row.lastUsedAt);
+      await ctx.db.delete(row._id);
+    }
+  }
+
+  if (existingTarget) {
+    await ctx.db.patch(existingTarget._id, {
+      usageCount: targetUses,
+      lastUsedAt: Math.max(existingTarget.lastUsedAt, lastUsedAt),
+      color,
+      category,
+      updatedAt: now,
+    });
+  } else if (targetUses > 0 || color !== undefined || category !== undefined) {
+    await ctx.db.insert('userTags', {
+      userId,
+      tag: target,
+      usageCount: targetUses,
+      lastUsedAt: lastUsedAt || now,
+      color,
+      category,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  return mealsUpdated;
+}
+
+/**
+ * Rebuild a user's tag usage counts from their meals
+ *
+ * Colors and categories are preserved; uncustomized tags no meal uses are
+ * removed.
+ */
+export async function recomputeTagUsage(ctx: MutationCtx, userId: Id<'users'>) {
+  const meals = await ctx.db
+    .query('meals')
+    .withIndex('by_user', (q) => q.eq('userId', userId))
+    .collect();
+
+  const usage = new Map<string, { count: number; lastUsedAt: number }>();
+  for (const meal of meals) {
+    for (const tag of new Set(meal.tags)) {
+      const entry = usage.get(tag) ?? { count: 0, lastUsedAt: 0 };
+      usage.set(tag, { count: entry.count + 1, lastUsedAt: Math.max(entry.lastUsedAt, meal.updatedAt) });
+    }
+  }
+
+  const now = Date.now();
+  const rows = await ctx.db
+    .query('userTags')
+    .withIndex('by_user', (q) => q.eq('userId', userId))
+    .collect();
+
+  for (const row of rows) {
+    const entry = usage.get(row.tag);
+    usage.delete(row.tag);
+    if (!entry && !isCustomized(row)) {
+      await ctx.db.delete(row._id);
+    } else {
+      await ctx.db.patch(row._id, {
+        usageCount: entry?.count ?? 0,
+        lastUsedAt: entry?.lastUsedAt ?? row.lastUsedAt,
+        updatedAt: now,
+      });
+    }
+  }
+
+  for (const [tag, entry] of usage) {
+    await ctx.db.insert('userTags', {
+      userId,
+      tag,
+      usageCount: entry.count,
+      lastUsedAt: entry.lastUsedAt,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { MEAL_LIMITS, validateBudgetInput, validateMealInput, validatePhotoUpload } from './validation';
+import { ENTITLEMENTS } from './entitlements';
+
+describe('validateMealInput', () => {
+  it('accepts a valid meal', () => {
+    const errors = validateMealInput(
+      { title: 'Ramen', rating: 8, description: 'Rich broth', price: 12.5, tags: ['noodles'] },
+      { tier: 'free' },
+    );
+    expect(errors).toEqual([]);
+  });
+
+  it('skips fields that are not provided', () => {
+    expect(validateMealInput({}, { tier: 'free' })).toEqual([]);
+  });
+
+  it('reports each invalid field', () => {
+    const errors = validateMealInput(
+      {
+        title: '   ',
+        rating: 11,
+        description: 'x'.repeat(MEAL_LIMITS.descriptionMaxLength + 1),
+        price: -1,
+      },
+      { tier: 'free' },
+    );
+    expect(errors.map(error => error.field)).toEqual(['title', 'rating', 'description', 'price']);
+  });
+
+  it('limits tags on the free tier only', () => {
+    const tags = ['a', 'b', 'c', 'd'];
+    expect(validateMealInput({ tags }, { tier: 'free' })).toEqual([
+      expect.objectContaining({ field: 'tags', entitlement: expect.objectContaining({ code: 'TAG_LIMIT' }) }),
+    ]);
+    expect(validateMealInput({ tags }, { tier: 'premium' })).toEqual([]);
+  });
+
+  it('accepts extended details on premium only', () => {
+    const details = { cuisine: 'Japanese', spiceLevel: 3, companions: ['Sam'], wouldOrderAgain: false };
+
+    expect(validateMealInput(details, { tier: 'premium' })).toEqual([]);
+    expect(validateMealInput(details, { tier: 'free' })).toEqual([
+      expect.objectContaining({
+        field: 'cuisine',
+        entitlement: expect.objectContaining({ code: 'EXTENDED_MEAL_FIELDS' }),
+      }),
+    ]);
+  });
+
+  it('reports each invalid extended detail', () => {
+    const errors = validateMealInput(
+      {
+        cuisine: 'x'.repeat(MEAL_LIMITS.cuisineMaxLength + 1),
+        notes: 'x'.repeat(MEAL_LIMITS.notesMaxLength + 1),
+        servingSize: 'huge' as never,
+        spiceLevel: 6,
+        valueForMoney: 2.5,
+        companions: Array.from({ length: MEAL_LIMITS.companionsMaxCount + 1 }, (_, index) => `Friend ${index}`),
+      },
+      { tier: 'premium' },
+    );
+    expect(errors.map(error => error.field)).toEqual([
+      'cuisine',
+      'notes',
+      'servingSize',
+      'spiceLevel',
+      'valueForMoney',
+      'companions',
+    ]);
+  });
+});
+
+describe('validatePhotoUpload', () => {
+  const photo = { size: 1024, mimeType: 'image/jpeg', existingPhotoCount: 0 };
+
+  it('accepts an image within the limits', () => {
+    expect(validatePhotoUpload(photo, { tier: 'free' })).toBeNull();
+  });
+
+  it('rejects unsupported file types', () => {
+    expect(validatePhotoUpload({ ...photo, mimeType: 'image/gif' }, { tier: 'premium' })?.message)
+      .toContain('JPEG, PNG, WebP or HEIC');
+  });
+
+  it('applies per-tier photo counts', () => {
+    expect(validatePhotoUpload({ ...photo, existingPhotoCount: 1 }, { tier: 'free' })?.message)
+      .toContain('Free tier limited to 1 photo');
+    expect(validatePhotoUpload({ ...photo, existingPhotoCount: 4 }, { tier: 'premium' }))
+      .toBeNull();
+    expect(validatePhotoUpload({ ...photo, existingPhotoCount: 5 }, { tier: 'premium' })?.message)
+      .toContain('at most 5 photos');
+  });
+
+  it('applies per-tier file size caps', () => {
+    const size = ENTITLEMENTS.free.maxPhotoSize + 1;
+    expect(validatePhotoUpload({ ...photo, size }, { tier: 'free' })?.message).toContain('5MB');
+    expect(validatePhotoUpload({ ...photo, size }, { tier: 'premium' })).toBeNull();
+    expect(validatePhotoUpload(
+      { ...photo, size: ENTITLEMENTS.premium.maxPhotoSize + 1 },
+      { tier: 'premium' },
+    )?.message).toContain('10MB');
+  });
+});
+
+describe('validateBudgetInput', () => {
+  it('accepts a valid budget', () => {
+    expect(validateBudgetInput({
+      name: 'Eating out',
+      amount: 400,
+      currency: 'USD',
+      tag: 'lunch',
+      alertThresholds: [80, 100],
+    })).toBeNull();
+  });
+
+  it('rejects bad amounts, currencies and thresholds', () => {
+    expect(validateBudgetInput({ name: '  ' })).toBe('Budget name is required');
+    expect(validateBudgetInput({ amount: 0 })).toMatch('Budget amount');
+    expect(validateBudgetInput({ amount: 1_000_000 })).toMatch('Budget amount');
+    expect(validateBudgetInput({ currency: 'usd' })).toMatch('3-letter');
+    expect(validateBudgetInput({ alertThresholds: [80.5] })).toMatch('whole percentages');
+    expect(validateBudgetInput({ alertThresholds: [10, 20, 30, 40, 50, 60] })).toMatch('at most 5');
+  });
+});
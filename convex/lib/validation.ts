@@ -0,0 +1,441 @@
+/**
+ * Meal Validation
+ *
+ * Validation rules for meal and photo input, shared by the Convex mutations
+ * and the React forms so both enforce the same limits and report the same
+ * messages. Kept free of Convex server imports so the client can bundle it.
+ *
+ * Tier limits come from `entitlements.ts`; issues caused by them carry the
+ * violation so the server can throw it as an `EntitlementError`.
+ */
+
+import {
+  checkExtendedMealFields,
+  checkPhotoLimit,
+  checkPhotoSize,
+  checkTagLimit,
+  EntitlementError,
+  type EntitlementViolation,
+} from './entitlements';
+import type { SubscriptionTier } from './subscription';
+
+/**
+ * Field limits enforced on meal input
+ */
+export const MEAL_LIMITS = {
+  titleMaxLength: 100,
+  descriptionMaxLength: 500,
+  ratingMin: 1,
+  ratingMax: 10,
+  cuisineMaxLength: 50,
+  dishTypeMaxLength: 50,
+  notesMaxLength: 1000,
+  occasionMaxLength: 50,
+  companionsMaxCount: 10,
+  companionMaxLength: 50,
+  spiceLevelMin: 1,
+  spiceLevelMax: 5,
+  valueForMoneyMin: 1,
+  valueForMoneyMax: 5,
+} as const;
+
+/**
+ * Portion sizes a meal can be recorded with
+ */
+export const SERVING_SIZES = ['small', 'medium', 'large', 'sharing'] as const;
+
+export type ServingSize = typeof SERVING_SIZES[number];
+
+/**
+ * Extended meal details from the PRD data model, available on premium
+ */
+export const EXTENDED_MEAL_FIELDS = [
+  'cuisine',
+  'dishType',
+  'servingSize',
+  'spiceLevel',
+  'notes',
+  'occasion',
+  'companions',
+  'isRecommended',
+  'wouldOrderAgain',
+  'valueForMoney',
+] as const;
+
+export type ExtendedMealField = typeof EXTENDED_MEAL_FIELDS[number];
+
+/**
+ * Meal fields subject to validation
+ *
+ * Fields left undefined are skipped, so the same function validates both
+ * full creates and partial updates.
+ */
+export interface MealInputToValidate {
+  title?: string;
+  rating?: number;
+  description?: string;
+  price?: number;
+  tags?: string[];
+  cuisine?: string;
+  dishType?: string;
+  servingSize?: ServingSize;
+  spiceLevel?: number;
+  notes?: string;
+  occasion?: string;
+  companions?: string[];
+  isRecommended?: boolean;
+  wouldOrderAgain?: boolean;
+  valueForMoney?: number;
+}
+
+/**
+ * A validation failure; `entitlement` is set when a tier limit caused it
+ */
+export interface ValidationIssue {
+  message: string;
+  entitlement?: EntitlementViolation;
+}
+
+/**
+ * A single validation failure, keyed by the offending field
+ */
+export interface MealValidationError extends ValidationIssue {
+  field: keyof MealInputToValidate;
+}
+
+/**
+ * Throw a validation issue from a Convex function
+ *
+ * Tier limits are thrown as an EntitlementError so the client can offer an
+ * upgrade; other issues as a plain error.
+ */
+export function throwValidationIssue(issue: ValidationIssue): never {
+  if (issue.entitlement) {
+    throw new EntitlementError(issue.entitlement);
+  }
+  throw new Error(issue.message);
+}
+
+function isIntegerInRange(value: number, min: number, max: number): boolean {
+  return Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Validate meal input against MEAL_LIMITS and the tier's limits
+ *
+ * Extended fields are only accepted on tiers that include them; leaving
+ * one undefined (or companions empty) is always allowed.
+ *
+ * @param input - Meal fields to check
+ * @param options.tier - Subscription tier whose limits apply
+ * @returns List of validation errors, empty when the input is valid
+ */
+export function validateMealInput(
+  input: MealInputToValidate,
+  options: { tier: SubscriptionTier },
+): MealValidationError[] {
+  const errors: MealValidationError[] = [];
+
+  if (input.title !== undefined) {
+    if (input.title.trim().length === 0) {
+      errors.push({ field: 'title', message: 'Meal title is required' });
+    } else if (input.title.length > MEAL_LIMITS.titleMaxLength) {
+      errors.push({
+        field: 'title',
+        message: `Meal title must be ${MEAL_LIMITS.titleMaxLength} characters or less`,
+      });
+    }
+  }
+
+  if (input.rating !== undefined) {
+    if (
+      !Number.isFinite(input.rating) ||
+      input.rating < MEAL_LIMITS.ratingMin ||
+      input.rating > MEAL_LIMITS.ratingMax
+    ) {
+      errors.push({
+        field: 'rating',
+        message: `Rating must be between ${MEAL_LIMITS.ratingMin} and ${MEAL_LIMITS.ratingMax}`,
+      });
+    }
+  }
+
+  if (input.description !== undefined && input.description.length > MEAL_LIMITS.descriptionMaxLength) {
+    errors.push({
+      field: 'description',
+      message: `Description must be ${MEAL_LIMITS.descriptionMaxLength} characters or less`,
+    });
+  }
+
+  if (input.price !== undefined && (!Number.isFinite(input.price) || input.price < 0)) {
+    errors.push({ field: 'price', message: 'Price cannot be negative' });
+  }
+
+  const tagViolation = input.tags !== undefined ? checkTagLimit(options.tier, input.tags.length) : null;
+  if (tagViolation) {
+    errors.push({ field: 'tags', message: tagViolation.message, entitlement: tagViolation });
+  }
+
+  const extendedFields = EXTENDED_MEAL_FIELDS.filter(field => {
+    const value = input[field];
+    return Array.isArray(value) ? value.length > 0 : value !== undefined;
+  });
+  const extendedViolation = checkExtendedMealFields(options.tier, extendedFields);
+  if (extendedViolation) {
+    errors.push({ field: extendedFields[0], message: extendedViolation.message, entitlement: extendedViolation });
+    return errors;
+  }
+
+  const textLimits = [
+    ['cuisine', 'Cuisine', MEAL_LIMITS.cuisineMaxLength],
+    ['dishType', 'Dish type', MEAL_LIMITS.dishTypeMaxLength],
+    ['notes', 'Notes', MEAL_LIMITS.notesMaxLength],
+    ['occasion', 'Occasion', MEAL_LIMITS.occasionMaxLength],
+  ] as const;
+  for (const [field, label, maxLength] of textLimits) {
+    if ((input[field]?.length ?? 0) > maxLength) {
+      errors.push({ field, message: `${label} must be ${maxLength} characters or less` });
+    }
+  }
+
+  if (input.servingSize !== undefined && !SERVING_SIZES.includes(input.servingSize)) {
+    errors.push({ field: 'servingSize', message: `Serving size must be one of ${SERVING_SIZES.join(', ')}` });
+  }
+
+  if (
+    input.spiceLevel !== undefined &&
+    !isIntegerInRange(input.spiceLevel, MEAL_LIMITS.spiceLevelMin, MEAL_LIMITS.spiceLevelMax)
+  ) {
+    errors.push({
+      field: 'spiceLevel',
+      message: `Spice level must be between ${MEAL_LIMITS.spiceLevelMin} and ${MEAL_LIMITS.spiceLevelMax}`,
+    });
+  }
+
+  if (
+    input.valueForMoney !== undefined &&
+    !isIntegerInRange(input.valueForMoney, MEAL_LIMITS.valueForMoneyMin, MEAL_LIMITS.valueForMoneyMax)
+  ) {
+    errors.push({
+      field: 'valueForMoney',
+      message: `Value for money must be between ${MEAL_LIMITS.valueForMoneyMin} and ${MEAL_LIMITS.valueForMoneyMax}`,
+    });
+  }
+
+  if (input.companions !== undefined) {
+    if (input.companions.length > MEAL_LIMITS.companionsMaxCount) {
+      errors.push({
+        field: 'companions',
+        message: `A meal can have at most ${MEAL_LIMITS.companionsMaxCount} companions`,
+      });
+    } else if (input.companions.some(name => name.trim().length === 0 || name.length > MEAL_LIMITS.companionMaxLength)) {
+      errors.push({
+        field: 'companions',
+        message: `Companion names must be 1 to ${MEAL_LIMITS.companionMaxLength} characters`,
+      });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Image types accepted for meal photos; count and size limits per tier are
+ * in `entitlements.ts`
+ */
+export const ALLOWED_PHOTO_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'] as const;
+
+/**
+ * Photo upload fields subject to validation
+ */
+export interface PhotoUploadToValidate {
+  size: number; // bytes
+  mimeType: string;
+  existingPhotoCount: number; // photos already attached to the meal
+}
+
+/**
+ * Validate a photo upload against the accepted types and the tier's limits
+ *
+ * @param upload - File details and the meal's current photo count
+ * @param options.tier - Subscription tier whose limits apply
+ * @returns First validation issue, or null when the upload is allowed
+ */
+export function validatePhotoUpload(
+  upload: PhotoUploadToValidate,
+  options: { tier: SubscriptionTier },
+): ValidationIssue | null {
+  if (!(ALLOWED_PHOTO_MIME_TYPES as readonly string[]).includes(upload.mimeType)) {
+    return { message: 'Photos must be JPEG, PNG, WebP or HEIC images' };
+  }
+
+  const violation = checkPhotoLimit(options.tier, upload.existingPhotoCount)
+    ?? checkPhotoSize(options.tier, upload.size);
+
+  return violation && { message: violation.message, entitlement: violation };
+}
+
+/**
+ * Limits on tag names and tag metadata
+ */
+export const TAG_LIMITS = {
+  nameMaxLength: 30,
+  categoryMaxLength: 30,
+} as const;
+
+/**
+ * Normalize a tag the way meals store it (trimmed, lowercase)
+ */
+export function normalizeTag(tag: string): string {
+  return tag.trim().toLowerCase();
+}
+
+/**
+ * Validate a tag name, returning an error message or null when valid
+ */
+export function validateTagName(tag: string): string | null {
+  const normalized = normalizeTag(tag);
+
+  if (normalized.length === 0) {
+    return 'Tag name is required';
+  }
+  if (normalized.length > TAG_LIMITS.nameMaxLength) {
+    return `Tags must be ${TAG_LIMITS.nameMaxLength} characters or less`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate tag metadata, returning an error message or null when valid
+ *
+ * Empty strings are allowed; they clear the color or category.
+ */
+export function validateTagMetadata(metadata: { color?: string; category?: string }): string | null {
+  if (metadata.color && !/^#[0-9a-f]{6}$/i.test(metadata.color)) {
+    return 'Tag colors must be hex colors like #ff8800';
+  }
+  if (metadata.category && metadata.category.trim().length > TAG_LIMITS.categoryMaxLength) {
+    return `Tag categories must be ${TAG_LIMITS.categoryMaxLength} characters or less`;
+  }
+
+  return null;
+}
+
+/**
+ * Limits on a user's place data
+ */
+export const PLACE_LIMITS = {
+  notesMaxLength: 1000,
+} as const;
+
+/**
+ * Validate personal notes on a place, returning an error message or null when valid
+ */
+export function validatePlaceNotes(notes: string): string | null {
+  if (notes.trim().length > PLACE_LIMITS.notesMaxLength) {
+    return `Place notes must be ${PLACE_LIMITS.notesMaxLength} characters or less`;
+  }
+
+  return null;
+}
+
+/**
+ * Budget periods; each budget resets at the start of its period in the
+ * user's timezone
+ */
+export const BUDGET_PERIODS = ['weekly', 'monthly', 'yearly'] as const;
+
+export type BudgetPeriod = typeof BUDGET_PERIODS[number];
+
+/**
+ * Limits on budget input
+ */
+export const BUDGET_LIMITS = {
+  nameMaxLength: 50,
+  amountMax: 999999.99,
+  alertThresholdsMaxCount: 5,
+  alertThresholdMax: 200, // percent of the budget
+} as const;
+
+/**
+ * Budget fields to check; undefined fields are skipped, so updates can be
+ * validated with only the fields they change
+ */
+export interface BudgetInputToValidate {
+  name?: string;
+  amount?: number;
+  currency?: string;
+  tag?: string;
+  alertThresholds?: number[];
+}
+
+/**
+ * Validate budget input, returning an error message or null when valid
+ */
+export function validateBudgetInput(input: BudgetInputToValidate): string | null {
+  if (input.name !== undefined) {
+    if (input.name.trim().length === 0) {
+      return 'Budget name is required';
+    }
+    if (input.name.trim().length > BUDGET_LIMITS.nameMaxLength) {
+      return `Budget names must be ${BUDGET_LIMITS.nameMaxLength} characters or less`;
+    }
+  }
+
+  if (
+    input.amount !== undefined &&
+    (!Number.isFinite(input.amount) || input.amount <= 0 || input.amount > BUDGET_LIMITS.amountMax)
+  ) {
+    return `Budget amount must be more than 0 and at most ${BUDGET_LIMITS.amountMax}`;
+  }
+
+  if (input.currency !== undefined && !/^[A-Z]{3}$/.test(input.currency)) {
+    return 'Currency must be a 3-letter ISO code like USD';
+  }
+
+  if (input.tag !== undefined) {
+    const tagError = validateTagName(input.tag);
+    if (tagError) {
+      return tagError;
+    }
+  }
+
+  if (input.alertThresholds !== undefined) {
+    if (input.alertThresholds.length > BUDGET_LIMITS.alertThresholdsMaxCount) {
+      return `A budget can have at most ${BUDGET_LIMITS.alertThresholdsMaxCount} alert thresholds`;
+    }
+    if (input.alertThresholds.some(threshold => !isIntegerInRange(threshold, 1, BUDGET_LIMITS.alertThresholdMax))) {
+      return `Alert thresholds must be whole percentages from 1 to ${BUDGET_LIMITS.alertThresholdMax}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Limits on meal imports
+ */
+export const IMPORT_LIMITS = {
+  maxRows: 20000, // per import job
+  stageBatchSize: 200, // rows per addImportRows call
+  importBatchSize: 50, // rows imported per scheduled run
+  reportMaxEntries: 1000, // skipped rows listed in the report
+} as const;
+
+/**
+ * Check an imported meal against the `createMeal` rules for a tier
+ *
+ * @returns The first problem found, or null when the meal can be imported
+ */
+export function validateImportedMeal(
+  meal: MealInputToValidate & { mealDate: number },
+  tier: SubscriptionTier,
+): string | null {
+  if (!Number.isFinite(meal.mealDate)) {
+    return 'Meal date is invalid';
+  }
+
+  const errors = validateMealInput(meal, { tier });
+  return errors.length > 0 ? errors[0].message : null;
+}
@@ -0,0 +1,56 @@
+/**
+ * Shared Validators
+ *
+ * Argument and field validators used by both the schema and function
+ * modules. Kept free of runtime imports besides `convex/values`, so the
+ * schema can use them without loading the function helpers.
+ */
+
+import { v, type Infer } from 'convex/values';
+
+/**
+ * A new meal, as accepted by `insertMeal` (see lib/meals.ts)
+ */
+export const newMealValidator = v.object({
+  title: v.string(),
+  rating: v.number(), // 1-10 scale
+  mealType: v.union(
+    v.literal('breakfast'),
+    v.literal('lunch'),
+    v.literal('dinner'),
+    v.literal('snack'),
+  ),
+  description: v.optional(v.string()),
+  price: v.optional(v.number()),
+  currency: v.optional(v.string()),
+  tags: v.array(v.string()),
+  location: v.optional(v.object({
+    name: v.string(),
+    address: v.optional(v.string()),
+    coordinates: v.optional(v.object({
+      lat: v.number(),
+      lng: v.number(),
+    })),
+    placeId: v.optional(v.string()),
+  })),
+  mealDate: v.number(), // timestamp
+
+  // Extended details (premium only)
+  cuisine: v.optional(v.string()),
+  dishType: v.optional(v.string()),
+  servingSize: v.optional(v.union(
+    v.literal('small'),
+    v.literal('medium'),
+    v.literal('large'),
+    v.literal('sharing'),
+  )),
+  spiceLevel: v.optional(v.number()),
+  notes: v.optional(v.string()),
+  occasion: v.optional(v.string()),
+  companions: v.optional(v.array(v.string())),
+  isRecommended: v.optional(v.boolean()),
+  wouldOrderAgain: v.optional(v.boolean()),
+  valueForMoney: v.optional(v.number()),
+});
+
+export type NewMeal = Infer<typeof newMealValidator>;
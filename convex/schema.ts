@@ -13,6 +13,7 @@
 
 import { defineSchema, defineTable } from 'convex/server';
 import { v } from 'convex/values';
+import { newMealValidator } from './lib/validators';
 
 export default defineSchema({
   /**
@@ -24,7 +25,7 @@ export default defineSchema({
     clerkId: v.string(),
     
     // Profile information
-    email: v.string(),
+    email: v.optional(v.string()), // Verified address from Clerk, if any
     firstName: v.optional(v.string()),
     lastName: v.optional(v.string()),
     profileImageUrl: v.optional(v.string()),
@@ -38,7 +39,7 @@ export default defineSchema({
         v.literal('dinner'),
         v.literal('snack'),
       )),
-      currency: v.optional(v.string()), // ISO currency code (USD, EUR, etc.)
+      currency: v.optional(v.string()), // home currency, ISO code (USD, EUR, etc.)
       timezone: v.optional(v.string()), // IANA timezone
     })),
     
@@ -47,23 +48,42 @@ export default defineSchema({
       tier: v.union(v.literal('free'), v.literal('premium')),
       expiresAt: v.optional(v.number()), // timestamp
       stripeCustomerId: v.optional(v.string()),
+      stripeSubscriptionId: v.optional(v.string()),
+      status: v.optional(v.union(
+        v.literal('active'),
+        v.literal('past_due'), // last renewal payment failed
+        v.literal('canceled'),
+      )),
+      updatedAt: v.optional(v.number()), // Stripe `created` of the last applied event
     })),
     
     // User statistics (cached for performance)
     stats: v.optional(v.object({
       totalMeals: v.number(),
       averageRating: v.number(),
-      totalSpent: v.number(),
+      totalSpent: v.number(), // in the home currency
       favoriteRestaurant: v.optional(v.string()),
       lastMealDate: v.optional(v.number()), // timestamp
+      ratingSum: v.optional(v.number()), // exact total behind averageRating
+      restaurantCounts: v.optional(v.array(v.object({ // meals per location name
+        name: v.string(),
+        count: v.number(),
+      }))),
     })),
     
+    // Bumped on every meal change to invalidate analyticsCache entries
+    analyticsVersion: v.optional(v.number()),
+
+    // Bytes of meal photos in file storage, kept by lib/storage.ts
+    storageUsed: v.optional(v.number()),
+    
     // Timestamps
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index('by_clerk_id', ['clerkId'])
-    .index('by_email', ['email']),
+    .index('by_email', ['email'])
+    .index('by_stripe_customer', ['subscription.stripeCustomerId']),
 
   /**
    * Meals table - Core meal logging data
@@ -85,8 +105,10 @@ export default defineSchema({
     
     // Optional meal details
     description: v.optional(v.string()), // max 500 characters
-    price: v.optional(v.number()), // in user's currency
+    price: v.optional(v.number()), // in `currency`
     currency: v.optional(v.string()), // ISO currency code
+    homePrice: v.optional(v.number()), // price in `homeCurrency` at the rate on the meal date
+    homeCurrency: v.optional(v.string()), // user's home currency when converted
     
     // Location information
     location: v.optional(v.object({
@@ -99,6 +121,23 @@ export default defineSchema({
       placeId: v.optional(v.string()), // Google Places ID
     })),
     
+    // Extended meal details (premium only, limits in lib/validation.ts)
+    cuisine: v.optional(v.string()), // "Italian", "Japanese", etc.
+    dishType: v.optional(v.string()), // "Pizza", "Sushi", etc.
+    servingSize: v.optional(v.union(
+      v.literal('small'),
+      v.literal('medium'),
+      v.literal('large'),
+      v.literal('sharing'),
+    )),
+    spiceLevel: v.optional(v.number()), // 1-5 scale
+    notes: v.optional(v.string()), // private notes, max 1000 characters
+    occasion: v.optional(v.string()), // "birthday", "date", "business", etc.
+    companions: v.optional(v.array(v.string())), // who you ate with, max 10
+    isRecommended: v.optional(v.boolean()), // would recommend to others
+    wouldOrderAgain: v.optional(v.boolean()),
+    valueForMoney: v.optional(v.number()), // 1-5 scale
+    
     // Tags (free: max 3, premium: unlimited)
     tags: v.array(v.string()),
     
@@ -110,6 +149,12 @@ export default defineSchema({
       isPrimary: v.boolean(), // One primary photo per meal
     })),
     
+    // Place the location resolved to (location.placeId is the Google Places ID)
+    placeId: v.optional(v.id('places')),
+    
+    // Title, description, location name and extended details combined for full-text search
+    searchText: v.optional(v.string()),
+    
     // Social features (Phase 3)
     isPublic: v.boolean(),
     allowComments: v.boolean(),
@@ -134,10 +179,11 @@ export default defineSchema({
     .index('by_user_date', ['userId', 'mealDate'])
     .index('by_user_type', ['userId', 'mealType'])
     .index('by_user_rating', ['userId', 'rating'])
+    .index('by_place_date', ['placeId', 'mealDate'])
     .index('by_sync_status', ['syncStatus'])
     .index('by_public', ['isPublic'])
     .searchIndex('search_meals', {
-      searchField: 'title',
+      searchField: 'searchText',
       filterFields: ['userId', 'mealType', 'tags'],
     }),
 
@@ -179,8 +225,162 @@ export default defineSchema({
     .index('by_meal', ['mealId'])
     .index('by_user', ['userId'])
     .index('by_meal_order', ['mealId', 'order'])
+    .index('by_storage', ['storageId'])
     .index('by_processing_status', ['processingStatus']),
 
+  /**
+   * Places table - Restaurants and other places a user has eaten at
+   * One row per user and place, shared by every meal logged there; meal
+   * locations are matched to rows by lib/places.ts
+   */
+  places: defineTable({
+    userId: v.id('users'),
+    
+    // Place details, from the first meal logged there
+    name: v.string(),
+    normalizedName: v.string(), // Dedupe key, see normalizePlaceName
+    address: v.optional(v.string()),
+    coordinates: v.optional(v.object({
+      lat: v.number(),
+      lng: v.number(),
+    })),
+    googlePlaceId: v.optional(v.string()), // Google Places ID
+    
+    // Visit statistics, kept in step with the place's meals
+    visitCount: v.number(),
+    ratingSum: v.number(),
+    totalSpent: v.number(), // in the home currency
+    lastVisitAt: v.optional(v.number()), // timestamp
+    
+    // Personal data
+    notes: v.optional(v.string()), // max 1000 characters
+    isFavorite: v.boolean(),
+    
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index('by_user', ['userId'])
+    .index('by_user_name', ['userId', 'normalizedName'])
+    .index('by_user_google_place', ['userId', 'googlePlaceId']),
+
+  /**
+   * Budgets table - Spending limits per week, month or year
+   * Spending is computed from the meals in the current period (see
+   * lib/budgets.ts), optionally limited to one meal type or tag
+   */
+  budgets: defineTable({
+    userId: v.id('users'),
+    
+    // Budget definition
+    name: v.string(), // max 50 characters
+    amount: v.number(), // in `currency`, max 999999.99
+    currency: v.string(), // ISO currency code
+    period: v.union(
+      v.literal('weekly'),
+      v.literal('monthly'),
+      v.literal('yearly'),
+    ),
+    
+    // Optional scope; meals outside it do not count
+    mealType: v.optional(v.union(
+      v.literal('breakfast'),
+      v.literal('lunch'),
+      v.literal('dinner'),
+      v.literal('snack'),
+    )),
+    tag: v.optional(v.string()), // normalized tag
+    
+    // Percentages of the amount that raise an alert, ascending
+    alertThresholds: v.array(v.number()),
+    isActive: v.boolean(),
+    
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index('by_user', ['userId']),
+
+  /**
+   * Budget alerts table - In-app alerts for budget thresholds
+   * At most one alert per budget, period and threshold
+   */
+  budgetAlerts: defineTable({
+    userId: v.id('users'),
+    budgetId: v.id('budgets'),
+    periodStart: v.number(), // timestamp of the budget period the alert belongs to
+    threshold: v.number(), // percent crossed
+    spent: v.number(), // spending when the threshold was crossed
+    dismissedAt: v.optional(v.number()),
+    createdAt: v.number(),
+  })
+    .index('by_user', ['userId'])
+    .index('by_budget_period', ['budgetId', 'periodStart']),
+
+  /**
+   * Exchange rates table - Daily reference rates for currency conversion
+   * Units of each currency per euro, synced daily (see lib/exchangeRates.ts)
+   */
+  exchangeRates: defineTable({
+    date: v.string(), // YYYY-MM-DD the rate was published for
+    currency: v.string(), // ISO currency code
+    rate: v.number(), // units of `currency` per euro
+    source: v.string(), // provider name
+    fetchedAt: v.number(),
+  })
+    .index('by_currency_date', ['currency', 'date']),
+
+  /**
+   * Import jobs table - Meal imports from CSV or a FoodyLog export
+   * Rows are staged in importRows and imported in batches; the report of
+   * skipped rows is kept on the job
+   */
+  importJobs: defineTable({
+    userId: v.id('users'),
+    source: v.union(v.literal('csv'), v.literal('json')),
+    filename: v.string(),
+    status: v.union(
+      v.literal('staging'), // rows being uploaded
+      v.literal('importing'),
+      v.literal('completed'),
+      v.literal('canceled'),
+    ),
+    
+    // Progress
+    totalRows: v.number(),
+    processedRows: v.number(),
+    importedCount: v.number(),
+    duplicateCount: v.number(),
+    skippedCount: v.number(), // invalid and duplicate rows
+    
+    // Report of skipped rows, capped at IMPORT_LIMITS.reportMaxEntries
+    skippedRows: v.array(v.object({
+      row: v.number(),
+      title: v.optional(v.string()),
+      reason: v.string(),
+    })),
+    
+    // Timestamps
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  })
+    .index('by_user', ['userId']),
+
+  /**
+   * Import rows table - Staged rows of an import job, removed once imported
+   */
+  importRows: defineTable({
+    jobId: v.id('importJobs'),
+    userId: v.id('users'),
+    row: v.number(), // 1-based row in the source file
+    title: v.optional(v.string()), // for the report when the row could not be parsed
+    meal: v.optional(newMealValidator), // createMeal input parsed from the row
+    error: v.optional(v.string()), // why the row could not be parsed
+  })
+    .index('by_job_row', ['jobId', 'row'])
+    .index('by_user', ['userId']),
+
   /**
    * User tags table - For tag autocomplete and analytics
    * Tracks user's personal tag usage patterns
@@ -202,9 +402,45 @@ export default defineSchema({
     updatedAt: v.number(),
   })
     .index('by_user', ['userId'])
+    .index('by_user_tag', ['userId', 'tag'])
     .index('by_user_usage', ['userId', 'usageCount'])
     .index('by_user_recent', ['userId', 'lastUsedAt']),
 
+  /**
+   * Sync operations table - Idempotency records for offline replays
+   * One row per idempotency key so a replayed operation returns its
+   * original outcome instead of being applied twice
+   */
+  syncOperations: defineTable({
+    userId: v.id('users'),
+    idempotencyKey: v.string(), // Generated by the client outbox
+    operation: v.union(
+      v.literal('create'),
+      v.literal('update'),
+      v.literal('delete'),
+    ),
+    mealId: v.optional(v.id('meals')),
+    status: v.union(
+      v.literal('applied'),
+      v.literal('conflict'),
+    ),
+    createdAt: v.number(),
+  })
+    .index('by_user_key', ['userId', 'idempotencyKey'])
+    .index('by_created', ['createdAt']),
+
+  /**
+   * Stripe events table - Idempotency records for webhook deliveries
+   * Stripe retries deliveries, so each event id is applied at most once
+   */
+  stripeEvents: defineTable({
+    eventId: v.string(), // Stripe event id (evt_...)
+    type: v.string(),
+    processedAt: v.number(),
+  })
+    .index('by_event_id', ['eventId'])
+    .index('by_processed', ['processedAt']),
+
   /**
    * Analytics cache table - Pre-computed analytics for performance
    * Reduces real-time calculation load for dashboard views
@@ -229,4 +465,46 @@ export default defineSchema({
     .index('by_user_key', ['userId', 'cacheKey'])
     .index('by_user_period', ['userId', 'period'])
     .index('by_expires', ['expiresAt']),
+
+  /**
+   * Account deletions table - Pending account deletions
+   * Each runs when its grace period ends (see lib/accountDeletion.ts) and
+   * is removed with the rest of the user's data
+   */
+  accountDeletions: defineTable({
+    userId: v.id('users'),
+    clerkId: v.string(),
+    source: v.union(
+      v.literal('user'), // requested from Settings
+      v.literal('clerk'), // Clerk user.deleted webhook
+    ),
+    status: v.union(
+      v.literal('scheduled'), // waiting to start; user deletions can be canceled until then
+      v.literal('deleting'),
+    ),
+    receiptId: v.string(),
+    requestedAt: v.number(),
+    scheduledFor: v.number(),
+    scheduledFunctionId: v.optional(v.id('_scheduled_functions')),
+    deleted: v.record(v.string(), v.number()), // rows deleted so far per table
+  })
+    .index('by_user', ['userId']),
+
+  /**
+   * Deletion receipts table - Signed proof of completed account deletions
+   * Identifies the user only by a hash of their Clerk ID
+   */
+  deletionReceipts: defineTable({
+    receiptId: v.string(),
+    subject: v.string(), // SHA-256 of the Clerk user ID, hex
+    source: v.union(v.literal('user'), v.literal('clerk')),
+    requestedAt: v.number(),
+    completedAt: v.number(),
+    deleted: v.record(v.string(), v.number()),
+    signature: v.string(), // HMAC-SHA256 of the receipt, hex
+    stripeCustomer: v.optional(v.string()), // SHA-256 of the Stripe customer ID, hex; not signed
+  })
+    .index('by_receipt_id', ['receiptId'])
+    .index('by_subject', ['subject'])
+    .index('by_stripe_customer', ['stripeCustomer']),
 });
\ No newline at end of file
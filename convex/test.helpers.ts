@@ -0,0 +1,76 @@
+/**
+ * Convex Test Helpers
+ *
+ * Shared fixtures for the function tests: a convex-test instance,
+ * provisioned users and clients acting as them through the local issuer.
+ * The double extension keeps this file out of the deployed Convex bundle.
+ */
+
+import { convexTest } from 'convex-test';
+import { internal } from './_generated/api';
+import type { Doc, Id } from './_generated/dataModel';
+import schema from './schema';
+import { modules } from './test.setup';
+import { createLocalIssuer } from './lib/localIssuer';
+
+export const issuer = createLocalIssuer();
+
+/**
+ * A fresh convex-test instance with the app schema and functions
+ */
+export function createTest() {
+  return convexTest(schema, modules);
+}
+
+export type TestConvex = ReturnType<typeof createTest>;
+export type TestClient = ReturnType<TestConvex['withIdentity']>;
+
+/**
+ * Provision a `users` row for a locally issued Clerk subject, as the Clerk
+ * webhook would
+ */
+export async function provisionUser(
+  t: TestConvex,
+  clerkId: string,
+  subscription?: Doc<'users'>['subscription'],
+): Promise<Id<'users'>> {
+  const userId = await t.mutation(internal.functions.users.upsertUser, {
+    clerkId,
+    email: `${clerkId}@foodylog.local`,
+  });
+  if (!userId) {
+    throw new Error(`Could not provision ${clerkId}`);
+  }
+
+  if (subscription) {
+    await t.run(async (ctx) => {
+      await ctx.db.patch(userId, { subscription });
+    });
+  }
+
+  return userId;
+}
+
+/**
+ * A client acting as a Clerk subject
+ */
+export function asUser(t: TestConvex, clerkId: string): TestClient {
+  return t.withIdentity(issuer.identity(clerkId));
+}
+
+/**
+ * Provision alice (on the given tier) and bob, with clients acting as them
+ */
+export async function setupUsers(tier: 'free' | 'premium' = 'free') {
+  const t = createTest();
+  const aliceId = await provisionUser(t, 'user_alice', { tier });
+  const bobId = await provisionUser(t, 'user_bob');
+
+  return {
+    t,
+    aliceId,
+    bobId,
+    alice: asUser(t, 'user_alice'),
+    bob: asUser(t, 'user_bob'),
+  };
+}
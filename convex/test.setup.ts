@@ -0,0 +1,10 @@
+/// <reference types="vite/client" />
+
+/**
+ * Convex Test Setup
+ *
+ * Module map for convex-test. The double extension keeps this file out of
+ * the deployed Convex bundle.
+ */
+
+export const modules = import.meta.glob('./**/!(*.*.*)*.*s');
@@ -0,0 +1,117 @@
+/**
+ * Stripe Webhook Fixtures
+ *
+ * Stripe events covering a subscription's lifecycle, trimmed to the fields
+ * `convex/lib/stripe.ts` reads. Shared by the Convex webhook tests and
+ * `scripts/replay-stripe-webhooks.ts`, which signs and posts them to a
+ * deployment so the webhook can be exercised without a Stripe account.
+ */
+
+import type { StripeEvent } from '../../convex/lib/stripe';
+
+const DAY_SECONDS = 24 * 60 * 60;
+const PERIOD_SECONDS = 30 * DAY_SECONDS;
+
+export interface StripeFixtureOptions {
+  clerkId: string; // Clerk ID of the user who checks out
+  now?: number; // milliseconds; the lifecycle starts here
+  customerId?: string;
+  subscriptionId?: string;
+}
+
+export type StripeFixtureName =
+  | 'checkoutCompleted'
+  | 'invoicePaid'
+  | 'invoiceRenewed'
+  | 'paymentFailed'
+  | 'subscriptionCanceledAtPeriodEnd'
+  | 'subscriptionDeleted';
+
+// Order in which Stripe would deliver the fixtures
+export const STRIPE_FIXTURE_SEQUENCE: StripeFixtureName[] = [
+  'checkoutCompleted',
+  'invoicePaid',
+  'invoiceRenewed',
+  'paymentFailed',
+  'subscriptionCanceledAtPeriodEnd',
+  'subscriptionDeleted',
+];
+
+// Order in which Stripe creates them: the first invoice is paid before
+// checkout completes, though its webhook usually arrives after
+const STRIPE_FIXTURE_CREATION_ORDER: StripeFixtureName[] = [
+  'invoicePaid',
+  'checkoutCompleted',
+  'invoiceRenewed',
+  'paymentFailed',
+  'subscriptionCanceledAtPeriodEnd',
+  'subscriptionDeleted',
+];
+
+/**
+ * Build the fixture events for one customer
+ *
+ * Each event is created a second after the previous one in
+ * STRIPE_FIXTURE_CREATION_ORDER; `invoiceRenewed` pays for the second
+ * billing period.
+ */
+export function createStripeFixtures(options: StripeFixtureOptions): Record<StripeFixtureName, StripeEvent> {
+  const start = Math.floor((options.now ?? Date.now()) / 1000);
+  const customer = options.customerId ?? 'cus_fixture';
+  const subscription = options.subscriptionId ?? 'sub_fixture';
+  const firstPeriodEnd = start + PERIOD_SECONDS;
+  const secondPeriodEnd = firstPeriodEnd + PERIOD_SECONDS;
+  const suffix = `${customer}_${start}`;
+
+  const createdAt = (name: StripeFixtureName) => start + STRIPE_FIXTURE_CREATION_ORDER.indexOf(name);
+
+  const event = (
+    name: StripeFixtureName,
+    type: string,
+    object: Record<string, unknown>,
+  ): StripeEvent => ({
+    id: `evt_${name}_${suffix}`,
+    type,
+    created: createdAt(name),
+    data: { object },
+  });
+
+  const invoice = (periodStart: number, periodEnd: number) => ({
+    object: 'invoice',
+    customer,
+    subscription,
+    lines: {
+      data: [{ period: { start: periodStart, end: periodEnd } }],
+    },
+  });
+
+  return {
+    checkoutCompleted: event('checkoutCompleted', 'checkout.session.completed', {
+      object: 'checkout.session',
+      mode: 'subscription',
+      client_reference_id: options.clerkId,
+      customer,
+      subscription,
+    }),
+    invoicePaid: event('invoicePaid', 'invoice.paid', invoice(start, firstPeriodEnd)),
+    invoiceRenewed: event('invoiceRenewed', 'invoice.paid', invoice(firstPeriodEnd, secondPeriodEnd)),
+    paymentFailed: event('paymentFailed', 'invoice.payment_failed', invoice(secondPeriodEnd, secondPeriodEnd + PERIOD_SECONDS)),
+    subscriptionCanceledAtPeriodEnd: event('subscriptionCanceledAtPeriodEnd', 'customer.subscription.updated', {
+      object: 'subscription',
+      id: subscription,
+      customer,
+      status: 'active',
+      cancel_at_period_end: true,
+      items: {
+        data: [{ current_period_end: secondPeriodEnd }],
+      },
+    }),
+    subscriptionDeleted: event('subscriptionDeleted', 'customer.subscription.deleted', {
+      object: 'subscription',
+      id: subscription,
+      customer,
+      status: 'canceled',
+      ended_at: createdAt('subscriptionDeleted'),
+    }),
+  };
+}
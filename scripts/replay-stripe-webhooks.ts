@@ -0,0 +1,80 @@
+#!/usr/bin/env bun
+
+/**
+ * Stripe Webhook Replayer
+ *
+ * Signs the fixture events from `scripts/fixtures/stripeEvents.ts` with the
+ * webhook secret and posts them to a deployment's `/stripe/webhook` route,
+ * so subscription changes can be tested without Stripe.
+ *
+ * Usage:
+ *   bun run stripe:replay --clerk-id user_123 [--only checkoutCompleted,invoicePaid]
+ *     [--url https://<deployment>.convex.site] [--secret whsec_...]
+ *
+ * The URL defaults to CONVEX_SITE_URL, or VITE_CONVEX_URL with
+ * `.convex.cloud` replaced by `.convex.site`. The secret defaults to
+ * STRIPE_WEBHOOK_SECRET and must match the one set on the deployment.
+ */
+
+import { signStripePayload } from '../convex/lib/stripe';
+import {
+  createStripeFixtures,
+  STRIPE_FIXTURE_SEQUENCE,
+  type StripeFixtureName,
+} from './fixtures/stripeEvents';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+const siteUrl = getArg('url')
+  ?? process.env.CONVEX_SITE_URL
+  ?? process.env.VITE_CONVEX_URL?.replace(/\.convex\.cloud\/?$/, '.convex.site');
+const secret = getArg('secret') ?? process.env.STRIPE_WEBHOOK_SECRET;
+const clerkId = getArg('clerk-id');
+const only = getArg('only')?.split(',');
+
+if (!siteUrl) {
+  fail('Missing deployment URL: pass --url or set CONVEX_SITE_URL');
+}
+if (!secret) {
+  fail('Missing webhook secret: pass --secret or set STRIPE_WEBHOOK_SECRET');
+}
+if (!clerkId) {
+  fail('Missing --clerk-id: the Clerk ID of the user to subscribe');
+}
+
+const unknown = only?.filter(name => !STRIPE_FIXTURE_SEQUENCE.includes(name as StripeFixtureName));
+if (unknown?.length) {
+  fail(`Unknown fixtures: ${unknown.join(', ')}. Available: ${STRIPE_FIXTURE_SEQUENCE.join(', ')}`);
+}
+
+const fixtures = createStripeFixtures({ clerkId });
+const names = STRIPE_FIXTURE_SEQUENCE.filter(name => !only || only.includes(name));
+const endpoint = `${siteUrl.replace(/\/$/, '')}/stripe/webhook`;
+
+console.log(`Replaying ${names.length} Stripe events to ${endpoint}\n`);
+
+for (const name of names) {
+  const payload = JSON.stringify(fixtures[name]);
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Stripe-Signature': await signStripePayload(payload, secret),
+    },
+    body: payload,
+  });
+
+  console.log(`${response.ok ? '✅' : '❌'} ${name} (${fixtures[name].type}): ${response.status} ${await response.text()}`);
+
+  if (!response.ok) {
+    process.exit(1);
+  }
+}
@@ -17,7 +17,10 @@ import { ProtectedRoute, PublicRoute } from './components/auth/ProtectedRoute';
 import { SignInPage } from './components/auth/SignInPage';
 import { SignUpPage } from './components/auth/SignUpPage';
 import { HomePage } from './pages/HomePage';
+import { MealsPage } from './pages/MealsPage';
+import { MealDetailPage } from './pages/MealDetailPage';
 import { SearchPage } from './pages/SearchPage';
+import { PlacesPage } from './pages/PlacesPage';
 import { AddMealPage } from './pages/AddMealPage';
 import { AnalyticsPage } from './pages/AnalyticsPage';
 import { SettingsPage } from './pages/SettingsPage';
@@ -117,7 +120,17 @@ function App() {
             element={
               <ProtectedRoute>
                 <AppLayout>
-                  <HomePage />
+                  <MealsPage />
+                </AppLayout>
+              </ProtectedRoute>
+            } 
+          />
+          <Route 
+            path="/meals/:mealId" 
+            element={
+              <ProtectedRoute>
+                <AppLayout>
+                  <MealDetailPage />
                 </AppLayout>
               </ProtectedRoute>
             } 
@@ -132,6 +145,16 @@ function App() {
               </ProtectedRoute>
             } 
           />
+          <Route 
+            path="/places" 
+            element={
+              <ProtectedRoute>
+                <AppLayout>
+                  <PlacesPage />
+                </AppLayout>
+              </ProtectedRoute>
+            } 
+          />
           <Route 
             path="/add" 
             element={
@@ -36,7 +36,7 @@ export function ConvexTestPage() {
     // Only query meals if test user exists
     const userMeals = useQuery(
         api.functions.meals.getUserMeals,
-        testUser ? { limit: 5 } : "skip"
+        testUser ? { paginationOpts: { numItems: 5, cursor: null } } : 'skip',
     );
 
     // Test mutations
@@ -333,11 +333,11 @@ export function ConvexTestPage() {
                         <LoadingSpinner />
                     ) : userMeals === null ? (
                         <p className="text-muted-foreground">Sign in to view your meals</p>
-                    ) : userMeals.length === 0 ? (
+                    ) : userMeals.page.length === 0 ? (
                         <p className="text-muted-foreground">No meals yet. Create one above!</p>
                     ) : (
                         <div className="space-y-3">
-                            {userMeals.map((meal) => (
+                            {userMeals.page.map((meal) => (
                                 <div key={meal._id} className="p-3 border rounded-md">
                                     <div className="flex justify-between items-start">
                                         <div>
@@ -16,6 +16,7 @@ import { Component, ErrorInfo, ReactNode } from 'react';
 
 interface Props {
   children: ReactNode
+  fallback?: ReactNode // Rendered instead of the full-page error screen
 }
 
 interface State {
@@ -57,6 +58,10 @@ export class ErrorBoundary extends Component<Props, State> {
   };
 
   render() {
+    if (this.state.hasError && this.props.fallback !== undefined) {
+      return this.props.fallback;
+    }
+
     if (this.state.hasError) {
       return (
         <div className="error-boundary">
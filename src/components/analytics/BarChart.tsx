@@ -0,0 +1,74 @@
+/**
+ * BarChart - Lightweight bar chart for analytics
+ *
+ * Renders bars with plain elements so it works without a canvas and stays
+ * readable by screen readers (each bar has a text label and value).
+ *
+ * Features:
+ * - Vertical columns for time series, horizontal bars for categories
+ * - Values formatted by the caller (counts, prices, ratings)
+ */
+
+import { cn } from '../../lib/utils';
+
+export interface BarChartDatum {
+  label: string;
+  value: number;
+}
+
+interface BarChartProps {
+  data: BarChartDatum[];
+  orientation?: 'vertical' | 'horizontal';
+  formatValue?: (_value: number) => string;
+  ariaLabel: string;
+  className?: string;
+}
+
+export function BarChart({
+  data,
+  orientation = 'horizontal',
+  formatValue = value => String(value),
+  ariaLabel,
+  className,
+}: BarChartProps) {
+  const max = Math.max(0, ...data.map(datum => datum.value));
+  const percentOf = (value: number) => (max > 0 ? (value / max) * 100 : 0);
+
+  if (orientation === 'vertical') {
+    return (
+      <ul aria-label={ariaLabel} className={cn('flex items-end gap-1 h-40', className)}>
+        {data.map(datum => (
+          <li
+            key={datum.label}
+            className="flex-1 min-w-0 h-full flex flex-col justify-end items-center gap-1"
+            title={`${datum.label}: ${formatValue(datum.value)}`}
+          >
+            <div
+              className="w-full rounded-t bg-primary/80 transition-all"
+              style={{ height: `${percentOf(datum.value)}%` }}
+            />
+            <span className="text-[10px] text-muted-foreground truncate max-w-full">{datum.label}</span>
+            <span className="sr-only">{formatValue(datum.value)}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+
+  return (
+    <ul aria-label={ariaLabel} className={cn('space-y-2', className)}>
+      {data.map(datum => (
+        <li key={datum.label} className="grid grid-cols-[5rem_1fr_3.5rem] items-center gap-2 text-sm">
+          <span className="text-muted-foreground truncate">{datum.label}</span>
+          <div className="h-3 rounded-full bg-muted overflow-hidden">
+            <div
+              className="h-full rounded-full bg-primary transition-all"
+              style={{ width: `${percentOf(datum.value)}%` }}
+            />
+          </div>
+          <span className="text-right font-medium text-foreground">{formatValue(datum.value)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -10,12 +10,14 @@
  * - Automatic redirect to sign-in page with preserved destination
  * - Loading states during authentication checks
  * - Session persistence across app restarts
- * - Deep linking support with proper redirects
+ * - Deep linking support with proper redirects (the requested page is
+ *   stored and restored after sign-in)
  */
 
-import React from 'react';
+import React, { useEffect } from 'react';
 import { SignedIn, SignedOut, useAuth } from '@clerk/clerk-react';
-import { Navigate, useLocation } from 'react-router-dom';
+import { Navigate, useLocation, useNavigate } from 'react-router-dom';
+import { deepLinkHelpers, sessionHelpers } from '../../lib/auth/clerk';
 
 /**
  * Props for ProtectedRoute component
@@ -48,8 +50,29 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   fallback,
   redirectTo = '/auth/sign-in',
 }) => {
-  const { isLoaded } = useAuth();
+  const { isLoaded, isSignedIn } = useAuth();
   const location = useLocation();
+  const navigate = useNavigate();
+  const { pathname, search } = location;
+  
+  // Remember the requested page so it survives the sign-in flow, including
+  // reloads and OAuth redirects that drop router state
+  useEffect(() => {
+    if (isLoaded && !isSignedIn) {
+      deepLinkHelpers.handleDeepLink({ pathname, search });
+    }
+  }, [isLoaded, isSignedIn, pathname, search]);
+  
+  // After signing in, continue to the stored page if sign-in landed elsewhere
+  useEffect(() => {
+    if (!isSignedIn) {
+      return;
+    }
+    const destination = sessionHelpers.getAndClearIntendedDestination();
+    if (destination && destination !== pathname + search) {
+      navigate(destination, { replace: true });
+    }
+  }, [isSignedIn, pathname, search, navigate]);
   
   // Show loading state while Clerk is loading
   if (!isLoaded) {
@@ -16,7 +16,7 @@ import React, { useEffect } from 'react';
 import { SignIn } from '@clerk/clerk-react';
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../../hooks/useAuth';
-import { showDeviceEmulationWarning } from '../../lib/auth/clerk';
+import { deepLinkHelpers, showDeviceEmulationWarning } from '../../lib/auth/clerk';
 import { DeviceEmulationWarning } from './DeviceEmulationWarning';
 
 /**
@@ -29,8 +29,9 @@ export const SignInPage: React.FC = () => {
   const { isAuthenticated, isLoading } = useAuth();
   const location = useLocation();
   
-  // Get the intended destination from location state, default to meals page
-  const from = (location.state as any)?.from?.pathname || '/meals';
+  // Return to the deep-linked page (router state or stored destination),
+  // default to meals page
+  const from = deepLinkHelpers.getReturnPath(location.state);
   
   // Show warning if device emulation is detected
   useEffect(() => {
@@ -0,0 +1,57 @@
+/**
+ * BudgetAlertNotifier - Toasts new budget alerts
+ *
+ * Rendered by the app layout so a threshold crossed by a meal write is
+ * announced on whichever page the user is on. Each alert is toasted once
+ * per device; it stays listed on the budget card until dismissed there.
+ */
+
+import { useEffect } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { showErrorToast, showWarningToast } from '../ui';
+import { getBudgetAlertMessage } from '../../lib/budgets';
+
+const NOTIFIED_ALERTS_KEY = 'foodylog_notified_budget_alerts';
+const MAX_REMEMBERED_ALERTS = 50;
+
+function readNotifiedAlerts(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(NOTIFIED_ALERTS_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+export function BudgetAlertNotifier() {
+  const alerts = useQuery(api.functions.budgets.getBudgetAlerts);
+
+  useEffect(() => {
+    if (!alerts || alerts.length === 0) {
+      return;
+    }
+
+    const notified = readNotifiedAlerts();
+    const fresh = alerts.filter(alert => !notified.includes(alert._id));
+    if (fresh.length === 0) {
+      return;
+    }
+
+    for (const alert of fresh) {
+      const { title, description } = getBudgetAlertMessage(alert);
+      if (alert.threshold >= 100) {
+        showErrorToast(title, description);
+      } else {
+        showWarningToast(title, description);
+      }
+    }
+
+    localStorage.setItem(
+      NOTIFIED_ALERTS_KEY,
+      JSON.stringify([...fresh.map(alert => alert._id), ...notified].slice(0, MAX_REMEMBERED_ALERTS)),
+    );
+  }, [alerts]);
+
+  return null;
+}
@@ -0,0 +1,286 @@
+/**
+ * BudgetCard - Budgets with spending in the current period
+ *
+ * Shown on the dashboard and the analytics page. Lists the user's budgets
+ * with a meter of spending against each one, the alerts their thresholds
+ * raised this period, and a form to add or change budgets.
+ *
+ * Features:
+ * - Budget vs actual meter per budget, red once the budget is used up
+ * - Undismissed threshold alerts with a dismiss button
+ * - Add, edit, pause and delete budgets
+ * - Optional budget vs actual history chart (analytics page)
+ */
+
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { Pause, Pencil, Play, Plus, Trash2, X } from 'lucide-react';
+import { api } from '../../../convex/_generated/api';
+import type { Doc, Id } from '../../../convex/_generated/dataModel';
+import type { BudgetStatus } from '../../../convex/lib/budgets';
+import {
+  Alert,
+  AlertDescription,
+  AlertTitle,
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  InlineLoader,
+  Skeleton,
+  showErrorToast,
+} from '../ui';
+import { BarChart } from '../analytics/BarChart';
+import { BudgetForm } from './BudgetForm';
+import { useCurrencyPreference } from '../../hooks/useUserPreferences';
+import { getConvexErrorMessage } from '../../lib/convex/errors';
+import {
+  BUDGET_PERIOD_OPTIONS,
+  formatBudgetPeriodLabel,
+  formatBudgetScope,
+  getBudgetAlertMessage,
+  getDefaultBudgetFormValues,
+  toBudgetFormValues,
+  type BudgetInput,
+} from '../../lib/budgets';
+import { cn, formatPrice } from '../../lib/utils';
+
+type BudgetWithStatus = Doc<'budgets'> & { status: BudgetStatus };
+
+function BudgetHistory({ budget }: { budget: BudgetWithStatus }) {
+  const history = useQuery(api.functions.budgets.getBudgetHistory, { budgetId: budget._id });
+
+  if (history === undefined) {
+    return <InlineLoader />;
+  }
+
+  return (
+    <BarChart
+      orientation="vertical"
+      ariaLabel={`${budget.name} spending by period`}
+      className="h-24"
+      data={history.map(entry => ({
+        label: formatBudgetPeriodLabel(budget.period, entry.start),
+        value: entry.spent,
+      }))}
+      formatValue={value => formatPrice(value, budget.currency)}
+    />
+  );
+}
+
+interface BudgetRowProps {
+  budget: BudgetWithStatus;
+  showHistory: boolean;
+}
+
+function BudgetRow({ budget, showHistory }: BudgetRowProps) {
+  const updateBudget = useMutation(api.functions.budgets.updateBudget);
+  const deleteBudget = useMutation(api.functions.budgets.deleteBudget);
+  const [isEditing, setIsEditing] = useState(false);
+  const { status } = budget;
+  const ratio = Math.min(1, status.spent / budget.amount);
+  const warningRatio = Math.min(...budget.alertThresholds, 100) / 100;
+  const periodLabel = BUDGET_PERIOD_OPTIONS.find(option => option.value === budget.period)?.label;
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (err) {
+      showErrorToast('Could not update budget', getConvexErrorMessage(err, 'Please try again.'));
+    }
+  };
+
+  if (isEditing) {
+    return (
+      <BudgetForm
+        defaultValues={toBudgetFormValues(budget)}
+        submitLabel="Save changes"
+        onCancel={() => setIsEditing(false)}
+        onSubmit={input => run(async () => {
+          await updateBudget({
+            budgetId: budget._id,
+            ...input,
+            mealType: input.mealType ?? null,
+            tag: input.tag ?? null,
+          });
+          setIsEditing(false);
+        })}
+      />
+    );
+  }
+
+  return (
+    <div className={cn('space-y-2', !budget.isActive && 'opacity-60')}>
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium text-foreground truncate">{budget.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {periodLabel} · {formatBudgetScope(budget)}
+            {!budget.isActive && ' · Paused'}
+          </p>
+        </div>
+        <div className="flex shrink-0">
+          <Button variant="ghost" size="icon" aria-label={`Edit ${budget.name}`} onClick={() => setIsEditing(true)}>
+            <Pencil className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label={`${budget.isActive ? 'Pause' : 'Resume'} ${budget.name}`}
+            onClick={() => void run(() => updateBudget({ budgetId: budget._id, isActive: !budget.isActive }))}
+          >
+            {budget.isActive ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label={`Delete ${budget.name}`}
+            onClick={() => void run(() => deleteBudget({ budgetId: budget._id }))}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div
+        role="progressbar"
+        aria-label={`${budget.name} spent`}
+        aria-valuemin={0}
+        aria-valuemax={100}
+        aria-valuenow={Math.round(ratio * 100)}
+        className="h-2 w-full overflow-hidden rounded-full bg-muted"
+      >
+        <div
+          className={cn(
+            'h-full rounded-full transition-all',
+            ratio >= 1 ? 'bg-destructive' : ratio >= warningRatio ? 'bg-yellow-500' : 'bg-primary',
+          )}
+          style={{ width: `${ratio * 100}%` }}
+        />
+      </div>
+
+      <p className="flex flex-wrap justify-between gap-x-4 text-sm">
+        <span>
+          <span className="font-medium">{formatPrice(status.spent, budget.currency)}</span>
+          {' of '}{formatPrice(budget.amount, budget.currency)}
+        </span>
+        <span className={cn('text-muted-foreground', status.remaining < 0 && 'text-destructive')}>
+          {status.remaining >= 0
+            ? `${formatPrice(status.remaining, budget.currency)} left`
+            : `${formatPrice(-status.remaining, budget.currency)} over`}
+        </span>
+      </p>
+      {status.otherCurrencyMealCount > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {status.otherCurrencyMealCount} meal{status.otherCurrencyMealCount !== 1 ? 's' : ''} in other currencies not counted
+        </p>
+      )}
+
+      {showHistory && <BudgetHistory budget={budget} />}
+    </div>
+  );
+}
+
+interface BudgetCardProps {
+  showHistory?: boolean;
+  className?: string;
+}
+
+export function BudgetCard({ showHistory = false, className }: BudgetCardProps) {
+  const budgets = useQuery(api.functions.budgets.getBudgets);
+  const alerts = useQuery(api.functions.budgets.getBudgetAlerts);
+  const createBudget = useMutation(api.functions.budgets.createBudget);
+  const dismissBudgetAlert = useMutation(api.functions.budgets.dismissBudgetAlert);
+  const { currency } = useCurrencyPreference();
+  const [isAdding, setIsAdding] = useState(false);
+
+  const create = async (input: BudgetInput) => {
+    try {
+      await createBudget(input);
+      setIsAdding(false);
+    } catch (err) {
+      showErrorToast('Could not create budget', getConvexErrorMessage(err, 'Please try again.'));
+    }
+  };
+
+  const dismiss = async (alertId: Id<'budgetAlerts'>) => {
+    try {
+      await dismissBudgetAlert({ alertId });
+    } catch (err) {
+      showErrorToast('Could not dismiss alert', getConvexErrorMessage(err, 'Please try again.'));
+    }
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            💰 Budgets
+          </CardTitle>
+          <CardDescription>
+            Spending against your budgets this period
+          </CardDescription>
+        </div>
+        {!isAdding && (
+          <Button variant="outline" size="sm" onClick={() => setIsAdding(true)}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add budget
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {alerts?.map(alert => {
+          const message = getBudgetAlertMessage(alert);
+          return (
+            <Alert key={alert._id} variant={alert.threshold >= 100 ? 'destructive' : 'default'}>
+              <AlertTitle className="pr-8">{message.title}</AlertTitle>
+              <AlertDescription>{message.description}</AlertDescription>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="absolute right-2 top-2 h-7 w-7"
+                aria-label="Dismiss alert"
+                onClick={() => void dismiss(alert._id)}
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </Alert>
+          );
+        })}
+
+        {isAdding && (
+          <BudgetForm
+            defaultValues={getDefaultBudgetFormValues(currency)}
+            submitLabel="Add budget"
+            onCancel={() => setIsAdding(false)}
+            onSubmit={create}
+          />
+        )}
+
+        {budgets === undefined ? (
+          <div className="space-y-2" aria-busy="true">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : budgets.length === 0 ? (
+          !isAdding && (
+            <p className="text-sm text-muted-foreground">
+              Set a weekly, monthly or yearly budget to see how your spending compares.
+            </p>
+          )
+        ) : (
+          <ul className="space-y-6">
+            {budgets.map(budget => (
+              <li key={budget._id}>
+                <BudgetRow budget={budget} showHistory={showHistory} />
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+/**
+ * BudgetForm - Form for creating and editing budgets
+ *
+ * Name, amount and currency, period, an optional meal type or tag scope
+ * and the alert thresholds. Input is checked with the same
+ * `validateBudgetInput` rules the Convex budget functions enforce.
+ */
+
+import { useState, type FormEvent } from 'react';
+import { Button, ButtonLoader, FormError, FormField, Input } from '../ui';
+import { CURRENCY_OPTIONS } from '../../lib/currency';
+import { MEAL_TYPE_OPTIONS, type MealType } from '../../lib/meals';
+import {
+  BUDGET_PERIOD_OPTIONS,
+  toBudgetInput,
+  type BudgetFormValues,
+  type BudgetInput,
+} from '../../lib/budgets';
+import { BUDGET_LIMITS, type BudgetPeriod } from '../../../convex/lib/validation';
+
+const SELECT_CLASS_NAME = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+interface BudgetFormProps {
+  defaultValues: BudgetFormValues;
+  onSubmit: (_input: BudgetInput) => Promise<void>;
+  onCancel: () => void;
+  submitLabel?: string;
+}
+
+export function BudgetForm({ defaultValues, onSubmit, onCancel, submitLabel = 'Save budget' }: BudgetFormProps) {
+  const [values, setValues] = useState(defaultValues);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const update = <K extends keyof BudgetFormValues>(field: K, value: BudgetFormValues[K]) => {
+    setValues(current => ({ ...current, [field]: value }));
+  };
+
+  const submit = async (event: FormEvent) => {
+    event.preventDefault();
+    const result = toBudgetInput(values);
+    if ('error' in result) {
+      setError(result.error);
+      return;
+    }
+
+    setError(null);
+    setIsSubmitting(true);
+    try {
+      await onSubmit(result.input);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={event => void submit(event)} className="space-y-4" noValidate>
+      {error && <FormError message={error} />}
+
+      <FormField label="Name" required>
+        <Input
+          aria-label="Budget name"
+          placeholder="Eating out"
+          maxLength={BUDGET_LIMITS.nameMaxLength}
+          value={values.name}
+          onChange={event => update('name', event.target.value)}
+        />
+      </FormField>
+
+      <div className="grid gap-4 sm:grid-cols-3">
+        <FormField label="Amount" required>
+          <Input
+            aria-label="Budget amount"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.01"
+            value={values.amount}
+            onChange={event => update('amount', event.target.value)}
+          />
+        </FormField>
+        <FormField label="Currency">
+          <select
+            aria-label="Budget currency"
+            className={SELECT_CLASS_NAME}
+            value={values.currency}
+            onChange={event => update('currency', event.target.value)}
+          >
+            {CURRENCY_OPTIONS.map(option => (
+              <option key={option.code} value={option.code}>{option.code}</option>
+            ))}
+          </select>
+        </FormField>
+        <FormField label="Period">
+          <select
+            aria-label="Budget period"
+            className={SELECT_CLASS_NAME}
+            value={values.period}
+            onChange={event => update('period', event.target.value as BudgetPeriod)}
+          >
+            {BUDGET_PERIOD_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </FormField>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <FormField label="Meal type">
+          <select
+            aria-label="Budget meal type"
+            className={SELECT_CLASS_NAME}
+            value={values.mealType}
+            onChange={event => update('mealType', event.target.value as MealType | '')}
+          >
+            <option value="">All meals</option>
+            {MEAL_TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </FormField>
+        <FormField label="Tag">
+          <Input
+            aria-label="Budget tag"
+            placeholder="Any tag"
+            value={values.tag}
+            onChange={event => update('tag', event.target.value)}
+          />
+        </FormField>
+      </div>
+
+      <FormField label="Alert at (% of budget)">
+        <Input
+          aria-label="Alert thresholds"
+          placeholder="80, 100"
+          value={values.alertThresholds}
+          onChange={event => update('alertThresholds', event.target.value)}
+        />
+      </FormField>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting && <ButtonLoader />}
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -13,12 +13,14 @@
  * - Consistent spacing and accessibility landmarks
  * - WCAG 2.1 AA compliant navigation
  * - Enhanced page transitions and navigation animations
+ * - Budget alert toasts on every page
  */
 
 import { ReactNode } from 'react';
 import { Header } from './Header';
 import { Navigation } from './Navigation';
 import { PageTransition } from './PageTransition';
+import { BudgetAlertNotifier } from '../budgets/BudgetAlertNotifier';
 
 interface AppLayoutProps {
   children: ReactNode;
@@ -49,6 +51,8 @@ export function AppLayout({ children }: AppLayoutProps) {
 
       {/* Bottom navigation for mobile-first design */}
       <Navigation />
+
+      <BudgetAlertNotifier />
     </div>
   );
 }
@@ -0,0 +1,102 @@
+/**
+ * LocationPicker - Current position and nearby place suggestions
+ *
+ * Part of the meal form's location section. "Use current location" reads
+ * the device position (Capacitor Geolocation on native, the browser API on
+ * the web) and lists places around it: places the user has eaten at
+ * before first, then places from the lookup provider. Picking one fills
+ * the place fields.
+ */
+
+import { useState } from 'react';
+import { Crosshair, History, MapPin } from 'lucide-react';
+import { Button, InlineLoader } from '../ui';
+import { usePlaceSuggestions } from '../../hooks/usePlaceSuggestions';
+import { LocationError, getCurrentPosition, type CurrentPosition } from '../../lib/location/geolocation';
+import {
+  getDefaultPlaceLookupProvider,
+  type PlaceLookupProvider,
+  type PlaceSuggestion,
+} from '../../lib/location/placeLookup';
+import { formatDistance } from '../../lib/utils';
+
+const defaultPlaceLookupProvider = getDefaultPlaceLookupProvider();
+
+interface LocationPickerProps {
+  onLocate: (_position: CurrentPosition) => void;
+  onPick: (_suggestion: PlaceSuggestion) => void;
+  lookupProvider?: PlaceLookupProvider | null; // defaults to the provider configured for the build
+}
+
+export function LocationPicker({ onLocate, onPick, lookupProvider = defaultPlaceLookupProvider }: LocationPickerProps) {
+  const [position, setPosition] = useState<CurrentPosition | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const { suggestions, isLoading } = usePlaceSuggestions(position, lookupProvider);
+
+  const locate = async () => {
+    setIsLocating(true);
+    setError(null);
+    try {
+      const current = await getCurrentPosition();
+      setPosition(current);
+      setIsOpen(true);
+      onLocate(current);
+    } catch (err) {
+      setError(err instanceof LocationError ? err.message : 'Could not get your location. Please try again.');
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button type="button" variant="outline" size="sm" disabled={isLocating} onClick={() => void locate()}>
+        <Crosshair className="w-4 h-4 mr-1" aria-hidden="true" />
+        {isLocating ? 'Locating...' : 'Use current location'}
+      </Button>
+
+      {error && <p role="alert" className="text-sm text-destructive">{error}</p>}
+
+      {position && isOpen && (
+        isLoading ? (
+          <InlineLoader />
+        ) : suggestions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No places found nearby. Your position is saved with the place you enter.
+          </p>
+        ) : (
+          <ul className="divide-y divide-border rounded-md border border-border" aria-label="Nearby places">
+            {suggestions.map(suggestion => (
+              <li key={`${suggestion.source}-${suggestion.placeId ?? suggestion.name}`}>
+                <button
+                  type="button"
+                  className="flex w-full items-center gap-3 px-3 py-2 text-left text-sm hover:bg-accent"
+                  onClick={() => {
+                    onPick(suggestion);
+                    setIsOpen(false);
+                  }}
+                >
+                  {suggestion.source === 'visited'
+                    ? <History className="w-4 h-4 shrink-0 text-primary" aria-label="Visited before" />
+                    : <MapPin className="w-4 h-4 shrink-0 text-muted-foreground" aria-hidden="true" />}
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate font-medium">{suggestion.name}</span>
+                    {suggestion.address && (
+                      <span className="block truncate text-muted-foreground">{suggestion.address}</span>
+                    )}
+                  </span>
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    {suggestion.visitCount !== undefined && `${suggestion.visitCount} visit${suggestion.visitCount !== 1 ? 's' : ''} · `}
+                    {formatDistance(suggestion.distanceMeters)}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,590 @@
+/**
+ * MealForm - Form for logging and editing meals
+ *
+ * Covers every field accepted by the createMeal mutation: title, rating,
+ * meal type, description, price and currency, tags, location, meal date
+ * and the premium extended details. Validation runs through the same
+ * `validateMealInput` rules the Convex mutations enforce, so limits and
+ * messages match the server exactly.
+ *
+ * Features:
+ * - react-hook-form state with a shared-rules resolver
+ * - 1-10 rating picker with large touch targets
+ * - Tag entry with free tier limit feedback
+ * - Current location with nearby place suggestions (LocationPicker)
+ * - Extended details (cuisine, companions, spice level, ...) on premium,
+ *   an upgrade prompt in their place on free
+ * - Server error display via FormError
+ * - Validation summary via ValidationError
+ */
+
+import { useState, type KeyboardEvent } from 'react';
+import { Controller, useForm, type Resolver } from 'react-hook-form';
+import { Save, X } from 'lucide-react';
+import {
+  Badge,
+  Button,
+  FormField,
+  FormError,
+  Input,
+  MealTagBadge,
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+  TextArea,
+  ValidationError,
+  ButtonLoader,
+} from '../ui';
+import { cn } from '../../lib/utils';
+import { CURRENCY_OPTIONS } from '../../lib/currency';
+import {
+  MEAL_TYPE_OPTIONS,
+  SERVING_SIZE_OPTIONS,
+  toDateTimeLocal,
+  toMealInput,
+  withoutExtendedDetails,
+  type MealFormValues,
+  type MealInput,
+} from '../../lib/meals';
+import { MEAL_LIMITS, validateMealInput } from '../../../convex/lib/validation';
+import { checkExtendedMealFields, getEntitlements } from '../../../convex/lib/entitlements';
+import type { SubscriptionTier } from '../../../convex/lib/subscription';
+import { UpgradePrompt } from '../subscription/UpgradePrompt';
+import { LocationPicker } from './LocationPicker';
+import type { PlaceLookupProvider } from '../../lib/location/placeLookup';
+
+const SCALE_OPTIONS = [1, 2, 3, 4, 5].map(value => ({ value, label: String(value) }));
+const YES_NO_OPTIONS = [
+  { value: true, label: 'Yes' },
+  { value: false, label: 'No' },
+];
+
+interface ChoiceGroupProps<T> {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T | null;
+  onChange: (_value: T | null) => void;
+}
+
+/**
+ * Row of toggle buttons for an optional choice; picking the selected
+ * option again clears it
+ */
+function ChoiceGroup<T extends string | number | boolean>({ label, options, value, onChange }: ChoiceGroupProps<T>) {
+  return (
+    <div role="radiogroup" aria-label={label} className="flex flex-wrap gap-2">
+      {options.map(option => (
+        <Button
+          key={String(option.value)}
+          type="button"
+          role="radio"
+          aria-checked={value === option.value}
+          variant={value === option.value ? 'default' : 'outline'}
+          size="sm"
+          className="h-11 min-w-11"
+          onClick={() => onChange(value === option.value ? null : option.value)}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+interface MealFormProps {
+  defaultValues?: Partial<MealFormValues>;
+  onSubmit: (_input: MealInput) => Promise<void>;
+  onCancel?: () => void;
+  submitLabel?: string;
+  tier?: SubscriptionTier;
+  placeLookupProvider?: PlaceLookupProvider | null;
+  serverError?: string | null;
+  className?: string;
+}
+
+export function MealForm({
+  defaultValues,
+  onSubmit,
+  onCancel,
+  submitLabel = 'Save Meal',
+  tier = 'free',
+  placeLookupProvider,
+  serverError,
+  className,
+}: MealFormProps) {
+  const [tagDraft, setTagDraft] = useState('');
+  const [companionDraft, setCompanionDraft] = useState('');
+  const { maxTagsPerMeal: maxTags, extendedMealFields: hasExtendedDetails } = getEntitlements(tier);
+
+  /**
+   * Resolver backed by the shared meal validation rules
+   *
+   * Without the extended details entitlement those fields are not shown,
+   * so details kept from an earlier premium period stay as they are and
+   * are not validated.
+   */
+  const resolver: Resolver<MealFormValues> = async (values) => {
+    const input = toMealInput(values);
+    const issues = validateMealInput(hasExtendedDetails ? input : withoutExtendedDetails(input), { tier });
+
+    if (issues.length === 0) {
+      return { values, errors: {} };
+    }
+
+    const errors = Object.fromEntries(
+      issues.map(issue => [issue.field, { type: 'validate', message: issue.message }]),
+    );
+    return { values: {}, errors };
+  };
+
+  const {
+    control,
+    register,
+    handleSubmit,
+    watch,
+    setValue,
+    formState: { errors, isSubmitting, isSubmitted },
+  } = useForm<MealFormValues>({
+    resolver,
+    defaultValues: {
+      title: '',
+      rating: 7,
+      mealType: 'lunch',
+      description: '',
+      price: '',
+      currency: 'USD',
+      tags: [],
+      locationName: '',
+      locationAddress: '',
+      locationCoordinates: null,
+      locationPlaceId: '',
+      mealDate: toDateTimeLocal(Date.now()),
+      cuisine: '',
+      dishType: '',
+      servingSize: null,
+      spiceLevel: null,
+      notes: '',
+      occasion: '',
+      companions: [],
+      isRecommended: null,
+      wouldOrderAgain: null,
+      valueForMoney: null,
+      ...defaultValues,
+    },
+  });
+
+  const title = watch('title');
+  const description = watch('description');
+  const notes = watch('notes');
+  const errorMessages = Object.values(errors)
+    .map(error => error?.message)
+    .filter((message): message is string => Boolean(message));
+
+  const submit = handleSubmit(async (values) => {
+    await onSubmit(toMealInput(values));
+  });
+
+  return (
+    <form onSubmit={submit} className={cn('space-y-6', className)} noValidate>
+      {isSubmitted && <ValidationError errors={errorMessages} />}
+      {serverError && <FormError message={serverError} />}
+
+      {/* Title */}
+      <FormField label="Meal title" required error={errors.title?.message}>
+        <Input
+          placeholder="What did you eat?"
+          aria-label="Meal title"
+          maxLength={MEAL_LIMITS.titleMaxLength}
+          {...register('title')}
+        />
+        <p className="text-xs text-muted-foreground text-right">
+          {title.length}/{MEAL_LIMITS.titleMaxLength}
+        </p>
+      </FormField>
+
+      {/* Rating */}
+      <FormField label="Rating" required error={errors.rating?.message}>
+        <Controller
+          control={control}
+          name="rating"
+          render={({ field }) => (
+            <div role="radiogroup" aria-label="Rating" className="grid grid-cols-5 sm:grid-cols-10 gap-2">
+              {Array.from(
+                { length: MEAL_LIMITS.ratingMax - MEAL_LIMITS.ratingMin + 1 },
+                (_, index) => index + MEAL_LIMITS.ratingMin,
+              ).map(value => (
+                <Button
+                  key={value}
+                  type="button"
+                  role="radio"
+                  aria-checked={field.value === value}
+                  variant={field.value === value ? 'default' : 'outline'}
+                  className="h-11"
+                  onClick={() => field.onChange(value)}
+                >
+                  {value}
+                </Button>
+              ))}
+            </div>
+          )}
+        />
+      </FormField>
+
+      {/* Meal Type */}
+      <FormField label="Meal type" required>
+        <Controller
+          control={control}
+          name="mealType"
+          render={({ field }) => (
+            <Select value={field.value} onValueChange={field.onChange}>
+              <SelectTrigger aria-label="Meal type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MEAL_TYPE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        />
+      </FormField>
+
+      {/* Description */}
+      <FormField label="Description" error={errors.description?.message}>
+        <TextArea
+          placeholder="How was it? What stood out?"
+          aria-label="Description"
+          rows={4}
+          {...register('description')}
+        />
+        <p className="text-xs text-muted-foreground text-right">
+          {description.length}/{MEAL_LIMITS.descriptionMaxLength}
+        </p>
+      </FormField>
+
+      {/* Price and Currency */}
+      <div className="grid grid-cols-3 gap-4">
+        <FormField label="Price" error={errors.price?.message} className="col-span-2">
+          <Input
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.01"
+            placeholder="0.00"
+            aria-label="Price"
+            {...register('price')}
+          />
+        </FormField>
+        <FormField label="Currency">
+          <Controller
+            control={control}
+            name="currency"
+            render={({ field }) => (
+              <Select value={field.value} onValueChange={field.onChange}>
+                <SelectTrigger aria-label="Currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCY_OPTIONS.map(option => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.symbol} {option.code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          />
+        </FormField>
+      </div>
+
+      {/* Tags */}
+      <FormField label="Tags" error={errors.tags?.message}>
+        <Controller
+          control={control}
+          name="tags"
+          render={({ field }) => {
+            const addTag = () => {
+              const tag = tagDraft.trim().toLowerCase();
+              if (tag && !field.value.includes(tag)) {
+                field.onChange([...field.value, tag]);
+              }
+              setTagDraft('');
+            };
+
+            const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+              if (event.key === 'Enter' || event.key === ',') {
+                event.preventDefault();
+                addTag();
+              }
+            };
+
+            return (
+              <div className="space-y-2">
+                <Input
+                  value={tagDraft}
+                  placeholder="Add a tag and press Enter"
+                  aria-label="Add tag"
+                  onChange={event => setTagDraft(event.target.value)}
+                  onKeyDown={handleKeyDown}
+                  onBlur={addTag}
+                />
+                {field.value.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {field.value.map(tag => (
+                      <MealTagBadge
+                        key={tag}
+                        tag={tag}
+                        removable
+                        onRemove={() => field.onChange(field.value.filter(t => t !== tag))}
+                      />
+                    ))}
+                  </div>
+                )}
+                {maxTags !== null && (
+                  <p className="text-xs text-muted-foreground">
+                    {field.value.length}/{maxTags} tags on the free plan
+                  </p>
+                )}
+              </div>
+            );
+          }}
+        />
+      </FormField>
+
+      {/* Location */}
+      <div className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <FormField label="Place">
+            <Input
+              placeholder="Restaurant or place name"
+              aria-label="Place"
+              {...register('locationName', {
+                // A typed name no longer refers to the picked suggestion
+                onChange: () => setValue('locationPlaceId', ''),
+              })}
+            />
+          </FormField>
+          <FormField label="Address">
+            <Input
+              placeholder="Street, city"
+              aria-label="Address"
+              {...register('locationAddress')}
+            />
+          </FormField>
+        </div>
+        <LocationPicker
+          lookupProvider={placeLookupProvider}
+          onLocate={position => setValue('locationCoordinates', { lat: position.lat, lng: position.lng }, { shouldDirty: true })}
+          onPick={suggestion => {
+            setValue('locationName', suggestion.name, { shouldDirty: true });
+            setValue('locationAddress', suggestion.address ?? '', { shouldDirty: true });
+            setValue('locationCoordinates', suggestion.coordinates, { shouldDirty: true });
+            setValue('locationPlaceId', suggestion.placeId ?? '', { shouldDirty: true });
+          }}
+        />
+      </div>
+
+      {/* Meal Date */}
+      <FormField label="When">
+        <Input type="datetime-local" aria-label="When" {...register('mealDate')} />
+      </FormField>
+
+      {/* Extended Details (premium) */}
+      <fieldset className="space-y-4">
+        <legend className="text-sm font-semibold text-foreground mb-2">More details</legend>
+        {!hasExtendedDetails ? (
+          <UpgradePrompt violation={checkExtendedMealFields(tier, ['cuisine'])!} />
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField label="Cuisine" error={errors.cuisine?.message}>
+                <Input
+                  placeholder="Italian, Japanese, ..."
+                  aria-label="Cuisine"
+                  maxLength={MEAL_LIMITS.cuisineMaxLength}
+                  {...register('cuisine')}
+                />
+              </FormField>
+              <FormField label="Dish type" error={errors.dishType?.message}>
+                <Input
+                  placeholder="Pizza, sushi, ..."
+                  aria-label="Dish type"
+                  maxLength={MEAL_LIMITS.dishTypeMaxLength}
+                  {...register('dishType')}
+                />
+              </FormField>
+            </div>
+
+            <FormField label="Serving size" error={errors.servingSize?.message}>
+              <Controller
+                control={control}
+                name="servingSize"
+                render={({ field }) => (
+                  <ChoiceGroup
+                    label="Serving size"
+                    options={SERVING_SIZE_OPTIONS}
+                    value={field.value}
+                    onChange={field.onChange}
+                  />
+                )}
+              />
+            </FormField>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField label="Spice level" error={errors.spiceLevel?.message}>
+                <Controller
+                  control={control}
+                  name="spiceLevel"
+                  render={({ field }) => (
+                    <ChoiceGroup
+                      label="Spice level"
+                      options={SCALE_OPTIONS}
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                  )}
+                />
+              </FormField>
+              <FormField label="Value for money" error={errors.valueForMoney?.message}>
+                <Controller
+                  control={control}
+                  name="valueForMoney"
+                  render={({ field }) => (
+                    <ChoiceGroup
+                      label="Value for money"
+                      options={SCALE_OPTIONS}
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                  )}
+                />
+              </FormField>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField label="Would recommend">
+                <Controller
+                  control={control}
+                  name="isRecommended"
+                  render={({ field }) => (
+                    <ChoiceGroup
+                      label="Would recommend"
+                      options={YES_NO_OPTIONS}
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                  )}
+                />
+              </FormField>
+              <FormField label="Would order again">
+                <Controller
+                  control={control}
+                  name="wouldOrderAgain"
+                  render={({ field }) => (
+                    <ChoiceGroup
+                      label="Would order again"
+                      options={YES_NO_OPTIONS}
+                      value={field.value}
+                      onChange={field.onChange}
+                    />
+                  )}
+                />
+              </FormField>
+            </div>
+
+            <FormField label="Occasion" error={errors.occasion?.message}>
+              <Input
+                placeholder="Birthday, date night, business lunch, ..."
+                aria-label="Occasion"
+                maxLength={MEAL_LIMITS.occasionMaxLength}
+                {...register('occasion')}
+              />
+            </FormField>
+
+            <FormField label="Companions" error={errors.companions?.message}>
+              <Controller
+                control={control}
+                name="companions"
+                render={({ field }) => {
+                  const addCompanion = () => {
+                    const name = companionDraft.trim();
+                    if (name && !field.value.includes(name)) {
+                      field.onChange([...field.value, name]);
+                    }
+                    setCompanionDraft('');
+                  };
+
+                  return (
+                    <div className="space-y-2">
+                      <Input
+                        value={companionDraft}
+                        placeholder="Who did you eat with? Press Enter to add"
+                        aria-label="Add companion"
+                        maxLength={MEAL_LIMITS.companionMaxLength}
+                        onChange={event => setCompanionDraft(event.target.value)}
+                        onKeyDown={event => {
+                          if (event.key === 'Enter' || event.key === ',') {
+                            event.preventDefault();
+                            addCompanion();
+                          }
+                        }}
+                        onBlur={addCompanion}
+                      />
+                      {field.value.length > 0 && (
+                        <div className="flex flex-wrap gap-2">
+                          {field.value.map(name => (
+                            <Badge key={name} variant="secondary">
+                              {name}
+                              <button
+                                type="button"
+                                className="ml-1 -mr-1 p-0.5 rounded-full hover:bg-black/10 dark:hover:bg-white/10 transition-colors"
+                                aria-label={`Remove ${name}`}
+                                onClick={() => field.onChange(field.value.filter(n => n !== name))}
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                }}
+              />
+            </FormField>
+
+            <FormField label="Notes" error={errors.notes?.message}>
+              <TextArea
+                placeholder="Private notes: what to order next time, who served you, ..."
+                aria-label="Notes"
+                rows={3}
+                {...register('notes')}
+              />
+              <p className="text-xs text-muted-foreground text-right">
+                {notes.length}/{MEAL_LIMITS.notesMaxLength}
+              </p>
+            </FormField>
+          </>
+        )}
+      </fieldset>
+
+      {/* Actions */}
+      <div className="flex gap-3">
+        {onCancel && (
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" className="flex-1" disabled={isSubmitting}>
+          {isSubmitting ? <ButtonLoader /> : <Save className="w-4 h-4 mr-2" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * MealList - Infinite scrolling list of the current user's meals
+ *
+ * Pages through getUserMeals with Convex `usePaginatedQuery`, loading the
+ * next page as the end of the list scrolls into view. Pages stay reactive,
+ * so new and edited meals appear without a reload.
+ *
+ * Features:
+ * - Cursor-based pagination with optional meal type and date range filters
+ * - Skeletons while the first page loads
+ * - Empty state with an add meal action
+ * - "Load more" fallback button for keyboard and assistive tech users
+ * - Meals waiting out a delete's undo window are hidden
+ */
+
+import { usePaginatedQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import { Button, EmptyMeals, InlineLoader, MealCardSkeleton } from '../ui';
+import { MealListItem } from './MealListItem';
+import { useInfiniteScroll } from '../../hooks/useInfiniteScroll';
+import { usePendingMealDeletes } from '../../hooks/useDeleteMealWithUndo';
+import { cn } from '../../lib/utils';
+import type { MealType } from '../../lib/meals';
+
+const PAGE_SIZE = 20;
+
+interface MealListProps {
+  mealType?: MealType;
+  startDate?: number;
+  endDate?: number;
+  onAddMeal?: () => void;
+  className?: string;
+}
+
+export function MealList({
+  mealType,
+  startDate,
+  endDate,
+  onAddMeal,
+  className,
+}: MealListProps) {
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.functions.meals.getUserMeals,
+    { mealType, startDate, endDate },
+    { initialNumItems: PAGE_SIZE },
+  );
+  const pendingDeletes = usePendingMealDeletes();
+  const meals = results.filter(meal => !pendingDeletes.has(meal._id));
+
+  const sentinelRef = useInfiniteScroll({
+    onLoadMore: () => loadMore(PAGE_SIZE),
+    enabled: status === 'CanLoadMore',
+  });
+
+  if (status === 'LoadingFirstPage') {
+    return (
+      <div className={cn('space-y-4', className)} aria-busy="true">
+        {Array.from({ length: 3 }, (_, index) => (
+          <MealCardSkeleton key={index} />
+        ))}
+      </div>
+    );
+  }
+
+  if (meals.length === 0) {
+    return <EmptyMeals onAddMeal={onAddMeal} className={className} />;
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <ul className="space-y-4" aria-label="Meals">
+        {meals.map(meal => (
+          <li key={meal._id}>
+            <MealListItem meal={meal} />
+          </li>
+        ))}
+      </ul>
+
+      <div ref={sentinelRef} className="flex justify-center py-4">
+        {status === 'LoadingMore' && <InlineLoader className="w-6 h-6" />}
+        {status === 'CanLoadMore' && (
+          <Button variant="ghost" onClick={() => loadMore(PAGE_SIZE)}>
+            Load more
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
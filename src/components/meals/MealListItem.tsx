@@ -0,0 +1,85 @@
+/**
+ * MealListItem - Compact summary of a logged meal
+ *
+ * Shows the primary photo (when present), title, rating, meal type, price,
+ * place, tags and when the meal was eaten. Links to the meal's detail page.
+ */
+
+import { Link } from 'react-router-dom';
+import { MapPin } from 'lucide-react';
+import type { Doc } from '../../../convex/_generated/dataModel';
+import {
+  Card,
+  MealTagBadge,
+  MealTypeBadge,
+  PriceBadge,
+  RatingBadge,
+} from '../ui';
+import { cn, formatTimeAgo } from '../../lib/utils';
+
+interface MealListItemProps {
+  meal: Doc<'meals'>;
+  className?: string;
+}
+
+export function MealListItem({ meal, className }: MealListItemProps) {
+  const primaryPhoto = meal.photos.find(photo => photo.isPrimary) ?? meal.photos[0];
+
+  return (
+    <Link
+      to={`/meals/${meal._id}`}
+      className="block rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+    >
+      <Card className={cn('flex gap-4 p-4 hover:bg-muted/50', className)}>
+        {primaryPhoto?.url && (
+          <img
+            src={primaryPhoto.url}
+            alt={primaryPhoto.caption ?? meal.title}
+            className="w-20 h-20 rounded-md object-cover shrink-0"
+            loading="lazy"
+          />
+        )}
+
+        <div className="min-w-0 flex-1 space-y-2">
+          <div className="flex items-start justify-between gap-2">
+            <h3 className="font-semibold text-foreground truncate">{meal.title}</h3>
+            <time
+              dateTime={new Date(meal.mealDate).toISOString()}
+              className="text-xs text-muted-foreground shrink-0"
+            >
+              {formatTimeAgo(meal.mealDate)}
+            </time>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <RatingBadge rating={meal.rating} />
+            <MealTypeBadge mealType={meal.mealType} />
+            {meal.price !== undefined && (
+              <PriceBadge
+              price={meal.price}
+              currency={meal.currency}
+              homePrice={meal.homePrice}
+              homeCurrency={meal.homeCurrency}
+            />
+            )}
+          </div>
+
+          {meal.location?.name && (
+            <p className="flex items-center gap-1 text-sm text-muted-foreground truncate">
+              <MapPin className="w-3 h-3 shrink-0" aria-hidden="true" />
+              {meal.location.name}
+            </p>
+          )}
+
+          {meal.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {meal.tags.map(tag => (
+                <MealTagBadge key={tag} tag={tag} />
+              ))}
+            </div>
+          )}
+        </div>
+      </Card>
+    </Link>
+  );
+}
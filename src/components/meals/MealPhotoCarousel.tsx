@@ -0,0 +1,127 @@
+/**
+ * MealPhotoCarousel - Swipeable gallery of a meal's photos
+ *
+ * Shows one photo at a time, starting with the primary photo. Scroll
+ * snapping provides touch swiping; previous/next buttons and dot
+ * indicators cover mouse and keyboard users.
+ */
+
+import { useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import type { Doc } from '../../../convex/_generated/dataModel';
+import { Button } from '../ui';
+import { cn } from '../../lib/utils';
+
+type MealPhoto = Doc<'meals'>['photos'][number];
+
+interface MealPhotoCarouselProps {
+  photos: MealPhoto[];
+  title: string;
+  className?: string;
+}
+
+export function MealPhotoCarousel({ photos, title, className }: MealPhotoCarouselProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const [current, setCurrent] = useState(0);
+
+  // Primary photo first, the rest in upload order
+  const slides = [...photos]
+    .filter(photo => photo.url)
+    .sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary));
+
+  if (slides.length === 0) {
+    return null;
+  }
+
+  const goTo = (index: number) => {
+    const track = trackRef.current;
+    const next = Math.max(0, Math.min(index, slides.length - 1));
+    setCurrent(next);
+    track?.scrollTo?.({ left: next * track.clientWidth, behavior: 'smooth' });
+  };
+
+  const handleScroll = () => {
+    const track = trackRef.current;
+    if (track && track.clientWidth > 0) {
+      setCurrent(Math.round(track.scrollLeft / track.clientWidth));
+    }
+  };
+
+  return (
+    <div
+      className={cn('relative', className)}
+      role="region"
+      aria-roledescription="carousel"
+      aria-label={`Photos of ${title}`}
+    >
+      <div
+        ref={trackRef}
+        onScroll={handleScroll}
+        className="flex overflow-x-auto snap-x snap-mandatory rounded-lg scrollbar-none"
+      >
+        {slides.map((photo, index) => (
+          <figure
+            key={photo.storageId}
+            className="w-full shrink-0 snap-center"
+            role="group"
+            aria-roledescription="slide"
+            aria-label={`${index + 1} of ${slides.length}`}
+          >
+            <img
+              src={photo.url}
+              alt={photo.caption ?? title}
+              className="w-full aspect-[4/3] object-cover"
+              loading={index === 0 ? 'eager' : 'lazy'}
+            />
+            {photo.caption && (
+              <figcaption className="px-1 pt-2 text-sm text-muted-foreground">
+                {photo.caption}
+              </figcaption>
+            )}
+          </figure>
+        ))}
+      </div>
+
+      {slides.length > 1 && (
+        <>
+          <Button
+            variant="secondary"
+            size="icon"
+            className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full opacity-90"
+            aria-label="Previous photo"
+            disabled={current === 0}
+            onClick={() => goTo(current - 1)}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="secondary"
+            size="icon"
+            className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full opacity-90"
+            aria-label="Next photo"
+            disabled={current === slides.length - 1}
+            onClick={() => goTo(current + 1)}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+
+          <div className="flex justify-center gap-2 pt-3">
+            {slides.map((photo, index) => (
+              <button
+                key={photo.storageId}
+                type="button"
+                aria-label={`Show photo ${index + 1}`}
+                aria-current={index === current}
+                onClick={() => goTo(index)}
+                className={cn(
+                  'h-2 w-2 rounded-full transition-colors',
+                  index === current ? 'bg-primary' : 'bg-muted-foreground/30',
+                )}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
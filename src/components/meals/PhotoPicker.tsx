@@ -0,0 +1,153 @@
+/**
+ * PhotoPicker - Choose photos to attach to a meal
+ *
+ * Collects image files before they are uploaded, checking each one against
+ * the same photo limits the upload mutations enforce. The first photo is
+ * the cover (primary) photo.
+ *
+ * Features:
+ * - Camera capture or library selection via the file input
+ * - Thumbnail previews with remove and make-cover actions
+ * - Free tier photo count and file size feedback
+ */
+
+import { useEffect, useMemo, useRef, useState, type ChangeEvent } from 'react';
+import { Camera, Star, X } from 'lucide-react';
+import { Button, FormField } from '../ui';
+import { cn } from '../../lib/utils';
+import { ALLOWED_PHOTO_MIME_TYPES, validatePhotoUpload } from '../../../convex/lib/validation';
+import { getEntitlements } from '../../../convex/lib/entitlements';
+import type { SubscriptionTier } from '../../../convex/lib/subscription';
+
+interface PhotoPickerProps {
+  files: File[];
+  onChange: (_files: File[]) => void;
+  tier?: SubscriptionTier;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function PhotoPicker({
+  files,
+  onChange,
+  tier = 'free',
+  disabled,
+  className,
+}: PhotoPickerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  const maxPhotos = getEntitlements(tier).maxPhotosPerMeal;
+
+  const previews = useMemo(() => files.map(file => URL.createObjectURL(file)), [files]);
+  useEffect(() => () => previews.forEach(url => URL.revokeObjectURL(url)), [previews]);
+
+  /**
+   * Add selected files that pass the photo limits
+   */
+  const handleSelect = (event: ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(event.target.files ?? []);
+    event.target.value = '';
+
+    const accepted = [...files];
+    let firstError: string | null = null;
+    for (const file of selected) {
+      const issue = validatePhotoUpload(
+        { size: file.size, mimeType: file.type, existingPhotoCount: accepted.length },
+        { tier },
+      );
+      if (issue) {
+        firstError ??= issue.message;
+      } else {
+        accepted.push(file);
+      }
+    }
+
+    setError(firstError);
+    onChange(accepted);
+  };
+
+  const removeAt = (index: number) => {
+    setError(null);
+    onChange(files.filter((_, i) => i !== index));
+  };
+
+  const makeCover = (index: number) => {
+    onChange([files[index], ...files.filter((_, i) => i !== index)]);
+  };
+
+  return (
+    <FormField label="Photos" error={error ?? undefined} className={className}>
+      <div className="grid grid-cols-3 sm:grid-cols-5 gap-2">
+        {files.map((file, index) => (
+          <div key={`${file.name}-${file.lastModified}-${index}`} className="relative aspect-square">
+            <img
+              src={previews[index]}
+              alt={file.name}
+              className="w-full h-full object-cover rounded-md"
+            />
+            {index === 0 ? (
+              <span className="absolute left-1 top-1 rounded bg-black/60 px-1.5 py-0.5 text-[10px] font-medium text-white">
+                Cover
+              </span>
+            ) : (
+              <Button
+                type="button"
+                size="icon"
+                variant="secondary"
+                className="absolute left-1 top-1 h-7 w-7"
+                aria-label={`Make ${file.name} the cover photo`}
+                onClick={() => makeCover(index)}
+                disabled={disabled}
+              >
+                <Star className="w-3 h-3" />
+              </Button>
+            )}
+            <Button
+              type="button"
+              size="icon"
+              variant="secondary"
+              className="absolute right-1 top-1 h-7 w-7"
+              aria-label={`Remove ${file.name}`}
+              onClick={() => removeAt(index)}
+              disabled={disabled}
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        ))}
+
+        {files.length < maxPhotos && (
+          <button
+            type="button"
+            className={cn(
+              'aspect-square flex flex-col items-center justify-center gap-1 rounded-md border-2 border-dashed border-border',
+              'text-muted-foreground hover:border-primary hover:text-primary transition-colors',
+              'disabled:opacity-50 disabled:pointer-events-none',
+            )}
+            onClick={() => inputRef.current?.click()}
+            disabled={disabled}
+          >
+            <Camera className="w-6 h-6" />
+            <span className="text-xs font-medium">Add photo</span>
+          </button>
+        )}
+      </div>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ALLOWED_PHOTO_MIME_TYPES.join(',')}
+        multiple={maxPhotos > 1}
+        className="sr-only"
+        aria-label="Choose photos"
+        onChange={handleSelect}
+        tabIndex={-1}
+      />
+
+      <p className="text-xs text-muted-foreground">
+        {files.length}/{maxPhotos} {maxPhotos === 1 ? 'photo' : 'photos'}
+        {tier === 'free' && ' on the free plan'}
+      </p>
+    </FormField>
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * SyncStatusPanel - Offline queue status and conflict resolution
+ *
+ * Shows how many meal changes are waiting to sync, and lets the user
+ * resolve changes the server rejected as stale or that failed to sync.
+ *
+ * Features:
+ * - SyncLoader with the pending count while offline or syncing
+ * - Per-conflict choice: keep local, keep server or merge field by field
+ * - Retry or discard for changes that failed repeatedly
+ */
+
+import { useState } from 'react';
+import { AlertTriangle, RefreshCw, Trash2 } from 'lucide-react';
+import {
+  Alert,
+  AlertDescription,
+  AlertTitle,
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  SyncLoader,
+  showErrorToast,
+} from '../ui';
+import { useOfflineSync } from '../../lib/offline/sync';
+import {
+  mergeMealChanges,
+  type MealChanges,
+  type MealField,
+  type MealSnapshot,
+  type OutboxEntry,
+} from '../../lib/offline/outbox';
+import { MEAL_TYPE_OPTIONS } from '../../lib/meals';
+import { formatPrice } from '../../lib/utils';
+
+const FIELD_LABELS: Record<MealField, string> = {
+  title: 'Title',
+  rating: 'Rating',
+  mealType: 'Meal type',
+  description: 'Description',
+  price: 'Price',
+  currency: 'Currency',
+  tags: 'Tags',
+  location: 'Place',
+  mealDate: 'Date',
+  cuisine: 'Cuisine',
+  dishType: 'Dish type',
+  servingSize: 'Serving size',
+  spiceLevel: 'Spice level',
+  notes: 'Notes',
+  occasion: 'Occasion',
+  companions: 'Companions',
+  isRecommended: 'Recommended',
+  wouldOrderAgain: 'Would order again',
+  valueForMoney: 'Value for money',
+};
+
+/**
+ * Human-readable value of a meal field
+ */
+function formatFieldValue(meal: Partial<MealSnapshot> | MealChanges, field: MealField): string {
+  switch (field) {
+    case 'mealType':
+      return MEAL_TYPE_OPTIONS.find(option => option.value === meal.mealType)?.label ?? '--';
+    case 'price':
+      return typeof meal.price === 'number' ? formatPrice(meal.price, meal.currency ?? undefined) : '--';
+    case 'tags':
+      return meal.tags && meal.tags.length > 0 ? meal.tags.join(', ') : '--';
+    case 'location':
+      return meal.location?.name ?? '--';
+    case 'mealDate':
+      return typeof meal.mealDate === 'number' ? new Date(meal.mealDate).toLocaleString() : '--';
+    case 'companions':
+      return meal.companions && meal.companions.length > 0 ? meal.companions.join(', ') : '--';
+    case 'isRecommended':
+    case 'wouldOrderAgain':
+      return typeof meal[field] === 'boolean' ? (meal[field] ? 'Yes' : 'No') : '--';
+    default:
+      return meal[field] !== undefined && meal[field] !== null && meal[field] !== '' ? String(meal[field]) : '--';
+  }
+}
+
+interface ConflictCardProps {
+  entry: OutboxEntry;
+}
+
+function ConflictCard({ entry }: ConflictCardProps) {
+  const { resolveConflict } = useOfflineSync();
+  const [isResolving, setIsResolving] = useState(false);
+  const [isMerging, setIsMerging] = useState(false);
+  const [choices, setChoices] = useState<Partial<Record<MealField, 'local' | 'server'>>>({});
+
+  const { operation, serverMeal } = entry;
+  if (operation.kind !== 'update' || !serverMeal) {
+    return null;
+  }
+
+  const merge = mergeMealChanges(operation.base, operation.changes, serverMeal);
+
+  const resolve = async (resolution: Parameters<typeof resolveConflict>[1]) => {
+    setIsResolving(true);
+    try {
+      const resolved = await resolveConflict(entry.id, resolution);
+      if (!resolved) {
+        showErrorToast('Meal changed again', 'Review the latest version and choose again.');
+      }
+    } catch (err) {
+      showErrorToast('Could not resolve conflict', err instanceof Error ? err.message : undefined);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const applyMerge = () => {
+    const changes = { ...merge.changes };
+    for (const field of merge.conflictingFields) {
+      if (choices[field] === 'local') {
+        Object.assign(changes, { [field]: operation.changes[field] });
+      }
+    }
+    void resolve({ kind: 'merge', changes });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{serverMeal.title}</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          This meal was changed elsewhere after you edited it offline.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground">
+              <th className="font-medium pb-2">Field</th>
+              <th className="font-medium pb-2">Your version</th>
+              <th className="font-medium pb-2">Server version</th>
+            </tr>
+          </thead>
+          <tbody>
+            {(Object.keys(operation.changes) as MealField[]).map(field => (
+              <tr key={field}>
+                <td className="py-1 pr-2">{FIELD_LABELS[field]}</td>
+                <td className="py-1 pr-2">{formatFieldValue(operation.changes, field)}</td>
+                <td className="py-1">{formatFieldValue(serverMeal, field)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {isMerging && (
+          <fieldset className="space-y-2" disabled={isResolving}>
+            <legend className="text-sm font-medium text-foreground mb-1">
+              {merge.conflictingFields.length > 0
+                ? 'Choose a version for fields changed on both sides'
+                : 'Your other changes will be applied on top of the server version'}
+            </legend>
+            {merge.conflictingFields.map(field => (
+              <div key={field} className="flex items-center justify-between gap-2 text-sm">
+                <span>{FIELD_LABELS[field]}</span>
+                <div className="flex gap-1" role="radiogroup" aria-label={FIELD_LABELS[field]}>
+                  {(['local', 'server'] as const).map(side => (
+                    <Button
+                      key={side}
+                      type="button"
+                      size="sm"
+                      role="radio"
+                      aria-checked={(choices[field] ?? 'server') === side}
+                      variant={(choices[field] ?? 'server') === side ? 'default' : 'outline'}
+                      onClick={() => setChoices(current => ({ ...current, [field]: side }))}
+                    >
+                      {side === 'local' ? 'Mine' : 'Server'}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+            <Button type="button" size="sm" onClick={applyMerge}>
+              Apply merge
+            </Button>
+          </fieldset>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" disabled={isResolving} onClick={() => void resolve({ kind: 'local' })}>
+            Keep mine
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isResolving}
+            onClick={() => void resolve({ kind: 'server' })}
+          >
+            Keep server
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isResolving}
+            aria-expanded={isMerging}
+            onClick={() => setIsMerging(current => !current)}
+          >
+            Merge
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Short description of a queued operation
+ */
+function describeEntry(entry: OutboxEntry) {
+  const { operation } = entry;
+  switch (operation.kind) {
+    case 'create':
+      return `Add "${operation.input.title}"`;
+    case 'update':
+      return `Edit "${operation.base.title}"`;
+    default:
+      return 'Delete meal';
+  }
+}
+
+export function SyncStatusPanel() {
+  const { isOnline, isSyncing, pendingCount, conflicts, failed, retryEntry, discardEntry } = useOfflineSync();
+
+  if (pendingCount === 0 && conflicts.length === 0 && failed.length === 0 && isOnline) {
+    return null;
+  }
+
+  return (
+    <section className="space-y-4" aria-label="Sync status">
+      {(pendingCount > 0 || !isOnline || isSyncing) && (
+        <SyncLoader pendingCount={pendingCount} isOnline={isOnline} />
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="space-y-3">
+          <h2 className="flex items-center gap-2 text-lg font-semibold text-foreground">
+            <AlertTriangle className="w-5 h-5 text-orange-500" aria-hidden="true" />
+            Sync conflicts
+          </h2>
+          {conflicts.map(entry => (
+            <ConflictCard key={entry.id} entry={entry} />
+          ))}
+        </div>
+      )}
+
+      {failed.map(entry => (
+        <Alert key={entry.id} variant="destructive">
+          <AlertTitle>{describeEntry(entry)} could not be synced</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>{entry.error}</p>
+            <div className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => void retryEntry(entry.id)}>
+                <RefreshCw className="w-4 h-4 mr-1" />
+                Retry
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => void discardEntry(entry.id)}>
+                <Trash2 className="w-4 h-4 mr-1" />
+                Discard
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,77 @@
+/**
+ * MealList Tests
+ *
+ * Covers loading, empty and populated states of the paginated meal list,
+ * and requesting further pages.
+ */
+
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { MealList } from '../MealList';
+import { mockUsePaginatedQuery } from '../../../test/mocks';
+import { renderWithRouter } from '../../../test/test-utils';
+
+const meal = {
+  _id: 'meal_1',
+  _creationTime: 0,
+  userId: 'user_1',
+  title: 'Pad thai',
+  rating: 9,
+  mealType: 'dinner',
+  tags: ['thai'],
+  photos: [],
+  isPublic: false,
+  syncStatus: 'synced',
+  mealDate: Date.now(),
+  createdAt: Date.now(),
+  updatedAt: Date.now(),
+};
+
+describe('MealList', () => {
+  it('shows skeletons while the first page loads', () => {
+    mockUsePaginatedQuery.mockReturnValue({
+      results: [],
+      status: 'LoadingFirstPage',
+      isLoading: true,
+      loadMore: vi.fn(),
+    });
+
+    const { container } = render(<MealList />);
+    expect(container.querySelector('[aria-busy="true"]')).toBeInTheDocument();
+  });
+
+  it('shows the empty state when there are no meals', () => {
+    const onAddMeal = vi.fn();
+    render(<MealList onAddMeal={onAddMeal} />);
+
+    fireEvent.click(screen.getByText('Add Your First Meal'));
+    expect(onAddMeal).toHaveBeenCalled();
+  });
+
+  it('passes filters to the paginated query', () => {
+    render(<MealList mealType="lunch" startDate={100} endDate={200} />);
+
+    expect(mockUsePaginatedQuery).toHaveBeenCalledWith(
+      expect.anything(),
+      { mealType: 'lunch', startDate: 100, endDate: 200 },
+      { initialNumItems: 20 },
+    );
+  });
+
+  it('renders meals and loads the next page on request', () => {
+    const loadMore = vi.fn();
+    mockUsePaginatedQuery.mockReturnValue({
+      results: [meal],
+      status: 'CanLoadMore',
+      isLoading: false,
+      loadMore,
+    });
+
+    renderWithRouter(<MealList />);
+    expect(screen.getByText('Pad thai')).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: /Pad thai/ })).toHaveAttribute('href', '/meals/meal_1');
+
+    fireEvent.click(screen.getByText('Load more'));
+    expect(loadMore).toHaveBeenCalledWith(20);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * PhotoPicker Tests
+ *
+ * Covers selecting photos within the tier limits, rejecting files that
+ * break them, and choosing the cover photo.
+ */
+
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect, vi } from 'vitest';
+import { PhotoPicker } from '../PhotoPicker';
+import { ENTITLEMENTS } from '../../../../convex/lib/entitlements';
+
+/**
+ * Create an image file of the given size
+ */
+function createImage(name: string, size = 1024, type = 'image/jpeg') {
+  const file = new File(['x'], name, { type });
+  Object.defineProperty(file, 'size', { value: size });
+  return file;
+}
+
+/**
+ * Simulate choosing files in the hidden file input
+ */
+function selectFiles(files: File[]) {
+  fireEvent.change(screen.getByLabelText('Choose photos'), { target: { files } });
+}
+
+describe('PhotoPicker', () => {
+  it('adds selected photos', () => {
+    const onChange = vi.fn();
+    render(<PhotoPicker files={[]} onChange={onChange} />);
+
+    const photo = createImage('ramen.jpg');
+    selectFiles([photo]);
+
+    expect(onChange).toHaveBeenCalledWith([photo]);
+  });
+
+  it('rejects photos over the free tier size cap', () => {
+    const onChange = vi.fn();
+    render(<PhotoPicker files={[]} onChange={onChange} />);
+
+    selectFiles([createImage('huge.jpg', ENTITLEMENTS.free.maxPhotoSize + 1)]);
+
+    expect(onChange).toHaveBeenCalledWith([]);
+    expect(screen.getByText(/must be 5MB or smaller/)).toBeInTheDocument();
+  });
+
+  it('keeps only as many photos as the tier allows', () => {
+    const onChange = vi.fn();
+    render(<PhotoPicker files={[]} onChange={onChange} />);
+
+    const first = createImage('first.jpg');
+    selectFiles([first, createImage('second.jpg')]);
+
+    expect(onChange).toHaveBeenCalledWith([first]);
+    expect(screen.getByText(/Free tier limited to 1 photo/)).toBeInTheDocument();
+  });
+
+  it('moves a photo to the cover position', () => {
+    const onChange = vi.fn();
+    const first = createImage('first.jpg');
+    const second = createImage('second.jpg');
+    render(<PhotoPicker files={[first, second]} onChange={onChange} tier="premium" />);
+
+    fireEvent.click(screen.getByLabelText('Make second.jpg the cover photo'));
+
+    expect(onChange).toHaveBeenCalledWith([second, first]);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * TagAutocomplete - Tag picker with suggestions from the user's tags
+ *
+ * Suggests the user's own tags, most used first, as they type. Selected
+ * tags are shown as removable chips.
+ *
+ * Features:
+ * - Suggestions from getTagSuggestions (userTags by usage)
+ * - Keyboard support: Enter adds the highlighted or typed tag,
+ *   arrow keys move through suggestions, Backspace removes the last chip
+ */
+
+import { useId, useState, type KeyboardEvent } from 'react';
+import { useQuery } from 'convex/react';
+import { X } from 'lucide-react';
+import { api } from '../../../convex/_generated/api';
+import { Input, MealTagBadge } from '../ui';
+import { cn } from '../../lib/utils';
+
+interface TagAutocompleteProps {
+  value: string[];
+  onChange: (_tags: string[]) => void;
+  className?: string;
+}
+
+export function TagAutocomplete({ value, onChange, className }: TagAutocompleteProps) {
+  const [input, setInput] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+  const prefix = input.trim().toLowerCase();
+
+  const suggestions = useQuery(api.functions.tags.getTagSuggestions, { prefix }) ?? [];
+  const options = suggestions.filter(suggestion => !value.includes(suggestion.tag));
+
+  const addTag = (tag: string) => {
+    const normalized = tag.trim().toLowerCase();
+    if (normalized && !value.includes(normalized)) {
+      onChange([...value, normalized]);
+    }
+    setInput('');
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      addTag(isOpen && options[highlighted] ? options[highlighted].tag : input);
+    } else if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setIsOpen(true);
+      setHighlighted(current => Math.min(current + 1, options.length - 1));
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setHighlighted(current => Math.max(current - 1, 0));
+    } else if (event.key === 'Escape') {
+      setIsOpen(false);
+    } else if (event.key === 'Backspace' && input === '' && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  const listId = useId();
+  const showOptions = isOpen && options.length > 0;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      {value.length > 0 && (
+        <ul className="flex flex-wrap gap-1" aria-label="Selected tags">
+          {value.map(tag => (
+            <li key={tag}>
+              <button
+                type="button"
+                className="inline-flex items-center gap-1"
+                onClick={() => onChange(value.filter(selected => selected !== tag))}
+                aria-label={`Remove tag ${tag}`}
+              >
+                <MealTagBadge tag={tag} />
+                <X className="w-3 h-3 text-muted-foreground" aria-hidden="true" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="relative">
+        <Input
+          value={input}
+          placeholder="Filter by tag"
+          aria-label="Filter by tag"
+          role="combobox"
+          aria-expanded={showOptions}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          onChange={event => {
+            setInput(event.target.value);
+            setIsOpen(true);
+            setHighlighted(0);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => setIsOpen(false)}
+          onKeyDown={handleKeyDown}
+        />
+
+        {showOptions && (
+          <ul
+            id={listId}
+            role="listbox"
+            className="absolute z-10 mt-1 w-full rounded-md border border-border bg-popover shadow-md py-1"
+          >
+            {options.map((option, index) => (
+              <li
+                key={option.tag}
+                role="option"
+                aria-selected={index === highlighted}
+                className={cn(
+                  'flex items-center justify-between px-3 py-2 text-sm cursor-pointer',
+                  index === highlighted && 'bg-muted',
+                )}
+                // Keep focus in the input so the list stays open
+                onMouseDown={event => event.preventDefault()}
+                onClick={() => addTag(option.tag)}
+              >
+                <span>#{option.tag}</span>
+                <span className="text-xs text-muted-foreground">{option.usageCount}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+/**
+ * AccountDeletion - Delete the account from Settings
+ *
+ * Requests the deletion of the account and all of its data. Deletion
+ * runs after a grace period, during which it can be canceled here, and
+ * cancels an active Premium subscription. The receipt ID shown while the deletion is pending looks up the signed
+ * deletion receipt once the data is gone.
+ */
+
+import { useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { Trash2 } from 'lucide-react';
+import { api } from '../../../convex/_generated/api';
+import { ACCOUNT_DELETION_GRACE_PERIOD_MS } from '../../../convex/lib/accountDeletion';
+import { Button, ButtonLoader, showErrorToast, showSuccessToast } from '../ui';
+import { getConvexErrorMessage } from '../../lib/convex/errors';
+
+const GRACE_PERIOD_DAYS = Math.round(ACCOUNT_DELETION_GRACE_PERIOD_MS / (24 * 60 * 60 * 1000));
+
+export function AccountDeletion() {
+  const deletion = useQuery(api.functions.users.getUserDeletion);
+  const deleteUser = useMutation(api.functions.users.deleteUser);
+  const cancelUserDeletion = useMutation(api.functions.users.cancelUserDeletion);
+  const [isConfirming, setIsConfirming] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const requestDeletion = async () => {
+    setIsUpdating(true);
+    try {
+      const { scheduledFor } = await deleteUser({});
+      setIsConfirming(false);
+      showSuccessToast('Account deletion scheduled', `Your account will be deleted on ${new Date(scheduledFor).toLocaleDateString()}.`);
+    } catch (err) {
+      showErrorToast('Could not delete your account', getConvexErrorMessage(err, 'Please try again.'));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const cancelDeletion = async () => {
+    setIsUpdating(true);
+    try {
+      await cancelUserDeletion({});
+      showSuccessToast('Account deletion canceled', 'Your account and data have been kept.');
+    } catch (err) {
+      showErrorToast('Could not cancel the deletion', getConvexErrorMessage(err, 'Please try again.'));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  if (deletion === undefined) {
+    return null;
+  }
+
+  if (deletion) {
+    return (
+      <div className="space-y-3">
+        <h4 className="text-sm font-medium">Account deletion scheduled</h4>
+        {!deletion.canCancel ? (
+          <p className="text-sm text-muted-foreground">Your data is being deleted.</p>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Your account and all of its data will be deleted on{' '}
+            <span className="font-medium text-foreground">{new Date(deletion.scheduledFor).toLocaleDateString()}</span>.
+            Until then you can keep using FoodyLog and cancel the deletion.
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Receipt ID: <code className="font-mono">{deletion.receiptId}</code>. Keep it to look up the signed
+          deletion receipt afterwards.
+        </p>
+        {deletion.canCancel && (
+          <Button variant="outline" onClick={() => void cancelDeletion()} disabled={isUpdating}>
+            {isUpdating && <ButtonLoader />}
+            Cancel deletion
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <h4 className="text-sm font-medium">Delete Account</h4>
+      <p className="text-sm text-muted-foreground">
+        Permanently delete your account and all associated data: meals, photos, tags, places, budgets
+        and imports. Deletion happens {GRACE_PERIOD_DAYS} days after you request it, and can be canceled
+        until then. An active Premium subscription is canceled along with the account.
+      </p>
+      {isConfirming ? (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="destructive" onClick={() => void requestDeletion()} disabled={isUpdating}>
+            {isUpdating ? <ButtonLoader /> : <Trash2 className="w-4 h-4 mr-2" />}
+            Yes, delete my account
+          </Button>
+          <Button variant="outline" onClick={() => setIsConfirming(false)} disabled={isUpdating}>
+            Keep my account
+          </Button>
+        </div>
+      ) : (
+        <Button variant="destructive" onClick={() => setIsConfirming(true)}>
+          <Trash2 className="w-4 h-4 mr-2" />
+          Delete account
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * DataExport - Export the meal history from Settings
+ *
+ * Exports the user's meals as CSV (one row per meal, for spreadsheets)
+ * or as a JSON archive that also holds photo metadata, tags and places.
+ * An optional date range limits the meals included. The file is
+ * downloaded on the web and handed to the share sheet on native.
+ */
+
+import { useState } from 'react';
+import { useAction } from 'convex/react';
+import { Download } from 'lucide-react';
+import { api } from '../../../convex/_generated/api';
+import type { ExportFileFormat } from '../../../convex/lib/export';
+import {
+  Button,
+  ButtonLoader,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  FormError,
+  FormField,
+  Input,
+  showErrorToast,
+  showSuccessToast,
+} from '../ui';
+import { getConvexErrorMessage } from '../../lib/convex/errors';
+import { getExportRange, saveExportFile } from '../../lib/export';
+
+const SELECT_CLASS_NAME = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+const FORMAT_OPTIONS: { value: ExportFileFormat; label: string }[] = [
+  { value: 'csv', label: 'CSV (spreadsheet)' },
+  { value: 'json', label: 'JSON (full archive)' },
+];
+
+export function DataExport() {
+  const exportMealHistory = useAction(api.functions.exports.exportMealHistory);
+  const [format, setFormat] = useState<ExportFileFormat>('csv');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const runExport = async () => {
+    if (from && to && from > to) {
+      setError('The start date must be on or before the end date.');
+      return;
+    }
+
+    setError(null);
+    setIsExporting(true);
+    try {
+      const file = await exportMealHistory({ format, ...getExportRange(from, to) });
+      await saveExportFile(file);
+      showSuccessToast('Export ready', `${file.mealCount} meal${file.mealCount !== 1 ? 's' : ''} exported.`);
+    } catch (err) {
+      showErrorToast('Could not export meals', getConvexErrorMessage(err, 'Please try again.'));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          📤 Export Data
+        </CardTitle>
+        <CardDescription>
+          Download your meal history as CSV or as a JSON archive with tags and places
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <FormError message={error} />}
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <FormField label="Format">
+            <select
+              aria-label="Export format"
+              className={SELECT_CLASS_NAME}
+              value={format}
+              onChange={event => setFormat(event.target.value as ExportFileFormat)}
+            >
+              {FORMAT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </FormField>
+          <FormField label="From">
+            <Input aria-label="Export from" type="date" value={from} max={to || undefined} onChange={event => setFrom(event.target.value)} />
+          </FormField>
+          <FormField label="To">
+            <Input aria-label="Export to" type="date" value={to} min={from || undefined} onChange={event => setTo(event.target.value)} />
+          </FormField>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Leave the dates empty to export every meal.
+        </p>
+
+        <Button onClick={() => void runExport()} disabled={isExporting}>
+          {isExporting ? <ButtonLoader /> : <Download className="w-4 h-4 mr-2" />}
+          Export meals
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
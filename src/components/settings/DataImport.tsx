@@ -0,0 +1,435 @@
+/**
+ * DataImport - Import meals from Settings
+ *
+ * A wizard that imports meals from a CSV (FoodyLog's own or another
+ * food-logging app's) or from a FoodyLog JSON export:
+ * 1. Choose the file
+ * 2. For a CSV, map columns to meal fields and choose how dates and
+ *    ratings are read; a preview shows the first rows as they will be
+ *    imported, with any problems
+ * 3. Rows are uploaded to an import job and imported in batches on the
+ *    server, with live progress
+ *
+ * When the import finishes, the report lists skipped rows (invalid or
+ * duplicate) and can be downloaded. An import that stopped can be
+ * resumed, and one in progress can be canceled.
+ */
+
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { Download, Upload } from 'lucide-react';
+import { api } from '../../../convex/_generated/api';
+import type { Doc, Id } from '../../../convex/_generated/dataModel';
+import type { ImportRow, ImportSource } from '../../../convex/lib/import';
+import { IMPORT_LIMITS, validateImportedMeal } from '../../../convex/lib/validation';
+import {
+  Button,
+  ButtonLoader,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  FormError,
+  FormField,
+  showErrorToast,
+  showSuccessToast,
+} from '../ui';
+import { getConvexErrorMessage } from '../../lib/convex/errors';
+import { saveExportFile } from '../../lib/export';
+import {
+  IMPORT_FIELDS,
+  MEAL_TYPES,
+  buildImportReportCsv,
+  guessColumnMapping,
+  mapCsvRows,
+  parseCsv,
+  parseFoodyLogExport,
+  type ColumnMapping,
+  type CsvImportOptions,
+  type ImportFieldKey,
+} from '../../lib/import';
+import { useEntitlements } from '../../hooks/useEntitlements';
+
+const SELECT_CLASS_NAME = 'h-10 w-full rounded-md border border-input bg-background px-3 text-sm';
+
+const PREVIEW_ROWS = 5;
+
+const DATE_FORMAT_OPTIONS: { value: CsvImportOptions['dateFormat']; label: string }[] = [
+  { value: 'mdy', label: 'Month/day/year (3/12/2025)' },
+  { value: 'dmy', label: 'Day/month/year (12/3/2025)' },
+  { value: 'iso', label: 'ISO only (2025-03-12)' },
+];
+
+interface ImportFile {
+  name: string;
+  source: ImportSource;
+  headers: string[]; // CSV only
+  rows: string[][]; // CSV data rows
+  parsedRows: ImportRow[]; // JSON only
+}
+
+export function DataImport() {
+  const { tier } = useEntitlements();
+  const recentJobs = useQuery(api.functions.imports.getImportJobs);
+  const createImportJob = useMutation(api.functions.imports.createImportJob);
+  const addImportRows = useMutation(api.functions.imports.addImportRows);
+  const startImport = useMutation(api.functions.imports.startImport);
+  const cancelImport = useMutation(api.functions.imports.cancelImport);
+
+  const [file, setFile] = useState<ImportFile | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [options, setOptions] = useState<CsvImportOptions>({ dateFormat: 'mdy', ratingScale: 10, defaultMealType: 'lunch' });
+  const [error, setError] = useState<string | null>(null);
+  const [stagedCount, setStagedCount] = useState<number | null>(null);
+
+  const rows = useMemo(() => {
+    if (!file) {
+      return [];
+    }
+    return file.source === 'csv' ? mapCsvRows(file.rows, mapping, options) : file.parsedRows;
+  }, [file, mapping, options]);
+
+  const problems = useMemo(
+    () => rows.map(row => row.error ?? (row.meal ? validateImportedMeal(row.meal, tier) : null)),
+    [rows, tier],
+  );
+  const problemCount = problems.filter(Boolean).length;
+  const missingFields = file?.source === 'csv'
+    ? IMPORT_FIELDS.filter(field => field.required && mapping[field.key] === undefined)
+    : [];
+
+  const chooseFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const chosen = event.target.files?.[0];
+    event.target.value = '';
+    if (!chosen) {
+      return;
+    }
+
+    setError(null);
+    try {
+      const text = await chosen.text();
+      if (chosen.name.toLowerCase().endsWith('.json')) {
+        setFile({ name: chosen.name, source: 'json', headers: [], rows: [], parsedRows: parseFoodyLogExport(text) });
+        return;
+      }
+
+      const [headers = [], ...dataRows] = parseCsv(text);
+      if (dataRows.length === 0) {
+        setError('This file has no rows to import.');
+        return;
+      }
+      setFile({ name: chosen.name, source: 'csv', headers, rows: dataRows, parsedRows: [] });
+      setMapping(guessColumnMapping(headers));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'This file could not be read.');
+    }
+  };
+
+  const runImport = async () => {
+    if (!file) {
+      return;
+    }
+    if (rows.length > IMPORT_LIMITS.maxRows) {
+      setError(`An import can have at most ${IMPORT_LIMITS.maxRows} rows.`);
+      return;
+    }
+
+    setError(null);
+    setStagedCount(0);
+    let jobId: Id<'importJobs'> | null = null;
+    try {
+      jobId = await createImportJob({ source: file.source, filename: file.name });
+      for (let i = 0; i < rows.length; i += IMPORT_LIMITS.stageBatchSize) {
+        const chunk = rows.slice(i, i + IMPORT_LIMITS.stageBatchSize);
+        await addImportRows({ jobId, rows: chunk });
+        setStagedCount(i + chunk.length);
+      }
+      await startImport({ jobId });
+      setFile(null);
+    } catch (err) {
+      if (jobId) {
+        await cancelImport({ jobId }).catch(() => undefined);
+      }
+      showErrorToast('Could not import meals', getConvexErrorMessage(err, 'Please try again.'));
+    } finally {
+      setStagedCount(null);
+    }
+  };
+
+  const latestJob = recentJobs?.[0];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          📥 Import Data
+        </CardTitle>
+        <CardDescription>
+          Add meals from a CSV file or a FoodyLog JSON export
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <FormError message={error} />}
+
+        {!file ? (
+          <>
+            <label className="inline-flex">
+              <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                aria-label="Choose import file"
+                className="sr-only"
+                onChange={event => void chooseFile(event)}
+              />
+              <span className="inline-flex items-center rounded-md border border-input px-4 py-2 text-sm font-medium cursor-pointer hover:bg-accent">
+                <Upload className="w-4 h-4 mr-2" />
+                Choose file
+              </span>
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Meals that match one you already have (same title, date and place) are skipped.
+            </p>
+          </>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm">
+              <span className="font-medium">{file.name}</span>
+              {` · ${rows.length} row${rows.length !== 1 ? 's' : ''}`}
+            </p>
+
+            {file.source === 'csv' && (
+              <>
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <FormField label="Dates">
+                    <select
+                      aria-label="Date format"
+                      className={SELECT_CLASS_NAME}
+                      value={options.dateFormat}
+                      onChange={event => setOptions({ ...options, dateFormat: event.target.value as CsvImportOptions['dateFormat'] })}
+                    >
+                      {DATE_FORMAT_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </FormField>
+                  <FormField label="Ratings">
+                    <select
+                      aria-label="Rating scale"
+                      className={SELECT_CLASS_NAME}
+                      value={options.ratingScale}
+                      onChange={event => setOptions({ ...options, ratingScale: Number(event.target.value) as 5 | 10 })}
+                    >
+                      <option value={10}>Out of 10</option>
+                      <option value={5}>Out of 5</option>
+                    </select>
+                  </FormField>
+                  <FormField label="Meal type when missing">
+                    <select
+                      aria-label="Default meal type"
+                      className={SELECT_CLASS_NAME}
+                      value={options.defaultMealType}
+                      onChange={event => setOptions({ ...options, defaultMealType: event.target.value as CsvImportOptions['defaultMealType'] })}
+                    >
+                      {MEAL_TYPES.map(type => (
+                        <option key={type} value={type}>{type.charAt(0).toUpperCase() + type.slice(1)}</option>
+                      ))}
+                    </select>
+                  </FormField>
+                </div>
+
+                <fieldset className="grid gap-3 sm:grid-cols-2">
+                  <legend className="text-sm font-medium text-foreground mb-2">Columns</legend>
+                  {IMPORT_FIELDS.map(field => (
+                    <label key={field.key} className="flex items-center justify-between gap-2 text-sm">
+                      <span>{field.label}{field.required && ' *'}</span>
+                      <select
+                        aria-label={`Column for ${field.label}`}
+                        className={`${SELECT_CLASS_NAME} max-w-[55%]`}
+                        value={mapping[field.key] ?? ''}
+                        onChange={event => setMapping(updateMapping(mapping, field.key, event.target.value))}
+                      >
+                        <option value="">Not imported</option>
+                        {file.headers.map((header, index) => (
+                          <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                        ))}
+                      </select>
+                    </label>
+                  ))}
+                </fieldset>
+              </>
+            )}
+
+            <section aria-labelledby="import-preview-heading" className="space-y-2">
+              <h4 id="import-preview-heading" className="text-sm font-medium text-muted-foreground">
+                Preview
+                {rows.length > PREVIEW_ROWS && ` (first ${PREVIEW_ROWS} of ${rows.length})`}
+              </h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="font-medium pb-2">Row</th>
+                    <th className="font-medium pb-2">Meal</th>
+                    <th className="font-medium pb-2">Date</th>
+                    <th className="font-medium pb-2">Rating</th>
+                    <th className="font-medium pb-2">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, PREVIEW_ROWS).map((row, index) => (
+                    <tr key={row.row}>
+                      <td className="py-1 pr-2">{row.row}</td>
+                      <td className="py-1 pr-2">{row.meal?.title ?? row.title ?? '—'}</td>
+                      <td className="py-1 pr-2">{row.meal ? new Date(row.meal.mealDate).toLocaleDateString() : '—'}</td>
+                      <td className="py-1 pr-2">{row.meal ? row.meal.rating : '—'}</td>
+                      <td className={`py-1 ${problems[index] ? 'text-destructive' : 'text-muted-foreground'}`}>
+                        {problems[index] ?? 'Ready'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {problemCount > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {problemCount} row{problemCount !== 1 ? 's' : ''} will be skipped and listed in the report.
+                </p>
+              )}
+            </section>
+
+            {missingFields.length > 0 && (
+              <FormError message={`Choose a column for ${missingFields.map(field => field.label).join(', ')}.`} />
+            )}
+
+            <div className="flex gap-2">
+              <Button onClick={() => void runImport()} disabled={stagedCount !== null || missingFields.length > 0}>
+                {stagedCount !== null ? <ButtonLoader /> : <Upload className="w-4 h-4 mr-2" />}
+                {stagedCount !== null ? `Uploading ${stagedCount} of ${rows.length}` : `Import ${rows.length} rows`}
+              </Button>
+              <Button variant="outline" onClick={() => setFile(null)} disabled={stagedCount !== null}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {latestJob && !file && <ImportJobStatus job={latestJob} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Map a field to a column ('' leaves it unmapped)
+ */
+function updateMapping(mapping: ColumnMapping, key: ImportFieldKey, value: string): ColumnMapping {
+  const next = { ...mapping };
+  if (value === '') {
+    delete next[key];
+  } else {
+    next[key] = Number(value);
+  }
+  return next;
+}
+
+/**
+ * Progress of an import, and its report of skipped rows once done
+ */
+function ImportJobStatus({ job }: { job: Doc<'importJobs'> }) {
+  const resumeImport = useMutation(api.functions.imports.resumeImport);
+  const cancelImport = useMutation(api.functions.imports.cancelImport);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const ratio = job.totalRows > 0 ? job.processedRows / job.totalRows : 0;
+  const isRunning = job.status === 'staging' || job.status === 'importing';
+
+  const update = async (action: 'resume' | 'cancel') => {
+    setIsUpdating(true);
+    try {
+      if (action === 'resume') {
+        await resumeImport({ jobId: job._id });
+      } else {
+        await cancelImport({ jobId: job._id });
+        showSuccessToast('Import canceled', 'Meals imported so far have been kept.');
+      }
+    } catch (err) {
+      showErrorToast('Could not update the import', getConvexErrorMessage(err, 'Please try again.'));
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const downloadReport = async () => {
+    try {
+      await saveExportFile({
+        filename: `foodylog-import-report-${new Date(job.createdAt).toISOString().slice(0, 10)}.csv`,
+        mimeType: 'text/csv',
+        content: buildImportReportCsv(job.skippedRows),
+      });
+    } catch (err) {
+      showErrorToast('Could not save the report', getConvexErrorMessage(err, 'Please try again.'));
+    }
+  };
+
+  return (
+    <section aria-labelledby="import-status-heading" className="space-y-3 border-t pt-4">
+      <h4 id="import-status-heading" className="text-sm font-medium text-muted-foreground">
+        {isRunning ? 'Importing' : job.status === 'canceled' ? 'Import canceled' : 'Last import'}
+        {` · ${job.filename}`}
+      </h4>
+
+      {isRunning && (
+        <div
+          role="progressbar"
+          aria-label="Import progress"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(ratio * 100)}
+          className="h-2 w-full overflow-hidden rounded-full bg-muted"
+        >
+          <div className="h-full rounded-full bg-primary transition-all" style={{ width: `${ratio * 100}%` }} />
+        </div>
+      )}
+
+      <p className="text-sm">
+        {`${job.processedRows} of ${job.totalRows} rows processed · ${job.importedCount} imported`}
+        {` · ${job.duplicateCount} duplicate${job.duplicateCount !== 1 ? 's' : ''}`}
+        {` · ${job.skippedCount - job.duplicateCount} invalid`}
+      </p>
+
+      {isRunning && (
+        <div className="flex gap-2">
+          {job.status === 'importing' && (
+            <Button size="sm" variant="outline" onClick={() => void update('resume')} disabled={isUpdating}>
+              Resume
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={() => void update('cancel')} disabled={isUpdating}>
+            Cancel import
+          </Button>
+        </div>
+      )}
+
+      {job.skippedRows.length > 0 && (
+        <div className="space-y-2">
+          <ul className="max-h-48 overflow-y-auto space-y-1 text-sm" aria-label="Skipped rows">
+            {job.skippedRows.map(skipped => (
+              <li key={skipped.row}>
+                <span className="font-medium">Row {skipped.row}</span>
+                {skipped.title && ` · ${skipped.title}`}
+                <span className="text-muted-foreground">{` — ${skipped.reason}`}</span>
+              </li>
+            ))}
+          </ul>
+          {job.skippedCount > job.skippedRows.length && (
+            <p className="text-xs text-muted-foreground">
+              {`Showing the first ${job.skippedRows.length} of ${job.skippedCount} skipped rows.`}
+            </p>
+          )}
+          <Button size="sm" variant="outline" onClick={() => void downloadReport()}>
+            <Download className="w-4 h-4 mr-2" />
+            Download report
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+}
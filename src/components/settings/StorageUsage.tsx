@@ -0,0 +1,122 @@
+/**
+ * StorageUsage - Photo storage usage meter
+ *
+ * Shows how much photo storage the user uses against their tier's quota,
+ * and which meals use the most, linking to each meal so photos can be
+ * removed to free space.
+ *
+ * Features:
+ * - Usage meter with the quota (free tier) or total used (premium)
+ * - Warning and upgrade prompt as the quota fills up
+ * - Per-meal breakdown, largest first
+ */
+
+import { Link } from 'react-router-dom';
+import { useQuery } from 'convex/react';
+import { api } from '../../../convex/_generated/api';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Skeleton,
+} from '../ui';
+import { UpgradePrompt } from '../subscription/UpgradePrompt';
+import { checkStorageQuota } from '../../../convex/lib/entitlements';
+import { useEntitlements } from '../../hooks/useEntitlements';
+import { cn, formatFileSize } from '../../lib/utils';
+
+// Share of the quota at which the meter turns to a warning
+const WARNING_RATIO = 0.8;
+
+export function StorageUsage() {
+  const usage = useQuery(api.functions.storage.getStorageUsage);
+
+  const { tier } = useEntitlements();
+
+  const ratio = usage?.quota ? Math.min(1, usage.used / usage.quota) : 0;
+  // Full once not even one more byte fits
+  const quotaViolation = usage ? checkStorageQuota(tier, usage.used, 1) : null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          📦 Photo Storage
+        </CardTitle>
+        <CardDescription>
+          Space used by your meal photos
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {usage === undefined ? (
+          <div className="space-y-2">
+            <Skeleton className="h-4 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <p className="text-sm">
+                <span className="font-medium">{formatFileSize(usage.used)}</span>
+                {usage.quota !== null ? ` of ${formatFileSize(usage.quota)} used` : ' used'}
+              </p>
+              {usage.quota !== null && (
+                <div
+                  role="progressbar"
+                  aria-label="Photo storage used"
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                  aria-valuenow={Math.round(ratio * 100)}
+                  className="h-2 w-full overflow-hidden rounded-full bg-muted"
+                >
+                  <div
+                    className={cn(
+                      'h-full rounded-full transition-all',
+                      ratio >= WARNING_RATIO ? 'bg-destructive' : 'bg-primary',
+                    )}
+                    style={{ width: `${ratio * 100}%` }}
+                  />
+                </div>
+              )}
+            </div>
+
+            {quotaViolation && <UpgradePrompt violation={quotaViolation} />}
+
+            {usage.meals.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Photos you add to meals will count towards your storage here.
+              </p>
+            ) : (
+              <section aria-labelledby="storage-breakdown-heading" className="space-y-2">
+                <h4 id="storage-breakdown-heading" className="text-sm font-medium text-muted-foreground">
+                  Largest meals
+                  {usage.mealCount > usage.meals.length && ` (top ${usage.meals.length} of ${usage.mealCount})`}
+                </h4>
+                <ul className="divide-y divide-border">
+                  {usage.meals.map(meal => (
+                    <li key={meal.mealId}>
+                      <Link
+                        to={`/meals/${meal.mealId}`}
+                        className="flex items-center justify-between gap-4 py-2 text-sm hover:underline"
+                      >
+                        <span className="truncate">
+                          {meal.title}
+                          <span className="text-muted-foreground">
+                            {' · '}{meal.photoCount} {meal.photoCount === 1 ? 'photo' : 'photos'}
+                          </span>
+                        </span>
+                        <span className="shrink-0 tabular-nums">{formatFileSize(meal.bytes)}</span>
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,273 @@
+/**
+ * TagManager - Manage the user's meal tags
+ *
+ * Lists every tag with its usage count and lets the user recolor,
+ * categorize, rename and merge tags. Renames and merges rewrite the tag
+ * on every affected meal.
+ *
+ * Features:
+ * - Tags grouped by category, most used first
+ * - Color picker and category field with existing categories suggested
+ * - Inline rename (renaming onto an existing tag merges the two)
+ * - Multi-select merge into one of the selected tags or a new name
+ */
+
+import { useId, useState } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { Check, Merge, Pencil, X } from 'lucide-react';
+import { api } from '../../../convex/_generated/api';
+import type { Doc } from '../../../convex/_generated/dataModel';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+  Input,
+  MealTagBadge,
+  Skeleton,
+  showErrorToast,
+  showSuccessToast,
+} from '../ui';
+import { getConvexErrorMessage } from '../../lib/convex/errors';
+import { TAG_LIMITS } from '../../../convex/lib/validation';
+
+const UNCATEGORIZED = 'Uncategorized';
+
+interface TagRowProps {
+  tag: Doc<'userTags'>;
+  categoriesListId: string;
+  isSelected: boolean;
+  onToggleSelected: () => void;
+}
+
+function TagRow({ tag, categoriesListId, isSelected, onToggleSelected }: TagRowProps) {
+  const updateTag = useMutation(api.functions.tags.updateTag);
+  const renameTag = useMutation(api.functions.tags.renameTag);
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [newName, setNewName] = useState(tag.tag);
+  const [category, setCategory] = useState(tag.category ?? '');
+
+  const save = async (changes: { color?: string; category?: string }) => {
+    try {
+      await updateTag({ tag: tag.tag, ...changes });
+    } catch (err) {
+      showErrorToast('Could not update tag', getConvexErrorMessage(err, 'Please try again.'));
+    }
+  };
+
+  const rename = async () => {
+    try {
+      const { mealsUpdated } = await renameTag({ from: tag.tag, to: newName });
+      setIsRenaming(false);
+      showSuccessToast('Tag renamed', `Updated ${mealsUpdated} meal${mealsUpdated !== 1 ? 's' : ''}.`);
+    } catch (err) {
+      showErrorToast('Could not rename tag', getConvexErrorMessage(err, 'Please try again.'));
+    }
+  };
+
+  return (
+    <li className="flex flex-wrap items-center gap-3 py-2">
+      <input
+        type="checkbox"
+        checked={isSelected}
+        onChange={onToggleSelected}
+        aria-label={`Select ${tag.tag} for merging`}
+        className="h-4 w-4"
+      />
+
+      <input
+        type="color"
+        value={tag.color ?? '#888888'}
+        onChange={event => void save({ color: event.target.value })}
+        aria-label={`Color for ${tag.tag}`}
+        className="h-8 w-8 rounded border border-border bg-transparent cursor-pointer"
+      />
+
+      {isRenaming ? (
+        <form
+          className="flex items-center gap-1"
+          onSubmit={event => {
+            event.preventDefault();
+            void rename();
+          }}
+        >
+          <Input
+            value={newName}
+            maxLength={TAG_LIMITS.nameMaxLength}
+            onChange={event => setNewName(event.target.value)}
+            aria-label={`New name for ${tag.tag}`}
+            className="h-8 w-40"
+            autoFocus
+          />
+          <Button type="submit" size="icon" variant="ghost" aria-label="Save name">
+            <Check className="w-4 h-4" />
+          </Button>
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            aria-label="Cancel rename"
+            onClick={() => {
+              setNewName(tag.tag);
+              setIsRenaming(false);
+            }}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </form>
+      ) : (
+        <div className="flex items-center gap-1">
+          <MealTagBadge
+            tag={tag.tag}
+            style={tag.color ? { borderColor: tag.color, color: tag.color } : undefined}
+          />
+          <Button
+            size="icon"
+            variant="ghost"
+            aria-label={`Rename ${tag.tag}`}
+            onClick={() => setIsRenaming(true)}
+          >
+            <Pencil className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+
+      <span className="text-xs text-muted-foreground">
+        {tag.usageCount} meal{tag.usageCount !== 1 ? 's' : ''}
+      </span>
+
+      <Input
+        value={category}
+        placeholder="Category"
+        list={categoriesListId}
+        maxLength={TAG_LIMITS.categoryMaxLength}
+        onChange={event => setCategory(event.target.value)}
+        onBlur={() => {
+          if (category.trim() !== (tag.category ?? '')) {
+            void save({ category });
+          }
+        }}
+        aria-label={`Category for ${tag.tag}`}
+        className="h-8 w-36 ml-auto"
+      />
+    </li>
+  );
+}
+
+export function TagManager() {
+  const tags = useQuery(api.functions.tags.getUserTags);
+  const mergeTags = useMutation(api.functions.tags.mergeTags);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [mergeTarget, setMergeTarget] = useState('');
+  const [isMerging, setIsMerging] = useState(false);
+  const categoriesListId = useId();
+
+  const categories = Array.from(new Set((tags ?? []).flatMap(tag => (tag.category ? [tag.category] : [])))).sort();
+  const groups = [...categories, UNCATEGORIZED]
+    .map(category => ({
+      category,
+      tags: (tags ?? []).filter(tag => (tag.category ?? UNCATEGORIZED) === category),
+    }))
+    .filter(group => group.tags.length > 0);
+
+  const toggleSelected = (tag: string) => {
+    setSelected(current => (
+      current.includes(tag) ? current.filter(entry => entry !== tag) : [...current, tag]
+    ));
+  };
+
+  const merge = async () => {
+    const target = mergeTarget.trim() || selected[0];
+    setIsMerging(true);
+    try {
+      const { mealsUpdated } = await mergeTags({ sources: selected, target });
+      setSelected([]);
+      setMergeTarget('');
+      showSuccessToast('Tags merged', `Updated ${mealsUpdated} meal${mealsUpdated !== 1 ? 's' : ''}.`);
+    } catch (err) {
+      showErrorToast('Could not merge tags', getConvexErrorMessage(err, 'Please try again.'));
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          🏷️ Tags
+        </CardTitle>
+        <CardDescription>
+          Recolor, categorize, rename and merge the tags on your meals
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {tags === undefined ? (
+          <div className="space-y-2">
+            {Array.from({ length: 3 }, (_, index) => (
+              <Skeleton key={index} className="h-10 w-full" />
+            ))}
+          </div>
+        ) : tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Tags you add to meals will show up here.
+          </p>
+        ) : (
+          <>
+            <datalist id={categoriesListId}>
+              {categories.map(category => (
+                <option key={category} value={category} />
+              ))}
+            </datalist>
+
+            {groups.map(group => (
+              <section key={group.category} aria-label={group.category}>
+                <h4 className="text-sm font-medium text-muted-foreground">{group.category}</h4>
+                <ul className="divide-y divide-border">
+                  {group.tags.map(tag => (
+                    <TagRow
+                      key={tag._id}
+                      tag={tag}
+                      categoriesListId={categoriesListId}
+                      isSelected={selected.includes(tag.tag)}
+                      onToggleSelected={() => toggleSelected(tag.tag)}
+                    />
+                  ))}
+                </ul>
+              </section>
+            ))}
+
+            {selected.length >= 2 && (
+              <div className="flex flex-wrap items-center gap-2 rounded-lg border border-border p-3">
+                <span className="text-sm">Merge {selected.length} tags into</span>
+                <Input
+                  value={mergeTarget}
+                  placeholder={selected[0]}
+                  list={`${categoriesListId}-selected`}
+                  maxLength={TAG_LIMITS.nameMaxLength}
+                  onChange={event => setMergeTarget(event.target.value)}
+                  aria-label="Merged tag name"
+                  className="h-8 w-40"
+                />
+                <datalist id={`${categoriesListId}-selected`}>
+                  {selected.map(tag => (
+                    <option key={tag} value={tag} />
+                  ))}
+                </datalist>
+                <Button size="sm" onClick={() => void merge()} disabled={isMerging}>
+                  <Merge className="w-4 h-4 mr-1" />
+                  Merge
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setSelected([])}>
+                  Cancel
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
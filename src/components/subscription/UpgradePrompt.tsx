@@ -0,0 +1,44 @@
+/**
+ * UpgradePrompt - Explain a free tier limit and point to Premium
+ *
+ * Shown wherever a request runs into a tier limit, either caught on the
+ * client with the shared `check*` entitlement helpers or returned by a
+ * Convex function as an EntitlementError. Limits premium does not lift
+ * (e.g. the premium photo cap) are shown without the upgrade button.
+ */
+
+import { Link } from 'react-router-dom';
+import { Sparkles } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle, Button } from '../ui';
+import type { EntitlementErrorCode, EntitlementViolation } from '../../../convex/lib/entitlements';
+
+const PROMPT_TITLES: Record<EntitlementErrorCode, string> = {
+  TAG_LIMIT: 'Tag limit reached',
+  PHOTO_LIMIT: 'Photo limit reached',
+  PHOTO_SIZE_LIMIT: 'Photo too large',
+  ANALYTICS_HISTORY_LIMIT: 'See your full history with Premium',
+  STORAGE_QUOTA: 'Photo storage full',
+  EXTENDED_MEAL_FIELDS: 'Record more with Premium',
+};
+
+interface UpgradePromptProps {
+  violation: EntitlementViolation;
+  className?: string;
+}
+
+export function UpgradePrompt({ violation, className }: UpgradePromptProps) {
+  return (
+    <Alert className={className}>
+      <Sparkles className="w-4 h-4" aria-hidden="true" />
+      <AlertTitle>{PROMPT_TITLES[violation.code]}</AlertTitle>
+      <AlertDescription className="space-y-3">
+        <p>{violation.message}</p>
+        {violation.upgradable && (
+          <Button asChild size="sm">
+            <Link to="/settings?tab=account">Upgrade to Premium</Link>
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
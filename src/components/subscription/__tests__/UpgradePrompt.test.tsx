@@ -0,0 +1,45 @@
+/**
+ * UpgradePrompt Tests
+ *
+ * Covers mapping entitlement errors to the prompt and hiding the upgrade
+ * link for limits premium does not lift.
+ */
+
+import { screen } from '@testing-library/react';
+import { ConvexError } from 'convex/values';
+import { describe, it, expect } from 'vitest';
+import { UpgradePrompt } from '../UpgradePrompt';
+import { renderWithRouter } from '../../../test/test-utils';
+import { getEntitlementViolation } from '../../../lib/convex/errors';
+import { checkAnalyticsHistory, checkPhotoLimit, checkTagLimit } from '../../../../convex/lib/entitlements';
+
+describe('UpgradePrompt', () => {
+  it('explains the limit and links to the subscription settings', () => {
+    const violation = checkAnalyticsHistory('free', 0);
+    renderWithRouter(<UpgradePrompt violation={violation!} />);
+
+    expect(screen.getByText('See your full history with Premium')).toBeInTheDocument();
+    expect(screen.getByText(/last 30 days/)).toBeInTheDocument();
+    expect(screen.getByRole('link', { name: 'Upgrade to Premium' })).toHaveAttribute('href', '/settings?tab=account');
+  });
+
+  it('leaves out the upgrade link when premium has the same limit', () => {
+    renderWithRouter(<UpgradePrompt violation={checkPhotoLimit('premium', 5)!} />);
+
+    expect(screen.getByText('Photo limit reached')).toBeInTheDocument();
+    expect(screen.queryByRole('link', { name: 'Upgrade to Premium' })).not.toBeInTheDocument();
+  });
+});
+
+describe('getEntitlementViolation', () => {
+  it('reads the violation from an EntitlementError', () => {
+    const violation = checkTagLimit('free', 4)!;
+
+    expect(getEntitlementViolation(new ConvexError(violation))).toEqual(violation);
+  });
+
+  it('ignores other errors', () => {
+    expect(getEntitlementViolation(new ConvexError({ code: 'UNAUTHENTICATED', message: 'Sign in' }))).toBeNull();
+    expect(getEntitlementViolation(new Error('TAG_LIMIT'))).toBeNull();
+  });
+});
@@ -9,7 +9,7 @@
 import * as React from 'react';
 import { cva, type VariantProps } from 'class-variance-authority';
 import { X } from 'lucide-react';
-import { cn } from '~/lib/utils';
+import { cn, formatPrice } from '~/lib/utils';
 
 const badgeVariants = cva(
   'inline-flex items-center rounded-full border px-2.5 py-0.5 text-xs font-semibold transition-colors focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2',
@@ -153,19 +153,21 @@ export function MealTypeBadge({ mealType, ...props }: MealTypeBadgeProps) {
 
 /**
  * PriceBadge - Specialized badge for meal prices
+ * Shows the price in the home currency too when it was paid in another
  */
 interface PriceBadgeProps extends Omit<BadgeProps, 'variant' | 'children'> {
   price: number;
   currency?: string;
+  homePrice?: number;
+  homeCurrency?: string;
 }
 
-export function PriceBadge({ price, currency = 'USD', ...props }: PriceBadgeProps) {
-  const formattedPrice = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency,
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2,
-  }).format(price);
+export function PriceBadge({ price, currency = 'USD', homePrice, homeCurrency, ...props }: PriceBadgeProps) {
+  const formattedPrice = formatPrice(
+    price,
+    currency,
+    homePrice !== undefined && homeCurrency ? { amount: homePrice, currency: homeCurrency } : undefined,
+  );
 
   return (
     <Badge variant="price" {...props}>
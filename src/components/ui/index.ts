@@ -62,6 +62,7 @@ export {
   showWarningToast,
   showInfoToast,
   showMealSavedToast,
+  showMealDeletedToast,
   showPhotoUploadToast,
   showOfflineSyncToast,
   showNetworkErrorToast,
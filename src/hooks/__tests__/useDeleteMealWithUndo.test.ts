@@ -0,0 +1,79 @@
+/**
+ * useDeleteMealWithUndo Hook Tests
+ *
+ * Covers hiding a meal during the undo window, undoing, and deleting once
+ * the window passes.
+ */
+
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Id } from '../../../convex/_generated/dataModel';
+import {
+  UNDO_DELETE_MS,
+  useDeleteMealWithUndo,
+  usePendingMealDeletes,
+} from '../useDeleteMealWithUndo';
+
+const deleteMeal = vi.fn();
+
+vi.mock('../../lib/offline/sync', () => ({
+  useOfflineSync: () => ({ deleteMeal }),
+}));
+
+vi.mock('../use-toast', () => ({
+  showMealDeletedToast: vi.fn(),
+  showErrorToast: vi.fn(),
+}));
+
+const { showMealDeletedToast } = await import('../use-toast');
+
+const meal = { _id: 'meal_1' as Id<'meals'>, title: 'Pad thai' };
+
+function renderDelete() {
+  return renderHook(() => ({
+    remove: useDeleteMealWithUndo(),
+    pending: usePendingMealDeletes(),
+  }));
+}
+
+describe('useDeleteMealWithUndo', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    deleteMeal.mockResolvedValue({ queued: false });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('hides the meal and deletes it after the undo window', async () => {
+    const { result } = renderDelete();
+
+    act(() => result.current.remove(meal));
+    expect(result.current.pending.has('meal_1')).toBe(true);
+    expect(deleteMeal).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(UNDO_DELETE_MS);
+    });
+
+    expect(deleteMeal).toHaveBeenCalledWith('meal_1');
+    expect(result.current.pending.has('meal_1')).toBe(false);
+  });
+
+  it('keeps the meal when the delete is undone', async () => {
+    const { result } = renderDelete();
+
+    act(() => result.current.remove(meal));
+    const onUndo = vi.mocked(showMealDeletedToast).mock.calls[0][1];
+    act(() => onUndo());
+
+    await act(async () => {
+      await vi.advanceTimersByTimeAsync(UNDO_DELETE_MS);
+    });
+
+    expect(deleteMeal).not.toHaveBeenCalled();
+    expect(result.current.pending.has('meal_1')).toBe(false);
+  });
+});
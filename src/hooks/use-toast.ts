@@ -252,6 +252,24 @@ function showMealSavedToast(mealTitle: string, onUndo?: () => void) {
   });
 }
 
+/**
+ * Show meal deleted toast with undo action
+ *
+ * Stays open for `duration` ms, the window in which the delete can be undone.
+ */
+function showMealDeletedToast(mealTitle: string, onUndo: () => void, duration: number) {
+  return toast({
+    variant: 'default',
+    title: 'Meal deleted',
+    description: `"${mealTitle}" was removed from your food diary.`,
+    duration,
+    action: React.createElement(ToastAction, {
+      altText: 'Undo meal delete',
+      onClick: onUndo,
+    }, 'Undo') as unknown as ToastActionElement,
+  });
+}
+
 /**
  * Show photo upload progress toast
  */
@@ -351,6 +369,7 @@ export {
   showWarningToast,
   showInfoToast,
   showMealSavedToast,
+  showMealDeletedToast,
   showPhotoUploadToast,
   showOfflineSyncToast,
   showNetworkErrorToast,
@@ -0,0 +1,46 @@
+/**
+ * useAnalytics Hook
+ *
+ * Reads meal analytics for a period and keeps the server-side cache warm.
+ * When the query has to compute results live (no valid analyticsCache
+ * entry), the hook asks the server to store them so later visits are
+ * served from the cache.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useMutation, useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { AnalyticsRangeArgs } from '../lib/analytics';
+
+/**
+ * Get analytics for a range, refreshing the cache when it is stale
+ *
+ * @param range - Period range from getAnalyticsRange
+ * @param options.enabled - Set to false to skip the query, e.g. for ranges
+ *   the user's tier cannot see
+ */
+export function useAnalytics(range: AnalyticsRangeArgs, options: { enabled?: boolean } = {}) {
+  const enabled = options.enabled ?? true;
+  const result = useQuery(api.functions.analytics.getAnalytics, enabled ? range : 'skip');
+  const refreshAnalytics = useMutation(api.functions.analytics.refreshAnalytics);
+  const requestedRef = useRef<string | null>(null);
+
+  const isStale = result !== undefined && !result.cached;
+  const requestKey = `${range.period}:${range.startDate}:${range.endDate}:${result?.generatedAt}`;
+
+  useEffect(() => {
+    if (!isStale || requestedRef.current === requestKey) {
+      return;
+    }
+
+    requestedRef.current = requestKey;
+    // Caching is an optimisation; live results are already on screen
+    refreshAnalytics(range).catch(() => undefined);
+  }, [isStale, requestKey, range, refreshAnalytics]);
+
+  return {
+    analytics: result?.data,
+    isLoading: result === undefined,
+    isCached: result?.cached ?? false,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * useDeleteMealWithUndo - Delete meals with an undo window
+ *
+ * Deleting a meal also deletes its photos, so instead of recreating the
+ * meal on undo the delete is held back: the meal is hidden right away and
+ * only deleted once the undo toast closes. Pending deletes are kept at
+ * module level so they complete after the page that started them
+ * unmounts, and are sent immediately if the page is being unloaded.
+ */
+
+import { useCallback, useSyncExternalStore } from 'react';
+import type { Doc } from '../../convex/_generated/dataModel';
+import { useOfflineSync } from '../lib/offline/sync';
+import { showErrorToast, showMealDeletedToast } from './use-toast';
+
+// How long a delete can be undone
+export const UNDO_DELETE_MS = 5000;
+
+interface PendingDelete {
+  timeout: ReturnType<typeof setTimeout>;
+  commit: () => void;
+  isCommitted: boolean;
+}
+
+const pendingDeletes = new Map<string, PendingDelete>();
+const listeners = new Set<() => void>();
+let pendingIds: ReadonlySet<string> = new Set();
+
+function emitChange() {
+  pendingIds = new Set(pendingDeletes.keys());
+  listeners.forEach(listener => listener());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function getPendingIds() {
+  return pendingIds;
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('pagehide', () => {
+    for (const pending of pendingDeletes.values()) {
+      clearTimeout(pending.timeout);
+      pending.commit();
+    }
+  });
+}
+
+/**
+ * IDs of meals whose delete is waiting out the undo window
+ *
+ * Lists filter these out so a deleted meal disappears immediately.
+ */
+export function usePendingMealDeletes(): ReadonlySet<string> {
+  return useSyncExternalStore(subscribe, getPendingIds);
+}
+
+/**
+ * Delete a meal after an undo window
+ *
+ * @returns Function that hides the meal, shows the undo toast and deletes
+ * the meal when the window passes
+ */
+export function useDeleteMealWithUndo() {
+  const { deleteMeal } = useOfflineSync();
+
+  return useCallback((meal: Pick<Doc<'meals'>, '_id' | 'title'>) => {
+    const mealId = meal._id;
+    if (pendingDeletes.has(mealId)) {
+      return;
+    }
+
+    // The meal stays hidden until the delete settles, so it does not
+    // reappear while the list catches up
+    const commit = () => {
+      const pending = pendingDeletes.get(mealId);
+      if (!pending || pending.isCommitted) {
+        return;
+      }
+      pending.isCommitted = true;
+      deleteMeal(mealId)
+        .catch((err: unknown) => {
+          showErrorToast('Could not delete meal', err instanceof Error ? err.message : undefined);
+        })
+        .finally(() => {
+          pendingDeletes.delete(mealId);
+          emitChange();
+        });
+    };
+
+    const undo = () => {
+      const pending = pendingDeletes.get(mealId);
+      if (pending && !pending.isCommitted) {
+        clearTimeout(pending.timeout);
+        pendingDeletes.delete(mealId);
+        emitChange();
+      }
+    };
+
+    pendingDeletes.set(mealId, {
+      timeout: setTimeout(commit, UNDO_DELETE_MS),
+      commit,
+      isCommitted: false,
+    });
+    emitChange();
+    showMealDeletedToast(meal.title, undo, UNDO_DELETE_MS);
+  }, [deleteMeal]);
+}
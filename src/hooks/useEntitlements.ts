@@ -0,0 +1,22 @@
+/**
+ * useEntitlements Hook
+ *
+ * The signed-in user's subscription tier and the limits that come with it,
+ * from the entitlements table shared with the Convex functions. Until the
+ * subscription loads, free tier limits are assumed.
+ */
+
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { getEntitlements } from '../../convex/lib/entitlements';
+
+export function useEntitlements() {
+  const subscription = useQuery(api.functions.subscriptions.getSubscription);
+  const tier = subscription?.tier ?? 'free';
+
+  return {
+    tier,
+    entitlements: getEntitlements(tier),
+    isLoading: subscription === undefined,
+  };
+}
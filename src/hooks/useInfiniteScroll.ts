@@ -0,0 +1,54 @@
+/**
+ * useInfiniteScroll - Load more items when a sentinel scrolls into view
+ *
+ * Attach the returned ref to an element rendered after the last list item.
+ * When that element nears the viewport and loading is enabled, `onLoadMore`
+ * is called. Pairs with Convex `usePaginatedQuery` for infinite lists.
+ */
+
+import { useEffect, useRef } from 'react';
+
+interface UseInfiniteScrollOptions {
+  onLoadMore: () => void;
+  enabled: boolean;
+  rootMargin?: string;
+}
+
+/**
+ * Observe a sentinel element and request the next page when it is visible
+ *
+ * @param options.onLoadMore - Called when the sentinel becomes visible
+ * @param options.enabled - Whether more items can be loaded right now
+ * @param options.rootMargin - Distance from the viewport that triggers loading
+ * @returns Ref to attach to the sentinel element
+ */
+export function useInfiniteScroll<T extends Element = HTMLDivElement>({
+  onLoadMore,
+  enabled,
+  rootMargin = '200px',
+}: UseInfiniteScrollOptions) {
+  const sentinelRef = useRef<T>(null);
+  const onLoadMoreRef = useRef(onLoadMore);
+  onLoadMoreRef.current = onLoadMore;
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!enabled || !sentinel) {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          onLoadMoreRef.current();
+        }
+      },
+      { rootMargin },
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [enabled, rootMargin]);
+
+  return sentinelRef;
+}
@@ -0,0 +1,92 @@
+/**
+ * usePhotoUpload Hook
+ *
+ * Runs the meal photo upload pipeline and exposes its progress in the shape
+ * the PhotoUploadLoader component expects.
+ *
+ * Pipeline per photo:
+ * 1. generateUploadUrl (limits checked server-side)
+ * 2. POST the file to the upload URL with progress reporting
+ * 3. attachPhoto (file verified and linked to the meal)
+ */
+
+import { useCallback, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import type { Id } from '../../convex/_generated/dataModel';
+import { getImageDimensions, uploadFileWithProgress } from '../lib/photos';
+import { getConvexErrorMessage } from '../lib/convex/errors';
+
+export type PhotoUploadStage = 'uploading' | 'processing' | 'optimizing' | 'complete';
+
+interface UsePhotoUploadReturn {
+  uploadPhotos: (_mealId: Id<'meals'>, _files: File[]) => Promise<Id<'mealPhotos'>[]>;
+  isUploading: boolean;
+  stage: PhotoUploadStage;
+  progress: number; // 0-100 across all files in the batch
+  error: string | null;
+}
+
+/**
+ * Upload photos to a meal with combined progress
+ *
+ * Files are uploaded one at a time, in order, so the first file becomes
+ * the meal's primary photo.
+ */
+export function usePhotoUpload(): UsePhotoUploadReturn {
+  const generateUploadUrl = useMutation(api.functions.photos.generateUploadUrl);
+  const attachPhoto = useMutation(api.functions.photos.attachPhoto);
+
+  const [isUploading, setIsUploading] = useState(false);
+  const [stage, setStage] = useState<PhotoUploadStage>('uploading');
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const uploadPhotos = useCallback(async (mealId: Id<'meals'>, files: File[]) => {
+    const photoIds: Id<'mealPhotos'>[] = [];
+    if (files.length === 0) {
+      return photoIds;
+    }
+
+    setIsUploading(true);
+    setError(null);
+    setProgress(0);
+
+    try {
+      for (const [index, file] of files.entries()) {
+        const reportProgress = (fileProgress: number) =>
+          setProgress(((index + fileProgress / 100) / files.length) * 100);
+
+        setStage('uploading');
+        const uploadUrl = await generateUploadUrl({
+          mealId,
+          size: file.size,
+          mimeType: file.type,
+        });
+        const storageId = await uploadFileWithProgress(uploadUrl, file, reportProgress);
+
+        setStage('processing');
+        const dimensions = await getImageDimensions(file);
+        photoIds.push(await attachPhoto({
+          mealId,
+          storageId,
+          filename: file.name,
+          mimeType: file.type,
+          ...dimensions,
+        }));
+      }
+
+      setStage('complete');
+      setProgress(100);
+      return photoIds;
+    } catch (err) {
+      const message = getConvexErrorMessage(err, 'Failed to upload photo. Please try again.');
+      setError(message);
+      throw new Error(message);
+    } finally {
+      setIsUploading(false);
+    }
+  }, [generateUploadUrl, attachPhoto]);
+
+  return { uploadPhotos, isUploading, stage, progress, error };
+}
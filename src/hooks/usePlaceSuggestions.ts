@@ -0,0 +1,69 @@
+/**
+ * usePlaceSuggestions Hook
+ *
+ * Place suggestions around a position for the meal form: the user's
+ * visited places within NEARBY_PLACES_RADIUS_METERS first, then places
+ * from the lookup provider. A failing provider only drops its results.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
+import { NEARBY_PLACES_RADIUS_METERS } from '../../convex/lib/places';
+import {
+  MAX_PLACE_SUGGESTIONS,
+  mergePlaceSuggestions,
+  type Coordinates,
+  type PlaceCandidate,
+  type PlaceLookupProvider,
+} from '../lib/location/placeLookup';
+
+/**
+ * @param position - Position to suggest places for, or null before it is known
+ * @param provider - Lookup provider, or null for visited places only
+ */
+export function usePlaceSuggestions(position: Coordinates | null, provider: PlaceLookupProvider | null) {
+  const visited = useQuery(
+    api.functions.places.getNearbyPlaces,
+    position ? { lat: position.lat, lng: position.lng } : 'skip',
+  );
+  const [lookup, setLookup] = useState<{ position: Coordinates; candidates: PlaceCandidate[] } | null>(null);
+
+  useEffect(() => {
+    if (!position || !provider) {
+      return;
+    }
+
+    let cancelled = false;
+    provider
+      .searchNearby(position, { radiusMeters: NEARBY_PLACES_RADIUS_METERS, limit: MAX_PLACE_SUGGESTIONS })
+      .catch((err: unknown) => {
+        console.warn('Place lookup failed:', err);
+        return [];
+      })
+      .then(candidates => {
+        if (!cancelled) {
+          setLookup({ position, candidates });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [position, provider]);
+
+  const isLookupPending = Boolean(position && provider && lookup?.position !== position);
+
+  const suggestions = useMemo(() => {
+    if (!position || !visited) {
+      return [];
+    }
+    const candidates = lookup?.position === position ? lookup.candidates : [];
+    return mergePlaceSuggestions(position, visited, candidates);
+  }, [position, visited, lookup]);
+
+  return {
+    suggestions,
+    isLoading: Boolean(position) && (visited === undefined || isLookupPending),
+  };
+}
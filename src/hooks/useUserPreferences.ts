@@ -67,7 +67,7 @@ export const useUserPreferences = (): UseUserPreferencesReturn => {
   const updatePreferencesMutation = useMutation(api.functions.users.updateUserPreferences);
 
   // Determine current preferences (optimistic > server > default)
-  const preferences: UserPreferences = optimisticPreferences || DEFAULT_PREFERENCES;
+  const preferences: UserPreferences = optimisticPreferences || currentUser?.preferences || DEFAULT_PREFERENCES;
 
   // Loading state
   const isLoading = currentUser === undefined || isUpdating;
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { formatPeriodLabel, getAnalyticsRange, shiftPeriod } from './analytics';
+
+describe('getAnalyticsRange', () => {
+  const date = new Date(2025, 2, 12, 15, 30); // Wednesday 12 March 2025
+
+  it('builds hourly buckets for a day', () => {
+    const range = getAnalyticsRange('daily', date);
+
+    expect(range.startDate).toBe(new Date(2025, 2, 12).getTime());
+    expect(range.endDate).toBe(new Date(2025, 2, 13).getTime());
+    expect(range.bucketStarts[0]).toBe(range.startDate);
+    expect(range.bucketStarts.length).toBeGreaterThanOrEqual(23);
+  });
+
+  it('starts weeks on Monday with daily buckets', () => {
+    const range = getAnalyticsRange('weekly', date);
+
+    expect(range.startDate).toBe(new Date(2025, 2, 10).getTime());
+    expect(range.endDate).toBe(new Date(2025, 2, 17).getTime());
+    expect(range.bucketStarts).toHaveLength(7);
+  });
+
+  it('uses one bucket per day of the month', () => {
+    const range = getAnalyticsRange('monthly', date);
+
+    expect(range.startDate).toBe(new Date(2025, 2, 1).getTime());
+    expect(range.endDate).toBe(new Date(2025, 3, 1).getTime());
+    expect(range.bucketStarts).toHaveLength(31);
+  });
+
+  it('uses monthly buckets for a year', () => {
+    const range = getAnalyticsRange('yearly', date);
+
+    expect(range.startDate).toBe(new Date(2025, 0, 1).getTime());
+    expect(range.bucketStarts).toHaveLength(12);
+    expect(range.bucketStarts[11]).toBe(new Date(2025, 11, 1).getTime());
+  });
+});
+
+describe('shiftPeriod', () => {
+  it('moves between months from any day in the month', () => {
+    expect(shiftPeriod('monthly', new Date(2025, 0, 31), 1)).toEqual(new Date(2025, 1, 1));
+    expect(shiftPeriod('monthly', new Date(2025, 0, 31), -1)).toEqual(new Date(2024, 11, 1));
+  });
+
+  it('moves weeks by seven days from Monday', () => {
+    expect(shiftPeriod('weekly', new Date(2025, 2, 12), -1)).toEqual(new Date(2025, 2, 3));
+  });
+});
+
+describe('formatPeriodLabel', () => {
+  it('labels months and years', () => {
+    expect(formatPeriodLabel(getAnalyticsRange('monthly', new Date(2025, 2, 12)))).toBe('March 2025');
+    expect(formatPeriodLabel(getAnalyticsRange('yearly', new Date(2025, 2, 12)))).toBe('2025');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Analytics Period Helpers
+ *
+ * Builds the date ranges sent to the analytics queries. Ranges follow the
+ * user's local calendar: days start at local midnight, weeks on Monday,
+ * months on the 1st and years on January 1st.
+ */
+
+export type AnalyticsPeriod = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export const ANALYTICS_PERIOD_OPTIONS: { value: AnalyticsPeriod; label: string }[] = [
+  { value: 'daily', label: 'Day' },
+  { value: 'weekly', label: 'Week' },
+  { value: 'monthly', label: 'Month' },
+  { value: 'yearly', label: 'Year' },
+];
+
+/**
+ * Arguments accepted by the getAnalytics and refreshAnalytics functions
+ */
+export interface AnalyticsRangeArgs {
+  period: AnalyticsPeriod;
+  startDate: number;
+  endDate: number;
+  bucketStarts: number[];
+}
+
+/**
+ * Get the local start of the period containing a date
+ */
+function getPeriodStart(period: AnalyticsPeriod, date: Date): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+  switch (period) {
+    case 'weekly':
+      // Monday is the first day of the week
+      start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+      return start;
+    case 'monthly':
+      return new Date(date.getFullYear(), date.getMonth(), 1);
+    case 'yearly':
+      return new Date(date.getFullYear(), 0, 1);
+    default:
+      return start;
+  }
+}
+
+/**
+ * Move a date by a number of periods
+ */
+export function shiftPeriod(period: AnalyticsPeriod, date: Date, step: number): Date {
+  const next = getPeriodStart(period, date);
+
+  switch (period) {
+    case 'daily':
+      next.setDate(next.getDate() + step);
+      break;
+    case 'weekly':
+      next.setDate(next.getDate() + step * 7);
+      break;
+    case 'monthly':
+      next.setMonth(next.getMonth() + step);
+      break;
+    case 'yearly':
+      next.setFullYear(next.getFullYear() + step);
+      break;
+  }
+
+  return next;
+}
+
+/**
+ * Build the analytics range for the period containing a date
+ *
+ * Buckets are hours for a day, days for a week or month and months for a
+ * year.
+ */
+export function getAnalyticsRange(period: AnalyticsPeriod, date: Date): AnalyticsRangeArgs {
+  const start = getPeriodStart(period, date);
+  const end = shiftPeriod(period, start, 1);
+  const bucketStarts: number[] = [];
+
+  for (const cursor = new Date(start); cursor < end;) {
+    bucketStarts.push(cursor.getTime());
+    if (period === 'daily') {
+      cursor.setHours(cursor.getHours() + 1);
+    } else if (period === 'yearly') {
+      cursor.setMonth(cursor.getMonth() + 1);
+    } else {
+      cursor.setDate(cursor.getDate() + 1);
+    }
+  }
+
+  return {
+    period,
+    startDate: start.getTime(),
+    endDate: end.getTime(),
+    bucketStarts,
+  };
+}
+
+/**
+ * Human readable label for a period, e.g. "March 2025"
+ */
+export function formatPeriodLabel(range: AnalyticsRangeArgs): string {
+  const start = new Date(range.startDate);
+
+  switch (range.period) {
+    case 'daily':
+      return start.toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+    case 'weekly': {
+      const last = new Date(range.endDate - 1);
+      const startLabel = start.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+      const endLabel = last.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+      return `${startLabel} – ${endLabel}`;
+    }
+    case 'monthly':
+      return start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+    case 'yearly':
+      return String(start.getFullYear());
+  }
+}
+
+/**
+ * Short label for a spend-over-time bucket
+ */
+export function formatBucketLabel(period: AnalyticsPeriod, bucketStart: number): string {
+  const date = new Date(bucketStart);
+
+  switch (period) {
+    case 'daily':
+      return date.toLocaleTimeString('en-US', { hour: 'numeric' });
+    case 'weekly':
+      return date.toLocaleDateString('en-US', { weekday: 'short' });
+    case 'monthly':
+      return String(date.getDate());
+    case 'yearly':
+      return date.toLocaleDateString('en-US', { month: 'short' });
+  }
+}
@@ -370,6 +370,13 @@ export const sessionHelpers = {
     }
   },
   
+  /**
+   * Get the stored intended destination without clearing it
+   */
+  getIntendedDestination: (): string | null => {
+    return sessionStorage.getItem('foodylog_intended_destination');
+  },
+  
   /**
    * Get and clear stored intended destination
    */
@@ -421,6 +428,21 @@ export const deepLinkHelpers = {
     return protectedRouteConfig.defaultRedirect;
   },
   
+  /**
+   * Get where to send the user after signing in or up
+   * 
+   * Prefers the page the user was redirected from (router state), then the
+   * stored destination, which survives reloads during the auth flow.
+   */
+  getReturnPath: (locationState: unknown): string => {
+    const from = (locationState as { from?: { pathname: string; search?: string } } | null)?.from;
+    if (from && sessionHelpers.isProtectedRoute(from.pathname)) {
+      return from.pathname + (from.search || '');
+    }
+    
+    return sessionHelpers.getIntendedDestination() ?? protectedRouteConfig.defaultRedirect;
+  },
+  
   /**
    * Generate authentication URL with return path
    */
@@ -0,0 +1,76 @@
+/**
+ * Budget helper tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatBudgetScope,
+  getBudgetAlertMessage,
+  getDefaultBudgetFormValues,
+  toBudgetFormValues,
+  toBudgetInput,
+} from './budgets';
+
+describe('toBudgetInput', () => {
+  it('parses amounts and thresholds', () => {
+    const result = toBudgetInput({
+      ...getDefaultBudgetFormValues('EUR'),
+      name: ' Lunches ',
+      amount: '150.5',
+      mealType: 'lunch',
+      alertThresholds: '50%, 90, 100',
+    });
+
+    expect(result).toEqual({
+      input: {
+        name: 'Lunches',
+        amount: 150.5,
+        currency: 'EUR',
+        period: 'monthly',
+        mealType: 'lunch',
+        tag: undefined,
+        alertThresholds: [50, 90, 100],
+      },
+    });
+  });
+
+  it('returns the shared validation message', () => {
+    expect(toBudgetInput({ ...getDefaultBudgetFormValues('USD'), name: 'Food', amount: '' }))
+      .toEqual({ error: expect.stringContaining('Budget amount') });
+    expect(toBudgetInput({ ...getDefaultBudgetFormValues('USD'), name: 'Food', amount: '10', alertThresholds: 'lots' }))
+      .toEqual({ error: expect.stringContaining('whole percentages') });
+  });
+
+  it('round-trips a stored budget', () => {
+    const budget = {
+      name: 'Work lunches',
+      amount: 80,
+      currency: 'USD',
+      period: 'weekly' as const,
+      tag: 'work',
+      alertThresholds: [80, 100],
+    };
+
+    expect(toBudgetInput(toBudgetFormValues(budget))).toEqual({ input: { ...budget, mealType: undefined } });
+  });
+});
+
+describe('formatBudgetScope', () => {
+  it('describes the meals a budget covers', () => {
+    expect(formatBudgetScope({})).toBe('All meals');
+    expect(formatBudgetScope({ mealType: 'lunch', tag: 'work' })).toBe('Lunch · #work');
+  });
+});
+
+describe('getBudgetAlertMessage', () => {
+  const alert = { budgetName: 'Eating out', spent: 85, amount: 100, currency: 'USD', period: 'monthly' as const };
+
+  it('words alerts by threshold', () => {
+    expect(getBudgetAlertMessage({ ...alert, threshold: 80 })).toEqual({
+      title: 'Eating out is at 80%',
+      description: '$85.00 of $100.00 spent this month.',
+    });
+    expect(getBudgetAlertMessage({ ...alert, threshold: 100 }).title).toBe('Eating out has reached its budget');
+    expect(getBudgetAlertMessage({ ...alert, threshold: 120 }).title).toBe('Eating out is over budget');
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Budget Helpers
+ *
+ * Options, labels and form conversions for the budget card and form. The
+ * limits and validation rules are shared with the Convex budget functions
+ * (`convex/lib/validation.ts`).
+ */
+
+import { DEFAULT_ALERT_THRESHOLDS } from '../../convex/lib/budgets';
+import { validateBudgetInput, type BudgetPeriod } from '../../convex/lib/validation';
+import { MEAL_TYPE_OPTIONS, type MealType } from './meals';
+import { formatPrice } from './utils';
+
+/**
+ * Budget period options for the budget form
+ */
+export const BUDGET_PERIOD_OPTIONS: { value: BudgetPeriod; label: string; current: string }[] = [
+  { value: 'weekly', label: 'Weekly', current: 'this week' },
+  { value: 'monthly', label: 'Monthly', current: 'this month' },
+  { value: 'yearly', label: 'Yearly', current: 'this year' },
+];
+
+/**
+ * Raw budget form values, kept as strings for the inputs
+ */
+export interface BudgetFormValues {
+  name: string;
+  amount: string;
+  currency: string;
+  period: BudgetPeriod;
+  mealType: MealType | '';
+  tag: string;
+  alertThresholds: string; // comma separated percentages
+}
+
+/**
+ * Budget input produced by the form, matching the createBudget arguments
+ */
+export interface BudgetInput {
+  name: string;
+  amount: number;
+  currency: string;
+  period: BudgetPeriod;
+  mealType?: MealType;
+  tag?: string;
+  alertThresholds: number[];
+}
+
+type BudgetScope = { mealType?: MealType; tag?: string };
+
+/**
+ * Empty form values for a new budget
+ */
+export function getDefaultBudgetFormValues(currency: string): BudgetFormValues {
+  return {
+    name: '',
+    amount: '',
+    currency,
+    period: 'monthly',
+    mealType: '',
+    tag: '',
+    alertThresholds: DEFAULT_ALERT_THRESHOLDS.join(', '),
+  };
+}
+
+/**
+ * Convert a stored budget into form values for editing
+ */
+export function toBudgetFormValues(budget: BudgetInput): BudgetFormValues {
+  return {
+    name: budget.name,
+    amount: String(budget.amount),
+    currency: budget.currency,
+    period: budget.period,
+    mealType: budget.mealType ?? '',
+    tag: budget.tag ?? '',
+    alertThresholds: budget.alertThresholds.join(', '),
+  };
+}
+
+/**
+ * Convert form values into budget input, or return the validation message
+ */
+export function toBudgetInput(values: BudgetFormValues): { input: BudgetInput } | { error: string } {
+  const thresholds = values.alertThresholds
+    .split(',')
+    .map(value => value.trim().replace(/%$/, ''))
+    .filter(Boolean)
+    .map(Number);
+  const input: BudgetInput = {
+    name: values.name.trim(),
+    amount: values.amount.trim() === '' ? NaN : Number(values.amount),
+    currency: values.currency,
+    period: values.period,
+    mealType: values.mealType || undefined,
+    tag: values.tag.trim() || undefined,
+    alertThresholds: thresholds,
+  };
+
+  const error = validateBudgetInput(input);
+  return error ? { error } : { input };
+}
+
+/**
+ * Describe which meals count towards a budget, e.g. "Lunch · #work"
+ */
+export function formatBudgetScope(budget: BudgetScope): string {
+  const parts = [];
+  if (budget.mealType) {
+    const label = MEAL_TYPE_OPTIONS.find(option => option.value === budget.mealType)?.label ?? budget.mealType;
+    parts.push(label.replace(/^\P{L}+/u, ''));
+  }
+  if (budget.tag) {
+    parts.push(`#${budget.tag}`);
+  }
+  return parts.length > 0 ? parts.join(' · ') : 'All meals';
+}
+
+/**
+ * Short label for a budget period in the history chart
+ *
+ * @param start - Period start timestamp
+ */
+export function formatBudgetPeriodLabel(period: BudgetPeriod, start: number): string {
+  const date = new Date(start);
+  switch (period) {
+    case 'weekly':
+      return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    case 'monthly':
+      return date.toLocaleDateString('en-US', { month: 'short' });
+    case 'yearly':
+      return String(date.getFullYear());
+  }
+}
+
+/**
+ * Title and description for a budget alert
+ */
+export function getBudgetAlertMessage(alert: {
+  budgetName: string;
+  threshold: number;
+  spent: number;
+  amount: number;
+  currency: string;
+  period: BudgetPeriod;
+}): { title: string; description: string } {
+  const current = BUDGET_PERIOD_OPTIONS.find(option => option.value === alert.period)?.current ?? '';
+  const title = alert.threshold > 100
+    ? `${alert.budgetName} is over budget`
+    : alert.threshold === 100
+      ? `${alert.budgetName} has reached its budget`
+      : `${alert.budgetName} is at ${alert.threshold}%`;
+
+  return {
+    title,
+    description: `${formatPrice(alert.spent, alert.currency)} of ${formatPrice(alert.amount, alert.currency)} spent ${current}.`,
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Convex error helper tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ConvexError } from 'convex/values';
+import {
+  checkAnalyticsHistory,
+  checkExtendedMealFields,
+  checkPhotoLimit,
+  checkPhotoSize,
+  checkStorageQuota,
+  checkTagLimit,
+  ENTITLEMENT_ERROR_CODES,
+  EntitlementError,
+  type EntitlementViolation,
+} from '../../../convex/lib/entitlements';
+import { getConvexErrorMessage, getEntitlementViolation } from './errors';
+
+describe('getEntitlementViolation', () => {
+  it('recognizes every violation the server throws', () => {
+    const violations = [
+      checkTagLimit('free', 100),
+      checkPhotoLimit('free', 100),
+      checkPhotoSize('free', Number.MAX_SAFE_INTEGER),
+      checkAnalyticsHistory('free', 0),
+      checkStorageQuota('free', Number.MAX_SAFE_INTEGER, 1),
+      checkExtendedMealFields('free', ['cuisine']),
+    ].filter((violation): violation is EntitlementViolation => violation !== null);
+
+    expect(violations.map(violation => violation.code)).toEqual([...ENTITLEMENT_ERROR_CODES]);
+    for (const violation of violations) {
+      expect(getEntitlementViolation(new EntitlementError(violation))).toEqual(violation);
+    }
+  });
+
+  it('ignores other errors', () => {
+    expect(getEntitlementViolation(new ConvexError({ code: 'OTHER', message: 'Nope' }))).toBeNull();
+    expect(getEntitlementViolation(new ConvexError('Nope'))).toBeNull();
+    expect(getEntitlementViolation(new Error('TAG_LIMIT'))).toBeNull();
+  });
+});
+
+describe('getConvexErrorMessage', () => {
+  it('reads structured and wrapped server errors', () => {
+    expect(getConvexErrorMessage(new EntitlementError(checkTagLimit('free', 100)!))).toMatch(/^Free tier limited/);
+    expect(getConvexErrorMessage(new Error('[CONVEX M(functions/meals:createMeal)] Uncaught Error: Meal not found')))
+      .toBe('Meal not found');
+    expect(getConvexErrorMessage(null, 'Fallback')).toBe('Fallback');
+  });
+});
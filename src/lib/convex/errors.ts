@@ -0,0 +1,68 @@
+/**
+ * Convex Error Helpers
+ *
+ * Turns errors thrown by Convex queries and mutations into messages that
+ * can be shown to users. Structured errors (ConvexError) carry their message
+ * in `data`; plain server errors arrive wrapped in request metadata, e.g.
+ * "[CONVEX M(functions/meals:createMeal)] ... Uncaught Error: <message>".
+ */
+
+import { ConvexError } from 'convex/values';
+import {
+  ENTITLEMENT_ERROR_CODES,
+  type EntitlementErrorCode,
+  type EntitlementViolation,
+} from '../../../convex/lib/entitlements';
+
+const DEFAULT_ERROR_MESSAGE = 'Something went wrong. Please try again.';
+
+/**
+ * Extract a user-facing message from a Convex error
+ *
+ * @param error - Error thrown by a Convex function call
+ * @param fallback - Message used when nothing readable can be extracted
+ * @returns User-facing error message
+ */
+export function getConvexErrorMessage(
+  error: unknown,
+  fallback: string = DEFAULT_ERROR_MESSAGE,
+): string {
+  if (error instanceof ConvexError) {
+    const data = error.data as unknown;
+    if (typeof data === 'string') {
+      return data;
+    }
+    if (data && typeof data === 'object' && 'message' in data && typeof data.message === 'string') {
+      return data.message;
+    }
+  }
+
+  if (error instanceof Error) {
+    const match = error.message.match(/Uncaught \w*Error: (.+)/);
+    if (match) {
+      return match[1].trim();
+    }
+    return error.message || fallback;
+  }
+
+  return fallback;
+}
+
+/**
+ * Get the tier limit behind a Convex error, if it was an EntitlementError
+ *
+ * @param error - Error thrown by a Convex function call
+ * @returns The violation to show an upgrade prompt for, or null
+ */
+export function getEntitlementViolation(error: unknown): EntitlementViolation | null {
+  if (!(error instanceof ConvexError)) {
+    return null;
+  }
+
+  const data = error.data as Partial<EntitlementViolation> | null;
+  if (!data || typeof data !== 'object' || !ENTITLEMENT_ERROR_CODES.includes(data.code as EntitlementErrorCode)) {
+    return null;
+  }
+
+  return data as EntitlementViolation;
+}
@@ -0,0 +1,30 @@
+/**
+ * Currency Helpers
+ * 
+ * Supported currencies for meal prices and the user's home currency
+ * preference. Shared by the settings page and the meal form.
+ */
+
+/**
+ * Currency options for currency selectors
+ */
+export const CURRENCY_OPTIONS = [
+  { code: 'USD', name: 'US Dollar', symbol: '$' },
+  { code: 'EUR', name: 'Euro', symbol: '€' },
+  { code: 'GBP', name: 'British Pound', symbol: '£' },
+  { code: 'CAD', name: 'Canadian Dollar', symbol: 'C$' },
+  { code: 'AUD', name: 'Australian Dollar', symbol: 'A$' },
+  { code: 'JPY', name: 'Japanese Yen', symbol: '¥' },
+  { code: 'CHF', name: 'Swiss Franc', symbol: 'CHF' },
+  { code: 'CNY', name: 'Chinese Yuan', symbol: '¥' },
+] as const;
+
+/**
+ * Get the display symbol for a currency code
+ * 
+ * @param code - ISO currency code
+ * @returns Currency symbol, or the code itself when unknown
+ */
+export function getCurrencySymbol(code: string): string {
+  return CURRENCY_OPTIONS.find(option => option.code === code)?.symbol ?? code;
+}
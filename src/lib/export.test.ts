@@ -0,0 +1,98 @@
+/**
+ * Meal history export tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Capacitor } from '@capacitor/core';
+import { Filesystem } from '@capacitor/filesystem';
+import { Share } from '@capacitor/share';
+import { getExportRange, saveExportFile } from './export';
+
+vi.mock('@capacitor/filesystem', () => ({
+  Directory: { Cache: 'CACHE' },
+  Encoding: { UTF8: 'utf8' },
+  Filesystem: { writeFile: vi.fn() },
+}));
+
+vi.mock('@capacitor/share', () => ({
+  Share: { share: vi.fn() },
+}));
+
+const content = 'date,title\r\n';
+const file = { filename: 'foodylog-meals-2025-03-12.csv', mimeType: 'text/csv', url: 'https://example.convex.cloud/api/storage/export' };
+
+describe('getExportRange', () => {
+  it('includes both days whole, in local time', () => {
+    expect(getExportRange('2025-03-01', '2025-03-31')).toEqual({
+      startDate: new Date(2025, 2, 1).getTime(),
+      endDate: new Date(2025, 3, 1).getTime(),
+    });
+  });
+
+  it('leaves empty ends open', () => {
+    expect(getExportRange('', '')).toEqual({ startDate: undefined, endDate: undefined });
+  });
+});
+
+describe('saveExportFile', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.stubGlobal('fetch', vi.fn().mockImplementation(async () => new Response(content)));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('writes the file and opens the share sheet on native', async () => {
+    vi.spyOn(Capacitor, 'isNativePlatform').mockReturnValue(true);
+    vi.mocked(Filesystem.writeFile).mockResolvedValue({ uri: 'file:///cache/foodylog-meals-2025-03-12.csv' });
+
+    await saveExportFile(file);
+
+    expect(Filesystem.writeFile).toHaveBeenCalledWith({
+      path: file.filename,
+      data: content,
+      directory: 'CACHE',
+      encoding: 'utf8',
+    });
+    expect(Share.share).toHaveBeenCalledWith({
+      title: file.filename,
+      files: ['file:///cache/foodylog-meals-2025-03-12.csv'],
+    });
+  });
+
+  it('downloads the file through a link on the web', async () => {
+    vi.spyOn(Capacitor, 'isNativePlatform').mockReturnValue(false);
+    const createObjectURL = vi.fn().mockReturnValue('blob:export');
+    const revokeObjectURL = vi.fn();
+    vi.stubGlobal('URL', { createObjectURL, revokeObjectURL });
+    const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    await saveExportFile(file);
+
+    expect(click).toHaveBeenCalledTimes(1);
+    expect(click.mock.contexts[0]).toMatchObject({ download: file.filename });
+    expect(fetch).toHaveBeenCalledWith(file.url);
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:export');
+    expect(Filesystem.writeFile).not.toHaveBeenCalled();
+  });
+
+  it('saves content built in the app without downloading it', async () => {
+    vi.spyOn(Capacitor, 'isNativePlatform').mockReturnValue(true);
+    vi.mocked(Filesystem.writeFile).mockResolvedValue({ uri: 'file:///cache/report.csv' });
+
+    await saveExportFile({ filename: 'report.csv', mimeType: 'text/csv', content: 'row,error\r\n' });
+
+    expect(fetch).not.toHaveBeenCalled();
+    expect(Filesystem.writeFile).toHaveBeenCalledWith(expect.objectContaining({ data: 'row,error\r\n' }));
+  });
+
+  it('fails when the file cannot be downloaded', async () => {
+    vi.mocked(fetch).mockResolvedValue(new Response(null, { status: 404 }));
+
+    await expect(saveExportFile(file)).rejects.toThrow('could not be downloaded');
+    expect(Share.share).not.toHaveBeenCalled();
+  });
+});
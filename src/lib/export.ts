@@ -0,0 +1,92 @@
+/**
+ * Meal History Export (client)
+ *
+ * Turns the export form's dates into the range the export action takes,
+ * and saves the file it stores, or a file built in the app. The web
+ * build downloads it through a
+ * temporary link; native builds write it to the app cache with the
+ * Capacitor Filesystem plugin and open the share sheet, so it can be
+ * saved to Files, mailed or sent to another app.
+ */
+
+import { Capacitor } from '@capacitor/core';
+import { Directory, Encoding, Filesystem } from '@capacitor/filesystem';
+import { Share } from '@capacitor/share';
+
+export type ExportFile = {
+  filename: string;
+  mimeType: string;
+} & (
+  | { content: string }
+  | { url: string } // download URL of a stored file
+);
+
+export interface ExportRange {
+  startDate?: number; // timestamp, inclusive
+  endDate?: number; // timestamp, exclusive
+}
+
+/**
+ * Local midnight at the start of a YYYY-MM-DD date, plus `days`
+ */
+function toLocalMidnight(date: string, days = 0): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day + days).getTime();
+}
+
+/**
+ * Meal date range for the export from the form's date inputs
+ *
+ * Both dates are included whole, in the device's timezone; an empty
+ * input leaves that end of the range open.
+ *
+ * @param from - First day (YYYY-MM-DD) or ''
+ * @param to - Last day (YYYY-MM-DD) or ''
+ */
+export function getExportRange(from: string, to: string): ExportRange {
+  return {
+    startDate: from ? toLocalMidnight(from) : undefined,
+    endDate: to ? toLocalMidnight(to, 1) : undefined,
+  };
+}
+
+/**
+ * Download the content of a stored export file
+ */
+async function downloadExportFile(url: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error('The export file could not be downloaded.');
+  }
+  return await response.text();
+}
+
+/**
+ * Save an export file: share sheet on native, download on the web
+ */
+export async function saveExportFile(file: ExportFile): Promise<void> {
+  const content = 'content' in file ? file.content : await downloadExportFile(file.url);
+
+  if (Capacitor.isNativePlatform()) {
+    const { uri } = await Filesystem.writeFile({
+      path: file.filename,
+      data: content,
+      directory: Directory.Cache,
+      encoding: Encoding.UTF8,
+    });
+    await Share.share({ title: file.filename, files: [uri] });
+    return;
+  }
+
+  const url = URL.createObjectURL(new Blob([content], { type: file.mimeType }));
+  try {
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = file.filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
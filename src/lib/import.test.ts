@@ -0,0 +1,176 @@
+/**
+ * Meal import parsing tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildImportReportCsv,
+  guessColumnMapping,
+  mapCsvRows,
+  parseCsv,
+  parseFoodyLogExport,
+  parseImportDate,
+  type CsvImportOptions,
+} from './import';
+import { EXPORT_FORMAT, EXPORT_VERSION, MEAL_CSV_COLUMNS, buildMealsCsv, type ExportedMeal } from '../../convex/lib/export';
+
+const options: CsvImportOptions = { dateFormat: 'mdy', ratingScale: 10, defaultMealType: 'lunch' };
+
+const exportedMeal: ExportedMeal = {
+  id: 'meal_1',
+  title: 'Pho, extra herbs',
+  rating: 8,
+  mealType: 'lunch',
+  price: 12.5,
+  currency: 'EUR',
+  homePrice: 13.05,
+  homeCurrency: 'USD',
+  tags: ['noodles', 'soup'],
+  location: { name: 'Pho Bang', coordinates: { lat: 48.85, lng: 2.35 } },
+  photos: [],
+  mealDate: Date.UTC(2025, 2, 1, 12, 30),
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+describe('parseCsv', () => {
+  it('reads quoted fields, CRLF line endings and a byte order mark', () => {
+    expect(parseCsv('﻿title,notes\r\n"Pho, large","Said ""wow""\nthen left"\r\n\r\nRamen,\n')).toEqual([
+      ['title', 'notes'],
+      ['Pho, large', 'Said "wow"\nthen left'],
+      ['Ramen', ''],
+    ]);
+  });
+});
+
+describe('guessColumnMapping', () => {
+  it('maps FoodyLog export headers', () => {
+    const headers = MEAL_CSV_COLUMNS.map(column => column.header);
+    const mapping = guessColumnMapping(headers);
+
+    expect(mapping).toMatchObject({
+      date: headers.indexOf('date'),
+      title: headers.indexOf('title'),
+      mealType: headers.indexOf('meal_type'),
+      price: headers.indexOf('price'),
+      locationName: headers.indexOf('location_name'),
+      wouldOrderAgain: headers.indexOf('would_order_again'),
+    });
+  });
+
+  it('suggests columns for other apps and leaves unknown headers unmapped', () => {
+    expect(guessColumnMapping(['Restaurant', 'Dish', 'Stars', 'Visited', 'Mood'])).toEqual({
+      locationName: 0,
+      title: 1,
+      rating: 2,
+      date: 3,
+    });
+  });
+});
+
+describe('parseImportDate', () => {
+  it('reads ISO dates in local time unless they have a time zone', () => {
+    expect(parseImportDate('2025-03-12', 'iso')).toBe(new Date(2025, 2, 12).getTime());
+    expect(parseImportDate('2025-03-12 19:30', 'dmy')).toBe(new Date(2025, 2, 12, 19, 30).getTime());
+    expect(parseImportDate('2025-03-12T19:30:00.000Z', 'mdy')).toBe(Date.UTC(2025, 2, 12, 19, 30));
+  });
+
+  it('reads month/day and day/month dates with optional times', () => {
+    expect(parseImportDate('3/12/2025 7:30 PM', 'mdy')).toBe(new Date(2025, 2, 12, 19, 30).getTime());
+    expect(parseImportDate('12.03.25', 'dmy')).toBe(new Date(2025, 2, 12).getTime());
+  });
+
+  it('rejects invalid dates', () => {
+    expect(parseImportDate('3/12/2025', 'iso')).toBeNull();
+    expect(parseImportDate('2/30/2025', 'mdy')).toBeNull();
+    expect(parseImportDate('yesterday', 'mdy')).toBeNull();
+  });
+});
+
+describe('mapCsvRows', () => {
+  it('round-trips a FoodyLog CSV export', () => {
+    const [headers, ...rows] = parseCsv(buildMealsCsv([exportedMeal]));
+
+    expect(mapCsvRows(rows, guessColumnMapping(headers), options)).toEqual([{
+      row: 2,
+      meal: {
+        title: 'Pho, extra herbs',
+        rating: 8,
+        mealType: 'lunch',
+        price: 12.5,
+        currency: 'EUR',
+        tags: ['noodles', 'soup'],
+        location: { name: 'Pho Bang', coordinates: { lat: 48.85, lng: 2.35 } },
+        mealDate: exportedMeal.mealDate,
+      },
+    }]);
+  });
+
+  it('applies the rating scale, default meal type and number formats', () => {
+    const rows = mapCsvRows([['Tacos', '3/1/2025', '4.5', '12,50 €']], { title: 0, date: 1, rating: 2, price: 3 }, {
+      ...options,
+      ratingScale: 5,
+      defaultMealType: 'dinner',
+    });
+
+    expect(rows[0].meal).toMatchObject({ rating: 9, mealType: 'dinner', price: 12.5 });
+  });
+
+  it('reports rows that cannot be parsed', () => {
+    const mapping = { title: 0, date: 1, rating: 2, mealType: 3, servingSize: 4 };
+    const rows = mapCsvRows([
+      ['', '3/1/2025', '8', 'lunch', ''],
+      ['Tacos', 'yesterday', '8', 'lunch', ''],
+      ['Tacos', '3/1/2025', 'great', 'lunch', ''],
+      ['Tacos', '3/1/2025', '8', 'brunch', ''],
+      ['Tacos', '3/1/2025', '8', 'lunch', 'huge'],
+    ], mapping, options);
+
+    expect(rows).toEqual([
+      { row: 2, error: 'Title is missing' },
+      { row: 3, title: 'Tacos', error: 'Date "yesterday" is not a valid date' },
+      { row: 4, title: 'Tacos', error: 'Rating "great" is not a number' },
+      { row: 5, title: 'Tacos', error: 'Meal type "brunch" is not one of breakfast, lunch, dinner, snack' },
+      { row: 6, title: 'Tacos', error: 'Serving size "huge" is not one of small, medium, large, sharing' },
+    ]);
+  });
+});
+
+describe('parseFoodyLogExport', () => {
+  it('reads meals without photos, converted prices or timestamps', () => {
+    const archive = { format: EXPORT_FORMAT, version: EXPORT_VERSION, meals: [exportedMeal, { title: 'Broken' }] };
+
+    const rows = parseFoodyLogExport(JSON.stringify(archive));
+
+    expect(rows).toEqual([
+      {
+        row: 1,
+        meal: {
+          title: 'Pho, extra herbs',
+          rating: 8,
+          mealType: 'lunch',
+          price: 12.5,
+          currency: 'EUR',
+          tags: ['noodles', 'soup'],
+          location: { name: 'Pho Bang', coordinates: { lat: 48.85, lng: 2.35 } },
+          mealDate: exportedMeal.mealDate,
+        },
+      },
+      { row: 2, title: 'Broken', error: 'Title, rating, meal type or date is missing' },
+    ]);
+  });
+
+  it('rejects files that are not a readable FoodyLog export', () => {
+    expect(() => parseFoodyLogExport('{')).toThrow('not valid JSON');
+    expect(() => parseFoodyLogExport('{"meals":[]}')).toThrow('not a FoodyLog export');
+    expect(() => parseFoodyLogExport(JSON.stringify({ format: EXPORT_FORMAT, version: 99, meals: [] })))
+      .toThrow('version 99 is not supported');
+  });
+});
+
+describe('buildImportReportCsv', () => {
+  it('lists skipped rows with their reasons', () => {
+    expect(buildImportReportCsv([{ row: 3, title: 'Tacos, al pastor', reason: 'Rating must be between 1 and 10' }]))
+      .toBe('row,title,reason\r\n3,"Tacos, al pastor",Rating must be between 1 and 10\r\n');
+  });
+});
@@ -0,0 +1,498 @@
+/**
+ * Meal Import (client)
+ *
+ * Parses the files the import wizard accepts into rows for the import
+ * functions: a CSV from FoodyLog or another food-logging app, read
+ * through a column mapping, or a FoodyLog JSON export archive. Each row
+ * carries either the meal parsed from it or why it could not be parsed;
+ * the server validates the meals again and reports every skipped row.
+ *
+ * FoodyLog's own CSV headers are recognized as they are, and common
+ * headers from other apps (e.g. "Meal", "Restaurant", "Stars") are
+ * suggested as mappings.
+ */
+
+import type { ImportRow } from '../../convex/lib/import';
+import type { NewMeal } from '../../convex/lib/validators';
+import { EXPORT_FORMAT, EXPORT_VERSION, toCsvField } from '../../convex/lib/export';
+import { SERVING_SIZES } from '../../convex/lib/validation';
+
+export type MealType = NewMeal['mealType'];
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack'];
+
+/**
+ * Parse CSV text (RFC 4180) into rows of fields
+ *
+ * Handles quoted fields with commas, quotes and line breaks, CRLF or LF
+ * line endings and a leading byte order mark. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Meal fields a CSV column can be mapped to, with the headers suggested
+ * for each (compared ignoring case, spaces and punctuation)
+ */
+export const IMPORT_FIELDS = [
+  { key: 'date', label: 'Date', required: true, headers: ['date', 'meal date', 'datetime', 'eaten at', 'visited', 'timestamp'] },
+  { key: 'title', label: 'Title', required: true, headers: ['title', 'meal', 'dish', 'name', 'food', 'item'] },
+  { key: 'mealType', label: 'Meal type', required: false, headers: ['meal_type', 'type', 'course'] },
+  { key: 'rating', label: 'Rating', required: true, headers: ['rating', 'score', 'stars'] },
+  { key: 'price', label: 'Price', required: false, headers: ['price', 'cost', 'amount', 'total'] },
+  { key: 'currency', label: 'Currency', required: false, headers: ['currency'] },
+  { key: 'locationName', label: 'Place', required: false, headers: ['location_name', 'location', 'restaurant', 'place', 'venue'] },
+  { key: 'locationAddress', label: 'Address', required: false, headers: ['location_address', 'address'] },
+  { key: 'latitude', label: 'Latitude', required: false, headers: ['latitude', 'lat'] },
+  { key: 'longitude', label: 'Longitude', required: false, headers: ['longitude', 'lng', 'lon'] },
+  { key: 'tags', label: 'Tags', required: false, headers: ['tags', 'labels', 'categories'] },
+  { key: 'description', label: 'Description', required: false, headers: ['description', 'review', 'comment'] },
+  { key: 'cuisine', label: 'Cuisine', required: false, headers: ['cuisine'] },
+  { key: 'dishType', label: 'Dish type', required: false, headers: ['dish_type'] },
+  { key: 'servingSize', label: 'Serving size', required: false, headers: ['serving_size', 'portion'] },
+  { key: 'spiceLevel', label: 'Spice level', required: false, headers: ['spice_level', 'spice'] },
+  { key: 'valueForMoney', label: 'Value for money', required: false, headers: ['value_for_money', 'value'] },
+  { key: 'wouldOrderAgain', label: 'Would order again', required: false, headers: ['would_order_again'] },
+  { key: 'isRecommended', label: 'Recommended', required: false, headers: ['is_recommended', 'recommended'] },
+  { key: 'occasion', label: 'Occasion', required: false, headers: ['occasion'] },
+  { key: 'companions', label: 'Companions', required: false, headers: ['companions', 'with'] },
+  { key: 'notes', label: 'Notes', required: false, headers: ['notes'] },
+] as const;
+
+export type ImportFieldKey = typeof IMPORT_FIELDS[number]['key'];
+
+/**
+ * Column index mapped to each field; unmapped fields are left out
+ */
+export type ColumnMapping = Partial<Record<ImportFieldKey, number>>;
+
+/**
+ * How dates without a time zone or ISO format are read
+ */
+export type ImportDateFormat = 'iso' | 'mdy' | 'dmy';
+
+export interface CsvImportOptions {
+  dateFormat: ImportDateFormat;
+  ratingScale: 5 | 10; // scale of the file's ratings; 5-star ratings are doubled
+  defaultMealType: MealType; // for rows without a meal type
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Suggest a column for each field from the CSV header row
+ */
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+
+  for (const field of IMPORT_FIELDS) {
+    const index = field.headers
+      .map(header => normalized.indexOf(normalizeHeader(header)))
+      .find(candidate => candidate !== -1 && !used.has(candidate));
+    if (index !== undefined) {
+      mapping[field.key] = index;
+      used.add(index);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Read a date from a CSV field
+ *
+ * ISO dates (2025-03-12, 2025-03-12 19:30, 2025-03-12T19:30:00Z) are
+ * read in any format; other dates as month/day/year or day/month/year
+ * with an optional time (3/12/2025 7:30 PM). Dates without a time zone
+ * are local time.
+ *
+ * @returns Timestamp, or null when the value is not a date
+ */
+export function parseImportDate(value: string, format: ImportDateFormat): number | null {
+  const text = value.trim();
+
+  if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/i.test(text)) {
+    const time = Date.parse(text);
+    return Number.isNaN(time) ? null : time;
+  }
+  const iso = /^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/.exec(text);
+  if (iso) {
+    const [year, month, day, hours, minutes] = iso.slice(1).map(part => Number(part ?? 0));
+    return toLocalTime(year, month, day, hours, minutes);
+  }
+  if (format === 'iso') {
+    return null;
+  }
+
+  const match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})(?:[ T,]+(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]m)?)?$/i.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const [first, second] = [Number(match[1]), Number(match[2])];
+  const [month, day] = format === 'mdy' ? [first, second] : [second, first];
+  const year = match[3].length === 2 ? 2000 + Number(match[3]) : Number(match[3]);
+  let hours = match[4] ? Number(match[4]) : 0;
+  const minutes = match[5] ? Number(match[5]) : 0;
+  const meridiem = match[6]?.toLowerCase();
+  if (meridiem && (hours < 1 || hours > 12)) {
+    return null;
+  }
+  if (meridiem === 'pm' && hours < 12) {
+    hours += 12;
+  } else if (meridiem === 'am' && hours === 12) {
+    hours = 0;
+  }
+
+  return toLocalTime(year, month, day, hours, minutes);
+}
+
+/**
+ * Local timestamp, or null when the parts do not form a real date
+ */
+function toLocalTime(year: number, month: number, day: number, hours: number, minutes: number): number | null {
+  const date = new Date(year, month - 1, day, hours, minutes);
+  const isValid = date.getFullYear() === year
+    && date.getMonth() === month - 1
+    && date.getDate() === day
+    && hours < 24
+    && minutes < 60;
+
+  return isValid ? date.getTime() : null;
+}
+
+/**
+ * Read a number, ignoring currency symbols and thousands separators; a
+ * lone comma is a decimal comma (12,50)
+ */
+function parseNumber(value: string): number | null {
+  const text = value.replace(/[^\d.,-]/g, '');
+  if (!/\d/.test(text)) {
+    return null;
+  }
+
+  const number = Number(/^-?\d*,\d{1,2}$/.test(text) ? text.replace(',', '.') : text.replace(/,/g, ''));
+  return Number.isFinite(number) ? number : null;
+}
+
+function parseBoolean(value: string): boolean | null {
+  const text = value.trim().toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(text)) {
+    return true;
+  }
+  if (['false', 'no', 'n', '0'].includes(text)) {
+    return false;
+  }
+  return null;
+}
+
+function parseList(value: string): string[] {
+  return value.split(/[;,]/).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Parse one CSV row into a meal, or return why it cannot be parsed
+ */
+function parseCsvMeal(fields: string[], mapping: ColumnMapping, options: CsvImportOptions): NewMeal | string {
+  const get = (key: ImportFieldKey) => {
+    const index = mapping[key];
+    return index === undefined ? '' : (fields[index] ?? '').trim();
+  };
+
+  const title = get('title');
+  if (!title) {
+    return 'Title is missing';
+  }
+
+  const dateText = get('date');
+  const mealDate = dateText ? parseImportDate(dateText, options.dateFormat) : null;
+  if (mealDate === null) {
+    return dateText ? `Date "${dateText}" is not a valid date` : 'Date is missing';
+  }
+
+  const ratingText = get('rating');
+  const rating = parseNumber(ratingText);
+  if (rating === null) {
+    return ratingText ? `Rating "${ratingText}" is not a number` : 'Rating is missing';
+  }
+
+  const mealTypeText = get('mealType').toLowerCase();
+  const mealType = mealTypeText ? MEAL_TYPES.find(type => type === mealTypeText) : options.defaultMealType;
+  if (!mealType) {
+    return `Meal type "${get('mealType')}" is not one of ${MEAL_TYPES.join(', ')}`;
+  }
+
+  const meal: NewMeal = {
+    title,
+    rating: options.ratingScale === 5 ? rating * 2 : rating,
+    mealType,
+    tags: parseList(get('tags')),
+    mealDate,
+  };
+
+  const numbers = [['price', 'Price'], ['spiceLevel', 'Spice level'], ['valueForMoney', 'Value for money']] as const;
+  for (const [key, label] of numbers) {
+    const text = get(key);
+    if (text) {
+      const number = parseNumber(text);
+      if (number === null) {
+        return `${label} "${text}" is not a number`;
+      }
+      meal[key] = number;
+    }
+  }
+
+  const booleans = [['wouldOrderAgain', 'Would order again'], ['isRecommended', 'Recommended']] as const;
+  for (const [key, label] of booleans) {
+    const text = get(key);
+    if (text) {
+      const value = parseBoolean(text);
+      if (value === null) {
+        return `${label} "${text}" is not yes or no`;
+      }
+      meal[key] = value;
+    }
+  }
+
+  const texts = ['description', 'cuisine', 'dishType', 'occasion', 'notes'] as const;
+  for (const key of texts) {
+    if (get(key)) {
+      meal[key] = get(key);
+    }
+  }
+
+  const currency = get('currency').toUpperCase();
+  if (currency) {
+    if (!/^[A-Z]{3}$/.test(currency)) {
+      return `Currency "${get('currency')}" is not a 3-letter code`;
+    }
+    meal.currency = currency;
+  }
+
+  const servingSize = get('servingSize').toLowerCase();
+  if (servingSize) {
+    const size = SERVING_SIZES.find(candidate => candidate === servingSize);
+    if (!size) {
+      return `Serving size "${get('servingSize')}" is not one of ${SERVING_SIZES.join(', ')}`;
+    }
+    meal.servingSize = size;
+  }
+
+  const companions = parseList(get('companions'));
+  if (companions.length > 0) {
+    meal.companions = companions;
+  }
+
+  const locationName = get('locationName');
+  if (locationName) {
+    const lat = parseNumber(get('latitude'));
+    const lng = parseNumber(get('longitude'));
+    meal.location = { name: locationName };
+    if (get('locationAddress')) {
+      meal.location.address = get('locationAddress');
+    }
+    if (lat !== null && lng !== null) {
+      meal.location.coordinates = { lat, lng };
+    }
+  }
+
+  return meal;
+}
+
+/**
+ * Turn CSV data rows (without the header) into import rows
+ *
+ * Row numbers count the header as row 1, as spreadsheets show them.
+ */
+export function mapCsvRows(rows: string[][], mapping: ColumnMapping, options: CsvImportOptions): ImportRow[] {
+  return rows.map((fields, index) => {
+    const row = index + 2;
+    const meal = parseCsvMeal(fields, mapping, options);
+    if (typeof meal === 'string') {
+      const title = mapping.title !== undefined ? fields[mapping.title]?.trim() : undefined;
+      return { row, ...(title ? { title } : {}), error: meal };
+    }
+    return { row, meal };
+  });
+}
+
+/**
+ * A value from a JSON archive, if it has the expected type
+ */
+function ofType<T>(value: unknown, type: 'string' | 'number' | 'boolean'): T | undefined {
+  return typeof value === type ? value as T : undefined;
+}
+
+/**
+ * Read a meal from a FoodyLog JSON export, or return why it cannot be read
+ */
+function parseExportedMeal(value: unknown): NewMeal | string {
+  if (typeof value !== 'object' || value === null) {
+    return 'Not a meal';
+  }
+
+  const raw = value as Record<string, unknown>;
+  const title = ofType<string>(raw.title, 'string');
+  const rating = ofType<number>(raw.rating, 'number');
+  const mealDate = ofType<number>(raw.mealDate, 'number');
+  const mealType = MEAL_TYPES.find(type => type === raw.mealType);
+  if (!title || rating === undefined || mealDate === undefined || !mealType) {
+    return 'Title, rating, meal type or date is missing';
+  }
+
+  const meal: NewMeal = {
+    title,
+    rating,
+    mealType,
+    tags: Array.isArray(raw.tags) ? raw.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    mealDate,
+  };
+
+  for (const key of ['description', 'currency', 'cuisine', 'dishType', 'notes', 'occasion'] as const) {
+    const text = ofType<string>(raw[key], 'string');
+    if (text !== undefined) {
+      meal[key] = text;
+    }
+  }
+  for (const key of ['price', 'spiceLevel', 'valueForMoney'] as const) {
+    const number = ofType<number>(raw[key], 'number');
+    if (number !== undefined) {
+      meal[key] = number;
+    }
+  }
+  for (const key of ['isRecommended', 'wouldOrderAgain'] as const) {
+    const flag = ofType<boolean>(raw[key], 'boolean');
+    if (flag !== undefined) {
+      meal[key] = flag;
+    }
+  }
+
+  const servingSize = SERVING_SIZES.find(size => size === raw.servingSize);
+  if (servingSize) {
+    meal.servingSize = servingSize;
+  }
+  if (Array.isArray(raw.companions)) {
+    meal.companions = raw.companions.filter((name): name is string => typeof name === 'string');
+  }
+
+  const location = raw.location as Record<string, unknown> | undefined;
+  const locationName = ofType<string>(location?.name, 'string');
+  if (location && locationName) {
+    meal.location = { name: locationName };
+    const address = ofType<string>(location.address, 'string');
+    const coordinates = location.coordinates as Record<string, unknown> | undefined;
+    const lat = ofType<number>(coordinates?.lat, 'number');
+    const lng = ofType<number>(coordinates?.lng, 'number');
+    const placeId = ofType<string>(location.placeId, 'string');
+    if (address !== undefined) {
+      meal.location.address = address;
+    }
+    if (lat !== undefined && lng !== undefined) {
+      meal.location.coordinates = { lat, lng };
+    }
+    if (placeId !== undefined) {
+      meal.location.placeId = placeId;
+    }
+  }
+
+  return meal;
+}
+
+/**
+ * Turn a FoodyLog JSON export into import rows, numbered from 1 in
+ * archive order
+ *
+ * Photos, converted prices and timestamps in the archive are not
+ * imported.
+ *
+ * @throws When the file is not a FoodyLog export this version can read
+ */
+export function parseFoodyLogExport(text: string): ImportRow[] {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  const { format, version, meals } = (archive ?? {}) as Record<string, unknown>;
+  if (format !== EXPORT_FORMAT || !Array.isArray(meals)) {
+    throw new Error('This file is not a FoodyLog export');
+  }
+  if (version !== EXPORT_VERSION) {
+    throw new Error(`FoodyLog export version ${String(version)} is not supported`);
+  }
+
+  return meals.map((value, index) => {
+    const row = index + 1;
+    const meal = parseExportedMeal(value);
+    if (typeof meal === 'string') {
+      const title = ofType<string>((value as Record<string, unknown> | null)?.title, 'string');
+      return { row, ...(title ? { title } : {}), error: meal };
+    }
+    return { row, meal };
+  });
+}
+
+/**
+ * CSV of an import's skipped rows, for download from the report
+ */
+export function buildImportReportCsv(skippedRows: { row: number; title?: string; reason: string }[]): string {
+  const lines = [
+    'row,title,reason',
+    ...skippedRows.map(skipped => [skipped.row, skipped.title, skipped.reason].map(toCsvField).join(',')),
+  ];
+
+  return lines.join('\r\n') + '\r\n';
+}
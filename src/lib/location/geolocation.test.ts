@@ -0,0 +1,75 @@
+/**
+ * Current position tests
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Capacitor } from '@capacitor/core';
+import { Geolocation } from '@capacitor/geolocation';
+import { LocationError, getCurrentPosition } from './geolocation';
+
+vi.mock('@capacitor/geolocation', () => ({
+  Geolocation: {
+    checkPermissions: vi.fn(),
+    requestPermissions: vi.fn(),
+    getCurrentPosition: vi.fn(),
+  },
+}));
+
+const coords = { latitude: 40.7233, longitude: -74.003, accuracy: 12 };
+
+describe('getCurrentPosition', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('uses navigator.geolocation on the web', async () => {
+    vi.spyOn(Capacitor, 'isNativePlatform').mockReturnValue(false);
+    vi.stubGlobal('navigator', {
+      geolocation: { getCurrentPosition: (resolve: (_position: { coords: typeof coords }) => void) => resolve({ coords }) },
+    });
+
+    await expect(getCurrentPosition()).resolves.toEqual({ lat: 40.7233, lng: -74.003, accuracy: 12 });
+    expect(Geolocation.getCurrentPosition).not.toHaveBeenCalled();
+  });
+
+  it('maps a denied browser permission to PERMISSION_DENIED', async () => {
+    vi.spyOn(Capacitor, 'isNativePlatform').mockReturnValue(false);
+    vi.stubGlobal('navigator', {
+      geolocation: {
+        getCurrentPosition: (_resolve: unknown, reject: (_error: { code: number }) => void) => reject({ code: 1 }),
+      },
+    });
+
+    await expect(getCurrentPosition()).rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+  });
+
+  it('rejects when the browser has no geolocation', async () => {
+    vi.spyOn(Capacitor, 'isNativePlatform').mockReturnValue(false);
+    vi.stubGlobal('navigator', {});
+
+    await expect(getCurrentPosition()).rejects.toBeInstanceOf(LocationError);
+  });
+
+  it('asks for permission and uses the Capacitor plugin on native', async () => {
+    vi.spyOn(Capacitor, 'isNativePlatform').mockReturnValue(true);
+    vi.mocked(Geolocation.checkPermissions).mockResolvedValue({ location: 'prompt', coarseLocation: 'prompt' });
+    vi.mocked(Geolocation.requestPermissions).mockResolvedValue({ location: 'granted', coarseLocation: 'granted' });
+    vi.mocked(Geolocation.getCurrentPosition).mockResolvedValue({ timestamp: 0, coords } as never);
+
+    await expect(getCurrentPosition()).resolves.toEqual({ lat: 40.7233, lng: -74.003, accuracy: 12 });
+    expect(Geolocation.requestPermissions).toHaveBeenCalledWith({ permissions: ['location'] });
+  });
+
+  it('does not read the position when native permission is denied', async () => {
+    vi.spyOn(Capacitor, 'isNativePlatform').mockReturnValue(true);
+    vi.mocked(Geolocation.checkPermissions).mockResolvedValue({ location: 'denied', coarseLocation: 'denied' });
+
+    await expect(getCurrentPosition()).rejects.toMatchObject({ code: 'PERMISSION_DENIED' });
+    expect(Geolocation.getCurrentPosition).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Current Position
+ *
+ * Reads the device position for the meal form. Native builds go through
+ * the Capacitor Geolocation plugin, which asks for the OS location
+ * permission; the web build uses `navigator.geolocation` directly.
+ *
+ * Failures are thrown as a LocationError with a code the UI can turn into
+ * a hint (e.g. how to re-enable a denied permission).
+ */
+
+import { Capacitor } from '@capacitor/core';
+import { Geolocation } from '@capacitor/geolocation';
+
+const POSITION_TIMEOUT_MS = 10_000;
+const POSITION_MAX_AGE_MS = 60_000;
+
+export interface CurrentPosition {
+  lat: number;
+  lng: number;
+  accuracy: number; // meters
+}
+
+/**
+ * Why a position could not be read
+ *
+ * - PERMISSION_DENIED: the user or OS refused location access
+ * - UNAVAILABLE: no position fix (GPS off, no signal)
+ * - TIMEOUT: no fix within POSITION_TIMEOUT_MS
+ * - UNSUPPORTED: the platform has no geolocation
+ */
+export type LocationErrorCode = 'PERMISSION_DENIED' | 'UNAVAILABLE' | 'TIMEOUT' | 'UNSUPPORTED';
+
+const ERROR_MESSAGES: Record<LocationErrorCode, string> = {
+  PERMISSION_DENIED: 'Location access is turned off. Allow it in your settings to use your current location.',
+  UNAVAILABLE: 'Your location is not available right now. Enter the place instead.',
+  TIMEOUT: 'Finding your location took too long. Please try again.',
+  UNSUPPORTED: 'Location is not supported on this device.',
+};
+
+export class LocationError extends Error {
+  constructor(public readonly code: LocationErrorCode) {
+    super(ERROR_MESSAGES[code]);
+    this.name = 'LocationError';
+  }
+}
+
+/**
+ * Map a browser GeolocationPositionError code to a LocationError code
+ */
+function fromBrowserErrorCode(code: number): LocationErrorCode {
+  switch (code) {
+    case 1:
+      return 'PERMISSION_DENIED';
+    case 3:
+      return 'TIMEOUT';
+    default:
+      return 'UNAVAILABLE';
+  }
+}
+
+async function getNativePosition(): Promise<CurrentPosition> {
+  // Checking permissions throws when location services are off entirely
+  let permission = await Geolocation.checkPermissions().catch(() => {
+    throw new LocationError('UNAVAILABLE');
+  });
+  if (permission.location === 'prompt' || permission.location === 'prompt-with-rationale') {
+    permission = await Geolocation.requestPermissions({ permissions: ['location'] });
+  }
+  if (permission.location === 'denied') {
+    throw new LocationError('PERMISSION_DENIED');
+  }
+
+  try {
+    const position = await Geolocation.getCurrentPosition({
+      enableHighAccuracy: true,
+      timeout: POSITION_TIMEOUT_MS,
+      maximumAge: POSITION_MAX_AGE_MS,
+    });
+    return {
+      lat: position.coords.latitude,
+      lng: position.coords.longitude,
+      accuracy: position.coords.accuracy,
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message.toLowerCase() : '';
+    throw new LocationError(message.includes('timeout') ? 'TIMEOUT' : 'UNAVAILABLE');
+  }
+}
+
+function getBrowserPosition(): Promise<CurrentPosition> {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    return Promise.reject(new LocationError('UNSUPPORTED'));
+  }
+
+  return new Promise((resolve, reject) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        lat: position.coords.latitude,
+        lng: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+      }),
+      (error) => reject(new LocationError(fromBrowserErrorCode(error.code))),
+      { enableHighAccuracy: true, timeout: POSITION_TIMEOUT_MS, maximumAge: POSITION_MAX_AGE_MS },
+    );
+  });
+}
+
+/**
+ * Read the device's current position
+ *
+ * @throws LocationError when the position cannot be read
+ */
+export function getCurrentPosition(): Promise<CurrentPosition> {
+  return Capacitor.isNativePlatform() ? getNativePosition() : getBrowserPosition();
+}
@@ -0,0 +1,89 @@
+/**
+ * Place lookup tests
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createFakePlaceLookupProvider,
+  createGooglePlaceLookupProvider,
+  mergePlaceSuggestions,
+  type PlaceCandidate,
+} from './placeLookup';
+
+const here = { lat: 40.7233, lng: -74.0030 };
+
+const FIXTURE_PLACES: PlaceCandidate[] = [
+  { name: 'Far Diner', coordinates: { lat: 40.7465, lng: -74.0014 } }, // ~2.6km
+  { name: "Joe's Pizza", address: '7 Carmine St', coordinates: { lat: 40.7238, lng: -74.0030 }, placeId: 'g-joes' }, // ~55m
+  { name: 'Corner Cafe', coordinates: { lat: 40.7250, lng: -74.0030 } }, // ~190m
+];
+
+describe('createFakePlaceLookupProvider', () => {
+  it('returns places within the radius, nearest first', async () => {
+    const provider = createFakePlaceLookupProvider(FIXTURE_PLACES);
+
+    const places = await provider.searchNearby(here, { radiusMeters: 500, limit: 5 });
+    expect(places.map(place => place.name)).toEqual(["Joe's Pizza", 'Corner Cafe']);
+
+    const limited = await provider.searchNearby(here, { radiusMeters: 5000, limit: 1 });
+    expect(limited.map(place => place.name)).toEqual(["Joe's Pizza"]);
+  });
+});
+
+describe('createGooglePlaceLookupProvider', () => {
+  it('maps Nearby Search results to candidates', async () => {
+    const fetchImpl = vi.fn().mockResolvedValue(new Response(JSON.stringify({
+      places: [
+        { id: 'g-1', displayName: { text: 'Lucali' }, formattedAddress: '575 Henry St', location: { latitude: 40.68, longitude: -74.0 } },
+        { id: 'g-2' },
+      ],
+    })));
+    const provider = createGooglePlaceLookupProvider('test-key', fetchImpl);
+
+    const places = await provider.searchNearby(here, { radiusMeters: 500, limit: 50 });
+
+    expect(places).toEqual([
+      { name: 'Lucali', address: '575 Henry St', coordinates: { lat: 40.68, lng: -74.0 }, placeId: 'g-1' },
+    ]);
+    const [, init] = fetchImpl.mock.calls[0];
+    expect(init.headers['X-Goog-Api-Key']).toBe('test-key');
+    expect(JSON.parse(init.body)).toMatchObject({
+      maxResultCount: 20,
+      locationRestriction: { circle: { center: { latitude: here.lat, longitude: here.lng }, radius: 500 } },
+    });
+  });
+
+  it('throws on an error response', async () => {
+    const provider = createGooglePlaceLookupProvider('test-key', vi.fn().mockResolvedValue(new Response('', { status: 403 })));
+
+    await expect(provider.searchNearby(here, { radiusMeters: 500, limit: 5 })).rejects.toThrow('403');
+  });
+});
+
+describe('mergePlaceSuggestions', () => {
+  it('puts visited places first and drops looked-up duplicates', () => {
+    const visited = [
+      { name: 'Joes Pizza', coordinates: { lat: 40.7237, lng: -74.0030 }, visitCount: 3, distanceMeters: 44 },
+    ];
+
+    const suggestions = mergePlaceSuggestions(here, visited, FIXTURE_PLACES);
+
+    expect(suggestions.map(s => [s.name, s.source])).toEqual([
+      ['Joes Pizza', 'visited'],
+      ['Corner Cafe', 'lookup'],
+      ['Far Diner', 'lookup'],
+    ]);
+    expect(suggestions[0].visitCount).toBe(3);
+    expect(suggestions[1].distanceMeters).toBeGreaterThan(150);
+  });
+
+  it('matches visited places by Google Places ID and respects the limit', () => {
+    const visited = [
+      { name: 'Pizza place', googlePlaceId: 'g-joes', coordinates: here, visitCount: 1, distanceMeters: 0 },
+    ];
+
+    const suggestions = mergePlaceSuggestions(here, visited, FIXTURE_PLACES, 2);
+
+    expect(suggestions.map(s => s.name)).toEqual(['Pizza place', 'Corner Cafe']);
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Place Lookup
+ *
+ * Suggestions for the meal form's place field once the current position
+ * is known. The user's own visited places (from `getNearbyPlaces`) come
+ * first; places from a lookup provider fill the remaining slots.
+ *
+ * Providers are pluggable through the PlaceLookupProvider interface:
+ * - Google Places (Nearby Search), used when VITE_GOOGLE_PLACES_API_KEY is set
+ * - An offline fake serving a fixed list of places, for tests and for
+ *   development without an API key
+ */
+
+import {
+  PLACE_MATCH_RADIUS_METERS,
+  getDistanceInMeters,
+  normalizePlaceName,
+} from '../../../convex/lib/places';
+
+const GOOGLE_NEARBY_SEARCH_URL = 'https://places.googleapis.com/v1/places:searchNearby';
+const GOOGLE_PLACE_TYPES = ['restaurant', 'cafe', 'bar', 'bakery', 'meal_takeaway'];
+const GOOGLE_MAX_RESULTS = 20;
+
+export const MAX_PLACE_SUGGESTIONS = 8;
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * A place returned by a lookup provider
+ */
+export interface PlaceCandidate {
+  name: string;
+  address?: string;
+  coordinates: Coordinates;
+  placeId?: string; // Google Places ID
+}
+
+export interface PlaceLookupOptions {
+  radiusMeters: number;
+  limit: number;
+}
+
+/**
+ * Source of places near a position
+ */
+export interface PlaceLookupProvider {
+  searchNearby(_position: Coordinates, _options: PlaceLookupOptions): Promise<PlaceCandidate[]>;
+}
+
+/**
+ * A place suggested in the meal form
+ */
+export interface PlaceSuggestion extends PlaceCandidate {
+  distanceMeters: number;
+  source: 'visited' | 'lookup';
+  visitCount?: number; // visited places only
+}
+
+/**
+ * A visited place as returned by getNearbyPlaces
+ */
+export interface VisitedPlace {
+  name: string;
+  address?: string;
+  coordinates?: Coordinates;
+  googlePlaceId?: string;
+  visitCount: number;
+  distanceMeters: number;
+}
+
+/**
+ * Offline provider serving a fixed list of places
+ *
+ * Returns the places within the radius, nearest first, like a real
+ * provider would.
+ */
+export function createFakePlaceLookupProvider(places: PlaceCandidate[]): PlaceLookupProvider {
+  return {
+    searchNearby: async (position, { radiusMeters, limit }) => places
+      .map(place => ({ place, distance: getDistanceInMeters(position, place.coordinates) }))
+      .filter(({ distance }) => distance <= radiusMeters)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, limit)
+      .map(({ place }) => place),
+  };
+}
+
+interface GoogleNearbyResponse {
+  places?: {
+    id: string;
+    displayName?: { text: string };
+    formattedAddress?: string;
+    location?: { latitude: number; longitude: number };
+  }[];
+}
+
+/**
+ * Provider backed by the Google Places API (New) Nearby Search
+ *
+ * @param apiKey - Browser key restricted to the Places API
+ */
+export function createGooglePlaceLookupProvider(
+  apiKey: string,
+  fetchImpl: typeof fetch = (...args) => fetch(...args),
+): PlaceLookupProvider {
+  return {
+    searchNearby: async (position, { radiusMeters, limit }) => {
+      const response = await fetchImpl(GOOGLE_NEARBY_SEARCH_URL, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Goog-Api-Key': apiKey,
+          'X-Goog-FieldMask': 'places.id,places.displayName,places.formattedAddress,places.location',
+        },
+        body: JSON.stringify({
+          includedTypes: GOOGLE_PLACE_TYPES,
+          maxResultCount: Math.min(limit, GOOGLE_MAX_RESULTS),
+          rankPreference: 'DISTANCE',
+          locationRestriction: {
+            circle: {
+              center: { latitude: position.lat, longitude: position.lng },
+              radius: radiusMeters,
+            },
+          },
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Place lookup failed with status ${response.status}`);
+      }
+
+      const data = await response.json() as GoogleNearbyResponse;
+      return (data.places ?? []).flatMap(place => place.displayName && place.location
+        ? [{
+          name: place.displayName.text,
+          address: place.formattedAddress,
+          coordinates: { lat: place.location.latitude, lng: place.location.longitude },
+          placeId: place.id,
+        }]
+        : []);
+    },
+  };
+}
+
+/**
+ * The provider configured for this build, or null for visited places only
+ */
+export function getDefaultPlaceLookupProvider(): PlaceLookupProvider | null {
+  const apiKey = import.meta.env.VITE_GOOGLE_PLACES_API_KEY;
+  return apiKey ? createGooglePlaceLookupProvider(apiKey) : null;
+}
+
+/**
+ * Whether a looked-up place is one the user already visited
+ */
+function isSamePlace(visited: VisitedPlace, candidate: PlaceCandidate) {
+  if (visited.googlePlaceId && candidate.placeId) {
+    return visited.googlePlaceId === candidate.placeId;
+  }
+  return normalizePlaceName(visited.name) === normalizePlaceName(candidate.name) &&
+    (!visited.coordinates || getDistanceInMeters(visited.coordinates, candidate.coordinates) <= PLACE_MATCH_RADIUS_METERS);
+}
+
+/**
+ * Combine visited and looked-up places into one suggestion list
+ *
+ * Visited places come first in the order given (nearest first); lookup
+ * results follow, nearest first, without the places already visited.
+ *
+ * @param position - Position the lookup was made for
+ */
+export function mergePlaceSuggestions(
+  position: Coordinates,
+  visited: VisitedPlace[],
+  candidates: PlaceCandidate[],
+  limit: number = MAX_PLACE_SUGGESTIONS,
+): PlaceSuggestion[] {
+  const visitedSuggestions: PlaceSuggestion[] = visited.map(place => ({
+    name: place.name,
+    address: place.address,
+    coordinates: place.coordinates ?? position,
+    placeId: place.googlePlaceId,
+    distanceMeters: place.distanceMeters,
+    source: 'visited',
+    visitCount: place.visitCount,
+  }));
+
+  const lookupSuggestions: PlaceSuggestion[] = candidates
+    .filter(candidate => !visited.some(place => isSamePlace(place, candidate)))
+    .map(candidate => ({
+      ...candidate,
+      distanceMeters: getDistanceInMeters(position, candidate.coordinates),
+      source: 'lookup' as const,
+    }))
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+
+  return [...visitedSuggestions, ...lookupSuggestions].slice(0, limit);
+}
@@ -0,0 +1,89 @@
+/**
+ * Meal helper tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyMealChanges,
+  getMealChanges,
+  toMealFormValues,
+  toMealInput,
+  type MealInput,
+} from './meals';
+
+const meal: MealInput = {
+  title: 'Tonkotsu ramen',
+  rating: 8,
+  mealType: 'dinner',
+  description: 'Rich broth',
+  price: 16,
+  currency: 'USD',
+  tags: ['ramen', 'noodles'],
+  location: { name: 'Ichiran', address: '132 W 31st St' },
+  mealDate: new Date(2025, 4, 10, 19, 30).getTime(),
+};
+
+describe('getMealChanges', () => {
+  it('finds no changes when a meal is saved unedited', () => {
+    const edited = toMealInput(toMealFormValues(meal));
+
+    expect(getMealChanges(meal, edited)).toEqual({});
+  });
+
+  it('returns only the edited fields', () => {
+    const edited = { ...meal, rating: 9, tags: ['ramen'] };
+
+    expect(getMealChanges(meal, edited)).toEqual({ rating: 9, tags: ['ramen'] });
+  });
+
+  it('returns cleared optional fields as null', () => {
+    const values = { ...toMealFormValues(meal), description: '', price: '', locationName: '' };
+
+    expect(getMealChanges(meal, toMealInput(values))).toEqual({
+      description: null,
+      price: null,
+      currency: null,
+      location: null,
+    });
+  });
+
+  it('round-trips location coordinates and place ID', () => {
+    const located = {
+      ...meal,
+      location: {
+        name: 'Ichiran',
+        address: '132 W 31st St',
+        coordinates: { lat: 40.748, lng: -73.99 },
+        placeId: 'ChIJ-ichiran',
+      },
+    };
+    const values = toMealFormValues(located);
+
+    expect(getMealChanges(located, toMealInput(values))).toEqual({});
+    expect(getMealChanges(located, toMealInput({ ...values, locationCoordinates: null, locationPlaceId: '' }))).toEqual({
+      location: meal.location,
+    });
+  });
+
+  it('round-trips extended details and clears removed ones', () => {
+    const detailed = { ...meal, cuisine: 'Japanese', spiceLevel: 2, companions: ['Sam'], wouldOrderAgain: false };
+    const values = toMealFormValues(detailed);
+
+    expect(getMealChanges(detailed, toMealInput(values))).toEqual({});
+    expect(getMealChanges(detailed, toMealInput({ ...values, companions: [], wouldOrderAgain: null }))).toEqual({
+      companions: null,
+      wouldOrderAgain: null,
+    });
+  });
+});
+
+describe('applyMealChanges', () => {
+  it('applies edits and removes cleared fields', () => {
+    const result = applyMealChanges(meal, { title: 'Shoyu ramen', price: null, currency: null });
+
+    expect(result.title).toBe('Shoyu ramen');
+    expect(result).not.toHaveProperty('price');
+    expect(result).not.toHaveProperty('currency');
+    expect(result.location).toEqual(meal.location);
+  });
+});
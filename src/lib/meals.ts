@@ -0,0 +1,234 @@
+/**
+ * Meal Helpers
+ *
+ * Shared meal types, options and conversions between the meal form's
+ * input-friendly values and the arguments of the Convex meal mutations.
+ */
+
+import { EXTENDED_MEAL_FIELDS, type ServingSize } from '../../convex/lib/validation';
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+/**
+ * Meal type options for the meal type selector
+ */
+export const MEAL_TYPE_OPTIONS: { value: MealType; label: string }[] = [
+  { value: 'breakfast', label: '🥞 Breakfast' },
+  { value: 'lunch', label: '🥗 Lunch' },
+  { value: 'dinner', label: '🍽️ Dinner' },
+  { value: 'snack', label: '🍿 Snack' },
+];
+
+/**
+ * Serving size options for the meal form and search filters
+ */
+export const SERVING_SIZE_OPTIONS: { value: ServingSize; label: string }[] = [
+  { value: 'small', label: 'Small' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'large', label: 'Large' },
+  { value: 'sharing', label: 'Sharing' },
+];
+
+/**
+ * Raw form values, kept in input-friendly shapes (strings for numbers/dates,
+ * null for unset choices)
+ */
+export interface MealFormValues {
+  title: string;
+  rating: number;
+  mealType: MealType;
+  description: string;
+  price: string;
+  currency: string;
+  tags: string[];
+  locationName: string;
+  locationAddress: string;
+  locationCoordinates: { lat: number; lng: number } | null; // from the current position or a suggestion
+  locationPlaceId: string; // Google Places ID of a picked suggestion
+  mealDate: string; // datetime-local value
+  cuisine: string;
+  dishType: string;
+  servingSize: ServingSize | null;
+  spiceLevel: number | null;
+  notes: string;
+  occasion: string;
+  companions: string[];
+  isRecommended: boolean | null;
+  wouldOrderAgain: boolean | null;
+  valueForMoney: number | null;
+}
+
+/**
+ * Meal input produced by the form, matching the createMeal arguments
+ */
+export interface MealInput {
+  title: string;
+  rating: number;
+  mealType: MealType;
+  description?: string;
+  price?: number;
+  currency?: string;
+  tags: string[];
+  location?: {
+    name: string;
+    address?: string;
+    coordinates?: { lat: number; lng: number };
+    placeId?: string;
+  };
+  mealDate: number;
+  cuisine?: string;
+  dishType?: string;
+  servingSize?: ServingSize;
+  spiceLevel?: number;
+  notes?: string;
+  occasion?: string;
+  companions?: string[];
+  isRecommended?: boolean;
+  wouldOrderAgain?: boolean;
+  valueForMoney?: number;
+}
+
+/**
+ * Format a timestamp for a datetime-local input (local time, minute precision)
+ */
+export function toDateTimeLocal(timestamp: number): string {
+  const date = new Date(timestamp);
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(timestamp - offset).toISOString().slice(0, 16);
+}
+
+/**
+ * Convert raw form values into meal input for the Convex mutations
+ */
+export function toMealInput(values: MealFormValues): MealInput {
+  const description = values.description.trim();
+  const locationName = values.locationName.trim();
+  const locationAddress = values.locationAddress.trim();
+  const mealDate = values.mealDate ? new Date(values.mealDate).getTime() : Date.now();
+
+  return {
+    title: values.title.trim(),
+    rating: values.rating,
+    mealType: values.mealType,
+    description: description || undefined,
+    price: values.price === '' ? undefined : Number(values.price),
+    currency: values.price === '' ? undefined : values.currency,
+    tags: values.tags,
+    location: locationName
+      ? {
+        name: locationName,
+        address: locationAddress || undefined,
+        coordinates: values.locationCoordinates ?? undefined,
+        placeId: values.locationPlaceId || undefined,
+      }
+      : undefined,
+    mealDate: Number.isNaN(mealDate) ? Date.now() : mealDate,
+    cuisine: values.cuisine.trim() || undefined,
+    dishType: values.dishType.trim() || undefined,
+    servingSize: values.servingSize ?? undefined,
+    spiceLevel: values.spiceLevel ?? undefined,
+    notes: values.notes.trim() || undefined,
+    occasion: values.occasion.trim() || undefined,
+    companions: values.companions.length > 0 ? values.companions : undefined,
+    isRecommended: values.isRecommended ?? undefined,
+    wouldOrderAgain: values.wouldOrderAgain ?? undefined,
+    valueForMoney: values.valueForMoney ?? undefined,
+  };
+}
+
+/**
+ * Meal input without the extended (premium) details
+ */
+export function withoutExtendedDetails(input: MealInput): MealInput {
+  const result: Record<string, unknown> = { ...input };
+  for (const field of EXTENDED_MEAL_FIELDS) {
+    delete result[field];
+  }
+  return result as unknown as MealInput;
+}
+
+/**
+ * Changed fields of a meal, as sent to updateMeal
+ *
+ * Optional fields set to `null` are cleared.
+ */
+export type MealChanges = {
+  [K in keyof MealInput]?: undefined extends MealInput[K] ? MealInput[K] | null : MealInput[K];
+};
+
+/**
+ * Convert a stored meal into form values for editing
+ */
+export function toMealFormValues(meal: MealInput): MealFormValues {
+  return {
+    title: meal.title,
+    rating: meal.rating,
+    mealType: meal.mealType,
+    description: meal.description ?? '',
+    price: meal.price !== undefined ? String(meal.price) : '',
+    currency: meal.currency ?? 'USD',
+    tags: meal.tags,
+    locationName: meal.location?.name ?? '',
+    locationAddress: meal.location?.address ?? '',
+    locationCoordinates: meal.location?.coordinates ?? null,
+    locationPlaceId: meal.location?.placeId ?? '',
+    mealDate: toDateTimeLocal(meal.mealDate),
+    cuisine: meal.cuisine ?? '',
+    dishType: meal.dishType ?? '',
+    servingSize: meal.servingSize ?? null,
+    spiceLevel: meal.spiceLevel ?? null,
+    notes: meal.notes ?? '',
+    occasion: meal.occasion ?? '',
+    companions: meal.companions ?? [],
+    isRecommended: meal.isRecommended ?? null,
+    wouldOrderAgain: meal.wouldOrderAgain ?? null,
+    valueForMoney: meal.valueForMoney ?? null,
+  };
+}
+
+/**
+ * Fields that differ between a meal and its edited version
+ *
+ * Optional fields the edit removed are returned as `null`. The date is
+ * compared at minute precision, the precision of the form's date input.
+ */
+export function getMealChanges(before: MealInput, after: MealInput): MealChanges {
+  const changes: Record<string, unknown> = {};
+  const fields: (keyof MealInput)[] = [
+    'title',
+    'rating',
+    'mealType',
+    'description',
+    'price',
+    'currency',
+    'tags',
+    'location',
+    ...EXTENDED_MEAL_FIELDS,
+  ];
+
+  for (const field of fields) {
+    if (JSON.stringify(before[field]) !== JSON.stringify(after[field])) {
+      changes[field] = after[field] ?? null;
+    }
+  }
+
+  const minute = 60 * 1000;
+  if (Math.floor(before.mealDate / minute) !== Math.floor(after.mealDate / minute)) {
+    changes.mealDate = after.mealDate;
+  }
+
+  return changes as MealChanges;
+}
+
+/**
+ * Apply changes to meal input, removing cleared fields
+ */
+export function applyMealChanges(input: MealInput, changes: MealChanges): MealInput {
+  const result: Record<string, unknown> = { ...input, ...changes };
+  for (const [field, value] of Object.entries(result)) {
+    if (value === null) {
+      delete result[field];
+    }
+  }
+  return result as unknown as MealInput;
+}
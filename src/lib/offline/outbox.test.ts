@@ -0,0 +1,250 @@
+/**
+ * Offline outbox tests
+ *
+ * Exercise queueing, coalescing, ordered replay and conflict handling
+ * against the in-memory store.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MAX_REPLAY_ATTEMPTS,
+  createMemoryOutboxStore,
+  getOutboxEntries,
+  mergeMealChanges,
+  queueCreate,
+  queueDelete,
+  queueUpdate,
+  replayOutbox,
+  resolveOutboxConflict,
+  type MealSnapshot,
+  type OutboxExecutors,
+} from './outbox';
+
+const USER = 'user_alice';
+
+const baseMeal: MealSnapshot = {
+  _id: 'meal_1',
+  updatedAt: 1000,
+  title: 'Ramen',
+  rating: 8,
+  mealType: 'dinner',
+  tags: ['noodles'],
+  mealDate: 500,
+};
+
+function createExecutors(overrides: Partial<OutboxExecutors> = {}): OutboxExecutors {
+  return {
+    create: vi.fn().mockResolvedValue('meal_created'),
+    update: vi.fn().mockResolvedValue({ status: 'updated' }),
+    delete: vi.fn().mockResolvedValue(undefined),
+    ...overrides,
+  };
+}
+
+describe('queueing', () => {
+  it('keeps entries per user in queue order', async () => {
+    const store = createMemoryOutboxStore();
+    vi.useFakeTimers();
+    await queueCreate(store, USER, { ...baseMeal, title: 'First' });
+    vi.advanceTimersByTime(10);
+    await queueDelete(store, USER, 'meal_2');
+    await queueCreate(store, 'user_bob', baseMeal);
+    vi.useRealTimers();
+
+    const entries = await getOutboxEntries(store, USER);
+
+    expect(entries.map(entry => entry.operation.kind)).toEqual(['create', 'delete']);
+  });
+
+  it('folds repeated edits into one update with the original base', async () => {
+    const store = createMemoryOutboxStore();
+
+    await queueUpdate(store, USER, baseMeal, { rating: 9 });
+    await queueUpdate(store, USER, { ...baseMeal, updatedAt: 2000 }, { title: 'Shoyu ramen' });
+
+    const entries = await getOutboxEntries(store, USER);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].operation).toMatchObject({
+      kind: 'update',
+      changes: { rating: 9, title: 'Shoyu ramen' },
+      base: { updatedAt: 1000 },
+    });
+  });
+
+  it('folds edits and deletes of offline-created meals into the create', async () => {
+    const store = createMemoryOutboxStore();
+    const created = await queueCreate(store, USER, baseMeal);
+
+    await queueUpdate(store, USER, { ...baseMeal, _id: created.id }, { rating: 3 });
+    let entries = await getOutboxEntries(store, USER);
+    expect(entries).toHaveLength(1);
+    expect(entries[0].operation).toMatchObject({ kind: 'create', input: { rating: 3 } });
+
+    expect(await queueDelete(store, USER, created.id)).toBeNull();
+    entries = await getOutboxEntries(store, USER);
+    expect(entries).toHaveLength(0);
+  });
+
+  it('drops queued edits of a deleted meal', async () => {
+    const store = createMemoryOutboxStore();
+
+    await queueUpdate(store, USER, baseMeal, { rating: 9 });
+    await queueDelete(store, USER, baseMeal._id);
+
+    const entries = await getOutboxEntries(store, USER);
+    expect(entries.map(entry => entry.operation.kind)).toEqual(['delete']);
+  });
+});
+
+describe('replayOutbox', () => {
+  it('replays entries with their idempotency keys and clears them', async () => {
+    const store = createMemoryOutboxStore();
+    const created = await queueCreate(store, USER, baseMeal);
+    const updated = await queueUpdate(store, USER, baseMeal, { rating: 9 });
+    const executors = createExecutors();
+
+    const result = await replayOutbox(store, USER, executors);
+
+    expect(result).toEqual({ applied: 2, conflicts: 0, failed: 0, remaining: 0 });
+    expect(executors.create).toHaveBeenCalledWith(baseMeal, created.id);
+    expect(executors.update).toHaveBeenCalledWith('meal_1', { rating: 9 }, 1000, updated.id);
+    expect(await getOutboxEntries(store, USER)).toHaveLength(0);
+  });
+
+  it('keeps conflicting updates with the server version', async () => {
+    const store = createMemoryOutboxStore();
+    await queueUpdate(store, USER, baseMeal, { rating: 9 });
+    const serverMeal = { ...baseMeal, updatedAt: 3000, title: 'Tonkotsu ramen' };
+
+    const result = await replayOutbox(store, USER, createExecutors({
+      update: vi.fn().mockResolvedValue({ status: 'conflict', meal: serverMeal }),
+    }));
+
+    expect(result.conflicts).toBe(1);
+    const [entry] = await getOutboxEntries(store, USER);
+    expect(entry.status).toBe('conflict');
+    expect(entry.serverMeal).toEqual(serverMeal);
+  });
+
+  it('stops at the first error and marks entries failed after repeated errors', async () => {
+    const store = createMemoryOutboxStore();
+    vi.useFakeTimers();
+    await queueCreate(store, USER, baseMeal);
+    vi.advanceTimersByTime(10);
+    await queueDelete(store, USER, 'meal_2');
+    vi.useRealTimers();
+    const executors = createExecutors({
+      create: vi.fn().mockRejectedValue(new Error('Title is required')),
+    });
+
+    for (let attempt = 1; attempt < MAX_REPLAY_ATTEMPTS; attempt++) {
+      const result = await replayOutbox(store, USER, executors);
+      expect(result).toMatchObject({ applied: 0, failed: 0, remaining: 2 });
+    }
+    expect(executors.delete).not.toHaveBeenCalled();
+
+    const result = await replayOutbox(store, USER, executors);
+    expect(result).toMatchObject({ failed: 1, remaining: 1 });
+    const [failed] = await getOutboxEntries(store, USER);
+    expect(failed).toMatchObject({ status: 'failed', error: 'Title is required' });
+
+    // Failed entries no longer block the rest of the queue
+    await replayOutbox(store, USER, executors);
+    expect(executors.delete).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the server id of a replayed create for entries left in the queue', async () => {
+    const store = createMemoryOutboxStore([
+      { id: 'temp_1', userId: USER, operation: { kind: 'create', input: baseMeal }, status: 'pending', attempts: 0, createdAt: 1 },
+      {
+        id: 'temp_2',
+        userId: USER,
+        operation: { kind: 'update', mealId: 'temp_1', changes: { rating: 9 }, base: { ...baseMeal, _id: 'temp_1' } },
+        status: 'pending',
+        attempts: 0,
+        createdAt: 2,
+      },
+      { id: 'temp_3', userId: USER, operation: { kind: 'delete', mealId: 'temp_1' }, status: 'failed', attempts: 3, createdAt: 3 },
+    ]);
+    const update = vi.fn()
+      .mockRejectedValueOnce(new Error('Network error'))
+      .mockResolvedValue({ status: 'updated' });
+    const executors = createExecutors({ update });
+
+    expect(await replayOutbox(store, USER, executors)).toMatchObject({ applied: 1, remaining: 1 });
+    const entries = await getOutboxEntries(store, USER);
+    expect(entries.map(entry => entry.operation)).toEqual([
+      { kind: 'update', mealId: 'meal_created', changes: { rating: 9 }, base: { ...baseMeal, _id: 'meal_created' } },
+      { kind: 'delete', mealId: 'meal_created' },
+    ]);
+
+    await replayOutbox(store, USER, executors);
+    expect(update).toHaveBeenLastCalledWith('meal_created', { rating: 9 }, 1000, 'temp_2');
+    expect(executors.create).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('conflict resolution', () => {
+  const serverMeal = { ...baseMeal, updatedAt: 3000, title: 'Tonkotsu ramen', rating: 6 };
+
+  async function createConflict() {
+    const store = createMemoryOutboxStore();
+    await queueUpdate(store, USER, baseMeal, { rating: 9, tags: ['noodles', 'spicy'] });
+    await replayOutbox(store, USER, createExecutors({
+      update: vi.fn().mockResolvedValue({ status: 'conflict', meal: serverMeal }),
+    }));
+    const [entry] = await getOutboxEntries(store, USER);
+    return { store, entry };
+  }
+
+  it('merges non-overlapping changes and reports overlapping fields', () => {
+    const merge = mergeMealChanges(baseMeal, { rating: 9, tags: ['noodles', 'spicy'] }, serverMeal);
+
+    expect(merge.changes).toEqual({ tags: ['noodles', 'spicy'] });
+    expect(merge.conflictingFields).toEqual(['rating']);
+  });
+
+  it('re-applies the local version against the server version', async () => {
+    const { store, entry } = await createConflict();
+    const update = vi.fn().mockResolvedValue({ status: 'updated' });
+
+    const resolved = await resolveOutboxConflict(store, entry, { kind: 'local' }, {
+      update,
+      keepServer: vi.fn(),
+    });
+
+    expect(resolved).toBe(true);
+    expect(update).toHaveBeenCalledWith(
+      'meal_1',
+      { rating: 9, tags: ['noodles', 'spicy'] },
+      3000,
+      expect.any(String),
+    );
+    expect(update.mock.calls[0][3]).not.toBe(entry.id);
+    expect(await getOutboxEntries(store, USER)).toHaveLength(0);
+  });
+
+  it('keeps the server version', async () => {
+    const { store, entry } = await createConflict();
+    const keepServer = vi.fn().mockResolvedValue(undefined);
+
+    await resolveOutboxConflict(store, entry, { kind: 'server' }, { update: vi.fn(), keepServer });
+
+    expect(keepServer).toHaveBeenCalledWith('meal_1');
+    expect(await getOutboxEntries(store, USER)).toHaveLength(0);
+  });
+
+  it('stays in conflict when the meal changed again', async () => {
+    const { store, entry } = await createConflict();
+    const newer = { ...serverMeal, updatedAt: 4000 };
+
+    const resolved = await resolveOutboxConflict(store, entry, { kind: 'merge', changes: { rating: 9 } }, {
+      update: vi.fn().mockResolvedValue({ status: 'conflict', meal: newer }),
+      keepServer: vi.fn(),
+    });
+
+    expect(resolved).toBe(false);
+    const [stored] = await getOutboxEntries(store, USER);
+    expect(stored).toMatchObject({ status: 'conflict', serverMeal: { updatedAt: 4000 } });
+  });
+});
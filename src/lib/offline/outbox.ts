@@ -0,0 +1,518 @@
+/**
+ * Offline Meal Outbox
+ *
+ * Persistent queue of meal operations made while offline. Entries are
+ * stored in IndexedDB (falling back to memory where it is unavailable) and
+ * replayed in order once the app is back online.
+ *
+ * Features:
+ * - Create, update and delete operations with idempotency keys, so an
+ *   operation applied before a dropped connection is not applied twice
+ * - Coalescing: repeated edits of a meal collapse into one update, and
+ *   deleting a meal drops its queued edits
+ * - Stale-edit detection: updates carry the meal's `updatedAt` when the
+ *   edit was made; the server reports a conflict if it has changed since
+ * - Three-way merge of a local edit with the server version
+ */
+
+import { generateTempId } from '../utils';
+import { applyMealChanges, type MealChanges, type MealInput } from '../meals';
+import { EXTENDED_MEAL_FIELDS } from '../../../convex/lib/validation';
+
+/**
+ * Meal fields that can be edited offline
+ */
+export type MealField = keyof MealInput;
+
+export type { MealChanges };
+
+/**
+ * Editable fields of a meal as last seen by the client
+ */
+export type MealSnapshot = MealInput & {
+  _id: string;
+  updatedAt: number;
+};
+
+export type OutboxOperation =
+  | { kind: 'create'; input: MealInput }
+  | { kind: 'update'; mealId: string; changes: MealChanges; base: MealSnapshot }
+  | { kind: 'delete'; mealId: string };
+
+export type OutboxEntryStatus = 'pending' | 'conflict' | 'failed';
+
+export interface OutboxEntry {
+  id: string; // Idempotency key sent with the operation
+  userId: string; // Clerk user the operation belongs to
+  operation: OutboxOperation;
+  status: OutboxEntryStatus;
+  serverMeal?: MealSnapshot; // Server version when status is 'conflict'
+  error?: string;
+  attempts: number;
+  createdAt: number;
+}
+
+/**
+ * Storage backend for outbox entries
+ */
+export interface OutboxStore {
+  getAll(): Promise<OutboxEntry[]>;
+  put(_entry: OutboxEntry): Promise<void>;
+  delete(_id: string): Promise<void>;
+}
+
+// Failed attempts before an entry stops being retried automatically
+export const MAX_REPLAY_ATTEMPTS = 3;
+
+const MEAL_FIELDS: MealField[] = [
+  'title',
+  'rating',
+  'mealType',
+  'description',
+  'price',
+  'currency',
+  'tags',
+  'location',
+  'mealDate',
+  ...EXTENDED_MEAL_FIELDS,
+];
+
+const DB_NAME = 'foodylog-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbox';
+
+/**
+ * In-memory outbox store, used in tests and when IndexedDB is unavailable
+ */
+export function createMemoryOutboxStore(initial: OutboxEntry[] = []): OutboxStore {
+  const entries = new Map(initial.map(entry => [entry.id, entry]));
+
+  return {
+    getAll: async () => Array.from(entries.values()),
+    put: async (entry) => {
+      entries.set(entry.id, entry);
+    },
+    delete: async (id) => {
+      entries.delete(id);
+    },
+  };
+}
+
+/**
+ * Wrap an IndexedDB request in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB-backed outbox store that survives reloads and app restarts
+ */
+export function createIndexedDbOutboxStore(factory: IDBFactory = indexedDB): OutboxStore {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!database) {
+      const request = factory.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+          request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      database = requestToPromise(request);
+    }
+    return database;
+  };
+
+  const withStore = async <T>(mode: 'readonly' | 'readwrite', run: (_store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await open();
+    return await requestToPromise(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+  };
+
+  return {
+    getAll: () => withStore('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>),
+    put: async (entry) => {
+      await withStore('readwrite', store => store.put(entry));
+    },
+    delete: async (id) => {
+      await withStore('readwrite', store => store.delete(id));
+    },
+  };
+}
+
+/**
+ * Default store for the current environment
+ */
+export function createOutboxStore(): OutboxStore {
+  return typeof indexedDB !== 'undefined'
+    ? createIndexedDbOutboxStore()
+    : createMemoryOutboxStore();
+}
+
+/**
+ * Read a user's entries in the order they were queued
+ */
+export async function getOutboxEntries(store: OutboxStore, userId: string) {
+  const entries = await store.getAll();
+
+  return entries
+    .filter(entry => entry.userId === userId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Queue a meal creation
+ *
+ * @returns The queued entry; its id doubles as the meal's temporary id
+ */
+export async function queueCreate(store: OutboxStore, userId: string, input: MealInput) {
+  const entry: OutboxEntry = {
+    id: generateTempId(),
+    userId,
+    operation: { kind: 'create', input },
+    status: 'pending',
+    attempts: 0,
+    createdAt: Date.now(),
+  };
+  await store.put(entry);
+
+  return entry;
+}
+
+/**
+ * Queue an edit of a meal
+ *
+ * Edits of a meal that is itself still queued for creation are folded into
+ * the create; repeated edits of a synced meal are folded into one update
+ * that keeps the original base version.
+ *
+ * @param base - The meal as the user saw it when editing
+ */
+export async function queueUpdate(
+  store: OutboxStore,
+  userId: string,
+  base: MealSnapshot,
+  changes: MealChanges,
+) {
+  const entries = await getOutboxEntries(store, userId);
+
+  const pendingCreate = entries.find(entry =>
+    entry.id === base._id && entry.operation.kind === 'create' && entry.status === 'pending',
+  );
+  if (pendingCreate && pendingCreate.operation.kind === 'create') {
+    const merged: OutboxEntry = {
+      ...pendingCreate,
+      operation: { kind: 'create', input: applyMealChanges(pendingCreate.operation.input, changes) },
+    };
+    await store.put(merged);
+    return merged;
+  }
+
+  const pendingUpdate = entries.find(entry =>
+    entry.operation.kind === 'update' && entry.operation.mealId === base._id && entry.status === 'pending',
+  );
+  if (pendingUpdate && pendingUpdate.operation.kind === 'update') {
+    const merged: OutboxEntry = {
+      ...pendingUpdate,
+      operation: {
+        ...pendingUpdate.operation,
+        changes: { ...pendingUpdate.operation.changes, ...changes },
+      },
+    };
+    await store.put(merged);
+    return merged;
+  }
+
+  const entry: OutboxEntry = {
+    id: generateTempId(),
+    userId,
+    operation: { kind: 'update', mealId: base._id, changes, base },
+    status: 'pending',
+    attempts: 0,
+    createdAt: Date.now(),
+  };
+  await store.put(entry);
+
+  return entry;
+}
+
+/**
+ * Queue a meal deletion
+ *
+ * Drops queued edits of the meal; deleting a meal that was created offline
+ * simply removes its queued creation.
+ *
+ * @returns The queued entry, or null when nothing needs to reach the server
+ */
+export async function queueDelete(store: OutboxStore, userId: string, mealId: string) {
+  const entries = await getOutboxEntries(store, userId);
+  let createdOffline = false;
+
+  for (const entry of entries) {
+    const { operation } = entry;
+    if (operation.kind === 'create' && entry.id === mealId) {
+      createdOffline = true;
+      await store.delete(entry.id);
+    } else if (operation.kind === 'update' && operation.mealId === mealId) {
+      await store.delete(entry.id);
+    }
+  }
+
+  if (createdOffline) {
+    return null;
+  }
+
+  const entry: OutboxEntry = {
+    id: generateTempId(),
+    userId,
+    operation: { kind: 'delete', mealId },
+    status: 'pending',
+    attempts: 0,
+    createdAt: Date.now(),
+  };
+  await store.put(entry);
+
+  return entry;
+}
+
+/**
+ * Server calls used to replay queued operations
+ */
+export interface OutboxExecutors {
+  create(_input: MealInput, _idempotencyKey: string): Promise<string>;
+  update(
+    _mealId: string,
+    _changes: MealChanges,
+    _expectedUpdatedAt: number,
+    _idempotencyKey: string,
+  ): Promise<{ status: 'updated' } | { status: 'conflict'; meal: MealSnapshot }>;
+  delete(_mealId: string, _idempotencyKey: string): Promise<void>;
+}
+
+/**
+ * Point an entry at the server ids of offline-created meals
+ *
+ * @param createdIds - Server meal id by the temporary id of its create
+ */
+function retargetEntry(entry: OutboxEntry, createdIds: Map<string, string>): OutboxEntry {
+  const { operation } = entry;
+  if (operation.kind === 'create') {
+    return entry;
+  }
+
+  const mealId = createdIds.get(operation.mealId);
+  if (!mealId) {
+    return entry;
+  }
+  if (operation.kind === 'update') {
+    return { ...entry, operation: { ...operation, mealId, base: { ...operation.base, _id: mealId } } };
+  }
+  return { ...entry, operation: { ...operation, mealId } };
+}
+
+export interface ReplayResult {
+  applied: number;
+  conflicts: number;
+  failed: number;
+  remaining: number;
+}
+
+/**
+ * Replay a user's pending entries in order
+ *
+ * Applied entries are removed. Conflicting updates are kept with the server
+ * version for resolution. Errors are counted per entry; after
+ * MAX_REPLAY_ATTEMPTS the entry is marked failed and no longer retried.
+ * Replay stops at the first error so later operations never overtake an
+ * earlier one that has not reached the server. When a create is applied,
+ * queued entries for the meal are rewritten to its server id before the
+ * create is removed, so they can be replayed by a later run.
+ */
+export async function replayOutbox(
+  store: OutboxStore,
+  userId: string,
+  executors: OutboxExecutors,
+): Promise<ReplayResult> {
+  const result: ReplayResult = { applied: 0, conflicts: 0, failed: 0, remaining: 0 };
+  // Offline-created meals get real ids as their creates are applied
+  const createdIds = new Map<string, string>();
+
+  for (const queued of await getOutboxEntries(store, userId)) {
+    if (queued.status !== 'pending') {
+      continue;
+    }
+
+    // Entries were read before this run's creates rewrote them
+    const entry = retargetEntry(queued, createdIds);
+    const { operation } = entry;
+    try {
+      if (operation.kind === 'create') {
+        createdIds.set(entry.id, await executors.create(operation.input, entry.id));
+        for (const dependent of await getOutboxEntries(store, userId)) {
+          const retargeted = retargetEntry(dependent, createdIds);
+          if (retargeted !== dependent) {
+            await store.put(retargeted);
+          }
+        }
+        await store.delete(entry.id);
+        result.applied++;
+      } else if (operation.kind === 'update') {
+        const outcome = await executors.update(operation.mealId, operation.changes, operation.base.updatedAt, entry.id);
+
+        if (outcome.status === 'conflict') {
+          await store.put({ ...entry, status: 'conflict', serverMeal: outcome.meal, error: undefined });
+          result.conflicts++;
+        } else {
+          await store.delete(entry.id);
+          result.applied++;
+        }
+      } else {
+        await executors.delete(operation.mealId, entry.id);
+        await store.delete(entry.id);
+        result.applied++;
+      }
+    } catch (err) {
+      const attempts = entry.attempts + 1;
+      const status = attempts >= MAX_REPLAY_ATTEMPTS ? 'failed' : 'pending';
+      await store.put({
+        ...entry,
+        status,
+        attempts,
+        error: err instanceof Error ? err.message : String(err),
+      });
+
+      if (status === 'failed') {
+        result.failed++;
+      }
+      break;
+    }
+  }
+
+  const remaining = await getOutboxEntries(store, userId);
+  result.remaining = remaining.filter(entry => entry.status === 'pending').length;
+
+  return result;
+}
+
+export type ConflictResolution =
+  | { kind: 'local' } // Re-apply the local edit on top of the server version
+  | { kind: 'server' } // Drop the local edit
+  | { kind: 'merge'; changes: MealChanges }; // Apply a merged set of changes
+
+/**
+ * Resolve a conflicting update
+ *
+ * Local and merged edits are sent with a fresh idempotency key and the
+ * server version's `updatedAt`; if the meal changed yet again the entry
+ * stays in conflict with the newer server version.
+ *
+ * @returns Whether the conflict was resolved
+ */
+export async function resolveOutboxConflict(
+  store: OutboxStore,
+  entry: OutboxEntry,
+  resolution: ConflictResolution,
+  executors: Pick<OutboxExecutors, 'update'> & { keepServer(_mealId: string): Promise<void> },
+): Promise<boolean> {
+  const { operation, serverMeal } = entry;
+  if (operation.kind !== 'update' || entry.status !== 'conflict' || !serverMeal) {
+    throw new Error('Only conflicting updates can be resolved');
+  }
+
+  if (resolution.kind === 'server') {
+    await executors.keepServer(operation.mealId);
+    await store.delete(entry.id);
+    return true;
+  }
+
+  const changes = resolution.kind === 'local' ? operation.changes : resolution.changes;
+  const outcome = await executors.update(operation.mealId, changes, serverMeal.updatedAt, generateTempId());
+
+  if (outcome.status === 'conflict') {
+    await store.put({ ...entry, serverMeal: outcome.meal });
+    return false;
+  }
+
+  await store.delete(entry.id);
+  return true;
+}
+
+/**
+ * Whether two field values are equal (tags and location compared by value)
+ */
+function isSameValue(a: unknown, b: unknown) {
+  // A cleared field (null) matches a missing one
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export interface MergeResult {
+  changes: MealChanges; // Local changes that can be applied without losing server edits
+  conflictingFields: MealField[]; // Fields changed differently on both sides
+}
+
+/**
+ * Three-way merge of a local edit with the current server version
+ *
+ * A locally changed field is kept when the server still has the base value
+ * for it. Fields both sides changed to different values are reported so
+ * the user can pick a side.
+ */
+export function mergeMealChanges(
+  base: MealSnapshot,
+  changes: MealChanges,
+  server: MealSnapshot,
+): MergeResult {
+  const merged: MealChanges = {};
+  const conflictingFields: MealField[] = [];
+
+  for (const field of MEAL_FIELDS) {
+    if (!(field in changes) || isSameValue(changes[field], server[field])) {
+      continue;
+    }
+
+    if (isSameValue(base[field], server[field])) {
+      Object.assign(merged, { [field]: changes[field] });
+    } else {
+      conflictingFields.push(field);
+    }
+  }
+
+  return { changes: merged, conflictingFields };
+}
+
+/**
+ * Pick the editable fields of a meal document
+ */
+export function toMealSnapshot(meal: MealSnapshot): MealSnapshot {
+  return {
+    _id: meal._id,
+    updatedAt: meal.updatedAt,
+    title: meal.title,
+    rating: meal.rating,
+    mealType: meal.mealType,
+    description: meal.description,
+    price: meal.price,
+    currency: meal.currency,
+    tags: meal.tags,
+    location: meal.location && {
+      name: meal.location.name,
+      address: meal.location.address,
+      coordinates: meal.location.coordinates && { lat: meal.location.coordinates.lat, lng: meal.location.coordinates.lng },
+      placeId: meal.location.placeId,
+    },
+    mealDate: meal.mealDate,
+    cuisine: meal.cuisine,
+    dishType: meal.dishType,
+    servingSize: meal.servingSize,
+    spiceLevel: meal.spiceLevel,
+    notes: meal.notes,
+    occasion: meal.occasion,
+    companions: meal.companions,
+    isRecommended: meal.isRecommended,
+    wouldOrderAgain: meal.wouldOrderAgain,
+    valueForMoney: meal.valueForMoney,
+  };
+}
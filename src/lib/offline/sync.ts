@@ -0,0 +1,260 @@
+/**
+ * Offline Sync Provider
+ *
+ * Routes meal writes through the offline outbox: while online they go
+ * straight to Convex, while offline they are queued and replayed when the
+ * connection returns. Exposes the queue state for the sync status UI.
+ *
+ * Features:
+ * - Online/offline tracking from browser connectivity events
+ * - Automatic replay on reconnect and on app start
+ * - Pending, conflicting and failed entries for the signed-in user
+ * - Conflict resolution (keep local, keep server or merge)
+ */
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import { useMutation } from 'convex/react';
+import { useAuth } from '@clerk/clerk-react';
+import { api } from '../../../convex/_generated/api';
+import type { Id } from '../../../convex/_generated/dataModel';
+import type { MealInput } from '../meals';
+import {
+  createOutboxStore,
+  getOutboxEntries,
+  queueCreate,
+  queueDelete,
+  queueUpdate,
+  replayOutbox,
+  resolveOutboxConflict,
+  toMealSnapshot,
+  type ConflictResolution,
+  type MealChanges,
+  type MealSnapshot,
+  type OutboxEntry,
+  type OutboxExecutors,
+  type OutboxStore,
+} from './outbox';
+
+interface OfflineSyncState {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingCount: number;
+  conflicts: OutboxEntry[];
+  failed: OutboxEntry[];
+  createMeal: (_input: MealInput) => Promise<{ mealId: Id<'meals'> | null; queued: boolean }>;
+  updateMeal: (_base: MealSnapshot, _changes: MealChanges) => Promise<{ queued: boolean; conflict: boolean }>;
+  deleteMeal: (_mealId: string) => Promise<{ queued: boolean }>;
+  syncNow: () => Promise<void>;
+  resolveConflict: (_entryId: string, _resolution: ConflictResolution) => Promise<boolean>;
+  retryEntry: (_entryId: string) => Promise<void>;
+  discardEntry: (_entryId: string) => Promise<void>;
+}
+
+interface OfflineSyncProviderProps {
+  children: React.ReactNode;
+  store?: OutboxStore;
+}
+
+const OfflineSyncContext = createContext<OfflineSyncState | null>(null);
+
+const getIsOnline = () => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+export function OfflineSyncProvider({ children, store: providedStore }: OfflineSyncProviderProps) {
+  const { userId } = useAuth();
+  const [store] = useState(() => providedStore ?? createOutboxStore());
+  const [isOnline, setIsOnline] = useState(getIsOnline);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const syncRef = useRef<Promise<void> | null>(null);
+  const resyncRef = useRef(false);
+
+  const createMealMutation = useMutation(api.functions.meals.createMeal);
+  const updateMealMutation = useMutation(api.functions.meals.updateMeal);
+  const deleteMealMutation = useMutation(api.functions.meals.deleteMeal);
+  const resolveMealConflictMutation = useMutation(api.functions.meals.resolveMealConflict);
+
+  const executors = useMemo<OutboxExecutors>(() => ({
+    create: (input, idempotencyKey) => createMealMutation({ ...input, idempotencyKey }),
+    update: async (mealId, changes, expectedUpdatedAt, idempotencyKey) => {
+      const result = await updateMealMutation({
+        ...changes,
+        mealId: mealId as Id<'meals'>,
+        expectedUpdatedAt,
+        idempotencyKey,
+      });
+      return result.status === 'conflict'
+        ? { status: 'conflict', meal: toMealSnapshot(result.meal) }
+        : { status: 'updated' };
+    },
+    delete: async (mealId, idempotencyKey) => {
+      await deleteMealMutation({ mealId: mealId as Id<'meals'>, idempotencyKey });
+    },
+  }), [createMealMutation, updateMealMutation, deleteMealMutation]);
+
+  /**
+   * Reload the signed-in user's entries from the store
+   */
+  const refresh = useCallback(async () => {
+    setEntries(userId ? await getOutboxEntries(store, userId) : []);
+  }, [store, userId]);
+
+  /**
+   * Replay pending entries
+   *
+   * A call made while a replay runs joins it, and the replay goes over the
+   * outbox once more so entries queued after it read the outbox are
+   * included.
+   */
+  const syncNow = useCallback(async () => {
+    if (!userId || !getIsOnline()) {
+      return;
+    }
+    if (syncRef.current) {
+      resyncRef.current = true;
+      return await syncRef.current;
+    }
+
+    const replay = async () => {
+      setIsSyncing(true);
+      try {
+        do {
+          resyncRef.current = false;
+          await replayOutbox(store, userId, executors);
+        } while (resyncRef.current && getIsOnline());
+      } finally {
+        syncRef.current = null;
+        setIsSyncing(false);
+        await refresh();
+      }
+    };
+
+    syncRef.current = replay();
+    return await syncRef.current;
+  }, [store, userId, executors, refresh]);
+
+  // Track connectivity and replay when the connection returns
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      void syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  // Load the queue and replay anything left from a previous session
+  useEffect(() => {
+    void refresh().then(syncNow);
+  }, [refresh, syncNow]);
+
+  const createMeal = useCallback(async (input: MealInput) => {
+    if (userId && !getIsOnline()) {
+      await queueCreate(store, userId, input);
+      await refresh();
+      return { mealId: null, queued: true };
+    }
+
+    return { mealId: await createMealMutation(input), queued: false };
+  }, [store, userId, refresh, createMealMutation]);
+
+  const updateMeal = useCallback(async (base: MealSnapshot, changes: MealChanges) => {
+    if (!userId) {
+      throw new Error('Sign in to edit meals');
+    }
+
+    const entry = await queueUpdate(store, userId, base, changes);
+    if (getIsOnline()) {
+      await syncNow();
+    } else {
+      await refresh();
+    }
+
+    const stored = (await getOutboxEntries(store, userId)).find(candidate => candidate.id === entry.id);
+    if (stored?.status === 'failed' || (stored?.status === 'pending' && getIsOnline())) {
+      throw new Error(stored.error ?? 'Failed to save meal');
+    }
+    return { queued: stored?.status === 'pending', conflict: stored?.status === 'conflict' };
+  }, [store, userId, syncNow, refresh]);
+
+  const deleteMeal = useCallback(async (mealId: string) => {
+    if (userId && !getIsOnline()) {
+      await queueDelete(store, userId, mealId);
+      await refresh();
+      return { queued: true };
+    }
+
+    await deleteMealMutation({ mealId: mealId as Id<'meals'> });
+    return { queued: false };
+  }, [store, userId, refresh, deleteMealMutation]);
+
+  const findEntry = useCallback(async (entryId: string) => {
+    const entry = userId
+      ? (await getOutboxEntries(store, userId)).find(candidate => candidate.id === entryId)
+      : undefined;
+    if (!entry) {
+      throw new Error('Queued change not found');
+    }
+    return entry;
+  }, [store, userId]);
+
+  const resolveConflict = useCallback(async (entryId: string, resolution: ConflictResolution) => {
+    try {
+      return await resolveOutboxConflict(store, await findEntry(entryId), resolution, {
+        update: executors.update,
+        keepServer: async (mealId) => {
+          await resolveMealConflictMutation({ mealId: mealId as Id<'meals'> });
+        },
+      });
+    } finally {
+      await refresh();
+    }
+  }, [store, findEntry, executors, resolveMealConflictMutation, refresh]);
+
+  const retryEntry = useCallback(async (entryId: string) => {
+    const entry = await findEntry(entryId);
+    await store.put({ ...entry, status: 'pending', attempts: 0, error: undefined });
+    await syncNow();
+    await refresh();
+  }, [store, findEntry, syncNow, refresh]);
+
+  const discardEntry = useCallback(async (entryId: string) => {
+    await store.delete(entryId);
+    await refresh();
+  }, [store, refresh]);
+
+  const value: OfflineSyncState = {
+    isOnline,
+    isSyncing,
+    pendingCount: entries.filter(entry => entry.status === 'pending').length,
+    conflicts: entries.filter(entry => entry.status === 'conflict'),
+    failed: entries.filter(entry => entry.status === 'failed'),
+    createMeal,
+    updateMeal,
+    deleteMeal,
+    syncNow,
+    resolveConflict,
+    retryEntry,
+    discardEntry,
+  };
+
+  return React.createElement(OfflineSyncContext.Provider, { value }, children);
+}
+
+/**
+ * Access the offline sync state and queue-aware meal writes
+ */
+export const useOfflineSync = () => {
+  const context = useContext(OfflineSyncContext);
+
+  if (!context) {
+    throw new Error('useOfflineSync must be used within an OfflineSyncProvider');
+  }
+
+  return context;
+};
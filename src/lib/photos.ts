@@ -0,0 +1,76 @@
+/**
+ * Photo Upload Helpers
+ *
+ * Browser-side pieces of the meal photo pipeline: uploading a file to a
+ * Convex upload URL with progress reporting and reading image dimensions
+ * before upload.
+ */
+
+import type { Id } from '../../convex/_generated/dataModel';
+
+/**
+ * Upload a file to a Convex upload URL
+ *
+ * Uses XMLHttpRequest rather than fetch so upload progress can be reported.
+ *
+ * @param uploadUrl - URL returned by the generateUploadUrl mutation
+ * @param file - File to upload
+ * @param onProgress - Called with upload progress from 0 to 100
+ * @returns Storage ID of the uploaded file
+ */
+export function uploadFileWithProgress(
+  uploadUrl: string,
+  file: File,
+  onProgress?: (_progress: number) => void,
+): Promise<Id<'_storage'>> {
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    request.open('POST', uploadUrl);
+    request.setRequestHeader('Content-Type', file.type);
+    request.responseType = 'json';
+
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.((event.loaded / event.total) * 100);
+      }
+    };
+
+    request.onload = () => {
+      const storageId = request.response?.storageId;
+      if (request.status >= 200 && request.status < 300 && storageId) {
+        onProgress?.(100);
+        resolve(storageId as Id<'_storage'>);
+      } else {
+        reject(new Error(`Photo upload failed with status ${request.status}`));
+      }
+    };
+    request.onerror = () => reject(new Error('Photo upload failed. Check your connection and try again.'));
+    request.onabort = () => reject(new Error('Photo upload was cancelled'));
+
+    request.send(file);
+  });
+}
+
+/**
+ * Read the pixel dimensions of an image file
+ *
+ * @param file - Image file
+ * @returns Width and height, or undefined values when the image cannot be decoded
+ */
+export function getImageDimensions(file: File): Promise<{ width?: number; height?: number }> {
+  return new Promise((resolve) => {
+    const objectUrl = URL.createObjectURL(file);
+    const image = new Image();
+
+    image.onload = () => {
+      resolve({ width: image.naturalWidth, height: image.naturalHeight });
+      URL.revokeObjectURL(objectUrl);
+    };
+    image.onerror = () => {
+      resolve({});
+      URL.revokeObjectURL(objectUrl);
+    };
+
+    image.src = objectUrl;
+  });
+}
@@ -0,0 +1,56 @@
+/**
+ * Search helper tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { EMPTY_SEARCH_FILTERS, hasActiveFilters, toSearchArgs } from './search';
+
+describe('toSearchArgs', () => {
+  it('omits unset filters', () => {
+    expect(toSearchArgs('  ramen ', EMPTY_SEARCH_FILTERS)).toEqual({
+      searchTerm: 'ramen',
+      mealType: undefined,
+      tags: undefined,
+      minRating: undefined,
+      maxRating: undefined,
+      minPrice: undefined,
+      maxPrice: undefined,
+      startDate: undefined,
+      endDate: undefined,
+    });
+  });
+
+  it('parses prices and ignores invalid ones', () => {
+    const args = toSearchArgs('', { ...EMPTY_SEARCH_FILTERS, minPrice: '4.5', maxPrice: '-2' });
+
+    expect(args.minPrice).toBe(4.5);
+    expect(args.maxPrice).toBeUndefined();
+  });
+
+  it('covers whole local days in the date range', () => {
+    const args = toSearchArgs('', {
+      ...EMPTY_SEARCH_FILTERS,
+      startDate: '2025-03-01',
+      endDate: '2025-03-02',
+    });
+
+    expect(args.startDate).toBe(new Date(2025, 2, 1).getTime());
+    expect(args.endDate).toBe(new Date(2025, 2, 3).getTime() - 1);
+  });
+
+  it('trims extended detail filters and drops blank ones', () => {
+    const args = toSearchArgs('', { ...EMPTY_SEARCH_FILTERS, cuisine: ' Thai ', companion: '  ', maxSpiceLevel: 2 });
+
+    expect(args).toMatchObject({ cuisine: 'Thai', companion: undefined, maxSpiceLevel: 2 });
+  });
+});
+
+describe('hasActiveFilters', () => {
+  it('detects any set filter', () => {
+    expect(hasActiveFilters(EMPTY_SEARCH_FILTERS)).toBe(false);
+    expect(hasActiveFilters({ ...EMPTY_SEARCH_FILTERS, tags: ['spicy'] })).toBe(true);
+    expect(hasActiveFilters({ ...EMPTY_SEARCH_FILTERS, minRating: 7 })).toBe(true);
+    expect(hasActiveFilters({ ...EMPTY_SEARCH_FILTERS, startDate: '2025-01-01' })).toBe(true);
+    expect(hasActiveFilters({ ...EMPTY_SEARCH_FILTERS, wouldOrderAgain: false })).toBe(true);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Meal Search Helpers
+ *
+ * Filter state for the search page and its conversion into searchMeals
+ * arguments.
+ */
+
+import type { MealType } from './meals';
+import type { ServingSize } from '../../convex/lib/validation';
+
+export const SEARCH_DEBOUNCE_MS = 300;
+
+export interface SearchFilters {
+  mealType?: MealType;
+  tags: string[];
+  minRating?: number;
+  maxRating?: number;
+  minPrice: string; // input value, '' when unset
+  maxPrice: string;
+  startDate: string; // yyyy-mm-dd input value, '' when unset
+  endDate: string;
+  // Extended (premium) details
+  cuisine: string; // input value, '' when unset
+  dishType: string;
+  occasion: string;
+  companion: string;
+  servingSize?: ServingSize;
+  minSpiceLevel?: number;
+  maxSpiceLevel?: number;
+  minValueForMoney?: number;
+  isRecommended?: boolean;
+  wouldOrderAgain?: boolean;
+}
+
+export const EMPTY_SEARCH_FILTERS: SearchFilters = {
+  tags: [],
+  minPrice: '',
+  maxPrice: '',
+  startDate: '',
+  endDate: '',
+  cuisine: '',
+  dishType: '',
+  occasion: '',
+  companion: '',
+};
+
+export interface SearchArgs {
+  searchTerm: string;
+  mealType?: MealType;
+  tags?: string[];
+  minRating?: number;
+  maxRating?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  startDate?: number;
+  endDate?: number;
+  cuisine?: string;
+  dishType?: string;
+  occasion?: string;
+  companion?: string;
+  servingSize?: ServingSize;
+  minSpiceLevel?: number;
+  maxSpiceLevel?: number;
+  minValueForMoney?: number;
+  isRecommended?: boolean;
+  wouldOrderAgain?: boolean;
+}
+
+/**
+ * Parse a price input, ignoring blank or invalid values
+ */
+function parsePrice(value: string): number | undefined {
+  if (value.trim() === '') {
+    return undefined;
+  }
+  const price = Number(value);
+  return Number.isFinite(price) && price >= 0 ? price : undefined;
+}
+
+/**
+ * Local midnight of a yyyy-mm-dd date input value
+ */
+function parseDate(value: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return Number.isNaN(date.getTime()) ? undefined : date.getTime();
+}
+
+/**
+ * Whether any filter is set
+ */
+export function hasActiveFilters(filters: SearchFilters): boolean {
+  const args = toSearchArgs('', filters);
+  return Object.entries(args).some(([key, value]) => key !== 'searchTerm' && value !== undefined);
+}
+
+/**
+ * Convert a search term and filters into searchMeals arguments
+ *
+ * Dates cover whole local days: the end date includes every meal eaten
+ * on that day.
+ */
+export function toSearchArgs(searchTerm: string, filters: SearchFilters): SearchArgs {
+  const endDay = parseDate(filters.endDate);
+
+  return {
+    searchTerm: searchTerm.trim(),
+    mealType: filters.mealType,
+    tags: filters.tags.length > 0 ? filters.tags : undefined,
+    minRating: filters.minRating,
+    maxRating: filters.maxRating,
+    minPrice: parsePrice(filters.minPrice),
+    maxPrice: parsePrice(filters.maxPrice),
+    startDate: parseDate(filters.startDate),
+    endDate: endDay === undefined
+      ? undefined
+      : new Date(new Date(endDay).setDate(new Date(endDay).getDate() + 1)).getTime() - 1,
+    cuisine: filters.cuisine.trim() || undefined,
+    dishType: filters.dishType.trim() || undefined,
+    occasion: filters.occasion.trim() || undefined,
+    companion: filters.companion.trim() || undefined,
+    servingSize: filters.servingSize,
+    minSpiceLevel: filters.minSpiceLevel,
+    maxSpiceLevel: filters.maxSpiceLevel,
+    minValueForMoney: filters.minValueForMoney,
+    isRecommended: filters.isRecommended,
+    wouldOrderAgain: filters.wouldOrderAgain,
+  };
+}
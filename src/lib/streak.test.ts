@@ -0,0 +1,38 @@
+/**
+ * Logging streak tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getLoggingStreak, getStreakStartDate, STREAK_LOOKBACK_DAYS } from './streak';
+
+const now = new Date(2025, 2, 14, 20, 0).getTime();
+const at = (day: number, hour = 12) => new Date(2025, 2, day, hour).getTime();
+
+describe('getLoggingStreak', () => {
+  it('counts consecutive days ending today', () => {
+    const streak = getLoggingStreak([at(14, 8), at(14, 13), at(13), at(12), at(10)], now);
+
+    expect(streak).toEqual({ days: 3, loggedToday: true });
+  });
+
+  it('keeps a streak running until a whole day is missed', () => {
+    expect(getLoggingStreak([at(13), at(12)], now)).toEqual({ days: 2, loggedToday: false });
+    expect(getLoggingStreak([at(12), at(11)], now)).toEqual({ days: 0, loggedToday: false });
+  });
+
+  it('uses local calendar days', () => {
+    const streak = getLoggingStreak([at(14, 0), at(13, 23)], now);
+
+    expect(streak.days).toBe(2);
+  });
+
+  it('returns zero without meals', () => {
+    expect(getLoggingStreak([], now)).toEqual({ days: 0, loggedToday: false });
+  });
+});
+
+describe('getStreakStartDate', () => {
+  it('starts at local midnight of the first day in the lookback window', () => {
+    expect(getStreakStartDate(now)).toBe(new Date(2025, 2, 14 - STREAK_LOOKBACK_DAYS).getTime());
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Logging Streak Helpers
+ *
+ * Counts consecutive local days with at least one logged meal. Days are
+ * the user's calendar days, so the count follows their timezone and
+ * daylight saving changes.
+ */
+
+// How far back meal dates are loaded to count a streak
+export const STREAK_LOOKBACK_DAYS = 365;
+
+export interface LoggingStreak {
+  days: number; // Consecutive days ending today or yesterday
+  loggedToday: boolean;
+}
+
+/**
+ * Local calendar day of a timestamp, e.g. "2025-3-14"
+ */
+function toDayKey(date: Date): string {
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+}
+
+/**
+ * Local midnight STREAK_LOOKBACK_DAYS days before `now`
+ */
+export function getStreakStartDate(now: number = Date.now()): number {
+  const date = new Date(now);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - STREAK_LOOKBACK_DAYS).getTime();
+}
+
+/**
+ * Count the current logging streak
+ *
+ * A streak is still running when the last meal was yesterday: it only
+ * breaks once a whole day passes without a meal.
+ *
+ * @param mealDates - Meal timestamps, in any order
+ * @param now - Current time
+ */
+export function getLoggingStreak(mealDates: number[], now: number = Date.now()): LoggingStreak {
+  const loggedDays = new Set(mealDates.map(mealDate => toDayKey(new Date(mealDate))));
+  const day = new Date(now);
+  const loggedToday = loggedDays.has(toDayKey(day));
+
+  if (!loggedToday) {
+    day.setDate(day.getDate() - 1);
+  }
+
+  let days = 0;
+  while (loggedDays.has(toDayKey(day))) {
+    days++;
+    day.setDate(day.getDate() - 1);
+  }
+
+  return { days, loggedToday };
+}
@@ -12,6 +12,8 @@ import {
   getRatingColor,
   formatTimeAgo,
   formatPrice,
+  formatFileSize,
+  formatDistance,
   truncateText,
   isValidUrl,
   generateTempId,
@@ -140,6 +142,11 @@ describe('formatPrice', () => {
     expect(formatPrice(12.99, 'JPY')).toBe('¥12.99');
   });
 
+  it('shows the converted amount after the original', () => {
+    expect(formatPrice(12, 'EUR', { amount: 13.05, currency: 'USD' })).toBe('€12.00 (≈ $13.05)');
+    expect(formatPrice(12, 'USD', { amount: 12, currency: 'USD' })).toBe('$12.00');
+  });
+
   it('handles decimal places correctly', () => {
     expect(formatPrice(12.5)).toBe('$12.50');
     expect(formatPrice(12.999)).toBe('$13.00');
@@ -155,6 +162,21 @@ describe('formatPrice', () => {
   });
 });
 
+describe('formatFileSize', () => {
+  it('formats bytes, kilobytes and megabytes', () => {
+    expect(formatFileSize(512)).toBe('512 B');
+    expect(formatFileSize(1536)).toBe('1.5 KB');
+    expect(formatFileSize(100 * 1024 * 1024)).toBe('100.0 MB');
+  });
+});
+
+describe('formatDistance', () => {
+  it('formats meters and kilometers', () => {
+    expect(formatDistance(79.6)).toBe('80 m');
+    expect(formatDistance(1234)).toBe('1.2 km');
+  });
+});
+
 describe('truncateText', () => {
   it('truncates text longer than maxLength', () => {
     expect(truncateText('This is a long text', 10)).toBe('This is a...');
@@ -64,15 +64,53 @@ export function formatTimeAgo(timestamp: number): string {
  * 
  * @param price - Price value
  * @param currency - Currency code (default: 'USD')
+ * @param converted - The price converted to another currency, shown after
+ *   the original amount, e.g. "€12.00 (≈ $13.05)"
  * @returns Formatted price string
  */
-export function formatPrice(price: number, currency: string = 'USD'): string {
-  return new Intl.NumberFormat('en-US', {
+export function formatPrice(
+  price: number,
+  currency: string = 'USD',
+  converted?: { amount: number; currency: string },
+): string {
+  const format = (amount: number, code: string) => new Intl.NumberFormat('en-US', {
     style: 'currency',
-    currency: currency,
+    currency: code,
     minimumFractionDigits: 2,
     maximumFractionDigits: 2,
-  }).format(price);
+  }).format(amount);
+
+  const formatted = format(price, currency);
+  if (!converted || converted.currency === currency) {
+    return formatted;
+  }
+
+  return `${formatted} (≈ ${format(converted.amount, converted.currency)})`;
+}
+
+/**
+ * Formats a byte count for display
+ * Used for photo sizes and storage usage
+ * 
+ * @param bytes - Size in bytes
+ * @returns Size in B, KB or MB, e.g. "2.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) {return `${bytes} B`;}
+  if (bytes < 1024 * 1024) {return `${(bytes / 1024).toFixed(1)} KB`;}
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Formats a distance for display
+ * Used for nearby place suggestions
+ * 
+ * @param meters - Distance in meters
+ * @returns Distance in m or km, e.g. "1.2 km"
+ */
+export function formatDistance(meters: number): string {
+  if (meters < 1000) {return `${Math.round(meters)} m`;}
+  return `${(meters / 1000).toFixed(1)} km`;
 }
 
 /**
@@ -2,21 +2,23 @@
  * FoodyLog Application Entry Point
  * 
  * Initializes the React application with routing, error boundaries,
- * Clerk authentication, Convex backend connection, and PWA service worker registration. 
+ * Clerk authentication, Convex backend connection (authenticated with Clerk
+ * session tokens), and PWA service worker registration. 
  * Follows FoodyLog architecture with mobile-first design and offline-first capabilities.
  */
 
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { BrowserRouter } from 'react-router-dom';
-import { ClerkProvider } from '@clerk/clerk-react';
-import { ConvexProvider } from 'convex/react';
+import { ClerkProvider, useAuth } from '@clerk/clerk-react';
+import { ConvexProviderWithClerk } from 'convex/react-clerk';
 import App from './App.tsx';
 import { ErrorBoundary } from './components/ErrorBoundary.tsx';
 import { DevelopmentAuthWrapper } from './components/auth/DevelopmentAuthWrapper.tsx';
 import { registerSW } from './lib/pwa.ts';
 import { convex } from './lib/convex/client.ts';
 import { clerkConfig } from './lib/auth/clerk.ts';
+import { OfflineSyncProvider } from './lib/offline/sync.ts';
 import './index.css';
 
 // Register service worker for PWA functionality
@@ -39,11 +41,13 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
           appearance={clerkConfig.appearance}
           localization={clerkConfig.localization}
         >
-          <ConvexProvider client={convex}>
-            <BrowserRouter>
-              <App />
-            </BrowserRouter>
-          </ConvexProvider>
+          <ConvexProviderWithClerk client={convex} useAuth={useAuth}>
+            <OfflineSyncProvider>
+              <BrowserRouter>
+                <App />
+              </BrowserRouter>
+            </OfflineSyncProvider>
+          </ConvexProviderWithClerk>
         </ClerkProvider>
       </DevelopmentAuthWrapper>
     </ErrorBoundary>
@@ -1,11 +1,97 @@
 /**
  * AddMealPage - Add new meal page
- * 
- * Placeholder page for meal creation functionality.
- * Will be implemented in Sprint 2 as part of Epic 2.2: Meal Form & Data Model.
+ *
+ * Meal logging form backed by the createMeal mutation.
+ * Implements Epic 2.2: Meal Form & Data Model.
+ *
+ * Features:
+ * - All meal fields supported by createMeal
+ * - Photos uploaded to the new meal with upload progress
+ * - Client-side validation matching the mutation limits
+ * - Meal type taken from the `mealType` query parameter (dashboard quick-add),
+ *   otherwise defaulted from the user's preference or the time of day
+ * - Server errors surfaced inline, with an upgrade prompt for tier limits
+ * - Meals saved while offline are queued and synced on reconnect
+ *   (photos need a connection)
  */
 
+import { useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { MealForm } from '../components/meals/MealForm';
+import { MEAL_TYPE_OPTIONS, type MealInput } from '../lib/meals';
+import { PhotoPicker } from '../components/meals/PhotoPicker';
+import { UpgradePrompt } from '../components/subscription/UpgradePrompt';
+import {
+  MealFormSkeleton,
+  PhotoUploadLoader,
+  showErrorToast,
+  showMealSavedToast,
+  showOfflineSyncToast,
+  showWarningToast,
+} from '../components/ui';
+import { useDefaultMealTypePreference, useCurrencyPreference } from '../hooks/useUserPreferences';
+import { usePhotoUpload } from '../hooks/usePhotoUpload';
+import { useEntitlements } from '../hooks/useEntitlements';
+import { getConvexErrorMessage, getEntitlementViolation } from '../lib/convex/errors';
+import type { EntitlementViolation } from '../../convex/lib/entitlements';
+import { getDefaultMealType } from '../lib/utils';
+import { useOfflineSync } from '../lib/offline/sync';
+
 export function AddMealPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const { createMeal, isOnline, pendingCount } = useOfflineSync();
+  const { tier } = useEntitlements();
+  const { uploadPhotos, isUploading, stage, progress } = usePhotoUpload();
+  const { defaultMealType, isLoading } = useDefaultMealTypePreference();
+  const { currency } = useCurrencyPreference();
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [entitlementViolation, setEntitlementViolation] = useState<EntitlementViolation | null>(null);
+  const [photos, setPhotos] = useState<File[]>([]);
+  const requestedMealType = MEAL_TYPE_OPTIONS
+    .find(option => option.value === searchParams.get('mealType'))?.value;
+
+  /**
+   * Create the meal, upload its photos and return to the meal list
+   */
+  const handleSubmit = async (input: MealInput) => {
+    setServerError(null);
+    setEntitlementViolation(null);
+
+    let mealId;
+    try {
+      ({ mealId } = await createMeal(input));
+    } catch (err) {
+      const violation = getEntitlementViolation(err);
+      if (violation) {
+        setEntitlementViolation(violation);
+      } else {
+        setServerError(getConvexErrorMessage(err, 'Failed to save meal. Please try again.'));
+      }
+      return;
+    }
+
+    // Queued offline; it is created when the connection returns
+    if (!mealId) {
+      showOfflineSyncToast(pendingCount + 1);
+      if (photos.length > 0) {
+        showWarningToast('Photos not saved', 'Add them to the meal once you\'re back online.');
+      }
+      navigate('/meals');
+      return;
+    }
+
+    try {
+      await uploadPhotos(mealId, photos);
+    } catch (err) {
+      // The meal itself was saved; let the user know the photos were not
+      showErrorToast('Photo upload failed', err instanceof Error ? err.message : undefined);
+    }
+
+    showMealSavedToast(input.title);
+    navigate('/meals');
+  };
+
   return (
     <div className="space-y-6">
       <div className="text-center">
@@ -17,13 +103,39 @@ export function AddMealPage() {
         </p>
       </div>
 
-      <div className="bg-card border border-border rounded-lg p-8 text-center">
-        <div className="text-6xl mb-4">📸</div>
-        <h2 className="text-xl font-semibold mb-2">Meal Logging Coming Soon</h2>
-        <p className="text-muted-foreground">
-          This feature will be available in Sprint 2. You&apos;ll be able to take photos, rate your meals, and add details like location and price.
-        </p>
+      <div className="relative bg-card border border-border rounded-lg p-4 sm:p-6">
+        {isLoading ? (
+          <MealFormSkeleton />
+        ) : (
+          <div className="space-y-6">
+            <PhotoPicker
+              files={photos}
+              onChange={setPhotos}
+              tier={tier}
+              disabled={isUploading || !isOnline}
+            />
+            {!isOnline && (
+              <p className="text-sm text-muted-foreground">
+                You&apos;re offline. Your meal will be saved and synced when you reconnect;
+                photos can be added once you&apos;re back online.
+              </p>
+            )}
+            {entitlementViolation && <UpgradePrompt violation={entitlementViolation} />}
+            <MealForm
+              defaultValues={{
+                mealType: requestedMealType ?? defaultMealType ?? getDefaultMealType(),
+                currency,
+              }}
+              onSubmit={handleSubmit}
+              onCancel={() => navigate(-1)}
+              tier={tier}
+              serverError={serverError}
+            />
+          </div>
+        )}
+
+        {isUploading && <PhotoUploadLoader progress={progress} stage={stage} />}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,11 +1,65 @@
 /**
  * AnalyticsPage - Meal analytics and insights page
- * 
- * Placeholder page for analytics functionality.
- * Will be implemented in Sprint 3 as part of Epic 3.3: Basic Analytics.
+ *
+ * Daily, weekly, monthly and yearly insights about the user's meals.
+ * Implements Epic 3.3: Basic Analytics.
+ *
+ * Features:
+ * - Period tabs with previous/next navigation
+ * - Summary StatsCards (meals, average rating, spend, top place)
+ * - Spend over time, meal type and rating distribution charts
+ * - Top tags and places
+ * - Budgets with budget vs actual history
+ * - Results served from the analytics cache when available
+ * - Upgrade prompt for periods beyond the free tier's analytics history
  */
 
+import { useMemo, useState } from 'react';
+import { BarChart3, ChevronLeft, ChevronRight, DollarSign, MapPin, Star, UtensilsCrossed } from 'lucide-react';
+import {
+  Button,
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  MealTagBadge,
+  StatsCard,
+  StatsCardSkeleton,
+  Tabs,
+  TabsList,
+  TabsTrigger,
+} from '../components/ui';
+import { BarChart } from '../components/analytics/BarChart';
+import { BudgetCard } from '../components/budgets/BudgetCard';
+import { UpgradePrompt } from '../components/subscription/UpgradePrompt';
+import { useAnalytics } from '../hooks/useAnalytics';
+import { useEntitlements } from '../hooks/useEntitlements';
+import { useCurrencyPreference } from '../hooks/useUserPreferences';
+import {
+  ANALYTICS_PERIOD_OPTIONS,
+  formatBucketLabel,
+  formatPeriodLabel,
+  getAnalyticsRange,
+  shiftPeriod,
+  type AnalyticsPeriod,
+} from '../lib/analytics';
+import { MEAL_TYPE_OPTIONS } from '../lib/meals';
+import { checkAnalyticsHistory } from '../../convex/lib/entitlements';
+import { formatPrice } from '../lib/utils';
+
 export function AnalyticsPage() {
+  const [period, setPeriod] = useState<AnalyticsPeriod>('monthly');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const { currency } = useCurrencyPreference();
+
+  const range = useMemo(() => getAnalyticsRange(period, anchor), [period, anchor]);
+  const { tier, isLoading: isTierLoading } = useEntitlements();
+  const historyViolation = checkAnalyticsHistory(tier, range.startDate);
+  const { analytics, isLoading } = useAnalytics(range, { enabled: !isTierLoading && !historyViolation });
+  const isCurrentPeriod = range.endDate > Date.now();
+
+  const formatMoney = (amount: number) => formatPrice(amount, currency);
+
   return (
     <div className="space-y-6">
       <div className="text-center">
@@ -17,13 +71,182 @@ export function AnalyticsPage() {
         </p>
       </div>
 
-      <div className="bg-card border border-border rounded-lg p-8 text-center">
-        <div className="text-6xl mb-4">📊</div>
-        <h2 className="text-xl font-semibold mb-2">Analytics Coming Soon</h2>
-        <p className="text-muted-foreground">
-          This feature will be available in Sprint 3. You&apos;ll see statistics about your meals, spending trends, and eating patterns.
-        </p>
+      {/* Period selection */}
+      <div className="flex flex-col items-center gap-3">
+        <Tabs value={period} onValueChange={value => setPeriod(value as AnalyticsPeriod)}>
+          <TabsList>
+            {ANALYTICS_PERIOD_OPTIONS.map(option => (
+              <TabsTrigger key={option.value} value={option.value}>
+                {option.label}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+        </Tabs>
+
+        <div className="flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Previous period"
+            onClick={() => setAnchor(shiftPeriod(period, anchor, -1))}
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <span className="min-w-[12rem] text-center font-medium text-foreground">
+            {formatPeriodLabel(range)}
+          </span>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label="Next period"
+            onClick={() => setAnchor(shiftPeriod(period, anchor, 1))}
+            disabled={isCurrentPeriod}
+          >
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+        </div>
       </div>
+
+      {!isTierLoading && historyViolation ? (
+        <UpgradePrompt violation={historyViolation} className="max-w-xl mx-auto" />
+      ) : isLoading || !analytics ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {Array.from({ length: 4 }, (_, index) => (
+            <StatsCardSkeleton key={index} />
+          ))}
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatsCard
+              title="Meals"
+              value={analytics.totalMeals}
+              icon={<UtensilsCrossed className="w-6 h-6" />}
+            />
+            <StatsCard
+              title="Average Rating"
+              value={analytics.totalMeals > 0 ? analytics.averageRating.toFixed(1) : '--'}
+              description="Out of 10"
+              icon={<Star className="w-6 h-6" />}
+            />
+            <StatsCard
+              title="Spent"
+              value={formatMoney(analytics.totalSpent)}
+              icon={<DollarSign className="w-6 h-6" />}
+            />
+            <StatsCard
+              title="Top Place"
+              value={analytics.topPlaces[0]?.name ?? '--'}
+              description={analytics.topPlaces[0] ? `${analytics.topPlaces[0].count} meals` : undefined}
+              icon={<MapPin className="w-6 h-6" />}
+            />
+          </div>
+
+          {analytics.totalMeals === 0 ? (
+            <Card>
+              <CardContent className="p-8 text-center">
+                <BarChart3 className="w-10 h-10 mx-auto mb-3 text-muted-foreground" />
+                <p className="text-muted-foreground">
+                  No meals logged in this period yet.
+                </p>
+              </CardContent>
+            </Card>
+          ) : (
+            <div className="grid gap-4 lg:grid-cols-2">
+              <Card className="lg:col-span-2">
+                <CardHeader>
+                  <CardTitle className="text-lg">Spend over time</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <BarChart
+                    orientation="vertical"
+                    ariaLabel="Spend over time"
+                    data={analytics.spendOverTime.map(bucket => ({
+                      label: formatBucketLabel(period, bucket.start),
+                      value: bucket.totalSpent,
+                    }))}
+                    formatValue={formatMoney}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Meals by type</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <BarChart
+                    ariaLabel="Meals by type"
+                    data={MEAL_TYPE_OPTIONS.map(option => ({
+                      label: option.label,
+                      value: analytics.mealsByType[option.value],
+                    }))}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Rating distribution</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <BarChart
+                    ariaLabel="Rating distribution"
+                    data={analytics.ratingDistribution
+                      .map((count, index) => ({ label: `⭐ ${index + 1}`, value: count }))
+                      .reverse()}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Top tags</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {analytics.topTags.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No tags used in this period.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {analytics.topTags.map(tag => (
+                        <li key={tag.tag} className="flex items-center justify-between">
+                          <MealTagBadge tag={tag.tag} />
+                          <span className="text-sm text-muted-foreground">{tag.count} meals</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Top places</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {analytics.topPlaces.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No places recorded in this period.</p>
+                  ) : (
+                    <ul className="space-y-2">
+                      {analytics.topPlaces.map(place => (
+                        <li key={place.name} className="flex items-center justify-between gap-2 text-sm">
+                          <span className="font-medium text-foreground truncate">{place.name}</span>
+                          <span className="text-muted-foreground shrink-0">
+                            {place.count} meals · ⭐ {place.averageRating.toFixed(1)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          )}
+        </>
+      )}
+
+      <BudgetCard showHistory />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,200 +1,217 @@
 /**
- * HomePage - Landing page for FoodyLog application
- * 
- * Displays welcome message and basic app information for MVP.
- * Now includes shadcn/ui components with FoodyLog custom theme.
- * Will be expanded in future sprints to show meal dashboard,
- * quick actions, and recent meals.
- * 
+ * HomePage - Signed-in dashboard
+ *
+ * The first screen after signing in: a summary of the user's food diary
+ * and the quickest way to log the next meal.
+ *
  * Features:
- * - Welcome message for new users
- * - App version and status information
- * - Theme toggle demonstration
- * - shadcn/ui components with custom FoodyLog theme
- * - Mobile-friendly responsive design
- * - Accessibility compliant structure
+ * - Quick-add buttons that open the add meal form with a meal type picked,
+ *   the time-appropriate one first
+ * - Stats cards from the user's stored statistics and a logging streak
+ * - Favorite place with a link to My Places
+ * - Budgets with spending this period and their alerts
+ * - Most recent meals as photo cards
+ * - Empty state for users who have not logged a meal yet
  */
 
-import { Link } from 'react-router-dom';
-import { ConvexTest } from '../components/ConvexTest';
-import { Button, Card, CardHeader, CardTitle, CardContent, StatsCard } from '../components/ui';
-import { ThemeToggle } from '../components/theme-toggle';
-import { Camera, Search, BarChart3, Smartphone, Palette, UtensilsCrossed } from 'lucide-react';
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { usePaginatedQuery, useQuery } from 'convex/react';
+import { DollarSign, Flame, MapPin, Star, UtensilsCrossed } from 'lucide-react';
+import type { Doc } from '../../convex/_generated/dataModel';
+import { api } from '../../convex/_generated/api';
+import {
+  Button,
+  Card,
+  EmptyMeals,
+  MealCardSkeleton,
+  MealTypeBadge,
+  PhotoCard,
+  RatingBadge,
+  StatsCard,
+  StatsCardSkeleton,
+} from '../components/ui';
+import { BudgetCard } from '../components/budgets/BudgetCard';
+import { useAuth } from '../hooks/useAuth';
+import { useCurrencyPreference } from '../hooks/useUserPreferences';
+import { usePendingMealDeletes } from '../hooks/useDeleteMealWithUndo';
+import { MEAL_TYPE_OPTIONS, type MealType } from '../lib/meals';
+import { getLoggingStreak, getStreakStartDate } from '../lib/streak';
+import { formatPrice, formatTimeAgo, getDefaultMealType } from '../lib/utils';
+
+const RECENT_MEALS_COUNT = 6;
+
+/**
+ * Path of the add meal form with a meal type pre-selected
+ */
+function getQuickAddPath(mealType: MealType) {
+  return `/add?mealType=${mealType}`;
+}
+
+function RecentMealCard({ meal }: { meal: Doc<'meals'> }) {
+  const photo = meal.photos.find(candidate => candidate.isPrimary) ?? meal.photos[0];
+  const details = (
+    <div className="flex items-center gap-2">
+      <RatingBadge rating={meal.rating} />
+      <MealTypeBadge mealType={meal.mealType} />
+    </div>
+  );
+
+  return (
+    <Link
+      to={`/meals/${meal._id}`}
+      className="block rounded-lg focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+    >
+      {photo?.url ? (
+        <PhotoCard
+          src={photo.url}
+          alt={photo.caption ?? meal.title}
+          title={meal.title}
+          description={formatTimeAgo(meal.mealDate)}
+          overlay={details}
+          className="h-full"
+        />
+      ) : (
+        <Card className="h-full">
+          <div className="aspect-[4/3] flex items-end bg-muted p-4">
+            {details}
+          </div>
+          <div className="p-4">
+            <h3 className="font-semibold text-foreground mb-1">{meal.title}</h3>
+            <p className="text-sm text-muted-foreground">{formatTimeAgo(meal.mealDate)}</p>
+          </div>
+        </Card>
+      )}
+    </Link>
+  );
+}
 
 export function HomePage() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { currency } = useCurrencyPreference();
+  const [streakStartDate] = useState(() => getStreakStartDate());
+
+  const stats = useQuery(api.functions.users.getUserStats);
+  const hasMeals = Boolean(stats && stats.totalMeals > 0);
+  const mealDates = useQuery(
+    api.functions.meals.getMealDates,
+    hasMeals ? { startDate: streakStartDate } : 'skip',
+  );
+  const { results, status } = usePaginatedQuery(
+    api.functions.meals.getUserMeals,
+    hasMeals ? {} : 'skip',
+    { initialNumItems: RECENT_MEALS_COUNT },
+  );
+  const pendingDeletes = usePendingMealDeletes();
+  const recentMeals = results.filter(meal => !pendingDeletes.has(meal._id));
+
+  const suggestedMealType = getDefaultMealType();
+  const otherMealTypes = MEAL_TYPE_OPTIONS.filter(option => option.value !== suggestedMealType);
+  const suggestedLabel = MEAL_TYPE_OPTIONS.find(option => option.value === suggestedMealType)?.label;
+  const streak = getLoggingStreak(mealDates ?? []);
+
   return (
-    <div className="flex flex-col gap-8 min-h-full p-4">
-      {/* Hero Section with Theme Toggle */}
-      <div className="text-center py-8">
-        <div className="flex justify-end mb-4">
-          <ThemeToggle />
-        </div>
-        
-        <h1 className="text-3xl md:text-4xl font-bold text-foreground mb-4">
-          Welcome to FoodyLog
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold text-foreground">
+          {user?.firstName ? `Hi, ${user.firstName}` : 'Welcome back'}
         </h1>
-        
-        <p className="text-lg text-muted-foreground mb-8 max-w-2xl mx-auto">
-          The simplest way to remember every meal that matters
-        </p>
-        
-        <div className="flex flex-col sm:flex-row gap-4 justify-center">
-          <Button size="lg" className="flex items-center gap-2">
-            <Camera className="w-5 h-5" />
-            Start Logging Meals
-          </Button>
-          <Button variant="outline" size="lg">
-            Learn More
-          </Button>
-        </div>
+        <p className="text-muted-foreground">What did you eat today?</p>
       </div>
 
-      {/* Features Grid using new Card components */}
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mt-8">
-        <Card variant="interactive">
-          <CardContent className="p-6 text-center">
-            <div className="flex items-center justify-center w-12 h-12 bg-primary/10 rounded-lg mb-4 mx-auto">
-              <Camera className="w-6 h-6 text-primary" />
-            </div>
-            <h3 className="text-lg font-semibold text-foreground mb-2">
-              Capture Meals
-            </h3>
-            <p className="text-muted-foreground leading-relaxed">
-              Take photos and log details about your favorite meals
-            </p>
-          </CardContent>
-        </Card>
-        
-        <Card variant="interactive">
-          <CardContent className="p-6 text-center">
-            <div className="flex items-center justify-center w-12 h-12 bg-primary/10 rounded-lg mb-4 mx-auto">
-              <Search className="w-6 h-6 text-primary" />
-            </div>
-            <h3 className="text-lg font-semibold text-foreground mb-2">
-              Find & Filter
-            </h3>
-            <p className="text-muted-foreground leading-relaxed">
-              Search and filter your meal history to find what you&apos;re looking for
-            </p>
-          </CardContent>
-        </Card>
-        
-        <Card variant="interactive">
-          <CardContent className="p-6 text-center">
-            <div className="flex items-center justify-center w-12 h-12 bg-primary/10 rounded-lg mb-4 mx-auto">
-              <BarChart3 className="w-6 h-6 text-primary" />
-            </div>
-            <h3 className="text-lg font-semibold text-foreground mb-2">
-              Track Insights
-            </h3>
-            <p className="text-muted-foreground leading-relaxed">
-              Get insights into your eating patterns and preferences
-            </p>
-          </CardContent>
-        </Card>
-        
-        <Card variant="interactive">
-          <CardContent className="p-6 text-center">
-            <div className="flex items-center justify-center w-12 h-12 bg-primary/10 rounded-lg mb-4 mx-auto">
-              <Smartphone className="w-6 h-6 text-primary" />
-            </div>
-            <h3 className="text-lg font-semibold text-foreground mb-2">
-              Works Offline
-            </h3>
-            <p className="text-muted-foreground leading-relaxed">
-              Log meals even without internet - syncs when you&apos;re back online
+      {/* Quick add */}
+      <section aria-label="Quick add" className="space-y-3">
+        <Button size="lg" className="w-full sm:w-auto" onClick={() => navigate(getQuickAddPath(suggestedMealType))}>
+          Log {suggestedLabel}
+        </Button>
+        <div className="flex flex-wrap gap-2">
+          {otherMealTypes.map(option => (
+            <Button
+              key={option.value}
+              variant="outline"
+              size="sm"
+              onClick={() => navigate(getQuickAddPath(option.value))}
+            >
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </section>
+
+      {stats === undefined ? (
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4" aria-busy="true">
+          {Array.from({ length: 4 }, (_, index) => (
+            <StatsCardSkeleton key={index} />
+          ))}
+        </div>
+      ) : !stats || stats.totalMeals === 0 ? (
+        <EmptyMeals onAddMeal={() => navigate(getQuickAddPath(suggestedMealType))} />
+      ) : (
+        <>
+          {/* Stats */}
+          <section aria-label="Your stats" className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <StatsCard
+              title="Logging streak"
+              value={mealDates === undefined ? '--' : `${streak.days} day${streak.days !== 1 ? 's' : ''}`}
+              description={streak.days > 0 && !streak.loggedToday ? 'Log a meal today to keep it going' : undefined}
+              icon={<Flame className="w-5 h-5" />}
+            />
+            <StatsCard
+              title="Meals logged"
+              value={stats.totalMeals}
+              icon={<UtensilsCrossed className="w-5 h-5" />}
+            />
+            <StatsCard
+              title="Average rating"
+              value={stats.averageRating.toFixed(1)}
+              icon={<Star className="w-5 h-5" />}
+            />
+            <StatsCard
+              title="Total spent"
+              value={formatPrice(stats.totalSpent, currency)}
+              icon={<DollarSign className="w-5 h-5" />}
+            />
+          </section>
+
+          {stats.favoriteRestaurant && (
+            <p className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+              <MapPin className="w-4 h-4" aria-hidden="true" />
+              Your favorite place: <span className="font-medium text-foreground">{stats.favoriteRestaurant}</span>
+              <Link to="/places" className="text-primary hover:underline">My places</Link>
             </p>
-          </CardContent>
-        </Card>
-      </div>
+          )}
 
-      {/* Stats Demo using StatsCard */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mt-8">
-        <StatsCard
-          title="Total Meals"
-          value="0"
-          description="Ready to start logging"
-          icon={<UtensilsCrossed className="w-6 h-6" />}
-        />
-        <StatsCard
-          title="Average Rating"
-          value="--"
-          description="No meals yet"
-          icon={<BarChart3 className="w-6 h-6" />}
-        />
-        <StatsCard
-          title="This Month"
-          value="0"
-          description="Meals logged"
-          icon={<Camera className="w-6 h-6" />}
-        />
-      </div>
-      
-      {/* Theme Demo Section using new Card component */}
-      <Card className="mt-8">
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Palette className="w-5 h-5" />
-            FoodyLog UI Components Demo
-          </CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <p className="text-muted-foreground">
-            This page demonstrates the FoodyLog custom theme with warm cream/brown colors and green accents.
-            Try switching between light, dark, and system themes using the toggle above.
-          </p>
-          <div className="flex flex-wrap gap-2">
-            <Button variant="default">Primary Button</Button>
-            <Button variant="secondary">Secondary Button</Button>
-            <Button variant="outline">Outline Button</Button>
-            <Button variant="ghost">Ghost Button</Button>
-            <Button variant="destructive">Destructive Button</Button>
-          </div>
-          <div className="pt-4 border-t border-border">
-            <Link to="/components">
-              <Button variant="outline" className="w-full">
-                <Palette className="w-4 h-4 mr-2" />
-                View Complete Component Library
+          <BudgetCard />
+
+          {/* Recent meals */}
+          <section aria-labelledby="recent-meals-heading" className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 id="recent-meals-heading" className="text-xl font-semibold text-foreground">
+                Recent meals
+              </h2>
+              <Button asChild variant="ghost" size="sm">
+                <Link to="/meals">See all</Link>
               </Button>
-            </Link>
-          </div>
-        </CardContent>
-      </Card>
-      
-      {/* Convex Backend Connection Test - Remove after Sprint 1 */}
-      <ConvexTest />
-      
-      {/* Status Information using new Card component */}
-      <Card className="mt-auto">
-        <CardHeader>
-          <CardTitle className="text-lg">App Status</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <div className="space-y-2">
-            <div className="flex justify-between items-center py-2 border-b border-border last:border-b-0">
-              <span className="font-medium text-foreground">Version:</span>
-              <span className="text-muted-foreground font-mono text-sm">
-                {import.meta.env.VITE_APP_VERSION || '1.0.0'}
-              </span>
-            </div>
-            
-            <div className="flex justify-between items-center py-2 border-b border-border last:border-b-0">
-              <span className="font-medium text-foreground">Environment:</span>
-              <span className="text-muted-foreground font-mono text-sm">
-                {import.meta.env.VITE_ENVIRONMENT || 'development'}
-              </span>
             </div>
-            
-            <div className="flex justify-between items-center py-2">
-              <span className="font-medium text-foreground">PWA:</span>
-              <span className="text-muted-foreground font-mono text-sm">
-                {'serviceWorker' in navigator ? 'Supported' : 'Not Supported'}
-              </span>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+            {status === 'LoadingFirstPage' ? (
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4" aria-busy="true">
+                {Array.from({ length: 3 }, (_, index) => (
+                  <MealCardSkeleton key={index} />
+                ))}
+              </div>
+            ) : (
+              <ul className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {recentMeals.slice(0, RECENT_MEALS_COUNT).map(meal => (
+                  <li key={meal._id}>
+                    <RecentMealCard meal={meal} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </>
+      )}
     </div>
   );
 }
-
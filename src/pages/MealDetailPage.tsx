@@ -0,0 +1,297 @@
+/**
+ * MealDetailPage - View and edit a single meal
+ *
+ * Shows everything logged for a meal and lets the user edit or delete it.
+ * Reached from the meal list and search results at /meals/:mealId; deep
+ * links to a meal return here after signing in.
+ *
+ * Features:
+ * - Photo carousel, rating, meal type, price and tag badges, place,
+ *   description and the premium extended details
+ * - Edit mode with the meal form; only changed fields are sent to
+ *   updateMeal, through the offline queue when there is no connection
+ * - Delete with an undo toast
+ * - Not found state for deleted meals and meals of other users
+ */
+
+import { useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useQuery } from 'convex/react';
+import { ArrowLeft, MapPin, Pencil, Trash2 } from 'lucide-react';
+import { api } from '../../convex/_generated/api';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+import type { EntitlementViolation } from '../../convex/lib/entitlements';
+import {
+  Button,
+  Card,
+  CardContent,
+  ErrorMessage,
+  MealFormSkeleton,
+  MealTagBadge,
+  MealTypeBadge,
+  PriceBadge,
+  RatingBadge,
+  showInfoToast,
+  showSuccessToast,
+  showWarningToast,
+} from '../components/ui';
+import { ErrorBoundary } from '../components/ErrorBoundary';
+import { MealForm } from '../components/meals/MealForm';
+import { MealPhotoCarousel } from '../components/meals/MealPhotoCarousel';
+import { UpgradePrompt } from '../components/subscription/UpgradePrompt';
+import { useDeleteMealWithUndo } from '../hooks/useDeleteMealWithUndo';
+import { useEntitlements } from '../hooks/useEntitlements';
+import { getConvexErrorMessage, getEntitlementViolation } from '../lib/convex/errors';
+import { SERVING_SIZE_OPTIONS, getMealChanges, toMealFormValues, type MealInput } from '../lib/meals';
+import { toMealSnapshot } from '../lib/offline/outbox';
+import { useOfflineSync } from '../lib/offline/sync';
+
+function MealNotFound() {
+  return (
+    <div className="space-y-4">
+      <ErrorMessage
+        title="Meal not found"
+        message="This meal may have been deleted, or it belongs to another account."
+      />
+      <Button asChild variant="outline">
+        <Link to="/meals">Back to meals</Link>
+      </Button>
+    </div>
+  );
+}
+
+interface MealDetailsProps {
+  meal: Doc<'meals'>;
+}
+
+const formatYesNo = (value: boolean | undefined) => (value === undefined ? undefined : value ? 'Yes' : 'No');
+
+/**
+ * Extended details that are set, as label/value pairs
+ */
+function getExtendedDetails(meal: Doc<'meals'>): [string, string][] {
+  const details: [string, string | undefined][] = [
+    ['Cuisine', meal.cuisine],
+    ['Dish type', meal.dishType],
+    ['Serving size', SERVING_SIZE_OPTIONS.find(option => option.value === meal.servingSize)?.label],
+    ['Spice level', meal.spiceLevel !== undefined ? `${meal.spiceLevel}/5` : undefined],
+    ['Value for money', meal.valueForMoney !== undefined ? `${meal.valueForMoney}/5` : undefined],
+    ['Would recommend', formatYesNo(meal.isRecommended)],
+    ['Would order again', formatYesNo(meal.wouldOrderAgain)],
+    ['Occasion', meal.occasion],
+    ['Companions', meal.companions?.join(', ')],
+  ];
+  return details.filter((detail): detail is [string, string] => Boolean(detail[1]));
+}
+
+function MealDetails({ meal }: MealDetailsProps) {
+  const mealDate = new Date(meal.mealDate);
+  const extendedDetails = getExtendedDetails(meal);
+
+  return (
+    <div className="space-y-6">
+      <MealPhotoCarousel photos={meal.photos} title={meal.title} />
+
+      <div className="space-y-3">
+        <h1 className="text-3xl font-bold text-foreground">{meal.title}</h1>
+        <time dateTime={mealDate.toISOString()} className="block text-sm text-muted-foreground">
+          {mealDate.toLocaleString(undefined, { dateStyle: 'full', timeStyle: 'short' })}
+        </time>
+        <div className="flex flex-wrap items-center gap-2">
+          <RatingBadge rating={meal.rating} />
+          <MealTypeBadge mealType={meal.mealType} />
+          {meal.price !== undefined && (
+            <PriceBadge
+              price={meal.price}
+              currency={meal.currency}
+              homePrice={meal.homePrice}
+              homeCurrency={meal.homeCurrency}
+            />
+          )}
+        </div>
+      </div>
+
+      {meal.syncStatus === 'conflict' && (
+        <ErrorMessage
+          variant="warning"
+          title="Unresolved offline edit"
+          message="This meal was changed on another device while you edited it offline. Resolve it from your meal list."
+        />
+      )}
+
+      {meal.location && (
+        <Card>
+          <CardContent className="flex gap-3 p-4">
+            <MapPin className="w-5 h-5 mt-0.5 shrink-0 text-muted-foreground" aria-hidden="true" />
+            <div className="min-w-0">
+              <p className="font-medium text-foreground">{meal.location.name}</p>
+              {meal.location.address && (
+                <p className="text-sm text-muted-foreground">{meal.location.address}</p>
+              )}
+              {meal.location.coordinates && (
+                <a
+                  href={`https://www.google.com/maps/search/?api=1&query=${meal.location.coordinates.lat},${meal.location.coordinates.lng}`}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="text-sm text-primary hover:underline"
+                >
+                  Open in maps
+                </a>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {meal.description && (
+        <p className="text-foreground whitespace-pre-line">{meal.description}</p>
+      )}
+
+      {meal.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1" aria-label="Tags">
+          {meal.tags.map(tag => (
+            <MealTagBadge key={tag} tag={tag} />
+          ))}
+        </div>
+      )}
+
+      {(extendedDetails.length > 0 || meal.notes) && (
+        <Card>
+          <CardContent className="space-y-4 p-4">
+            {extendedDetails.length > 0 && (
+              <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                {extendedDetails.map(([label, value]) => (
+                  <div key={label}>
+                    <dt className="text-muted-foreground">{label}</dt>
+                    <dd className="font-medium text-foreground">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+            {meal.notes && (
+              <div className="text-sm">
+                <p className="text-muted-foreground">Notes</p>
+                <p className="text-foreground whitespace-pre-line">{meal.notes}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+interface MealDetailContentProps {
+  mealId: Id<'meals'>;
+}
+
+function MealDetailContent({ mealId }: MealDetailContentProps) {
+  const navigate = useNavigate();
+  const meal = useQuery(api.functions.meals.getMeal, { mealId });
+  const { tier } = useEntitlements();
+  const { updateMeal } = useOfflineSync();
+  const deleteMealWithUndo = useDeleteMealWithUndo();
+  const [isEditing, setIsEditing] = useState(false);
+  const [serverError, setServerError] = useState<string | null>(null);
+  const [entitlementViolation, setEntitlementViolation] = useState<EntitlementViolation | null>(null);
+
+  if (meal === undefined) {
+    return <MealFormSkeleton />;
+  }
+
+  const snapshot = toMealSnapshot(meal);
+
+  /**
+   * Send only the fields the user changed
+   */
+  const handleSubmit = async (input: MealInput) => {
+    setServerError(null);
+    setEntitlementViolation(null);
+
+    const changes = getMealChanges(snapshot, input);
+    if (Object.keys(changes).length === 0) {
+      setIsEditing(false);
+      return;
+    }
+
+    try {
+      const { queued, conflict } = await updateMeal(snapshot, changes);
+      setIsEditing(false);
+      if (conflict) {
+        showWarningToast('Meal changed elsewhere', 'Choose which version to keep from your meal list.');
+      } else if (queued) {
+        showInfoToast('Changes saved offline', 'They will sync when you\'re back online.');
+      } else {
+        showSuccessToast('Meal updated');
+      }
+    } catch (err) {
+      const violation = getEntitlementViolation(err);
+      if (violation) {
+        setEntitlementViolation(violation);
+      } else {
+        setServerError(getConvexErrorMessage(err, 'Failed to save changes. Please try again.'));
+      }
+    }
+  };
+
+  const handleDelete = () => {
+    deleteMealWithUndo(meal);
+    navigate('/meals');
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-2">
+        <Button asChild variant="ghost" size="sm">
+          <Link to="/meals">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Meals
+          </Link>
+        </Button>
+        {!isEditing && (
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+              <Pencil className="w-4 h-4 mr-1" />
+              Edit
+            </Button>
+            <Button variant="destructive" size="sm" onClick={handleDelete}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              Delete
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div className="bg-card border border-border rounded-lg p-4 sm:p-6 space-y-6">
+          {entitlementViolation && <UpgradePrompt violation={entitlementViolation} />}
+          <MealForm
+            defaultValues={toMealFormValues(snapshot)}
+            onSubmit={handleSubmit}
+            onCancel={() => {
+              setServerError(null);
+              setEntitlementViolation(null);
+              setIsEditing(false);
+            }}
+            submitLabel="Save Changes"
+            tier={tier}
+            serverError={serverError}
+          />
+        </div>
+      ) : (
+        <MealDetails meal={meal} />
+      )}
+    </div>
+  );
+}
+
+export function MealDetailPage() {
+  const { mealId } = useParams<{ mealId: string }>();
+
+  // getMeal throws for unknown ids and other users' meals
+  return (
+    <ErrorBoundary key={mealId} fallback={<MealNotFound />}>
+      <MealDetailContent mealId={mealId as Id<'meals'>} />
+    </ErrorBoundary>
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * MealsPage - Meal history page
+ *
+ * Lists every meal the user has logged, newest first, loading older meals
+ * as the user scrolls.
+ *
+ * Features:
+ * - Infinite scrolling meal list backed by cursor pagination
+ * - Quick access to the add meal flow
+ * - Offline sync status and conflict resolution
+ */
+
+import { useNavigate } from 'react-router-dom';
+import { Plus } from 'lucide-react';
+import { Button } from '../components/ui';
+import { MealList } from '../components/meals/MealList';
+import { SyncStatusPanel } from '../components/meals/SyncStatusPanel';
+
+export function MealsPage() {
+  const navigate = useNavigate();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">My Meals</h1>
+          <p className="text-muted-foreground">Every meal you&apos;ve logged</p>
+        </div>
+        <Button onClick={() => navigate('/add')}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Meal
+        </Button>
+      </div>
+
+      <SyncStatusPanel />
+
+      <MealList onAddMeal={() => navigate('/add')} />
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+/**
+ * PlacesPage - The restaurants and places the user has eaten at
+ *
+ * "My Places": every place the user's meals were logged at, with visit
+ * statistics kept by the meal mutations. Meals at the same place are
+ * grouped even when its name was typed differently (see lib/places.ts).
+ *
+ * Features:
+ * - Sort by visits, most recent visit or average rating
+ * - Favorites filter and a favorite toggle per place
+ * - Personal notes per place
+ * - The meals logged at a place, newest first
+ * - Empty state for users without places yet
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery } from 'convex/react';
+import { ChevronDown, ChevronUp, MapPin, Star } from 'lucide-react';
+import { api } from '../../convex/_generated/api';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
+import {
+  Button,
+  Card,
+  CardContent,
+  InlineLoader,
+  RatingBadge,
+  Skeleton,
+  TextArea,
+  showErrorToast,
+  showSuccessToast,
+} from '../components/ui';
+import { useCurrencyPreference } from '../hooks/useUserPreferences';
+import { getConvexErrorMessage } from '../lib/convex/errors';
+import { cn, formatPrice, formatTimeAgo } from '../lib/utils';
+import { PLACE_LIMITS } from '../../convex/lib/validation';
+
+type PlaceSort = 'visits' | 'recent' | 'rating';
+
+const SORT_OPTIONS: { value: PlaceSort; label: string }[] = [
+  { value: 'visits', label: 'Most visited' },
+  { value: 'recent', label: 'Recently visited' },
+  { value: 'rating', label: 'Highest rated' },
+];
+
+type PlaceSummary = Doc<'places'> & { averageRating: number };
+
+function PlaceMeals({ placeId }: { placeId: Id<'places'> }) {
+  const result = useQuery(api.functions.places.getPlace, { placeId });
+
+  if (result === undefined) {
+    return <InlineLoader />;
+  }
+
+  return (
+    <ul className="divide-y divide-border" aria-label="Meals here">
+      {result.meals.map(meal => (
+        <li key={meal._id}>
+          <Link
+            to={`/meals/${meal._id}`}
+            className="flex items-center justify-between gap-4 py-2 text-sm hover:underline"
+          >
+            <span className="truncate">{meal.title}</span>
+            <span className="shrink-0 text-muted-foreground">
+              {new Date(meal.mealDate).toLocaleDateString()}
+            </span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+interface PlaceCardProps {
+  place: PlaceSummary;
+  currency: string;
+}
+
+function PlaceCard({ place, currency }: PlaceCardProps) {
+  const updatePlace = useMutation(api.functions.places.updatePlace);
+  const [isExpanded, setIsExpanded] = useState(false);
+  const [notes, setNotes] = useState(place.notes ?? '');
+
+  const save = async (changes: { notes?: string; isFavorite?: boolean }, successMessage?: string) => {
+    try {
+      await updatePlace({ placeId: place._id, ...changes });
+      if (successMessage) {
+        showSuccessToast(successMessage);
+      }
+    } catch (err) {
+      showErrorToast('Could not update place', getConvexErrorMessage(err, 'Please try again.'));
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="space-y-3 p-4">
+        <div className="flex items-start justify-between gap-3">
+          <div className="min-w-0">
+            <h2 className="font-semibold text-foreground truncate">{place.name}</h2>
+            {place.address && (
+              <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                <MapPin className="w-3 h-3 shrink-0" aria-hidden="true" />
+                <span className="truncate">{place.address}</span>
+              </p>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label={`Favorite ${place.name}`}
+            aria-pressed={place.isFavorite}
+            onClick={() => void save({ isFavorite: !place.isFavorite })}
+          >
+            <Star className={cn('w-5 h-5', place.isFavorite && 'fill-primary text-primary')} />
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-muted-foreground">
+          {place.visitCount > 0 && <RatingBadge rating={Math.round(place.averageRating * 10) / 10} />}
+          <span>{place.visitCount} visit{place.visitCount !== 1 ? 's' : ''}</span>
+          {place.totalSpent > 0 && <span>{formatPrice(place.totalSpent, currency)} spent</span>}
+          {place.lastVisitAt !== undefined && <span>Last visit {formatTimeAgo(place.lastVisitAt)}</span>}
+        </div>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          aria-expanded={isExpanded}
+          onClick={() => setIsExpanded(expanded => !expanded)}
+        >
+          {isExpanded ? <ChevronUp className="w-4 h-4 mr-1" /> : <ChevronDown className="w-4 h-4 mr-1" />}
+          {isExpanded ? 'Hide details' : 'Notes and meals'}
+        </Button>
+
+        {isExpanded && (
+          <div className="space-y-4">
+            <form
+              className="space-y-2"
+              onSubmit={event => {
+                event.preventDefault();
+                void save({ notes }, 'Notes saved');
+              }}
+            >
+              <TextArea
+                value={notes}
+                rows={3}
+                maxLength={PLACE_LIMITS.notesMaxLength}
+                placeholder="What to order, when to go, who to ask for..."
+                aria-label={`Notes for ${place.name}`}
+                onChange={event => setNotes(event.target.value)}
+              />
+              <div className="flex justify-end">
+                <Button type="submit" size="sm" disabled={notes === (place.notes ?? '')}>
+                  Save notes
+                </Button>
+              </div>
+            </form>
+            {place.visitCount > 0 && <PlaceMeals placeId={place._id} />}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function PlacesPage() {
+  const [sortBy, setSortBy] = useState<PlaceSort>('visits');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const places = useQuery(api.functions.places.getMyPlaces, { sortBy, favoritesOnly });
+  const { currency } = useCurrencyPreference();
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold text-foreground mb-2">
+          My Places
+        </h1>
+        <p className="text-muted-foreground">
+          Where you&apos;ve eaten and how it went
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <select
+          aria-label="Sort places"
+          className="h-10 rounded-md border border-input bg-background px-3 text-sm"
+          value={sortBy}
+          onChange={event => setSortBy(event.target.value as PlaceSort)}
+        >
+          {SORT_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <Button
+          variant={favoritesOnly ? 'default' : 'outline'}
+          size="sm"
+          aria-pressed={favoritesOnly}
+          onClick={() => setFavoritesOnly(value => !value)}
+        >
+          <Star className="w-4 h-4 mr-1" />
+          Favorites
+        </Button>
+      </div>
+
+      {places === undefined ? (
+        <div className="space-y-4" aria-busy="true">
+          {Array.from({ length: 3 }, (_, index) => (
+            <Skeleton key={index} className="h-28 w-full" />
+          ))}
+        </div>
+      ) : places.length === 0 ? (
+        <p className="text-center text-muted-foreground py-8">
+          {favoritesOnly
+            ? 'No favorite places yet. Tap the star on a place to keep it here.'
+            : 'Places appear here once you log a meal with a place.'}
+        </p>
+      ) : (
+        <ul className="space-y-4">
+          {places.map(place => (
+            <li key={place._id}>
+              <PlaceCard place={place} currency={currency} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,11 +1,98 @@
 /**
  * SearchPage - Meal search and filtering page
- * 
- * Placeholder page for meal search functionality.
- * Will be implemented in Sprint 3 as part of Epic 3.2: Search & Filtering.
+ *
+ * Full-text search over the user's meals backed by the searchMeals query.
+ * Implements Epic 3.2: Search & Filtering.
+ *
+ * Features:
+ * - Debounced search input
+ * - Meal type and tag filter chips, with tag autocomplete from the
+ *   user's most used tags
+ * - Rating, price and date range filters
+ * - Extended detail filters (cuisine, companions, spice level, ...) on
+ *   premium
+ * - Results with rating, price and tag badges; empty state when nothing
+ *   matches
+ * - Infinite scrolling through results with cursor pagination
  */
 
+import { useMemo, useState } from 'react';
+import { usePaginatedQuery } from 'convex/react';
+import { SlidersHorizontal } from 'lucide-react';
+import { api } from '../../convex/_generated/api';
+import {
+  Button,
+  Card,
+  CardContent,
+  EmptySearch,
+  FormField,
+  InlineLoader,
+  Input,
+  SearchInput,
+  SearchResultsSkeleton,
+} from '../components/ui';
+import { MealListItem } from '../components/meals/MealListItem';
+import { TagAutocomplete } from '../components/search/TagAutocomplete';
+import { MEAL_TYPE_OPTIONS, SERVING_SIZE_OPTIONS } from '../lib/meals';
+import {
+  EMPTY_SEARCH_FILTERS,
+  SEARCH_DEBOUNCE_MS,
+  hasActiveFilters,
+  toSearchArgs,
+  type SearchFilters,
+} from '../lib/search';
+import { debounce } from '../lib/utils';
+import { useInfiniteScroll } from '../hooks/useInfiniteScroll';
+import { usePendingMealDeletes } from '../hooks/useDeleteMealWithUndo';
+import { useEntitlements } from '../hooks/useEntitlements';
+import type { ServingSize } from '../../convex/lib/validation';
+
+const PAGE_SIZE = 20;
+
+const RATING_OPTIONS = Array.from({ length: 10 }, (_, index) => index + 1);
+const SCALE_OPTIONS = [1, 2, 3, 4, 5];
+
+const SELECT_CLASS_NAME = 'h-10 flex-1 rounded-md border border-input bg-background px-3 text-sm';
+
+/**
+ * Parse a yes/no select value ('' for any)
+ */
+const toYesNo = (value: string) => (value === '' ? undefined : value === 'yes');
+const fromYesNo = (value: boolean | undefined) => (value === undefined ? '' : value ? 'yes' : 'no');
+
 export function SearchPage() {
+  const [input, setInput] = useState('');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const { entitlements } = useEntitlements();
+
+  const updateSearchTerm = useMemo(() => debounce(setSearchTerm, SEARCH_DEBOUNCE_MS), []);
+
+  const hasCriteria = searchTerm.trim() !== '' || hasActiveFilters(filters);
+  const { results, status, loadMore } = usePaginatedQuery(
+    api.functions.meals.searchMeals,
+    hasCriteria ? toSearchArgs(searchTerm, filters) : 'skip',
+    { initialNumItems: PAGE_SIZE },
+  );
+  const pendingDeletes = usePendingMealDeletes();
+  const meals = results.filter(meal => !pendingDeletes.has(meal._id));
+
+  const sentinelRef = useInfiniteScroll({
+    onLoadMore: () => loadMore(PAGE_SIZE),
+    enabled: status === 'CanLoadMore',
+  });
+
+  const updateFilters = (changes: Partial<SearchFilters>) => {
+    setFilters(current => ({ ...current, ...changes }));
+  };
+
+  const clearSearch = () => {
+    setInput('');
+    setSearchTerm('');
+    setFilters(EMPTY_SEARCH_FILTERS);
+  };
+
   return (
     <div className="space-y-6">
       <div className="text-center">
@@ -17,13 +104,312 @@ export function SearchPage() {
         </p>
       </div>
 
-      <div className="bg-card border border-border rounded-lg p-8 text-center">
-        <div className="text-6xl mb-4">🔍</div>
-        <h2 className="text-xl font-semibold mb-2">Search Coming Soon</h2>
-        <p className="text-muted-foreground">
-          This feature will be available in Sprint 3. You&apos;ll be able to search your meals by title, location, tags, and more.
-        </p>
+      <div className="space-y-4">
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <SearchInput
+              value={input}
+              placeholder="Search meals..."
+              aria-label="Search meals"
+              onChange={event => {
+                setInput(event.target.value);
+                updateSearchTerm(event.target.value);
+              }}
+              onClear={() => {
+                setInput('');
+                setSearchTerm('');
+              }}
+            />
+          </div>
+          <Button
+            variant={showFilters ? 'default' : 'outline'}
+            size="icon"
+            aria-label="Filters"
+            aria-expanded={showFilters}
+            onClick={() => setShowFilters(current => !current)}
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {/* Meal type chips */}
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Meal type">
+          {MEAL_TYPE_OPTIONS.map(option => {
+            const isSelected = filters.mealType === option.value;
+            return (
+              <Button
+                key={option.value}
+                size="sm"
+                variant={isSelected ? 'default' : 'outline'}
+                aria-pressed={isSelected}
+                onClick={() => updateFilters({ mealType: isSelected ? undefined : option.value })}
+              >
+                {option.label}
+              </Button>
+            );
+          })}
+        </div>
+
+        <TagAutocomplete value={filters.tags} onChange={tags => updateFilters({ tags })} />
+
+        {showFilters && (
+          <Card>
+            <CardContent className="grid gap-4 p-4 sm:grid-cols-2">
+              <FormField label="Rating">
+                <div className="flex items-center gap-2">
+                  <select
+                    aria-label="Minimum rating"
+                    className="h-10 flex-1 rounded-md border border-input bg-background px-3 text-sm"
+                    value={filters.minRating ?? ''}
+                    onChange={event => updateFilters({
+                      minRating: event.target.value ? Number(event.target.value) : undefined,
+                    })}
+                  >
+                    <option value="">Any</option>
+                    {RATING_OPTIONS.map(rating => (
+                      <option key={rating} value={rating}>{rating}</option>
+                    ))}
+                  </select>
+                  <span className="text-muted-foreground">to</span>
+                  <select
+                    aria-label="Maximum rating"
+                    className="h-10 flex-1 rounded-md border border-input bg-background px-3 text-sm"
+                    value={filters.maxRating ?? ''}
+                    onChange={event => updateFilters({
+                      maxRating: event.target.value ? Number(event.target.value) : undefined,
+                    })}
+                  >
+                    <option value="">Any</option>
+                    {RATING_OPTIONS.map(rating => (
+                      <option key={rating} value={rating}>{rating}</option>
+                    ))}
+                  </select>
+                </div>
+              </FormField>
+
+              <FormField label="Price">
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="0.01"
+                    placeholder="Min"
+                    aria-label="Minimum price"
+                    value={filters.minPrice}
+                    onChange={event => updateFilters({ minPrice: event.target.value })}
+                  />
+                  <span className="text-muted-foreground">to</span>
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    min={0}
+                    step="0.01"
+                    placeholder="Max"
+                    aria-label="Maximum price"
+                    value={filters.maxPrice}
+                    onChange={event => updateFilters({ maxPrice: event.target.value })}
+                  />
+                </div>
+              </FormField>
+
+              <FormField label="Date" className="sm:col-span-2">
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="date"
+                    aria-label="From date"
+                    value={filters.startDate}
+                    max={filters.endDate || undefined}
+                    onChange={event => updateFilters({ startDate: event.target.value })}
+                  />
+                  <span className="text-muted-foreground">to</span>
+                  <Input
+                    type="date"
+                    aria-label="To date"
+                    value={filters.endDate}
+                    min={filters.startDate || undefined}
+                    onChange={event => updateFilters({ endDate: event.target.value })}
+                  />
+                </div>
+              </FormField>
+
+              {entitlements.extendedMealFields && (
+                <>
+                  <FormField label="Cuisine">
+                    <Input
+                      placeholder="Any cuisine"
+                      aria-label="Cuisine"
+                      value={filters.cuisine}
+                      onChange={event => updateFilters({ cuisine: event.target.value })}
+                    />
+                  </FormField>
+
+                  <FormField label="Dish type">
+                    <Input
+                      placeholder="Any dish"
+                      aria-label="Dish type"
+                      value={filters.dishType}
+                      onChange={event => updateFilters({ dishType: event.target.value })}
+                    />
+                  </FormField>
+
+                  <FormField label="Occasion">
+                    <Input
+                      placeholder="Any occasion"
+                      aria-label="Occasion"
+                      value={filters.occasion}
+                      onChange={event => updateFilters({ occasion: event.target.value })}
+                    />
+                  </FormField>
+
+                  <FormField label="Companion">
+                    <Input
+                      placeholder="Eaten with"
+                      aria-label="Companion"
+                      value={filters.companion}
+                      onChange={event => updateFilters({ companion: event.target.value })}
+                    />
+                  </FormField>
+
+                  <FormField label="Spice level">
+                    <div className="flex items-center gap-2">
+                      <select
+                        aria-label="Minimum spice level"
+                        className={SELECT_CLASS_NAME}
+                        value={filters.minSpiceLevel ?? ''}
+                        onChange={event => updateFilters({
+                          minSpiceLevel: event.target.value ? Number(event.target.value) : undefined,
+                        })}
+                      >
+                        <option value="">Any</option>
+                        {SCALE_OPTIONS.map(level => (
+                          <option key={level} value={level}>{level}</option>
+                        ))}
+                      </select>
+                      <span className="text-muted-foreground">to</span>
+                      <select
+                        aria-label="Maximum spice level"
+                        className={SELECT_CLASS_NAME}
+                        value={filters.maxSpiceLevel ?? ''}
+                        onChange={event => updateFilters({
+                          maxSpiceLevel: event.target.value ? Number(event.target.value) : undefined,
+                        })}
+                      >
+                        <option value="">Any</option>
+                        {SCALE_OPTIONS.map(level => (
+                          <option key={level} value={level}>{level}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </FormField>
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <FormField label="Serving size">
+                      <select
+                        aria-label="Serving size"
+                        className={SELECT_CLASS_NAME}
+                        value={filters.servingSize ?? ''}
+                        onChange={event => updateFilters({
+                          servingSize: (event.target.value || undefined) as ServingSize | undefined,
+                        })}
+                      >
+                        <option value="">Any</option>
+                        {SERVING_SIZE_OPTIONS.map(option => (
+                          <option key={option.value} value={option.value}>{option.label}</option>
+                        ))}
+                      </select>
+                    </FormField>
+                    <FormField label="Value for money">
+                      <select
+                        aria-label="Minimum value for money"
+                        className={SELECT_CLASS_NAME}
+                        value={filters.minValueForMoney ?? ''}
+                        onChange={event => updateFilters({
+                          minValueForMoney: event.target.value ? Number(event.target.value) : undefined,
+                        })}
+                      >
+                        <option value="">Any</option>
+                        {SCALE_OPTIONS.map(value => (
+                          <option key={value} value={value}>{value}+</option>
+                        ))}
+                      </select>
+                    </FormField>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-2 sm:col-span-2">
+                    <FormField label="Would recommend">
+                      <select
+                        aria-label="Would recommend"
+                        className={SELECT_CLASS_NAME}
+                        value={fromYesNo(filters.isRecommended)}
+                        onChange={event => updateFilters({ isRecommended: toYesNo(event.target.value) })}
+                      >
+                        <option value="">Any</option>
+                        <option value="yes">Yes</option>
+                        <option value="no">No</option>
+                      </select>
+                    </FormField>
+                    <FormField label="Would order again">
+                      <select
+                        aria-label="Would order again"
+                        className={SELECT_CLASS_NAME}
+                        value={fromYesNo(filters.wouldOrderAgain)}
+                        onChange={event => updateFilters({ wouldOrderAgain: toYesNo(event.target.value) })}
+                      >
+                        <option value="">Any</option>
+                        <option value="yes">Yes</option>
+                        <option value="no">No</option>
+                      </select>
+                    </FormField>
+                  </div>
+                </>
+              )}
+
+              {hasActiveFilters(filters) && (
+                <div className="sm:col-span-2 flex justify-end">
+                  <Button variant="ghost" size="sm" onClick={() => setFilters(EMPTY_SEARCH_FILTERS)}>
+                    Clear filters
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
       </div>
+
+      {!hasCriteria ? (
+        <p className="text-center text-muted-foreground py-8">
+          Search by title, description, place, cuisine or companions, or pick filters to find meals.
+        </p>
+      ) : status === 'LoadingFirstPage' ? (
+        <SearchResultsSkeleton />
+      ) : meals.length === 0 && status === 'Exhausted' ? (
+        <EmptySearch query={searchTerm || 'these filters'} onClearSearch={clearSearch} />
+      ) : (
+        <section aria-label="Search results" className="space-y-4">
+          <p className="text-sm text-muted-foreground" aria-live="polite">
+            {status === 'Exhausted' ? '' : 'Showing '}
+            {meals.length} meal{meals.length !== 1 ? 's' : ''}
+            {status === 'Exhausted' ? ' found' : ''}
+          </p>
+          <ul className="space-y-4">
+            {meals.map(meal => (
+              <li key={meal._id}>
+                <MealListItem meal={meal} />
+              </li>
+            ))}
+          </ul>
+
+          <div ref={sentinelRef} className="flex justify-center py-4">
+            {status === 'LoadingMore' && <InlineLoader className="w-6 h-6" />}
+            {status === 'CanLoadMore' && (
+              <Button variant="ghost" onClick={() => loadMore(PAGE_SIZE)}>
+                Load more
+              </Button>
+            )}
+          </div>
+        </section>
+      )}
     </div>
   );
-}
\ No newline at end of file
+}
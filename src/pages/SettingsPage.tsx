@@ -4,18 +4,23 @@
  * Comprehensive settings page that includes:
  * - User profile management via Clerk's UserProfile component
  * - FoodyLog-specific preferences (theme, currency, meal defaults)
+ * - Tag management (recolor, categorize, rename, merge)
  * - Account management and security settings
- * - Data export and privacy controls (future)
+ * - Data export (CSV or JSON archive, optionally for a date range)
+ * - Data import (CSV with column mapping, or a FoodyLog JSON export)
  * 
  * Implements Story 1.3.3: User Profile Management requirements:
  * - Integrates Clerk's UserProfile component for profile management
  * - Adds FoodyLog-specific user preferences
  * - Creates user settings page with app-specific options
  * - Syncs Clerk user data with Convex user records
- * - Handles account deletion through Clerk
+ * - Handles account deletion with a grace period (see AccountDeletion)
  */
 
 import { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQuery } from 'convex/react';
+import { api } from '../../convex/_generated/api';
 import { useAuth } from '../hooks/useAuth';
 import { useUserPreferences, useCurrencyPreference, useDefaultMealTypePreference } from '../hooks/useUserPreferences';
 import { useTheme } from '../lib/theme';
@@ -38,22 +43,14 @@ import {
   Badge, 
 } from '../components/ui';
 import { UserProfile } from '../components/auth/UserProfile';
+import { AccountDeletion } from '../components/settings/AccountDeletion';
+import { DataExport } from '../components/settings/DataExport';
+import { DataImport } from '../components/settings/DataImport';
+import { StorageUsage } from '../components/settings/StorageUsage';
+import { TagManager } from '../components/settings/TagManager';
+import { CURRENCY_OPTIONS } from '../lib/currency';
 
 
-/**
- * Currency options for the currency selector
- */
-const CURRENCY_OPTIONS = [
-  { code: 'USD', name: 'US Dollar', symbol: '$' },
-  { code: 'EUR', name: 'Euro', symbol: '€' },
-  { code: 'GBP', name: 'British Pound', symbol: '£' },
-  { code: 'CAD', name: 'Canadian Dollar', symbol: 'C$' },
-  { code: 'AUD', name: 'Australian Dollar', symbol: 'A$' },
-  { code: 'JPY', name: 'Japanese Yen', symbol: '¥' },
-  { code: 'CHF', name: 'Swiss Franc', symbol: 'CHF' },
-  { code: 'CNY', name: 'Chinese Yuan', symbol: '¥' },
-];
-
 /**
  * Meal type options for default meal type selector
  */
@@ -70,9 +67,11 @@ export function SettingsPage() {
   const { updatePreferences, isLoading: preferencesLoading, error } = useUserPreferences();
   const { currency, setCurrency } = useCurrencyPreference();
   const { defaultMealType, setDefaultMealType } = useDefaultMealTypePreference();
+  const subscription = useQuery(api.functions.subscriptions.getSubscription);
 
-  // Local state for UI
-  const [activeTab, setActiveTab] = useState('profile');
+  // Local state for UI; `?tab=` opens a tab directly (e.g. from upgrade prompts)
+  const [searchParams] = useSearchParams();
+  const [activeTab, setActiveTab] = useState(() => searchParams.get('tab') ?? 'profile');
   const [isUpdating, setIsUpdating] = useState(false);
 
   /**
@@ -147,9 +146,10 @@ export function SettingsPage() {
 
       {/* Settings Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="profile">Profile</TabsTrigger>
           <TabsTrigger value="preferences">Preferences</TabsTrigger>
+          <TabsTrigger value="tags">Tags</TabsTrigger>
           <TabsTrigger value="account">Account</TabsTrigger>
         </TabsList>
 
@@ -282,30 +282,20 @@ export function SettingsPage() {
               </CardContent>
             </Card>
 
-            {/* Privacy & Data */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  🔒 Privacy & Data
-                </CardTitle>
-                <CardDescription>
-                  Control your data and privacy settings
-                </CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="text-center py-8">
-                  <div className="text-4xl mb-3">🚧</div>
-                  <h3 className="text-lg font-semibold mb-2">Coming Soon</h3>
-                  <p className="text-muted-foreground text-sm">
-                    Data export, privacy controls, and sharing preferences will be available in future updates.
-                  </p>
-                </div>
-              </CardContent>
-            </Card>
+            {/* Data Export */}
+            <DataExport />
+
+            {/* Data Import */}
+            <DataImport />
 
           </div>
         </TabsContent>
 
+        {/* Tags Tab - Tag management */}
+        <TabsContent value="tags" className="space-y-6">
+          <TagManager />
+        </TabsContent>
+
         {/* Account Tab - Account management */}
         <TabsContent value="account" className="space-y-6">
           <div className="grid gap-6">
@@ -332,7 +322,21 @@ export function SettingsPage() {
                   </div>
                   <div>
                     <label className="text-sm font-medium text-muted-foreground">Subscription</label>
-                    <Badge variant="secondary">Free Tier</Badge>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant={subscription?.tier === 'premium' ? 'default' : 'secondary'}>
+                        {subscription?.tier === 'premium' ? 'Premium' : 'Free Tier'}
+                      </Badge>
+                      {subscription?.tier === 'premium' && subscription.expiresAt && (
+                        <span className="text-xs text-muted-foreground">
+                          {subscription.status === 'active' ? 'Renews' : 'Ends'} {new Date(subscription.expiresAt).toLocaleDateString()}
+                        </span>
+                      )}
+                    </div>
+                    {subscription?.tier === 'premium' && subscription.status === 'past_due' && (
+                      <p className="text-xs text-destructive mt-1">
+                        Your last payment failed. Update your payment method to keep Premium.
+                      </p>
+                    )}
                   </div>
                   <div>
                     <label className="text-sm font-medium text-muted-foreground">Member Since</label>
@@ -368,6 +372,9 @@ export function SettingsPage() {
               </CardContent>
             </Card>
 
+            {/* Photo Storage */}
+            <StorageUsage />
+
             {/* Danger Zone */}
             <Card className="border-destructive/20">
               <CardHeader>
@@ -379,18 +386,7 @@ export function SettingsPage() {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  <div>
-                    <h4 className="text-sm font-medium mb-2">Delete Account</h4>
-                    <p className="text-sm text-muted-foreground mb-3">
-                      Permanently delete your account and all associated data. This action cannot be undone.
-                    </p>
-                    <p className="text-xs text-muted-foreground mb-3">
-                      Account deletion is handled through your profile settings above.
-                      Navigate to the Profile tab and use Clerk&apos;s account management features.
-                    </p>
-                  </div>
-                </div>
+                <AccountDeletion />
               </CardContent>
             </Card>
 
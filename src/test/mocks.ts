@@ -29,6 +29,7 @@ export const mockConvexClient = {
 export const mockUseQuery = vi.fn();
 export const mockUseMutation = vi.fn();
 export const mockUseAction = vi.fn();
+export const mockUsePaginatedQuery = vi.fn();
 
 /**
  * Clerk Authentication Mocks
@@ -315,6 +316,7 @@ export function setupMocks() {
     useQuery: mockUseQuery,
     useMutation: mockUseMutation,
     useAction: mockUseAction,
+    usePaginatedQuery: mockUsePaginatedQuery,
     ConvexProvider: ({ children }: { children: React.ReactNode }) => children,
   }));
 
@@ -431,6 +433,13 @@ export function resetMocks() {
     user: mockClerkUser,
   });
 
+  mockUsePaginatedQuery.mockReturnValue({
+    results: [],
+    status: 'Exhausted',
+    isLoading: false,
+    loadMore: vi.fn(),
+  });
+
   mockCapacitorPreferences.get.mockImplementation(({ key }) => {
     const mockData: Record<string, any> = {
       'foodylog-ui-theme': { value: 'light' },